@@ -0,0 +1,111 @@
+import { PcmBuffer, createPcmBuffer, pcmFrameCount } from './pcm-buffer.js';
+import { AudioTrack, DuckingSettings } from '../interfaces/conversation.interface.js';
+
+/**
+ * Ducking used when a background track does not configure its own
+ */
+export const DEFAULT_DUCKING: DuckingSettings = {
+  enabled: true,
+  depth: 12,
+  attack: 50,
+  release: 500,
+  threshold: -40
+};
+
+const LOOP_CROSSFADE = 50; // ms across each loop seam
+
+/**
+ * Lay a background track out over `frames`: looped with a short crossfade
+ * at each seam (or played once and left silent after it ends), scaled by
+ * `volume` and faded in from the start and out to the end.
+ */
+export function renderAmbience(pcm: PcmBuffer, frames: number, track: Pick<AudioTrack, 'volume' | 'loop' | 'fadeIn' | 'fadeOut'>): PcmBuffer {
+  const length = pcmFrameCount(pcm);
+  const output = createPcmBuffer(pcm.sampleRate, pcm.channels.length, frames);
+  if (length === 0) return output;
+
+  const crossfade = Math.min(Math.round(LOOP_CROSSFADE * pcm.sampleRate / 1000), Math.floor(length / 2));
+  const period = length - crossfade; // each repeat starts this far after the last
+
+  pcm.channels.forEach((data, channel) => {
+    const target = output.channels[channel];
+
+    for (let start = 0; start < frames; start += period) {
+      const first = start === 0;
+      for (let i = 0; i < length && start + i < frames; i++) {
+        // Fade the new repeat in over the tail of the last; the tail fades out below
+        const fadeIn = !first && i < crossfade ? i / crossfade : 1;
+        const fadeOut = track.loop && i >= period ? (length - i) / crossfade : 1;
+        target[start + i] += data[i] * fadeIn * fadeOut;
+      }
+      if (!track.loop) break;
+    }
+  });
+
+  return applyFades(output, track.volume, track.fadeIn ?? 0, track.fadeOut ?? 0);
+}
+
+/**
+ * Lower `pcm` by `depth` dB wherever the sidechain `key` is above the
+ * threshold, easing down over `attack` and back up over `release`
+ */
+export function duck(pcm: PcmBuffer, key: PcmBuffer, settings: DuckingSettings = DEFAULT_DUCKING): PcmBuffer {
+  if (!settings.enabled) return pcm;
+
+  const gain = duckingEnvelope(key, pcmFrameCount(pcm), settings);
+  return { sampleRate: pcm.sampleRate, channels: pcm.channels.map(data => data.map((value, i) => value * gain[i])) };
+}
+
+/**
+ * Linear gain per frame for `duck`. The key is followed by its peak across
+ * channels; frames past the end of the key count as silence.
+ */
+export function duckingEnvelope(key: PcmBuffer, frames: number, settings: DuckingSettings = DEFAULT_DUCKING): Float32Array {
+  const keyFrames = pcmFrameCount(key);
+  const threshold = Math.pow(10, (settings.threshold ?? DEFAULT_DUCKING.threshold!) / 20);
+  const attack = smoothingCoefficient(settings.attack, key.sampleRate);
+  const release = smoothingCoefficient(settings.release, key.sampleRate);
+  const envelope = new Float32Array(frames);
+  let reduction = 0; // dB, <= 0
+
+  for (let i = 0; i < frames; i++) {
+    let peak = 0;
+    if (i < keyFrames) {
+      for (const data of key.channels) peak = Math.max(peak, Math.abs(data[i]));
+    }
+
+    const target = peak > threshold ? -Math.abs(settings.depth) : 0;
+    const coefficient = target < reduction ? attack : release;
+    reduction = coefficient * reduction + (1 - coefficient) * target;
+    envelope[i] = Math.pow(10, reduction / 20);
+  }
+
+  return envelope;
+}
+
+/**
+ * Volume with linear fades from silence at the start and to silence at the end
+ */
+function applyFades(pcm: PcmBuffer, volume: number, fadeIn: number, fadeOut: number): PcmBuffer {
+  const frames = pcmFrameCount(pcm);
+  const fadeInFrames = Math.round(fadeIn * pcm.sampleRate / 1000);
+  const fadeOutFrames = Math.round(fadeOut * pcm.sampleRate / 1000);
+
+  for (const data of pcm.channels) {
+    for (let i = 0; i < frames; i++) {
+      let gain = volume;
+      if (i < fadeInFrames) gain *= i / fadeInFrames;
+      if (frames - i <= fadeOutFrames) gain *= (frames - 1 - i) / fadeOutFrames;
+      data[i] *= gain;
+    }
+  }
+
+  return pcm;
+}
+
+/**
+ * One-pole coefficient reaching ~63% of a step in `ms` milliseconds
+ */
+function smoothingCoefficient(ms: number, sampleRate: number): number {
+  return ms > 0 ? Math.exp(-1000 / (ms * sampleRate)) : 0;
+}
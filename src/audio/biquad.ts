@@ -0,0 +1,106 @@
+export type BiquadType = 'lowpass' | 'highpass' | 'lowshelf' | 'highshelf' | 'peaking';
+
+export interface BiquadCoefficients {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+/**
+ * Second-order filter coefficients from the Audio EQ Cookbook (RBJ),
+ * normalized so a0 = 1. `gain` (dB) only applies to shelves and peaking;
+ * for shelves `q` sets the slope, 0.707 being the steepest without overshoot.
+ */
+export function designBiquad(type: BiquadType, frequency: number, sampleRate: number, q = Math.SQRT1_2, gain = 0): BiquadCoefficients {
+  if (!(frequency > 0 && frequency < sampleRate / 2)) {
+    throw new Error(`Filter frequency ${frequency} Hz is outside 0-${sampleRate / 2} Hz`);
+  }
+
+  const w0 = 2 * Math.PI * frequency / sampleRate;
+  const cos = Math.cos(w0);
+  const alpha = Math.sin(w0) / (2 * Math.max(q, 0.01));
+  const a = Math.pow(10, gain / 40);
+  let b0: number, b1: number, b2: number, a0: number, a1: number, a2: number;
+
+  switch (type) {
+    case 'lowpass':
+      b0 = (1 - cos) / 2; b1 = 1 - cos; b2 = (1 - cos) / 2;
+      a0 = 1 + alpha; a1 = -2 * cos; a2 = 1 - alpha;
+      break;
+    case 'highpass':
+      b0 = (1 + cos) / 2; b1 = -(1 + cos); b2 = (1 + cos) / 2;
+      a0 = 1 + alpha; a1 = -2 * cos; a2 = 1 - alpha;
+      break;
+    case 'peaking':
+      b0 = 1 + alpha * a; b1 = -2 * cos; b2 = 1 - alpha * a;
+      a0 = 1 + alpha / a; a1 = -2 * cos; a2 = 1 - alpha / a;
+      break;
+    case 'lowshelf': {
+      const root = 2 * Math.sqrt(a) * alpha;
+      b0 = a * ((a + 1) - (a - 1) * cos + root);
+      b1 = 2 * a * ((a - 1) - (a + 1) * cos);
+      b2 = a * ((a + 1) - (a - 1) * cos - root);
+      a0 = (a + 1) + (a - 1) * cos + root;
+      a1 = -2 * ((a - 1) + (a + 1) * cos);
+      a2 = (a + 1) + (a - 1) * cos - root;
+      break;
+    }
+    case 'highshelf': {
+      const root = 2 * Math.sqrt(a) * alpha;
+      b0 = a * ((a + 1) + (a - 1) * cos + root);
+      b1 = -2 * a * ((a - 1) + (a + 1) * cos);
+      b2 = a * ((a + 1) + (a - 1) * cos - root);
+      a0 = (a + 1) - (a - 1) * cos + root;
+      a1 = 2 * ((a - 1) - (a + 1) * cos);
+      a2 = (a + 1) - (a - 1) * cos - root;
+      break;
+    }
+    default:
+      throw new Error(`Unknown filter type: ${type}`);
+  }
+
+  return { b0: b0 / a0, b1: b1 / a0, b2: b2 / a0, a1: a1 / a0, a2: a2 / a0 };
+}
+
+/**
+ * Run one channel through a cascade of biquads (transposed direct form II,
+ * double precision state)
+ */
+export function applyBiquads(data: Float32Array, filters: BiquadCoefficients[]): Float32Array {
+  const output = Float32Array.from(data);
+
+  for (const { b0, b1, b2, a1, a2 } of filters) {
+    let z1 = 0;
+    let z2 = 0;
+
+    for (let i = 0; i < output.length; i++) {
+      const x = output[i];
+      const y = b0 * x + z1;
+      z1 = b1 * x - a1 * y + z2;
+      z2 = b2 * x - a2 * y;
+      output[i] = y;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Magnitude response in dB of a cascade at one frequency
+ */
+export function biquadResponse(filters: BiquadCoefficients[], frequency: number, sampleRate: number): number {
+  const w = 2 * Math.PI * frequency / sampleRate;
+  const cos1 = Math.cos(w), sin1 = Math.sin(w);
+  const cos2 = Math.cos(2 * w), sin2 = Math.sin(2 * w);
+
+  return filters.reduce((total, { b0, b1, b2, a1, a2 }) => {
+    const numRe = b0 + b1 * cos1 + b2 * cos2;
+    const numIm = -(b1 * sin1 + b2 * sin2);
+    const denRe = 1 + a1 * cos1 + a2 * cos2;
+    const denIm = -(a1 * sin1 + a2 * sin2);
+    const magnitude = Math.sqrt((numRe * numRe + numIm * numIm) / (denRe * denRe + denIm * denIm));
+    return total + 20 * Math.log10(magnitude);
+  }, 0);
+}
@@ -0,0 +1,79 @@
+import { PcmBuffer, createPcmBuffer, pcmFrameCount } from './pcm-buffer.js';
+
+/**
+ * Gains from input to output channels: `matrix[output][input]`
+ */
+export type ChannelMatrix = number[][];
+
+const MINUS_3DB = Math.SQRT1_2;
+
+/**
+ * Default up/down-mix between channel counts, following the usual
+ * conventions (channel order L, R, C, LFE, Ls, Rs for 5.1):
+ * - mono to stereo copies the signal to both sides; to surround it feeds the centre
+ * - stereo to mono averages the sides
+ * - 5.1 to stereo uses the ITU-R BS.775 fold-down (centre and surrounds at -3 dB, LFE dropped),
+ *   scaled so a full-scale input cannot clip
+ * - otherwise matching channels pass through, extra outputs stay silent and
+ *   extra inputs are folded in round-robin
+ */
+export function defaultChannelMatrix(inputChannels: number, outputChannels: number): ChannelMatrix {
+  const matrix: ChannelMatrix = Array.from({ length: outputChannels }, () => new Array(inputChannels).fill(0));
+
+  if (inputChannels === outputChannels) {
+    matrix.forEach((row, index) => { row[index] = 1; });
+  } else if (inputChannels === 1) {
+    if (outputChannels === 2) {
+      matrix[0][0] = 1;
+      matrix[1][0] = 1;
+    } else {
+      matrix[Math.min(2, outputChannels - 1)][0] = 1;
+    }
+  } else if (inputChannels === 6 && outputChannels === 2) {
+    const scale = 1 / (1 + MINUS_3DB * 2);
+    matrix[0] = [1, 0, MINUS_3DB, 0, MINUS_3DB, 0].map(gain => gain * scale);
+    matrix[1] = [0, 1, MINUS_3DB, 0, 0, MINUS_3DB].map(gain => gain * scale);
+  } else if (outputChannels === 1) {
+    matrix[0].fill(1 / inputChannels);
+  } else if (inputChannels < outputChannels) {
+    for (let channel = 0; channel < inputChannels; channel++) {
+      matrix[channel][channel] = 1;
+    }
+  } else {
+    for (let input = 0; input < inputChannels; input++) {
+      matrix[input % outputChannels][input] = 1;
+    }
+    // Average whatever was folded onto each output
+    matrix.forEach(row => {
+      const total = row.reduce((sum, gain) => sum + gain, 0);
+      row.forEach((gain, input) => { row[input] = gain / total; });
+    });
+  }
+
+  return matrix;
+}
+
+/**
+ * Apply a channel matrix. The output has one channel per matrix row.
+ */
+export function remixPcm(pcm: PcmBuffer, matrix: ChannelMatrix): PcmBuffer {
+  if (matrix.some(row => row.length !== pcm.channels.length)) {
+    throw new Error(`Channel matrix expects ${matrix[0]?.length ?? 0} input channels, got ${pcm.channels.length}`);
+  }
+
+  const frames = pcmFrameCount(pcm);
+  const output = createPcmBuffer(pcm.sampleRate, matrix.length, frames);
+
+  matrix.forEach((row, outputChannel) => {
+    const target = output.channels[outputChannel];
+    row.forEach((gain, inputChannel) => {
+      if (gain === 0) return;
+      const source = pcm.channels[inputChannel];
+      for (let frame = 0; frame < frames; frame++) {
+        target[frame] += source[frame] * gain;
+      }
+    });
+  });
+
+  return output;
+}
@@ -0,0 +1,80 @@
+import { PcmBuffer, createPcmBuffer, pcmFrameCount } from './pcm-buffer.js';
+import { resamplePcm } from './resampler.js';
+import { CompressionSettings } from '../interfaces/video.interface.js';
+
+export interface CompressorOptions {
+  knee?: number; // dB width of the soft knee around the threshold, default 6
+  sidechain?: PcmBuffer; // signal whose level drives the gain instead of the input, aligned to frame 0
+}
+
+export interface CompressorResult {
+  pcm: PcmBuffer;
+  maxReduction: number; // dB, before makeup gain
+}
+
+const DEFAULT_KNEE = 6;
+
+/**
+ * Feed-forward compressor with linked channels. The detector follows the
+ * peak level of the input (or the sidechain), the gain computer applies
+ * `ratio` above `threshold` with a quadratic soft knee, and the gain
+ * reduction is smoothed with separate attack and release times before the
+ * makeup gain is added.
+ */
+export function compress(pcm: PcmBuffer, settings: CompressionSettings, options: CompressorOptions = {}): CompressorResult {
+  if (!settings.enabled) {
+    return { pcm, maxReduction: 0 };
+  }
+
+  const frames = pcmFrameCount(pcm);
+  const knee = Math.max(0, options.knee ?? DEFAULT_KNEE);
+  const ratio = Math.max(1, settings.ratio);
+  const key = options.sidechain ? resamplePcm(options.sidechain, pcm.sampleRate) : pcm;
+  const keyFrames = pcmFrameCount(key);
+  const attack = smoothingCoefficient(settings.attack, pcm.sampleRate);
+  const release = smoothingCoefficient(settings.release, pcm.sampleRate);
+
+  const output = createPcmBuffer(pcm.sampleRate, pcm.channels.length, frames);
+  let reduction = 0; // smoothed gain change in dB, <= 0
+  let maxReduction = 0;
+
+  for (let i = 0; i < frames; i++) {
+    let peak = 0;
+    if (i < keyFrames) {
+      for (const data of key.channels) peak = Math.max(peak, Math.abs(data[i]));
+    }
+
+    const level = peak > 0 ? 20 * Math.log10(peak) : -Infinity;
+    const target = gainComputer(level, settings.threshold, ratio, knee) - level;
+    const coefficient = target < reduction ? attack : release;
+    reduction = Number.isFinite(target) ? coefficient * reduction + (1 - coefficient) * target : release * reduction;
+    maxReduction = Math.max(maxReduction, -reduction);
+
+    const gain = Math.pow(10, (reduction + settings.makeupGain) / 20);
+    for (let channel = 0; channel < pcm.channels.length; channel++) {
+      output.channels[channel][i] = pcm.channels[channel][i] * gain;
+    }
+  }
+
+  return { pcm: output, maxReduction };
+}
+
+/**
+ * Static curve: output level for an input level in dB
+ */
+export function gainComputer(level: number, threshold: number, ratio: number, knee = DEFAULT_KNEE): number {
+  const over = level - threshold;
+
+  if (2 * over < -knee) return level;
+  if (2 * Math.abs(over) <= knee && knee > 0) {
+    return level + (1 / ratio - 1) * Math.pow(over + knee / 2, 2) / (2 * knee);
+  }
+  return threshold + over / ratio;
+}
+
+/**
+ * One-pole coefficient reaching ~63% of a step in `ms` milliseconds
+ */
+function smoothingCoefficient(ms: number, sampleRate: number): number {
+  return ms > 0 ? Math.exp(-1000 / (ms * sampleRate)) : 0;
+}
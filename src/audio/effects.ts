@@ -0,0 +1,241 @@
+import { PcmBuffer, createPcmBuffer, pcmFrameCount } from './pcm-buffer.js';
+import { BiquadCoefficients, applyBiquads, designBiquad } from './biquad.js';
+import { applyReverb } from './reverb.js';
+import { seededNoise } from './noise.js';
+import { AudioEffect } from '../interfaces/conversation.interface.js';
+
+const MAX_TAIL = 5; // seconds
+const ECHO_FLOOR = 0.001; // -60 dB, where echo repeats stop
+
+/**
+ * Run a line through its effects in order. Each effect reads its optional
+ * `parameters` (Hz, ms, dB or plain factors, see the processors below) and
+ * treats `intensity` as how much of the effect is heard. Noise-based effects
+ * take a `seed` parameter so a line renders the same way every time.
+ */
+export function applyAudioEffects(pcm: PcmBuffer, effects: AudioEffect[]): PcmBuffer {
+  return effects.reduce((output, effect) => applyAudioEffect(output, effect), pcm);
+}
+
+/**
+ * Apply a single dialogue effect
+ */
+export function applyAudioEffect(pcm: PcmBuffer, effect: AudioEffect): PcmBuffer {
+  const intensity = Math.max(0, Math.min(1, effect.intensity));
+  const parameters = effect.parameters ?? {};
+  if (intensity === 0) return pcm;
+
+  switch (effect.type) {
+    case 'reverb':
+      return reverb(pcm, intensity, parameters);
+    case 'echo':
+      return echo(pcm, intensity, parameters);
+    case 'filter':
+      return filter(pcm, intensity, parameters);
+    case 'distortion':
+      return distortion(pcm, intensity, parameters);
+    case 'phone':
+      return phone(pcm, intensity, parameters);
+    case 'radio':
+      return radio(pcm, intensity, parameters);
+    case 'whisper':
+      return whisper(pcm, intensity, parameters);
+    case 'shout':
+      return shout(pcm, intensity, parameters);
+    default:
+      throw new Error(`Unknown audio effect: ${effect.type}`);
+  }
+}
+
+/**
+ * Room reverb; intensity sets the wet level and, unless given, the room size.
+ * Parameters: roomSize, damping (0-1), predelay (ms)
+ */
+function reverb(pcm: PcmBuffer, intensity: number, parameters: Record<string, number>): PcmBuffer {
+  return applyReverb(pcm, {
+    enabled: true,
+    roomSize: parameters.roomSize ?? 0.3 + 0.6 * intensity,
+    damping: parameters.damping ?? 0.5,
+    wetLevel: intensity,
+    dryLevel: 1 - intensity / 2,
+    predelay: parameters.predelay ?? 20
+  });
+}
+
+/**
+ * Feedback delay line; each repeat is `feedback` times quieter than the last
+ * and the output runs on until they fall below -60 dB.
+ * Parameters: delay (ms, default 300), feedback (0-0.95), mix (default intensity)
+ */
+function echo(pcm: PcmBuffer, intensity: number, parameters: Record<string, number>): PcmBuffer {
+  const delay = Math.max(1, Math.round((parameters.delay ?? 300) * pcm.sampleRate / 1000));
+  const feedback = Math.max(0, Math.min(0.95, parameters.feedback ?? 0.2 + 0.5 * intensity));
+  const mix = parameters.mix ?? intensity;
+  const repeats = feedback > 0 ? Math.ceil(Math.log(ECHO_FLOOR) / Math.log(feedback)) : 1;
+  const tail = Math.min(repeats * delay, MAX_TAIL * pcm.sampleRate);
+  const frames = pcmFrameCount(pcm);
+  const output = createPcmBuffer(pcm.sampleRate, pcm.channels.length, frames + tail);
+
+  pcm.channels.forEach((data, channel) => {
+    const line = new Float64Array(delay);
+    const target = output.channels[channel];
+
+    for (let i = 0; i < target.length; i++) {
+      const input = i < frames ? data[i] : 0;
+      const index = i % delay;
+      const delayed = line[index];
+      line[index] = input + delayed * feedback;
+      target[i] = input + delayed * mix;
+    }
+  });
+
+  return output;
+}
+
+/**
+ * Low- and/or high-pass filter. Without cutoffs, intensity sweeps a low-pass
+ * down from 20 kHz to 1 kHz. Parameters: lowCut, highCut (Hz), q
+ */
+function filter(pcm: PcmBuffer, intensity: number, parameters: Record<string, number>): PcmBuffer {
+  const highCut = parameters.highCut ?? (parameters.lowCut === undefined ? 20000 * Math.pow(0.05, intensity) : undefined);
+  const q = parameters.q ?? Math.SQRT1_2;
+  return mapChannels(pcm, data => applyBiquads(data, bandFilters(pcm.sampleRate, parameters.lowCut, highCut, 1, q)));
+}
+
+/**
+ * tanh waveshaper normalised so full scale stays at full scale.
+ * Parameters: drive (default 30 at full intensity), mix (default 1)
+ */
+function distortion(pcm: PcmBuffer, intensity: number, parameters: Record<string, number>): PcmBuffer {
+  const drive = 1 + intensity * (parameters.drive ?? 30);
+  const mix = parameters.mix ?? 1;
+  return mapChannels(pcm, data => blend(data, data.map(value => shape(value, drive)), mix));
+}
+
+/**
+ * Telephone line: 300-3400 Hz band, light saturation and line hiss.
+ * Parameters: lowCut, highCut (Hz), noise (hiss level, default 0.005)
+ */
+function phone(pcm: PcmBuffer, intensity: number, parameters: Record<string, number>): PcmBuffer {
+  const filters = bandFilters(pcm.sampleRate, parameters.lowCut ?? 300, parameters.highCut ?? 3400, 2);
+  const random = seededNoise(parameters.seed ?? 1);
+  const hiss = parameters.noise ?? 0.005;
+
+  return mapChannels(pcm, data => {
+    const band = applyBiquads(data, filters).map(value => shape(value * 1.5, 2) + (random() * hiss));
+    return blend(data, band, intensity);
+  });
+}
+
+/**
+ * Two-way radio: 500-3000 Hz band, hard saturation, hiss that only opens
+ * with the voice (squelch) and a burst of static when the carrier drops.
+ * Parameters: lowCut, highCut (Hz), noise (hiss level, default 0.02),
+ * squelch (ms of static after the line, default 150, 0 to disable)
+ */
+function radio(pcm: PcmBuffer, intensity: number, parameters: Record<string, number>): PcmBuffer {
+  const filters = bandFilters(pcm.sampleRate, parameters.lowCut ?? 500, parameters.highCut ?? 3000, 2);
+  const random = seededNoise(parameters.seed ?? 1);
+  const hiss = parameters.noise ?? 0.02;
+  const squelch = Math.max(0, Math.round((parameters.squelch ?? 150) * pcm.sampleRate / 1000));
+  const frames = pcmFrameCount(pcm);
+  const output = createPcmBuffer(pcm.sampleRate, pcm.channels.length, frames + squelch);
+
+  pcm.channels.forEach((data, channel) => {
+    const band = applyBiquads(data, filters);
+    const gate = envelope(data, 5, 100, pcm.sampleRate);
+    const burst = new Float32Array(squelch).map((_, i) => random() * 0.25 * Math.exp(-3 * i / squelch));
+    const crackle = applyBiquads(burst, filters);
+    const target = output.channels[channel];
+
+    for (let i = 0; i < target.length; i++) {
+      const dry = i < frames ? data[i] : 0;
+      const wet = i < frames
+        ? shape(band[i] * 3, 3) + (gate[i] > 0.01 ? random() * hiss : 0)
+        : crackle[i - frames];
+      target[i] = dry * (1 - intensity) + wet * intensity;
+    }
+  });
+
+  return output;
+}
+
+/**
+ * Whisper: strip the voiced low end and replace it with breath noise that
+ * follows the level of the line. Parameters: breath (noise level, default 0.5)
+ */
+function whisper(pcm: PcmBuffer, intensity: number, parameters: Record<string, number>): PcmBuffer {
+  const voiced = bandFilters(pcm.sampleRate, 500, undefined, 2);
+  const breathBand = bandFilters(pcm.sampleRate, 1000, 6000, 1);
+  const random = seededNoise(parameters.seed ?? 1);
+  const breath = parameters.breath ?? 0.5;
+
+  return mapChannels(pcm, data => {
+    const level = envelope(data, 5, 50, pcm.sampleRate);
+    const air = applyBiquads(level.map(value => value * random()), breathBand);
+    const body = applyBiquads(data, voiced);
+    return blend(data, body.map((value, i) => 0.3 * value + breath * air[i]), intensity);
+  });
+}
+
+/**
+ * Shout: more level, a presence boost and saturation as the voice strains.
+ * Parameters: gain (dB at full intensity, default 6), presence (Hz, default 2500)
+ */
+function shout(pcm: PcmBuffer, intensity: number, parameters: Record<string, number>): PcmBuffer {
+  const gain = Math.pow(10, (parameters.gain ?? 6) * intensity / 20);
+  const presence = [designBiquad('peaking', clampFrequency(parameters.presence ?? 2500, pcm.sampleRate), pcm.sampleRate, 1, 6 * intensity)];
+
+  return mapChannels(pcm, data => applyBiquads(data, presence).map(value => Math.tanh(value * gain)));
+}
+
+/**
+ * Butterworth high- and low-pass sections, `order` of each, with the
+ * cutoffs kept inside the sample rate
+ */
+function bandFilters(sampleRate: number, lowCut: number | undefined, highCut: number | undefined, order: number, q = Math.SQRT1_2): BiquadCoefficients[] {
+  const filters: BiquadCoefficients[] = [];
+  for (let i = 0; i < order; i++) {
+    if (lowCut !== undefined && lowCut > 0) filters.push(designBiquad('highpass', clampFrequency(lowCut, sampleRate), sampleRate, q));
+    if (highCut !== undefined && highCut < sampleRate * 0.45) filters.push(designBiquad('lowpass', clampFrequency(highCut, sampleRate), sampleRate, q));
+  }
+  return filters;
+}
+
+function clampFrequency(frequency: number, sampleRate: number): number {
+  return Math.max(10, Math.min(sampleRate * 0.45, frequency));
+}
+
+/**
+ * Normalised tanh waveshaper: unity at full scale, gain `drive` near zero
+ */
+function shape(value: number, drive: number): number {
+  return Math.tanh(value * drive) / Math.tanh(drive);
+}
+
+function blend(dry: Float32Array, wet: Float32Array, mix: number): Float32Array {
+  return wet.map((value, i) => dry[i] * (1 - mix) + value * mix);
+}
+
+function mapChannels(pcm: PcmBuffer, process: (data: Float32Array) => Float32Array): PcmBuffer {
+  return { sampleRate: pcm.sampleRate, channels: pcm.channels.map(process) };
+}
+
+/**
+ * Peak envelope follower with attack and release in milliseconds
+ */
+function envelope(data: Float32Array, attack: number, release: number, sampleRate: number): Float32Array {
+  const up = Math.exp(-1000 / (attack * sampleRate));
+  const down = Math.exp(-1000 / (release * sampleRate));
+  const output = new Float32Array(data.length);
+  let level = 0;
+
+  for (let i = 0; i < data.length; i++) {
+    const peak = Math.abs(data[i]);
+    const coefficient = peak > level ? up : down;
+    level = coefficient * level + (1 - coefficient) * peak;
+    output[i] = level;
+  }
+
+  return output;
+}
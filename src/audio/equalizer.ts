@@ -0,0 +1,107 @@
+import { PcmBuffer } from './pcm-buffer.js';
+import { BiquadCoefficients, applyBiquads, biquadResponse, designBiquad } from './biquad.js';
+import { EQPresetName, EQSettings } from '../interfaces/video.interface.js';
+
+/**
+ * Starting points for the post-production EQ presets
+ */
+export const EQ_PRESETS: Record<EQPresetName, EQSettings> = {
+  // General voice: clear out rumble and boxiness, a little presence
+  voice: {
+    enabled: true,
+    lowCut: 80,
+    lowShelf: { frequency: 200, gain: -2, q: 0.7 },
+    midPeaking: { frequency: 3000, gain: 2, q: 1.0 },
+    highShelf: { frequency: 10000, gain: 1.5, q: 0.7 },
+    highCut: 16000
+  },
+  // Close-miked narration: keep the chest warmth, gentle clarity
+  narration: {
+    enabled: true,
+    lowCut: 60,
+    lowShelf: { frequency: 150, gain: 1.5, q: 0.7 },
+    midPeaking: { frequency: 2500, gain: 1.5, q: 0.9 },
+    highShelf: { frequency: 8000, gain: 1, q: 0.7 },
+    highCut: 18000
+  },
+  // Dialogue under music and effects: less mud, more intelligibility
+  dialogue: {
+    enabled: true,
+    lowCut: 100,
+    lowShelf: { frequency: 250, gain: -3, q: 0.7 },
+    midPeaking: { frequency: 2500, gain: 3, q: 1.2 },
+    highShelf: { frequency: 8000, gain: 1, q: 0.7 },
+    highCut: 14000
+  },
+  // Documentary voice-over: natural and full, light polish
+  documentary: {
+    enabled: true,
+    lowCut: 70,
+    lowShelf: { frequency: 180, gain: 1, q: 0.7 },
+    midPeaking: { frequency: 1800, gain: 1, q: 0.8 },
+    highShelf: { frequency: 9000, gain: 0.5, q: 0.7 },
+    highCut: 16000
+  }
+};
+
+export function resolveEQSettings(eq: EQPresetName | EQSettings): EQSettings {
+  if (typeof eq !== 'string') return eq;
+
+  const preset = EQ_PRESETS[eq];
+  if (!preset) {
+    throw new Error(`Unknown EQ preset: ${eq}`);
+  }
+  return preset;
+}
+
+/**
+ * The biquad cascade for an EQ at a sample rate: low cut, low shelf, mid
+ * peaking, high shelf and high cut. Flat bands and cuts at or above the
+ * Nyquist frequency are left out.
+ */
+export function eqFilters(eq: EQPresetName | EQSettings, sampleRate: number): BiquadCoefficients[] {
+  const settings = resolveEQSettings(eq);
+  if (!settings.enabled) return [];
+
+  const nyquist = sampleRate / 2;
+  const inRange = (frequency: number) => frequency > 0 && frequency < nyquist;
+  const filters: BiquadCoefficients[] = [];
+
+  if (inRange(settings.lowCut)) {
+    filters.push(designBiquad('highpass', settings.lowCut, sampleRate));
+  }
+
+  const bands: [('lowshelf' | 'peaking' | 'highshelf'), EQSettings['lowShelf']][] = [
+    ['lowshelf', settings.lowShelf],
+    ['peaking', settings.midPeaking],
+    ['highshelf', settings.highShelf]
+  ];
+  for (const [type, band] of bands) {
+    if (band && band.gain !== 0 && inRange(band.frequency)) {
+      filters.push(designBiquad(type, band.frequency, sampleRate, band.q, band.gain));
+    }
+  }
+
+  if (inRange(settings.highCut)) {
+    filters.push(designBiquad('lowpass', settings.highCut, sampleRate));
+  }
+
+  return filters;
+}
+
+/**
+ * Render an EQ on every channel. Disabled or flat settings return the input.
+ */
+export function applyEQ(pcm: PcmBuffer, eq: EQPresetName | EQSettings): PcmBuffer {
+  const filters = eqFilters(eq, pcm.sampleRate);
+  if (filters.length === 0) return pcm;
+
+  return { sampleRate: pcm.sampleRate, channels: pcm.channels.map(data => applyBiquads(data, filters)) };
+}
+
+/**
+ * Gain in dB the EQ applies at a frequency
+ */
+export function eqResponse(eq: EQPresetName | EQSettings, frequency: number, sampleRate: number): number {
+  return biquadResponse(eqFilters(eq, sampleRate), frequency, sampleRate);
+}
@@ -0,0 +1,180 @@
+import { spawn } from 'child_process';
+import ffmpegStatic from 'ffmpeg-static';
+import { detectAudioFormat, finalizeWavHeader } from '../utils/audio-info.js';
+
+export interface FFmpegInput {
+  data: Buffer;
+  format?: string; // ffmpeg demuxer; probed from the magic bytes when omitted
+  options?: string[]; // extra input options, e.g. ['-ar', '24000', '-ac', '1'] for raw PCM
+}
+
+export interface FFmpegOutput {
+  format: string; // 'mp3', 'wav', 'aac' (ADTS), 'f32le', ...
+  codec?: string;
+  sampleRate?: number;
+  channels?: number;
+  bitrate?: number; // kbps
+  filters?: string[]; // applied to this output only, after the shared chain
+  label?: string; // filter graph pad to map, when `graph` is given
+}
+
+export interface FFmpegJob {
+  inputs: (Buffer | FFmpegInput)[];
+  filters?: string[]; // chain applied to the first input before it is split across outputs
+  graph?: string[]; // full filter graph instead of `filters`; outputs pick pads by label
+  outputs: FFmpegOutput[];
+}
+
+export interface FFmpegPipelineOptions {
+  binaryPath?: string; // default: the ffmpeg-static binary, then ffmpeg on the PATH
+  timeoutMs?: number; // default 120000
+}
+
+// Muxer names where they differ from the format users ask for
+const MUXERS: Record<string, string> = {
+  aac: 'adts'
+};
+
+/**
+ * Runs ffmpeg entirely over pipes: inputs are written to stdin (and extra file
+ * descriptors for more inputs), outputs are read from stdout (and extra file
+ * descriptors), so nothing touches the disk and concurrent jobs cannot collide.
+ */
+export class FFmpegPipeline {
+  private binaryPath: string;
+  private timeoutMs: number;
+
+  constructor(options: FFmpegPipelineOptions = {}) {
+    this.binaryPath = options.binaryPath || (ffmpegStatic as unknown as string | null) || 'ffmpeg';
+    this.timeoutMs = options.timeoutMs ?? 120000;
+  }
+
+  async run(job: FFmpegJob): Promise<Buffer[]> {
+    if (job.inputs.length === 0 || job.outputs.length === 0) {
+      throw new Error('ffmpeg job needs at least one input and one output');
+    }
+
+    const inputs = job.inputs.map(input => Buffer.isBuffer(input) ? { data: input } : input);
+    const { args, inputFds, outputFds } = this.buildCommand({ ...job, inputs });
+    const fdCount = Math.max(2, ...inputFds, ...outputFds) + 1;
+
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.binaryPath, args, { stdio: Array(fdCount).fill('pipe') });
+      const outputs: Buffer[][] = outputFds.map(() => []);
+      let stderr = '';
+      let settled = false;
+
+      const finish = (error: Error | null) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+
+        if (error) {
+          reject(error);
+          return;
+        }
+
+        resolve(outputs.map((chunks, index) => {
+          const audio = Buffer.concat(chunks);
+          return job.outputs[index].format === 'wav' ? finalizeWavHeader(audio) : audio;
+        }));
+      };
+
+      const timer = setTimeout(() => {
+        child.kill('SIGKILL');
+        finish(new Error(`ffmpeg timed out after ${this.timeoutMs}ms`));
+      }, this.timeoutMs);
+
+      outputFds.forEach((fd, index) => {
+        (child.stdio[fd] as NodeJS.ReadableStream).on('data', (chunk: Buffer) => outputs[index].push(chunk));
+      });
+
+      child.stderr!.on('data', (chunk: Buffer) => {
+        // Keep only the tail; ffmpeg can be chatty on long inputs
+        stderr = (stderr + chunk.toString()).slice(-4000);
+      });
+
+      inputFds.forEach((fd, index) => {
+        const stream = child.stdio[fd] as NodeJS.WritableStream;
+        // ffmpeg may stop reading early (e.g. on an error); the exit code reports why
+        stream.on('error', () => undefined);
+        stream.end(inputs[index].data);
+      });
+
+      child.on('error', error => finish(new Error(`Failed to start ffmpeg: ${error.message}`)));
+      child.on('close', (code, signal) => {
+        if (code === 0) {
+          finish(null);
+        } else {
+          finish(new Error(`ffmpeg exited with ${code ?? signal}: ${stderr.trim() || 'no error output'}`));
+        }
+      });
+    });
+  }
+
+  /**
+   * Build the argument list and file descriptor layout for a job. The first
+   * input is stdin and the first output stdout; further inputs and outputs use
+   * descriptors 3 and up.
+   */
+  buildCommand(job: FFmpegJob): { args: string[]; inputFds: number[]; outputFds: number[] } {
+    const inputs = job.inputs.map(input => Buffer.isBuffer(input) ? { data: input } : input);
+    const inputFds = inputs.map((_, index) => index === 0 ? 0 : 2 + index);
+    const outputFds = job.outputs.map((_, index) => index === 0 ? 1 : 1 + inputs.length + index);
+
+    // -nostdin only turns off interactive key handling; pipe:0 is still read as input
+    const args = ['-hide_banner', '-loglevel', 'error', '-nostdin'];
+
+    inputs.forEach((input, index) => {
+      const format = input.format || detectAudioFormat(input.data);
+      if (format) args.push('-f', format);
+      args.push(...(input.options || []), '-i', `pipe:${inputFds[index]}`);
+    });
+
+    const { graph, pads } = this.buildGraph(job);
+    if (graph.length > 0) {
+      args.push('-filter_complex', graph.join(';'));
+    }
+
+    job.outputs.forEach((output, index) => {
+      args.push('-map', pads[index] ? `[${pads[index]}]` : '0:a');
+      if (output.codec) args.push('-c:a', output.codec);
+      if (output.sampleRate) args.push('-ar', String(output.sampleRate));
+      if (output.channels) args.push('-ac', String(output.channels));
+      if (output.bitrate) args.push('-b:a', `${output.bitrate}k`);
+      args.push('-f', MUXERS[output.format] || output.format, `pipe:${outputFds[index]}`);
+    });
+
+    return { args, inputFds, outputFds };
+  }
+
+  private buildGraph(job: FFmpegJob): { graph: string[]; pads: (string | null)[] } {
+    if (job.graph) {
+      return { graph: [...job.graph], pads: job.outputs.map(output => output.label || null) };
+    }
+
+    const shared = job.filters || [];
+    const needsGraph = shared.length > 0 || job.outputs.some(output => output.filters?.length);
+    if (!needsGraph) {
+      return { graph: [], pads: job.outputs.map(() => null) };
+    }
+
+    // One decode, one shared chain, then split per output
+    const graph: string[] = [];
+    const count = job.outputs.length;
+    const chain = shared.length > 0 ? shared.join(',') : 'anull';
+    const splits = job.outputs.map((_, index) => `s${index}`);
+
+    graph.push(count > 1
+      ? `[0:a]${chain},asplit=${count}${splits.map(pad => `[${pad}]`).join('')}`
+      : `[0:a]${chain}[s0]`);
+
+    const pads = job.outputs.map((output, index) => {
+      if (!output.filters?.length) return splits[index];
+      graph.push(`[${splits[index]}]${output.filters.join(',')}[o${index}]`);
+      return `o${index}`;
+    });
+
+    return { graph, pads };
+  }
+}
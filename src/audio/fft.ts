@@ -0,0 +1,63 @@
+/**
+ * In-place iterative radix-2 FFT over separate real and imaginary arrays.
+ * The length must be a power of two; `inverse` includes the 1/N scaling.
+ */
+export function fft(real: Float64Array, imag: Float64Array, inverse = false): void {
+  const size = real.length;
+  if (size !== imag.length || (size & (size - 1)) !== 0) {
+    throw new Error(`FFT size must be a power of two, got ${size}`);
+  }
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < size; i++) {
+    let bit = size >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+
+  const sign = inverse ? 1 : -1;
+  for (let length = 2; length <= size; length <<= 1) {
+    const angle = sign * 2 * Math.PI / length;
+    const stepRe = Math.cos(angle);
+    const stepIm = Math.sin(angle);
+    const half = length >> 1;
+
+    for (let start = 0; start < size; start += length) {
+      let wRe = 1;
+      let wIm = 0;
+
+      for (let k = 0; k < half; k++) {
+        const even = start + k;
+        const odd = even + half;
+        const oddRe = real[odd] * wRe - imag[odd] * wIm;
+        const oddIm = real[odd] * wIm + imag[odd] * wRe;
+
+        real[odd] = real[even] - oddRe;
+        imag[odd] = imag[even] - oddIm;
+        real[even] += oddRe;
+        imag[even] += oddIm;
+
+        const nextRe = wRe * stepRe - wIm * stepIm;
+        wIm = wRe * stepIm + wIm * stepRe;
+        wRe = nextRe;
+      }
+    }
+  }
+
+  if (inverse) {
+    for (let i = 0; i < size; i++) {
+      real[i] /= size;
+      imag[i] /= size;
+    }
+  }
+}
+
+export function nextPowerOfTwo(value: number): number {
+  let size = 1;
+  while (size < value) size <<= 1;
+  return size;
+}
@@ -0,0 +1,105 @@
+import { PcmBuffer, createPcmBuffer, pcmFrameCount } from './pcm-buffer.js';
+import { truePeakEnvelope } from './loudness.js';
+import { LimiterSettings } from '../interfaces/video.interface.js';
+
+export interface LimiterResult {
+  pcm: PcmBuffer;
+  maxReduction: number; // dB of gain reduction at the loudest peak, 0 when untouched
+}
+
+const LOOKAHEAD_MS = 1.5;
+
+/**
+ * Lookahead true-peak limiter with linked channels. Peaks are detected on
+ * the 4x oversampled signal; above `threshold` they are bent with a soft
+ * knee that never crosses `ceiling`. Gain ramps down over the lookahead
+ * window so it is already reduced when the peak arrives, and recovers over
+ * `release` milliseconds.
+ */
+export function limitTruePeak(pcm: PcmBuffer, settings: LimiterSettings): LimiterResult {
+  if (!settings.enabled) {
+    return { pcm, maxReduction: 0 };
+  }
+
+  const frames = pcmFrameCount(pcm);
+  const ceiling = settings.ceiling;
+  const threshold = Math.min(settings.threshold, ceiling);
+  const envelope = truePeakEnvelope(pcm);
+
+  // Gain each frame needs on its own to land under the limiter curve
+  const required = new Float32Array(frames);
+  let limited = false;
+  for (let i = 0; i < frames; i++) {
+    const level = toDecibels(envelope[i]);
+    const target = limiterCurve(level, threshold, ceiling);
+    required[i] = target < level ? Math.pow(10, (target - level) / 20) : 1;
+    if (required[i] < 1) limited = true;
+  }
+
+  if (!limited) {
+    return { pcm, maxReduction: 0 };
+  }
+
+  const lookahead = Math.max(1, Math.round(pcm.sampleRate * LOOKAHEAD_MS / 1000));
+  const held = slidingMinimum(required, lookahead);
+
+  // Release: recover exponentially, but never above what the next peaks allow
+  const releaseCoefficient = 1 - Math.exp(-1000 / (Math.max(1, settings.release) * pcm.sampleRate));
+  const released = new Float32Array(frames);
+  let gain = 1;
+  for (let i = 0; i < frames; i++) {
+    gain = Math.min(held[i], gain + (1 - gain) * releaseCoefficient);
+    released[i] = gain;
+  }
+
+  // Attack: average over the lookahead window; every frame in it was held at or below this frame's need
+  const output = createPcmBuffer(pcm.sampleRate, pcm.channels.length, frames);
+  let sum = 0;
+  let minimum = 1;
+  for (let i = 0; i < frames; i++) {
+    sum += released[i];
+    if (i >= lookahead) sum -= released[i - lookahead];
+    const smoothed = sum / Math.min(i + 1, lookahead);
+    minimum = Math.min(minimum, smoothed);
+
+    for (let channel = 0; channel < pcm.channels.length; channel++) {
+      output.channels[channel][i] = pcm.channels[channel][i] * smoothed;
+    }
+  }
+
+  return { pcm: output, maxReduction: -toDecibels(minimum) };
+}
+
+/**
+ * Output level for an input level: unity below the threshold, then an
+ * exponential knee approaching the ceiling
+ */
+function limiterCurve(level: number, threshold: number, ceiling: number): number {
+  if (level <= threshold) return level;
+  const knee = ceiling - threshold;
+  if (knee <= 0) return ceiling;
+  return threshold + knee * (1 - Math.exp(-(level - threshold) / knee));
+}
+
+/**
+ * Minimum of each frame and the `window - 1` frames after it (monotonic deque)
+ */
+function slidingMinimum(values: Float32Array, window: number): Float32Array {
+  const result = new Float32Array(values.length);
+  const deque = new Int32Array(values.length);
+  let head = 0;
+  let tail = 0;
+
+  for (let i = values.length - 1; i >= 0; i--) {
+    while (tail > head && values[deque[tail - 1]] >= values[i]) tail--;
+    deque[tail++] = i;
+    if (deque[head] >= i + window) head++;
+    result[i] = values[deque[head]];
+  }
+
+  return result;
+}
+
+function toDecibels(amplitude: number): number {
+  return amplitude > 0 ? 20 * Math.log10(amplitude) : -Infinity;
+}
@@ -0,0 +1,135 @@
+import { PcmBuffer } from './pcm-buffer.js';
+import { LoudnessReport, measureLoudness } from './loudness.js';
+import { limitTruePeak } from './limiter.js';
+import {
+  LimiterSettings,
+  LoudnessProfileName,
+  LoudnessTarget,
+  VideoAudioSettings,
+  VideoExportConfig
+} from '../interfaces/video.interface.js';
+
+export interface LoudnessNormalizationResult {
+  pcm: PcmBuffer;
+  before: LoudnessReport;
+  after: LoudnessReport;
+  gain: number; // dB applied before limiting
+  limited: boolean;
+}
+
+/**
+ * Delivery targets: EBU R128 broadcast, ATSC A/85, podcast platforms and
+ * music/video streaming services
+ */
+export const LOUDNESS_PROFILES: Record<LoudnessProfileName, LoudnessTarget> = {
+  broadcast: { targetLUFS: -23, truePeakCeiling: -1 },
+  atsc: { targetLUFS: -24, truePeakCeiling: -2 },
+  podcast: { targetLUFS: -16, truePeakCeiling: -1 },
+  streaming: { targetLUFS: -14, truePeakCeiling: -1 }
+};
+
+const DEFAULT_CEILING = -1; // dBTP
+const DEFAULT_RELEASE = 100; // ms
+const LOUDNESS_TOLERANCE = 0.1; // LU
+const PEAK_TOLERANCE = 0.05; // dB
+const MAX_PASSES = 4;
+const MAX_MAKEUP = 3; // dB of extra gain allowed to win back what the limiter took
+
+export function resolveLoudnessTarget(target: LoudnessProfileName | LoudnessTarget): LoudnessTarget {
+  if (typeof target !== 'string') return target;
+
+  const profile = LOUDNESS_PROFILES[target];
+  if (!profile) {
+    throw new Error(`Unknown loudness profile: ${target}`);
+  }
+  return profile;
+}
+
+/**
+ * Target from the video post-production settings: `targetLUFS`, with the
+ * limiter's ceiling as the true-peak ceiling when it is enabled
+ */
+export function loudnessTargetFromSettings(settings: VideoAudioSettings): LoudnessTarget {
+  return {
+    targetLUFS: settings.targetLUFS,
+    truePeakCeiling: settings.limiter.enabled ? settings.limiter.ceiling : DEFAULT_CEILING,
+    limiter: settings.limiter
+  };
+}
+
+/**
+ * Target for an export: a named profile wins, then an explicit `targetLUFS`,
+ * then the loudness standard, then the post-production settings
+ */
+export function loudnessTargetForExport(config: VideoExportConfig, settings?: VideoAudioSettings): LoudnessTarget | undefined {
+  const base = settings ? loudnessTargetFromSettings(settings) : undefined;
+
+  if (config.loudnessProfile) {
+    return { ...resolveLoudnessTarget(config.loudnessProfile), limiter: base?.limiter };
+  }
+
+  if (config.targetLUFS !== undefined) {
+    return { ...base, targetLUFS: config.targetLUFS };
+  }
+
+  if (config.loudnessStandard) {
+    const standard = config.loudnessStandard === 'EBU_R128' ? LOUDNESS_PROFILES.broadcast : LOUDNESS_PROFILES.atsc;
+    return { ...standard, limiter: base?.limiter };
+  }
+
+  return base;
+}
+
+/**
+ * Two-pass loudness normalization: measure integrated loudness, apply the
+ * gain that reaches the target, then hold true peaks under the ceiling with
+ * the limiter. Limiting lowers loudness a little, so the result is measured
+ * again and corrected until it is within 0.1 LU of the target. Silence is
+ * returned unchanged.
+ */
+export function normalizeLoudness(pcm: PcmBuffer, target: LoudnessProfileName | LoudnessTarget): LoudnessNormalizationResult {
+  const resolved = resolveLoudnessTarget(target);
+  const before = measureLoudness(pcm);
+
+  if (!Number.isFinite(before.integrated)) {
+    return { pcm, before, after: before, gain: 0, limited: false };
+  }
+
+  const ceiling = resolved.limiter?.ceiling ?? resolved.truePeakCeiling ?? DEFAULT_CEILING;
+  const limiter: LimiterSettings = resolved.limiter ?? {
+    enabled: true,
+    threshold: ceiling,
+    ceiling,
+    release: DEFAULT_RELEASE
+  };
+  const initialGain = resolved.targetLUFS - before.integrated;
+
+  let gain = initialGain;
+  let margin = 0; // dB the limiter ceiling is pulled in to absorb overshoot
+  let result: LoudnessNormalizationResult = { pcm, before, after: before, gain: 0, limited: false };
+
+  for (let pass = 0; pass < MAX_PASSES; pass++) {
+    const limited = limitTruePeak(applyGain(pcm, gain), {
+      ...limiter,
+      ceiling: limiter.ceiling - margin,
+      threshold: Math.min(limiter.threshold, limiter.ceiling - margin)
+    });
+    const after = measureLoudness(limited.pcm);
+    result = { pcm: limited.pcm, before, after, gain, limited: limited.maxReduction > 0 };
+
+    const overshoot = limiter.enabled ? after.truePeak - limiter.ceiling : 0;
+    const error = resolved.targetLUFS - after.integrated;
+
+    if (overshoot <= PEAK_TOLERANCE && Math.abs(error) <= LOUDNESS_TOLERANCE) break;
+
+    if (overshoot > PEAK_TOLERANCE) margin += overshoot;
+    gain = Math.min(initialGain + MAX_MAKEUP, gain + error);
+  }
+
+  return result;
+}
+
+function applyGain(pcm: PcmBuffer, decibels: number): PcmBuffer {
+  const factor = Math.pow(10, decibels / 20);
+  return { sampleRate: pcm.sampleRate, channels: pcm.channels.map(data => data.map(sample => sample * factor)) };
+}
@@ -0,0 +1,248 @@
+import { PcmBuffer, pcmFrameCount } from './pcm-buffer.js';
+import { polyphaseFilterBank } from './resampler.js';
+import { AudioQualityMetrics } from '../interfaces/video.interface.js';
+
+export interface LoudnessReport {
+  integrated: number; // LUFS, gated per BS.1770-4; -Infinity for silence
+  momentary: number[]; // LUFS over 400 ms windows, one every 100 ms
+  shortTerm: number[]; // LUFS over 3 s windows, one every 100 ms
+  momentaryMax: number; // LUFS
+  shortTermMax: number; // LUFS
+  range: number; // loudness range (LRA) in LU, per EBU Tech 3342
+  samplePeak: number; // dBFS
+  truePeak: number; // dBTP, from 4x oversampling
+  duration: number; // seconds
+}
+
+const ABSOLUTE_GATE = -70; // LUFS
+const RELATIVE_GATE = -10; // LU below the absolute-gated loudness
+const RANGE_RELATIVE_GATE = -20;
+const TRUE_PEAK_OVERSAMPLING = 4;
+
+/**
+ * Measure loudness per ITU-R BS.1770-4 / EBU R128: K-weighted, channel
+ * weighted mean square over 400 ms (momentary) and 3 s (short-term) windows
+ * stepped every 100 ms, a two-stage gated integrated level, loudness range,
+ * and sample and true peak. Clips shorter than a window are measured as a whole.
+ */
+export function measureLoudness(pcm: PcmBuffer): LoudnessReport {
+  const frames = pcmFrameCount(pcm);
+  const step = Math.max(1, Math.round(pcm.sampleRate / 10));
+  const steps = Math.floor(frames / step);
+
+  // Channel-weighted K-filtered energy per 100 ms step
+  const energy = new Float64Array(Math.max(1, steps));
+  let total = 0;
+
+  pcm.channels.forEach((data, channel) => {
+    const weight = channelWeight(channel, pcm.channels.length);
+    if (weight === 0) return;
+
+    const filtered = kWeight(data, pcm.sampleRate);
+    for (let frame = 0; frame < frames; frame++) {
+      const power = filtered[frame] * filtered[frame] * weight;
+      total += power;
+      if (frame < steps * step) energy[Math.floor(frame / step)] += power;
+    }
+  });
+
+  const windowPowers = (length: number): number[] => {
+    if (steps < length) {
+      return frames > 0 ? [total / frames] : [];
+    }
+
+    const powers: number[] = [];
+    let sum = 0;
+    for (let index = 0; index < steps; index++) {
+      sum += energy[index];
+      if (index >= length) sum -= energy[index - length];
+      if (index >= length - 1) powers.push(Math.max(0, sum) / (length * step));
+    }
+    return powers;
+  };
+
+  const momentaryPowers = windowPowers(4);
+  const shortTermPowers = windowPowers(30);
+  const momentary = momentaryPowers.map(toLoudness);
+  const shortTerm = shortTermPowers.map(toLoudness);
+
+  const samplePeak = pcm.channels.reduce((peak, data) => {
+    for (let i = 0; i < data.length; i++) peak = Math.max(peak, Math.abs(data[i]));
+    return peak;
+  }, 0);
+
+  return {
+    integrated: gatedLoudness(momentaryPowers),
+    momentary,
+    shortTerm,
+    momentaryMax: momentary.reduce((max, value) => Math.max(max, value), -Infinity),
+    shortTermMax: shortTerm.reduce((max, value) => Math.max(max, value), -Infinity),
+    range: loudnessRange(shortTermPowers),
+    samplePeak: toDecibels(samplePeak),
+    truePeak: toDecibels(Math.max(samplePeak, truePeak(pcm))),
+    duration: frames / pcm.sampleRate
+  };
+}
+
+/**
+ * One line per figure, for CLI and MCP reports
+ */
+export function describeLoudness(report: LoudnessReport): string[] {
+  return [
+    `🔊 Integrated: ${formatLevel(report.integrated)} LUFS`,
+    `📈 Loudness range: ${report.range.toFixed(1)} LU`,
+    `⚡ Momentary max: ${formatLevel(report.momentaryMax)} LUFS`,
+    `🕒 Short-term max: ${formatLevel(report.shortTermMax)} LUFS`,
+    `📍 Sample peak: ${formatLevel(report.samplePeak)} dBFS`,
+    `🎯 True peak: ${formatLevel(report.truePeak)} dBTP`,
+    `⏱️ Duration: ${report.duration.toFixed(2)}s`
+  ];
+}
+
+/**
+ * The loudness-derived subset of the video export quality metrics
+ */
+export function loudnessQualityMetrics(report: LoudnessReport): Pick<AudioQualityMetrics, 'lufs' | 'peak' | 'truePeak' | 'dynamicRange'> {
+  return {
+    lufs: report.integrated,
+    peak: report.samplePeak,
+    truePeak: report.truePeak,
+    dynamicRange: report.range
+  };
+}
+
+function formatLevel(value: number): string {
+  return Number.isFinite(value) ? value.toFixed(1) : '-inf';
+}
+
+function toLoudness(power: number): number {
+  return power > 0 ? -0.691 + 10 * Math.log10(power) : -Infinity;
+}
+
+function toDecibels(amplitude: number): number {
+  return amplitude > 0 ? 20 * Math.log10(amplitude) : -Infinity;
+}
+
+/**
+ * BS.1770 channel weights: surrounds +1.5 dB, LFE excluded. Assumes the
+ * L, R, C, LFE, Ls, Rs order for 5.1 and L, R, C, Ls, Rs for 5.0.
+ */
+function channelWeight(channel: number, channelCount: number): number {
+  if (channelCount === 6) return [1, 1, 1, 0, 1.41, 1.41][channel];
+  if (channelCount === 5) return [1, 1, 1, 1.41, 1.41][channel];
+  return 1;
+}
+
+/**
+ * K-weighting: the BS.1770 high-shelf pre-filter followed by the RLB
+ * high-pass, with coefficients derived for any sample rate
+ */
+function kWeight(data: Float32Array, sampleRate: number): Float64Array {
+  // Stage 1: high shelf, +4 dB above ~1.7 kHz
+  let k = Math.tan(Math.PI * 1681.974450955533 / sampleRate);
+  const gain = Math.pow(10, 3.999843853973347 / 20);
+  const boost = Math.pow(gain, 0.4996667741545416);
+  let q = 0.7071752369554196;
+  let a0 = 1 + k / q + k * k;
+  const shelf = {
+    b0: (gain + boost * k / q + k * k) / a0,
+    b1: 2 * (k * k - gain) / a0,
+    b2: (gain - boost * k / q + k * k) / a0,
+    a1: 2 * (k * k - 1) / a0,
+    a2: (1 - k / q + k * k) / a0
+  };
+
+  // Stage 2: high pass at ~38 Hz
+  k = Math.tan(Math.PI * 38.13547087602444 / sampleRate);
+  q = 0.5003270373238773;
+  a0 = 1 + k / q + k * k;
+  const highPass = { b0: 1, b1: -2, b2: 1, a1: 2 * (k * k - 1) / a0, a2: (1 - k / q + k * k) / a0 };
+
+  const output = new Float64Array(data.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0, z1 = 0, z2 = 0;
+
+  for (let i = 0; i < data.length; i++) {
+    const x = data[i];
+    const y = shelf.b0 * x + shelf.b1 * x1 + shelf.b2 * x2 - shelf.a1 * y1 - shelf.a2 * y2;
+    x2 = x1; x1 = x;
+    const z = highPass.b0 * y + highPass.b1 * y1 + highPass.b2 * y2 - highPass.a1 * z1 - highPass.a2 * z2;
+    y2 = y1; y1 = y;
+    z2 = z1; z1 = z;
+    output[i] = z;
+  }
+
+  return output;
+}
+
+/**
+ * Integrated loudness: drop blocks below -70 LUFS, then blocks more than
+ * 10 LU below the mean of what is left
+ */
+function gatedLoudness(powers: number[]): number {
+  const absolute = powers.filter(power => toLoudness(power) > ABSOLUTE_GATE);
+  if (absolute.length === 0) return -Infinity;
+
+  const threshold = toLoudness(mean(absolute)) + RELATIVE_GATE;
+  const relative = absolute.filter(power => toLoudness(power) > threshold);
+  return relative.length > 0 ? toLoudness(mean(relative)) : -Infinity;
+}
+
+/**
+ * LRA: spread between the 10th and 95th percentile of gated short-term loudness
+ */
+function loudnessRange(powers: number[]): number {
+  const absolute = powers.filter(power => toLoudness(power) > ABSOLUTE_GATE);
+  if (absolute.length < 2) return 0;
+
+  const threshold = toLoudness(mean(absolute)) + RANGE_RELATIVE_GATE;
+  const levels = absolute.map(toLoudness).filter(level => level > threshold).sort((a, b) => a - b);
+  if (levels.length < 2) return 0;
+
+  return percentile(levels, 0.95) - percentile(levels, 0.1);
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function percentile(sorted: number[], fraction: number): number {
+  const position = (sorted.length - 1) * fraction;
+  const lower = Math.floor(position);
+  const upper = Math.min(sorted.length - 1, lower + 1);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * True peak at every frame: the highest absolute value of the signal
+ * interpolated at four times the sample rate between this frame and the
+ * next, across all channels. Catches inter-sample peaks a DAC would reproduce.
+ */
+export function truePeakEnvelope(pcm: PcmBuffer): Float32Array {
+  const halfWidth = 6;
+  const bank = polyphaseFilterBank(TRUE_PEAK_OVERSAMPLING, halfWidth, 0.9, 6);
+  const envelope = new Float32Array(pcmFrameCount(pcm));
+
+  for (const data of pcm.channels) {
+    for (let index = 0; index < data.length; index++) {
+      const first = index - halfWidth + 1;
+      let peak = envelope[index];
+
+      for (const coefficients of bank) {
+        let sum = 0;
+        for (let tap = 0; tap < coefficients.length; tap++) {
+          const sample = first + tap;
+          if (sample >= 0 && sample < data.length) sum += data[sample] * coefficients[tap];
+        }
+        peak = Math.max(peak, Math.abs(sum));
+      }
+
+      envelope[index] = peak;
+    }
+  }
+
+  return envelope;
+}
+
+function truePeak(pcm: PcmBuffer): number {
+  return truePeakEnvelope(pcm).reduce((peak, value) => Math.max(peak, value), 0);
+}
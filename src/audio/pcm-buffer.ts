@@ -0,0 +1,107 @@
+/**
+ * Decoded audio as one Float32Array per channel, samples in [-1, 1]
+ */
+export interface PcmBuffer {
+  sampleRate: number;
+  channels: Float32Array[];
+}
+
+export function createPcmBuffer(sampleRate: number, channelCount: number, frames: number): PcmBuffer {
+  return {
+    sampleRate,
+    channels: Array.from({ length: channelCount }, () => new Float32Array(frames))
+  };
+}
+
+export function pcmFrameCount(pcm: PcmBuffer): number {
+  return pcm.channels[0]?.length ?? 0;
+}
+
+export function pcmDuration(pcm: PcmBuffer): number {
+  return pcmFrameCount(pcm) / pcm.sampleRate;
+}
+
+/**
+ * Planar to interleaved (L R L R ...), the layout raw PCM streams use
+ */
+export function interleave(pcm: PcmBuffer): Float32Array {
+  const channelCount = pcm.channels.length;
+  const frames = pcmFrameCount(pcm);
+  const samples = new Float32Array(frames * channelCount);
+
+  for (let channel = 0; channel < channelCount; channel++) {
+    const data = pcm.channels[channel];
+    for (let frame = 0; frame < frames; frame++) {
+      samples[frame * channelCount + channel] = data[frame];
+    }
+  }
+
+  return samples;
+}
+
+export function deinterleave(samples: Float32Array, channelCount: number, sampleRate: number): PcmBuffer {
+  const frames = Math.floor(samples.length / channelCount);
+  const pcm = createPcmBuffer(sampleRate, channelCount, frames);
+
+  for (let channel = 0; channel < channelCount; channel++) {
+    const data = pcm.channels[channel];
+    for (let frame = 0; frame < frames; frame++) {
+      data[frame] = samples[frame * channelCount + channel];
+    }
+  }
+
+  return pcm;
+}
+
+/**
+ * Join clips end to end. `crossfades[i]` is the overlap in seconds between
+ * clip i and clip i + 1 (0 for a butt splice); overlaps use an equal-power
+ * curve so the perceived level stays constant through the seam.
+ */
+export function joinPcm(parts: PcmBuffer[], crossfades: number[] = []): PcmBuffer {
+  if (parts.length === 0) {
+    throw new Error('No audio to join');
+  }
+
+  const { sampleRate } = parts[0];
+  const channelCount = parts[0].channels.length;
+  if (parts.some(part => part.sampleRate !== sampleRate || part.channels.length !== channelCount)) {
+    throw new Error('All clips must share a sample rate and channel count before joining');
+  }
+
+  // Overlaps can never be longer than either clip they join
+  const overlaps = parts.slice(1).map((part, index) => Math.min(
+    Math.round(Math.max(0, crossfades[index] ?? 0) * sampleRate),
+    pcmFrameCount(parts[index]),
+    pcmFrameCount(part)
+  ));
+
+  const totalFrames = parts.reduce((sum, part) => sum + pcmFrameCount(part), 0) - overlaps.reduce((sum, n) => sum + n, 0);
+  const output = createPcmBuffer(sampleRate, channelCount, totalFrames);
+  let position = 0;
+
+  parts.forEach((part, index) => {
+    const fadeIn = index > 0 ? overlaps[index - 1] : 0;
+    position -= fadeIn;
+
+    for (let channel = 0; channel < channelCount; channel++) {
+      const source = part.channels[channel];
+      const target = output.channels[channel];
+
+      for (let frame = 0; frame < source.length; frame++) {
+        if (frame < fadeIn) {
+          // The previous clip is already in the output at full level; bend both curves
+          const progress = (frame + 0.5) / fadeIn;
+          const outgoing = target[position + frame] * Math.cos(progress * Math.PI / 2);
+          target[position + frame] = outgoing + source[frame] * Math.sin(progress * Math.PI / 2);
+        } else {
+          target[position + frame] = source[frame];
+        }
+      }
+    }
+
+    position += pcmFrameCount(part);
+  });
+
+  return output;
+}
@@ -0,0 +1,138 @@
+import { PcmBuffer, createPcmBuffer, pcmFrameCount } from './pcm-buffer.js';
+
+export type ResampleQuality = 'fast' | 'standard' | 'high';
+
+interface FilterDesign {
+  halfWidth: number; // taps on each side of the output position
+  beta: number; // Kaiser window shape
+  rolloff: number; // cutoff as a fraction of the lower Nyquist frequency
+}
+
+const FILTER_DESIGNS: Record<ResampleQuality, FilterDesign> = {
+  fast: { halfWidth: 8, beta: 6, rolloff: 0.9 },
+  standard: { halfWidth: 16, beta: 8, rolloff: 0.94 },
+  high: { halfWidth: 32, beta: 10, rolloff: 0.96 }
+};
+
+// Rational ratios with more phases than this compute each phase on demand
+const MAX_PHASES = 4096;
+
+/**
+ * Convert PCM to another sample rate with a Kaiser-windowed sinc filter.
+ * Common ratios (22.05/24/44.1/48 kHz) are rational with few phases, so the
+ * filter bank is precomputed once and applied polyphase-style. Downsampling
+ * lowers the cutoff below the new Nyquist frequency to prevent aliasing.
+ */
+export function resamplePcm(pcm: PcmBuffer, targetRate: number, quality: ResampleQuality = 'high'): PcmBuffer {
+  if (!Number.isFinite(targetRate) || targetRate <= 0) {
+    throw new Error(`Invalid sample rate: ${targetRate}`);
+  }
+
+  if (pcm.sampleRate === targetRate) {
+    return pcm;
+  }
+
+  const design = FILTER_DESIGNS[quality];
+  const divisor = gcd(Math.round(pcm.sampleRate), Math.round(targetRate));
+  const up = Math.round(targetRate) / divisor; // phases per input sample
+  const down = Math.round(pcm.sampleRate) / divisor;
+  const cutoff = Math.min(1, targetRate / pcm.sampleRate) * design.rolloff;
+  // Widen the filter when downsampling so it still spans the same number of zero crossings
+  const halfWidth = Math.ceil(design.halfWidth / Math.min(1, targetRate / pcm.sampleRate));
+  const taps = halfWidth * 2;
+
+  const bank = up <= MAX_PHASES ? polyphaseFilterBank(up, halfWidth, cutoff, design.beta) : null;
+
+  const inputFrames = pcmFrameCount(pcm);
+  const outputFrames = Math.round(inputFrames * up / down);
+  const output = createPcmBuffer(targetRate, pcm.channels.length, outputFrames);
+
+  for (let frame = 0; frame < outputFrames; frame++) {
+    const position = frame * down;
+    const index = Math.floor(position / up);
+    const phase = position % up;
+    const coefficients = bank ? bank[phase] : phaseFilter(phase / up, halfWidth, cutoff, design.beta);
+    const first = index - halfWidth + 1;
+
+    for (let channel = 0; channel < pcm.channels.length; channel++) {
+      const source = pcm.channels[channel];
+      let sum = 0;
+
+      for (let tap = 0; tap < taps; tap++) {
+        const sample = first + tap;
+        if (sample >= 0 && sample < inputFrames) {
+          sum += source[sample] * coefficients[tap];
+        }
+      }
+
+      output.channels[channel][frame] = sum;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Windowed-sinc taps for each of `phases` evenly spaced fractional positions
+ * between two input samples. Tap `j` of a phase weighs input sample
+ * `index - halfWidth + 1 + j`; `cutoff` is relative to the input Nyquist frequency.
+ */
+export function polyphaseFilterBank(phases: number, halfWidth: number, cutoff: number, beta: number): Float64Array[] {
+  return Array.from({ length: phases }, (_, phase) => phaseFilter(phase / phases, halfWidth, cutoff, beta));
+}
+
+/**
+ * Filter taps for one fractional output position, normalized to unity gain
+ * at DC so every phase passes the same level
+ */
+function phaseFilter(fraction: number, halfWidth: number, cutoff: number, beta: number): Float64Array {
+  const coefficients = new Float64Array(halfWidth * 2);
+  const norm = besselI0(beta);
+  let total = 0;
+
+  for (let tap = 0; tap < coefficients.length; tap++) {
+    const distance = fraction + halfWidth - 1 - tap;
+    const x = distance / halfWidth;
+    const window = Math.abs(x) >= 1 ? 0 : besselI0(beta * Math.sqrt(1 - x * x)) / norm;
+    coefficients[tap] = cutoff * sinc(cutoff * distance) * window;
+    total += coefficients[tap];
+  }
+
+  if (total !== 0) {
+    for (let tap = 0; tap < coefficients.length; tap++) {
+      coefficients[tap] /= total;
+    }
+  }
+
+  return coefficients;
+}
+
+function sinc(x: number): number {
+  if (x === 0) return 1;
+  const angle = Math.PI * x;
+  return Math.sin(angle) / angle;
+}
+
+/**
+ * Zeroth-order modified Bessel function of the first kind (power series)
+ */
+function besselI0(x: number): number {
+  let sum = 1;
+  let term = 1;
+  const half = x / 2;
+
+  for (let k = 1; k < 50; k++) {
+    term *= (half / k) * (half / k);
+    sum += term;
+    if (term < sum * 1e-12) break;
+  }
+
+  return sum;
+}
+
+function gcd(a: number, b: number): number {
+  while (b) {
+    [a, b] = [b, a % b];
+  }
+  return a;
+}
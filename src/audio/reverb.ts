@@ -0,0 +1,151 @@
+import { PcmBuffer, createPcmBuffer, pcmFrameCount } from './pcm-buffer.js';
+import { resamplePcm } from './resampler.js';
+import { fft, nextPowerOfTwo } from './fft.js';
+import { ReverbSettings } from '../interfaces/video.interface.js';
+
+// Freeverb tunings at 44.1 kHz, scaled to the sample rate
+const COMB_TUNINGS = [1116, 1188, 1277, 1356, 1422, 1491, 1557, 1617];
+const ALLPASS_TUNINGS = [556, 441, 341, 225];
+const STEREO_SPREAD = 23;
+const ALLPASS_FEEDBACK = 0.5;
+const INPUT_GAIN = 0.015;
+const WET_SCALE = 3;
+const DAMP_SCALE = 0.4;
+const ROOM_SCALE = 0.28;
+const ROOM_OFFSET = 0.7;
+const MAX_TAIL = 5; // seconds
+
+/**
+ * Freeverb-style algorithmic reverb: eight damped feedback comb filters in
+ * parallel followed by four allpass diffusers, per channel, with the right
+ * side of each pair detuned for stereo width. `roomSize` sets the comb
+ * feedback (decay time), `damping` how fast high frequencies die away, and
+ * `predelay` the gap before the reverb starts. The output is extended by the
+ * reverb tail.
+ */
+export function applyReverb(pcm: PcmBuffer, settings: ReverbSettings): PcmBuffer {
+  if (!settings.enabled) return pcm;
+
+  const frames = pcmFrameCount(pcm);
+  const scale = pcm.sampleRate / 44100;
+  const feedback = ROOM_OFFSET + ROOM_SCALE * clamp(settings.roomSize);
+  const damp = DAMP_SCALE * clamp(settings.damping);
+  const predelay = Math.max(0, Math.round(settings.predelay * pcm.sampleRate / 1000));
+
+  // Time for the longest comb to decay by 60 dB
+  const longest = Math.round(COMB_TUNINGS[COMB_TUNINGS.length - 1] * scale) + STEREO_SPREAD;
+  const decay = (longest / pcm.sampleRate) * 3 / -Math.log10(feedback);
+  const tail = Math.round(Math.min(decay, MAX_TAIL) * pcm.sampleRate) + predelay;
+  const output = createPcmBuffer(pcm.sampleRate, pcm.channels.length, frames + tail);
+
+  pcm.channels.forEach((data, channel) => {
+    const spread = channel % 2 === 1 ? Math.round(STEREO_SPREAD * scale) : 0;
+    const combs = COMB_TUNINGS.map(tuning => ({ buffer: new Float64Array(Math.max(1, Math.round(tuning * scale) + spread)), index: 0, store: 0 }));
+    const allpasses = ALLPASS_TUNINGS.map(tuning => ({ buffer: new Float64Array(Math.max(1, Math.round(tuning * scale) + spread)), index: 0 }));
+    const target = output.channels[channel];
+
+    for (let i = 0; i < target.length; i++) {
+      const source = i - predelay;
+      const input = source >= 0 && source < frames ? data[source] * INPUT_GAIN : 0;
+      let wet = 0;
+
+      for (const comb of combs) {
+        const delayed = comb.buffer[comb.index];
+        comb.store = delayed * (1 - damp) + comb.store * damp;
+        comb.buffer[comb.index] = input + comb.store * feedback;
+        comb.index = (comb.index + 1) % comb.buffer.length;
+        wet += delayed;
+      }
+
+      for (const allpass of allpasses) {
+        const delayed = allpass.buffer[allpass.index];
+        allpass.buffer[allpass.index] = wet + delayed * ALLPASS_FEEDBACK;
+        allpass.index = (allpass.index + 1) % allpass.buffer.length;
+        wet = delayed - wet;
+      }
+
+      const dry = i < frames ? data[i] : 0;
+      target[i] = dry * settings.dryLevel + wet * settings.wetLevel * WET_SCALE;
+    }
+  });
+
+  return output;
+}
+
+/**
+ * Convolution reverb with a recorded impulse response, using FFT
+ * overlap-add. The impulse response is resampled to the signal's rate and
+ * scaled to unit energy so `wetLevel` means the same for any recording; a
+ * mono response is used for every channel, otherwise channel `n` uses
+ * response channel `n` (wrapping around).
+ */
+export function convolveReverb(
+  pcm: PcmBuffer,
+  impulse: PcmBuffer,
+  settings: Pick<ReverbSettings, 'enabled' | 'wetLevel' | 'dryLevel' | 'predelay'>
+): PcmBuffer {
+  if (!settings.enabled) return pcm;
+
+  const response = resamplePcm(impulse, pcm.sampleRate);
+  const responseFrames = pcmFrameCount(response);
+  if (responseFrames === 0) {
+    throw new Error('Impulse response is empty');
+  }
+
+  const energy = response.channels.reduce((sum, data) => sum + data.reduce((total, value) => total + value * value, 0), 0) / response.channels.length;
+  if (energy === 0) {
+    throw new Error('Impulse response is silent');
+  }
+  const normalization = 1 / Math.sqrt(energy);
+
+  const frames = pcmFrameCount(pcm);
+  const predelay = Math.max(0, Math.round(settings.predelay * pcm.sampleRate / 1000));
+  const block = nextPowerOfTwo(responseFrames);
+  const size = block * 2;
+
+  const spectra = response.channels.map(data => {
+    const real = new Float64Array(size);
+    const imag = new Float64Array(size);
+    for (let i = 0; i < data.length; i++) real[i] = data[i] * normalization;
+    fft(real, imag);
+    return { real, imag };
+  });
+
+  const output = createPcmBuffer(pcm.sampleRate, pcm.channels.length, frames + responseFrames - 1 + predelay);
+
+  pcm.channels.forEach((data, channel) => {
+    const spectrum = spectra[channel % spectra.length];
+    const target = output.channels[channel];
+
+    for (let i = 0; i < frames; i++) {
+      target[i] = data[i] * settings.dryLevel;
+    }
+
+    for (let start = 0; start < frames; start += block) {
+      const real = new Float64Array(size);
+      const imag = new Float64Array(size);
+      const end = Math.min(frames, start + block);
+      for (let i = start; i < end; i++) real[i - start] = data[i];
+
+      fft(real, imag);
+      for (let bin = 0; bin < size; bin++) {
+        const re = real[bin] * spectrum.real[bin] - imag[bin] * spectrum.imag[bin];
+        imag[bin] = real[bin] * spectrum.imag[bin] + imag[bin] * spectrum.real[bin];
+        real[bin] = re;
+      }
+      fft(real, imag, true);
+
+      const offset = start + predelay;
+      const count = Math.min(size, target.length - offset);
+      for (let i = 0; i < count; i++) {
+        target[offset + i] += real[i] * settings.wetLevel;
+      }
+    }
+  });
+
+  return output;
+}
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
@@ -0,0 +1,228 @@
+import { PcmBuffer, createPcmBuffer, joinPcm, pcmFrameCount } from './pcm-buffer.js';
+import { fft, nextPowerOfTwo } from './fft.js';
+import { seededNoise } from './noise.js';
+import { renderAmbience } from './ambience.js';
+import { RoomToneSettings } from '../interfaces/video.interface.js';
+
+export interface SilentGap {
+  start: number; // first silent frame
+  end: number; // frame after the last silent one
+}
+
+export interface GapFillOptions {
+  minGap?: number; // ms of digital silence before it counts as a gap, default 20
+  fade?: number; // ms the tone fades in and out at each end of a gap, default 10
+}
+
+const DEFAULT_DURATION = 4; // seconds of tone when the settings give none
+const SPECTRUM_BLOCK = 2048;
+const GENERATED_LEVEL = 0.01; // -40 dBFS RMS
+const SILENCE = 1 / 65536; // half a 16-bit step
+const ANALYSIS_WINDOW = 50; // ms
+const QUIET_RANGE = 2; // windows within 6 dB of the quietest count as room tone
+const JOIN_CROSSFADE = 0.02; // seconds between extracted regions
+
+/**
+ * Build the room tone clip for `RoomToneSettings`: shaped noise for
+ * 'generate' (matched to the quiet parts of `reference` when one is given),
+ * the quiet regions of `reference` for 'extract', or `reference` itself for
+ * 'file'. The clip runs for `duration` seconds, except a supplied file,
+ * which is used whole.
+ */
+export function createRoomTone(settings: RoomToneSettings, sampleRate: number, channels: number, reference?: PcmBuffer): PcmBuffer {
+  const duration = settings.duration > 0 ? settings.duration : DEFAULT_DURATION;
+
+  switch (settings.source) {
+    case 'generate': {
+      const spectrum = reference ? roomToneSpectrum(extractRoomTone(reference, duration)) : undefined;
+      return generateRoomTone(sampleRate, channels, duration, { spectrum });
+    }
+    case 'extract':
+    case 'file':
+      if (!reference) {
+        throw new Error(`Room tone source '${settings.source}' requires a sourceFile`);
+      }
+      return settings.source === 'extract' ? extractRoomTone(reference, duration) : reference;
+    default:
+      throw new Error(`Unknown room tone source: ${settings.source}`);
+  }
+}
+
+/**
+ * Noise with random phases and the magnitude of `spectrum` (from
+ * `roomToneSpectrum`), or of a soft pink room hum rolling off above 8 kHz
+ * without one. Channels are decorrelated and the result sits at -40 dBFS RMS.
+ */
+export function generateRoomTone(
+  sampleRate: number,
+  channels: number,
+  seconds: number,
+  options: { spectrum?: Float64Array; seed?: number } = {}
+): PcmBuffer {
+  const frames = Math.max(1, Math.round(seconds * sampleRate));
+  const size = nextPowerOfTwo(frames);
+  const random = seededNoise(options.seed ?? 1);
+  const magnitude = (frequency: number) => options.spectrum
+    ? interpolateSpectrum(options.spectrum, frequency, sampleRate)
+    : 1 / Math.sqrt(Math.max(frequency, 50)) / (1 + Math.pow(frequency / 8000, 2));
+  const output = createPcmBuffer(sampleRate, channels, frames);
+
+  output.channels.forEach(target => {
+    const real = new Float64Array(size);
+    const imag = new Float64Array(size);
+
+    // Hermitian spectrum so the inverse transform is real
+    for (let k = 1; k < size / 2; k++) {
+      const level = magnitude(k * sampleRate / size);
+      const phase = Math.PI * random();
+      real[k] = real[size - k] = level * Math.cos(phase);
+      imag[k] = level * Math.sin(phase);
+      imag[size - k] = -imag[k];
+    }
+    fft(real, imag, true);
+
+    const rms = Math.sqrt(real.subarray(0, frames).reduce((sum, value) => sum + value * value, 0) / frames);
+    for (let i = 0; i < frames; i++) target[i] = rms > 0 ? real[i] * GENERATED_LEVEL / rms : 0;
+  });
+
+  return output;
+}
+
+/**
+ * Pull up to `seconds` of room tone out of a recording: the 50 ms windows
+ * within 6 dB of the quietest non-silent one, in runs joined with short
+ * crossfades. Longer runs are taken first.
+ */
+export function extractRoomTone(reference: PcmBuffer, seconds: number): PcmBuffer {
+  const window = Math.max(1, Math.round(ANALYSIS_WINDOW * reference.sampleRate / 1000));
+  const levels: number[] = [];
+  for (let start = 0; start + window <= pcmFrameCount(reference); start += window) {
+    levels.push(windowRms(reference, start, start + window));
+  }
+
+  const audible = levels.filter(level => level > SILENCE);
+  if (audible.length === 0) {
+    throw new Error('Reference recording has no room tone to extract');
+  }
+  const limit = Math.min(...audible) * QUIET_RANGE;
+
+  // Runs of consecutive quiet windows, longest first
+  const runs: { start: number; end: number }[] = [];
+  levels.forEach((level, index) => {
+    if (level <= SILENCE || level > limit) return;
+    const last = runs[runs.length - 1];
+    if (last && last.end === index) last.end++;
+    else runs.push({ start: index, end: index + 1 });
+  });
+  runs.sort((a, b) => (b.end - b.start) - (a.end - a.start));
+
+  const wanted = Math.round(seconds * reference.sampleRate);
+  const parts: PcmBuffer[] = [];
+  let total = 0;
+  for (const run of runs) {
+    if (total >= wanted) break;
+    const start = run.start * window;
+    const end = Math.min(run.end * window, start + wanted - total + Math.round(JOIN_CROSSFADE * reference.sampleRate));
+    parts.push({ sampleRate: reference.sampleRate, channels: reference.channels.map(data => data.slice(start, end)) });
+    total += end - start;
+  }
+
+  return joinPcm(parts, parts.slice(1).map(() => JOIN_CROSSFADE));
+}
+
+/**
+ * Average magnitude spectrum of a recording (Hann-windowed blocks, channels
+ * folded to mono), SPECTRUM_BLOCK / 2 + 1 bins from DC to Nyquist
+ */
+export function roomToneSpectrum(pcm: PcmBuffer, blockSize = SPECTRUM_BLOCK): Float64Array {
+  const frames = pcmFrameCount(pcm);
+  const power = new Float64Array(blockSize / 2 + 1);
+  let blocks = 0;
+
+  for (let start = 0; blocks === 0 || start + blockSize <= frames; start += blockSize / 2) {
+    const real = new Float64Array(blockSize);
+    const imag = new Float64Array(blockSize);
+    for (let i = 0; i < blockSize && start + i < frames; i++) {
+      const window = 0.5 - 0.5 * Math.cos(2 * Math.PI * i / blockSize);
+      for (const data of pcm.channels) real[i] += data[start + i] * window / pcm.channels.length;
+    }
+
+    fft(real, imag);
+    for (let k = 0; k < power.length; k++) power[k] += real[k] * real[k] + imag[k] * imag[k];
+    blocks++;
+  }
+
+  return power.map(value => Math.sqrt(value / blocks));
+}
+
+/**
+ * Runs of digital silence (every channel below half a 16-bit step) at
+ * least `minGap` ms long
+ */
+export function findSilentGaps(pcm: PcmBuffer, minGap = 20): SilentGap[] {
+  const frames = pcmFrameCount(pcm);
+  const minFrames = Math.max(1, Math.round(minGap * pcm.sampleRate / 1000));
+  const gaps: SilentGap[] = [];
+  let start = -1;
+
+  for (let i = 0; i <= frames; i++) {
+    const silent = i < frames && pcm.channels.every(data => Math.abs(data[i]) < SILENCE);
+    if (silent && start < 0) start = i;
+    if (!silent && start >= 0) {
+      if (i - start >= minFrames) gaps.push({ start, end: i });
+      start = -1;
+    }
+  }
+
+  return gaps;
+}
+
+/**
+ * Lay `tone` into the digital-silence gaps of `pcm`, looped and scaled so
+ * its RMS is `level` times that of the audio around the gaps. The tone
+ * fades in and out inside each gap so it never overlaps the lines. Audio
+ * with nothing but silence is returned unchanged.
+ */
+export function fillSilence(pcm: PcmBuffer, tone: PcmBuffer, level: number, options: GapFillOptions = {}): PcmBuffer {
+  const frames = pcmFrameCount(pcm);
+  const gaps = findSilentGaps(pcm, options.minGap);
+  const silentFrames = gaps.reduce((sum, gap) => sum + gap.end - gap.start, 0);
+  if (gaps.length === 0 || silentFrames === frames || pcmFrameCount(tone) === 0) return pcm;
+
+  // Silent frames add nothing to the sum, so this is the RMS of the lines alone
+  const dialogue = windowRms(pcm, 0, frames) * Math.sqrt(frames / (frames - silentFrames));
+  const toneRms = windowRms(tone, 0, pcmFrameCount(tone));
+  if (toneRms === 0) return pcm;
+
+  const bed = renderAmbience(tone, frames, { volume: level * dialogue / toneRms, loop: true });
+  const fade = Math.round((options.fade ?? 10) * pcm.sampleRate / 1000);
+  const output: PcmBuffer = { sampleRate: pcm.sampleRate, channels: pcm.channels.map(data => data.slice()) };
+
+  for (const { start, end } of gaps) {
+    const ramp = Math.min(fade, Math.floor((end - start) / 2));
+    output.channels.forEach((target, channel) => {
+      const source = bed.channels[channel % bed.channels.length];
+      for (let i = start; i < end; i++) {
+        const gain = ramp > 0 ? Math.min(1, (i - start) / ramp, (end - 1 - i) / ramp) : 1;
+        target[i] += source[i] * gain;
+      }
+    });
+  }
+
+  return output;
+}
+
+function windowRms(pcm: PcmBuffer, start: number, end: number): number {
+  let sum = 0;
+  for (const data of pcm.channels) {
+    for (let i = start; i < end; i++) sum += data[i] * data[i];
+  }
+  return end > start ? Math.sqrt(sum / ((end - start) * pcm.channels.length)) : 0;
+}
+
+function interpolateSpectrum(spectrum: Float64Array, frequency: number, sampleRate: number): number {
+  const position = frequency * (spectrum.length - 1) * 2 / sampleRate;
+  const index = Math.min(Math.floor(position), spectrum.length - 2);
+  const fraction = position - index;
+  return spectrum[index] * (1 - fraction) + spectrum[index + 1] * fraction;
+}
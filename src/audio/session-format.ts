@@ -0,0 +1,28 @@
+import { PcmBuffer } from './pcm-buffer.js';
+import { ChannelMatrix, defaultChannelMatrix, remixPcm } from './channel-matrix.js';
+import { ResampleQuality, resamplePcm } from './resampler.js';
+
+export interface SessionFormat {
+  sampleRate: number;
+  channels: number;
+}
+
+export interface ConformOptions {
+  channelMatrices?: Record<number, ChannelMatrix>; // keyed by input channel count; the default matrix otherwise
+  quality?: ResampleQuality; // default 'high'
+}
+
+/**
+ * Bring a clip to the session sample rate and channel layout. Downmixes run
+ * before resampling and upmixes after, so the filter always works on the
+ * fewest channels.
+ */
+export function conformPcm(pcm: PcmBuffer, format: SessionFormat, options: ConformOptions = {}): PcmBuffer {
+  const inputChannels = pcm.channels.length;
+  const remix = (source: PcmBuffer) => inputChannels === format.channels
+    ? source
+    : remixPcm(source, options.channelMatrices?.[inputChannels] || defaultChannelMatrix(inputChannels, format.channels));
+  const resample = (source: PcmBuffer) => resamplePcm(source, format.sampleRate, options.quality);
+
+  return format.channels < inputChannels ? resample(remix(pcm)) : remix(resample(pcm));
+}
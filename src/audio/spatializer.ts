@@ -0,0 +1,162 @@
+import { PcmBuffer, createPcmBuffer, pcmFrameCount } from './pcm-buffer.js';
+import { SpatialPosition } from '../interfaces/video.interface.js';
+
+export type PanningModel = 'constant-power' | 'itd-ild';
+
+export interface Point3D {
+  x: number; // metres, left to right
+  y: number; // metres, back to front
+  z: number; // metres, down to up
+}
+
+export interface RoomDimensions {
+  width: number; // metres along x
+  height: number; // metres along z
+  depth: number; // metres along y
+}
+
+export interface SpatializeOptions {
+  model?: PanningModel; // default 'constant-power'
+  room?: RoomDimensions; // source and listener are kept inside this box, with its corner at the origin
+  referenceDistance?: number; // metres at which the level is unchanged, default 1
+}
+
+export interface SpatialPlacement {
+  azimuth: number; // radians, 0 straight ahead, positive to the right
+  distance: number; // metres
+  gain: number; // distance attenuation
+  airCutoff: number; // Hz of the air absorption low-pass
+}
+
+const HEAD_RADIUS = 0.0875; // metres
+const SPEED_OF_SOUND = 343; // metres per second
+const MAX_ILD = 6; // dB of far-ear level loss at 90 degrees
+const DEFAULT_SCENE_RANGE = 10; // metres at scene distance 1
+
+/**
+ * Where a source sits relative to the listener: azimuth, distance, inverse
+ * distance attenuation beyond the reference distance, and the cutoff of a
+ * low-pass standing in for air absorption of high frequencies.
+ */
+export function spatialPlacement(source: Point3D, listener: Point3D, options: SpatializeOptions = {}): SpatialPlacement {
+  const from = options.room ? clampToRoom(source, options.room) : source;
+  const to = options.room ? clampToRoom(listener, options.room) : listener;
+  const dx = from.x - to.x;
+  const dy = from.y - to.y;
+  const dz = from.z - to.z;
+  const distance = Math.sqrt(dx * dx + dy * dy + dz * dz);
+  const reference = options.referenceDistance ?? 1;
+
+  return {
+    azimuth: dx === 0 && dy === 0 ? 0 : Math.atan2(dx, dy),
+    distance,
+    gain: reference / Math.max(reference, distance),
+    airCutoff: 24000 / (1 + distance / 15)
+  };
+}
+
+/**
+ * Render a source at a position around the listener as stereo. The input is
+ * folded to mono, attenuated and filtered for distance, then panned with
+ * constant-power gains or, with 'itd-ild', delayed and shadowed at the far
+ * ear (Woodworth interaural time difference, level loss and a head-shadow
+ * low-pass). Sources behind the listener pan like their mirror image in front.
+ */
+export function spatialize(pcm: PcmBuffer, source: Point3D, listener: Point3D, options: SpatializeOptions = {}): PcmBuffer {
+  const placement = spatialPlacement(source, listener, options);
+  const frames = pcmFrameCount(pcm);
+
+  // Mono source with distance attenuation and air absorption
+  let mono: Float32Array = new Float32Array(frames);
+  for (const data of pcm.channels) {
+    for (let i = 0; i < frames; i++) mono[i] += data[i] / pcm.channels.length * placement.gain;
+  }
+  mono = lowPass(mono, placement.airCutoff, pcm.sampleRate);
+
+  // Fold rear sources to the front: -90..90 degrees
+  const lateral = Math.asin(Math.max(-1, Math.min(1, Math.sin(placement.azimuth))));
+
+  if ((options.model ?? 'constant-power') === 'constant-power') {
+    const angle = (lateral / Math.PI + 0.5) * Math.PI / 2; // 0 hard left, pi/2 hard right
+    return {
+      sampleRate: pcm.sampleRate,
+      channels: [mono.map(value => value * Math.cos(angle)), mono.map(value => value * Math.sin(angle))]
+    };
+  }
+
+  const side = Math.abs(lateral);
+  const delay = (HEAD_RADIUS / SPEED_OF_SOUND) * (side + Math.sin(side)) * pcm.sampleRate;
+  const farGain = Math.pow(10, -MAX_ILD * Math.sin(side) / 20);
+  const shadowCutoff = 20000 * (1 - 0.85 * Math.sin(side));
+
+  const near = Float32Array.from(mono);
+  const far = lowPass(fractionalDelay(mono, delay), shadowCutoff, pcm.sampleRate).map(value => value * farGain);
+  const output = createPcmBuffer(pcm.sampleRate, 2, frames);
+  output.channels[0] = lateral >= 0 ? far : near;
+  output.channels[1] = lateral >= 0 ? near : far;
+  return output;
+}
+
+/**
+ * Place a scene analyzer recommendation (x, z in -1..1, distance 0..1) in
+ * front of a listener at the origin: x sweeps the azimuth to 90 degrees
+ * either side, z raises the source up to 45 degrees, distance scales the
+ * range up to `range` metres, and y nudges it forward or back by up to a metre.
+ */
+export function scenePositionToPoint(position: SpatialPosition, range = DEFAULT_SCENE_RANGE): Point3D {
+  const azimuth = clamp(position.x) * Math.PI / 2;
+  const elevation = clamp(position.z) * Math.PI / 4;
+  const distance = 1 + Math.max(0, Math.min(1, position.distance)) * (range - 1);
+
+  return {
+    x: Math.sin(azimuth) * Math.cos(elevation) * distance,
+    y: Math.cos(azimuth) * Math.cos(elevation) * distance + clamp(position.y),
+    z: Math.sin(elevation) * distance
+  };
+}
+
+function clamp(value: number): number {
+  return Math.max(-1, Math.min(1, value));
+}
+
+function clampToRoom(point: Point3D, room: RoomDimensions): Point3D {
+  return {
+    x: Math.max(0, Math.min(room.width, point.x)),
+    y: Math.max(0, Math.min(room.depth, point.y)),
+    z: Math.max(0, Math.min(room.height, point.z))
+  };
+}
+
+/**
+ * One-pole low-pass; skipped when the cutoff is near Nyquist
+ */
+function lowPass(data: Float32Array, cutoff: number, sampleRate: number): Float32Array {
+  if (cutoff >= sampleRate * 0.45) return data;
+
+  const coefficient = Math.exp(-2 * Math.PI * cutoff / sampleRate);
+  const output = new Float32Array(data.length);
+  let state = 0;
+  for (let i = 0; i < data.length; i++) {
+    state = data[i] * (1 - coefficient) + state * coefficient;
+    output[i] = state;
+  }
+  return output;
+}
+
+/**
+ * Delay by a fractional number of samples with linear interpolation
+ */
+function fractionalDelay(data: Float32Array, delay: number): Float32Array {
+  const whole = Math.floor(delay);
+  const fraction = delay - whole;
+  const output = new Float32Array(data.length);
+
+  for (let i = 0; i < data.length; i++) {
+    const index = i - whole;
+    const current = index >= 0 ? data[index] : 0;
+    const previous = index - 1 >= 0 ? data[index - 1] : 0;
+    output[i] = current * (1 - fraction) + previous * fraction;
+  }
+
+  return output;
+}
@@ -0,0 +1,315 @@
+import { PcmBuffer, createPcmBuffer, pcmFrameCount } from './pcm-buffer.js';
+
+export type WavSampleFormat = 'int' | 'float';
+
+/**
+ * EBU Broadcast Wave (bext) metadata. Loudness fields are version 2 and are
+ * stored in hundredths, so they round to two decimals.
+ */
+export interface BextChunk {
+  description: string; // up to 256 characters
+  originator: string; // up to 32
+  originatorReference: string; // up to 32
+  originationDate: string; // yyyy-mm-dd
+  originationTime: string; // hh:mm:ss
+  timeReference: number; // samples since midnight
+  version?: number;
+  loudness?: {
+    integrated: number; // LUFS
+    range: number; // LU
+    truePeak: number; // dBTP
+    maxMomentary: number; // LUFS
+    maxShortTerm: number; // LUFS
+  };
+  codingHistory?: string;
+}
+
+export interface WavMetadata {
+  info?: Record<string, string>; // LIST/INFO entries keyed by chunk id, e.g. INAM, IART, ICMT, ISFT
+  bext?: BextChunk;
+}
+
+export interface DecodedWav extends WavMetadata {
+  pcm: PcmBuffer;
+  bitDepth: number;
+  sampleFormat: WavSampleFormat;
+}
+
+export interface WavEncodeOptions extends WavMetadata {
+  bitDepth?: 8 | 16 | 24 | 32; // default 16
+  sampleFormat?: WavSampleFormat; // 'float' requires 32 bits, default 'int'
+}
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xFFFE;
+// Tail shared by the KSDATAFORMAT_SUBTYPE GUIDs; the first two bytes carry the format tag
+const SUBFORMAT_GUID_TAIL = Buffer.from('000000001000800000aa00389b71', 'hex');
+const BEXT_FIXED_SIZE = 602;
+
+/**
+ * Read a RIFF/WAVE file into planar float PCM. Handles 8-bit unsigned,
+ * 16/24/32-bit integer and 32/64-bit float samples, plain or
+ * WAVE_FORMAT_EXTENSIBLE headers, any channel count, and the LIST/INFO and
+ * bext metadata chunks. Throws for compressed or malformed files.
+ */
+export function decodeWav(buffer: Buffer): DecodedWav {
+  if (buffer.length < 12 || buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+    throw new Error('Not a RIFF/WAVE file');
+  }
+
+  let format: { tag: number; channels: number; sampleRate: number; blockAlign: number; bitDepth: number } | null = null;
+  let data: Buffer | null = null;
+  const metadata: WavMetadata = {};
+  let offset = 12;
+
+  while (offset + 8 <= buffer.length) {
+    const chunkId = buffer.toString('ascii', offset, offset + 4);
+    const chunkSize = buffer.readUInt32LE(offset + 4);
+    const body = offset + 8;
+    // Streaming writers leave the data size at 0 or 0xFFFFFFFF; the chunk then runs to the end
+    const end = chunkId === 'data' && (chunkSize === 0 || chunkSize === 0xFFFFFFFF)
+      ? buffer.length
+      : Math.min(body + chunkSize, buffer.length);
+    const chunk = buffer.subarray(body, end);
+
+    if (chunkId === 'fmt ' && chunk.length >= 16) {
+      let tag = chunk.readUInt16LE(0);
+      if (tag === WAVE_FORMAT_EXTENSIBLE && chunk.length >= 40) {
+        tag = chunk.readUInt16LE(24);
+      }
+      format = {
+        tag,
+        channels: chunk.readUInt16LE(2),
+        sampleRate: chunk.readUInt32LE(4),
+        blockAlign: chunk.readUInt16LE(12),
+        bitDepth: chunk.readUInt16LE(14)
+      };
+    } else if (chunkId === 'data') {
+      data = chunk;
+    } else if (chunkId === 'LIST' && chunk.length >= 4 && chunk.toString('ascii', 0, 4) === 'INFO') {
+      metadata.info = readInfo(chunk.subarray(4));
+    } else if (chunkId === 'bext' && chunk.length >= BEXT_FIXED_SIZE) {
+      metadata.bext = readBext(chunk);
+    }
+
+    if (end === buffer.length) break;
+    offset = body + chunkSize + (chunkSize % 2);
+  }
+
+  if (!format) throw new Error('WAV file has no fmt chunk');
+  if (!data) throw new Error('WAV file has no data chunk');
+
+  const { tag, channels, sampleRate, bitDepth } = format;
+  const sampleFormat: WavSampleFormat = tag === WAVE_FORMAT_IEEE_FLOAT ? 'float' : 'int';
+  const supported = tag === WAVE_FORMAT_PCM
+    ? [8, 16, 24, 32].includes(bitDepth)
+    : tag === WAVE_FORMAT_IEEE_FLOAT && (bitDepth === 32 || bitDepth === 64);
+
+  if (!supported || channels === 0) {
+    throw new Error(`Unsupported WAV encoding (format ${tag}, ${bitDepth}-bit, ${channels} channels)`);
+  }
+
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = format.blockAlign || bytesPerSample * channels;
+  const frames = Math.floor(data.length / blockAlign);
+  const read = sampleReader(sampleFormat, bitDepth);
+  const pcm = createPcmBuffer(sampleRate, channels, frames);
+
+  for (let channel = 0; channel < channels; channel++) {
+    const target = pcm.channels[channel];
+    for (let frame = 0; frame < frames; frame++) {
+      target[frame] = read(data, frame * blockAlign + channel * bytesPerSample);
+    }
+  }
+
+  return { pcm, bitDepth, sampleFormat, ...metadata };
+}
+
+/**
+ * Write planar float PCM as a RIFF/WAVE file. Samples are clipped to [-1, 1]
+ * for integer output. More than two channels use a WAVE_FORMAT_EXTENSIBLE
+ * header with a sequential channel mask.
+ */
+export function encodeWav(pcm: PcmBuffer, options: WavEncodeOptions = {}): Buffer {
+  const sampleFormat = options.sampleFormat || 'int';
+  const bitDepth = sampleFormat === 'float' ? 32 : options.bitDepth || 16;
+  if (sampleFormat === 'float' && options.bitDepth && options.bitDepth !== 32) {
+    throw new Error('Float WAV output must be 32-bit');
+  }
+
+  const channels = pcm.channels.length;
+  const frames = pcmFrameCount(pcm);
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = bytesPerSample * channels;
+  const tag = sampleFormat === 'float' ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM;
+
+  const fmt = Buffer.alloc(channels > 2 ? 40 : 16);
+  fmt.writeUInt16LE(channels > 2 ? WAVE_FORMAT_EXTENSIBLE : tag, 0);
+  fmt.writeUInt16LE(channels, 2);
+  fmt.writeUInt32LE(pcm.sampleRate, 4);
+  fmt.writeUInt32LE(pcm.sampleRate * blockAlign, 8);
+  fmt.writeUInt16LE(blockAlign, 12);
+  fmt.writeUInt16LE(bitDepth, 14);
+  if (channels > 2) {
+    fmt.writeUInt16LE(22, 16); // extension size
+    fmt.writeUInt16LE(bitDepth, 18); // valid bits per sample
+    fmt.writeUInt32LE(channels >= 32 ? 0 : (2 ** channels) - 1, 20);
+    fmt.writeUInt16LE(tag, 24);
+    SUBFORMAT_GUID_TAIL.copy(fmt, 26);
+  }
+
+  const data = Buffer.alloc(frames * blockAlign);
+  const write = sampleWriter(sampleFormat, bitDepth);
+  for (let channel = 0; channel < channels; channel++) {
+    const source = pcm.channels[channel];
+    for (let frame = 0; frame < frames; frame++) {
+      write(data, frame * blockAlign + channel * bytesPerSample, source[frame]);
+    }
+  }
+
+  const chunks = [
+    ...(options.bext ? [riffChunk('bext', writeBext(options.bext))] : []),
+    riffChunk('fmt ', fmt),
+    ...(options.info && Object.keys(options.info).length > 0 ? [riffChunk('LIST', writeInfo(options.info))] : []),
+    riffChunk('data', data)
+  ];
+
+  const header = Buffer.alloc(12);
+  const body = Buffer.concat(chunks);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(4 + body.length, 4);
+  header.write('WAVE', 8, 'ascii');
+
+  return Buffer.concat([header, body]);
+}
+
+function sampleReader(sampleFormat: WavSampleFormat, bitDepth: number): (data: Buffer, offset: number) => number {
+  if (sampleFormat === 'float') {
+    return bitDepth === 64 ? (data, offset) => data.readDoubleLE(offset) : (data, offset) => data.readFloatLE(offset);
+  }
+
+  switch (bitDepth) {
+    case 8: return (data, offset) => (data[offset] - 128) / 128; // 8-bit WAV is unsigned
+    case 16: return (data, offset) => data.readInt16LE(offset) / 32768;
+    case 24: return (data, offset) => data.readIntLE(offset, 3) / 8388608;
+    default: return (data, offset) => data.readInt32LE(offset) / 2147483648;
+  }
+}
+
+function sampleWriter(sampleFormat: WavSampleFormat, bitDepth: number): (data: Buffer, offset: number, value: number) => void {
+  if (sampleFormat === 'float') {
+    return (data, offset, value) => data.writeFloatLE(value, offset);
+  }
+
+  // Negative full scale is one step larger than positive; scale each side so +/-1 round-trip
+  const scale = 2 ** (bitDepth - 1);
+  const quantize = (value: number) => {
+    const clipped = Math.max(-1, Math.min(1, value || 0));
+    return Math.round(clipped < 0 ? clipped * scale : clipped * (scale - 1));
+  };
+
+  switch (bitDepth) {
+    case 8: return (data, offset, value) => { data[offset] = quantize(value) + 128; };
+    case 16: return (data, offset, value) => { data.writeInt16LE(quantize(value), offset); };
+    case 24: return (data, offset, value) => { data.writeIntLE(quantize(value), offset, 3); };
+    default: return (data, offset, value) => { data.writeInt32LE(quantize(value), offset); };
+  }
+}
+
+function riffChunk(id: string, body: Buffer): Buffer {
+  const header = Buffer.alloc(8);
+  header.write(id, 0, 'ascii');
+  header.writeUInt32LE(body.length, 4);
+  return Buffer.concat(body.length % 2 ? [header, body, Buffer.alloc(1)] : [header, body]);
+}
+
+function readInfo(list: Buffer): Record<string, string> {
+  const info: Record<string, string> = {};
+  let offset = 0;
+
+  while (offset + 8 <= list.length) {
+    const id = list.toString('ascii', offset, offset + 4);
+    const size = list.readUInt32LE(offset + 4);
+    info[id] = readString(list, offset + 8, size);
+    offset += 8 + size + (size % 2);
+  }
+
+  return info;
+}
+
+function writeInfo(info: Record<string, string>): Buffer {
+  const entries = Object.entries(info).map(([id, value]) => {
+    if (!/^[A-Z0-9 ]{4}$/.test(id)) {
+      throw new Error(`Invalid INFO chunk id: ${id}`);
+    }
+    // INFO strings are NUL-terminated
+    return riffChunk(id, Buffer.from(`${value}\0`, 'utf8'));
+  });
+
+  return Buffer.concat([Buffer.from('INFO', 'ascii'), ...entries]);
+}
+
+function readBext(chunk: Buffer): BextChunk {
+  const version = chunk.readUInt16LE(346);
+  const bext: BextChunk = {
+    description: readString(chunk, 0, 256),
+    originator: readString(chunk, 256, 32),
+    originatorReference: readString(chunk, 288, 32),
+    originationDate: readString(chunk, 320, 10),
+    originationTime: readString(chunk, 330, 8),
+    timeReference: chunk.readUInt32LE(338) + chunk.readUInt32LE(342) * 2 ** 32,
+    version
+  };
+
+  if (version >= 2) {
+    bext.loudness = {
+      integrated: chunk.readInt16LE(412) / 100,
+      range: chunk.readInt16LE(414) / 100,
+      truePeak: chunk.readInt16LE(416) / 100,
+      maxMomentary: chunk.readInt16LE(418) / 100,
+      maxShortTerm: chunk.readInt16LE(420) / 100
+    };
+  }
+
+  const codingHistory = readString(chunk, BEXT_FIXED_SIZE, chunk.length - BEXT_FIXED_SIZE);
+  if (codingHistory) bext.codingHistory = codingHistory;
+
+  return bext;
+}
+
+function writeBext(bext: BextChunk): Buffer {
+  const history = bext.codingHistory ? Buffer.from(bext.codingHistory, 'ascii') : Buffer.alloc(0);
+  const chunk = Buffer.alloc(BEXT_FIXED_SIZE + history.length);
+  const version = bext.version ?? (bext.loudness ? 2 : 1);
+
+  chunk.write(bext.description, 0, 256, 'ascii');
+  chunk.write(bext.originator, 256, 32, 'ascii');
+  chunk.write(bext.originatorReference, 288, 32, 'ascii');
+  chunk.write(bext.originationDate, 320, 10, 'ascii');
+  chunk.write(bext.originationTime, 330, 8, 'ascii');
+  chunk.writeUInt32LE(bext.timeReference % 2 ** 32, 338);
+  chunk.writeUInt32LE(Math.floor(bext.timeReference / 2 ** 32), 342);
+  chunk.writeUInt16LE(version, 346);
+
+  if (bext.loudness) {
+    const hundredths = (value: number) => Math.max(-32768, Math.min(32767, Math.round(value * 100)));
+    chunk.writeInt16LE(hundredths(bext.loudness.integrated), 412);
+    chunk.writeInt16LE(hundredths(bext.loudness.range), 414);
+    chunk.writeInt16LE(hundredths(bext.loudness.truePeak), 416);
+    chunk.writeInt16LE(hundredths(bext.loudness.maxMomentary), 418);
+    chunk.writeInt16LE(hundredths(bext.loudness.maxShortTerm), 420);
+  }
+
+  history.copy(chunk, BEXT_FIXED_SIZE);
+  return chunk;
+}
+
+/**
+ * Fixed-width text field: stops at the first NUL and drops trailing padding
+ */
+function readString(buffer: Buffer, offset: number, length: number): string {
+  const field = buffer.subarray(offset, Math.min(offset + length, buffer.length));
+  const nul = field.indexOf(0);
+  return field.toString('utf8', 0, nul === -1 ? field.length : nul).trimEnd();
+}
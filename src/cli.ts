@@ -1,9 +1,20 @@
 #!/usr/bin/env tsx
 
 import { VoiceEngine } from './core/voice-engine.js';
+import { describeCapabilities } from './core/provider-capabilities.js';
+import { RenderCache } from './utils/render-cache.js';
+import { AudioProcessor } from './utils/audio-processor.js';
+import { describeLoudness } from './audio/loudness.js';
+import { EmotionType, GenerationRequest } from './interfaces/voice.interface.js';
 import { promises as fs } from 'fs';
 import path from 'path';
 
+const EMOTIONS: EmotionType[] = ['happy', 'sad', 'angry', 'excited', 'calm', 'fearful', 'surprised', 'neutral'];
+
+function isEmotionType(value: string): value is EmotionType {
+  return (EMOTIONS as string[]).includes(value);
+}
+
 async function main() {
   const args = process.argv.slice(2);
   
@@ -14,17 +25,29 @@ async function main() {
 Usage:
   npm run generate -- "Hello world" --voice "Deep male voice" --format mp3
   npm run generate -- "Hello world" --emotion happy --intensity 0.8
+  npm run generate -- --batch lines.txt --concurrency 4
   npm run generate -- --list-voices
   npm run generate -- --capabilities
+  npm run generate -- --cache-stats
+  npm run generate -- --purge-cache --older-than 7
+  npm run generate -- --loudness output/voice.wav
 
 Options:
   --voice <prompt>      Voice description (e.g., "Young female, cheerful")
   --format <format>     Output format: mp3, wav, aac (default: mp3)
   --emotion <emotion>   Emotion: happy, sad, angry, excited, calm, fearful, surprised, neutral
   --intensity <0-1>     Emotion intensity (default: 0.7)
-  --output <path>       Output file path (default: auto-generated)
+  --output <path>       Output file path (default: auto-generated), or directory with --batch
+  --batch <file>        Render every line of a text file, or a JSON array of segments
+  --concurrency <n>     With --batch, segments rendered at once (default: 3)
   --list-voices         List all available voices
   --capabilities        Show provider capabilities
+  --timestamps          Also write word and sentence timings to <output>.timestamps.json
+  --no-cache            Re-render even if a cached render exists
+  --cache-stats         Show render cache usage
+  --purge-cache         Delete cached renders
+  --older-than <days>   With --purge-cache, only delete renders unused for this many days
+  --loudness <file>     Measure integrated/short-term/momentary loudness, LRA and peaks of an audio file
 
 Examples:
   npm run generate -- "Hello world" --voice "Morgan Freeman-like narrator"
@@ -34,6 +57,19 @@ Examples:
     return;
   }
 
+  // Cache maintenance does not need any provider configured
+  if (args.includes('--cache-stats') || args.includes('--purge-cache')) {
+    await runCacheCommand(args);
+    return;
+  }
+
+  // Loudness QC only reads a file
+  const loudnessIndex = args.indexOf('--loudness');
+  if (loudnessIndex >= 0) {
+    await runLoudnessCommand(args[loudnessIndex + 1]);
+    return;
+  }
+
   try {
     const engine = new VoiceEngine();
     await engine.initialize();
@@ -47,6 +83,10 @@ Examples:
     let outputPath = '';
     let listVoices = false;
     let showCapabilities = false;
+    let bypassCache = false;
+    let timestamps = false;
+    let batchFile = '';
+    let concurrency: number | undefined;
 
     for (let i = 0; i < args.length; i++) {
       const arg = args[i];
@@ -65,6 +105,14 @@ Examples:
         listVoices = true;
       } else if (arg === '--capabilities') {
         showCapabilities = true;
+      } else if (arg === '--no-cache') {
+        bypassCache = true;
+      } else if (arg === '--timestamps') {
+        timestamps = true;
+      } else if (arg === '--batch' && i + 1 < args.length) {
+        batchFile = args[++i];
+      } else if (arg === '--concurrency' && i + 1 < args.length) {
+        concurrency = parseInt(args[++i], 10);
       } else if (!arg.startsWith('--')) {
         text = arg;
       }
@@ -90,13 +138,34 @@ Examples:
       providers.forEach(provider => {
         const caps = capabilities[provider];
         console.log(`🎛️ ${provider.toUpperCase()}`);
-        console.log(`   ✅ Emotions: ${caps.supportsEmotions ? 'Yes' : 'No'}`);
-        console.log(`   🎭 Voice Cloning: ${caps.supportsVoiceCloning ? 'Yes' : 'No'}`);
+        describeCapabilities(caps).forEach(line => console.log(`   ${line}`));
         console.log(`   🟢 Status: Available\n`);
       });
       return;
     }
 
+    const modulation = emotion ? {
+      emotion: { type: emotion, intensity, variations: [] },
+      speed: 1.0,
+      pitch: 0,
+      volume: 1.0,
+      emphasis: [],
+      pauses: []
+    } : undefined;
+
+    if (batchFile) {
+      const failed = await runBatchCommand(engine, batchFile, {
+        voicePrompt: voicePrompt || undefined,
+        outputFormat,
+        modulation,
+        bypassCache,
+        outputDir: outputPath || './output',
+        concurrency
+      });
+      if (failed > 0) process.exit(1);
+      return;
+    }
+
     // Generate voice
     if (!text) {
       console.error('❌ Error: Text is required');
@@ -109,21 +178,15 @@ Examples:
     if (emotion) console.log(`😊 Emotion: ${emotion} (intensity: ${intensity})`);
     console.log(`🎵 Format: ${outputFormat.toUpperCase()}\n`);
 
-    const modulation = emotion ? {
-      emotion: { type: emotion, intensity, variations: [] },
-      speed: 1.0,
-      pitch: 0,
-      volume: 1.0,
-      emphasis: [],
-      pauses: []
-    } : undefined;
-
-    const audio = await engine.generateVoice({
+    const result = await engine.generateVoiceResult({
       text,
       voicePrompt: voicePrompt || undefined,
       outputFormat,
-      modulation
+      modulation,
+      bypassCache,
+      requirements: timestamps ? { wordTimestamps: true } : undefined
     });
+    const { audio, provider, attempts, cacheHit, duration } = result;
 
     // Save file
     if (!outputPath) {
@@ -136,13 +199,141 @@ Examples:
     console.log('✅ Voice generated successfully!');
     console.log(`📁 Output: ${outputPath}`);
     console.log(`📏 Size: ${(audio.length / 1024).toFixed(1)} KB`);
+    console.log(`🎤 Provider: ${provider}${cacheHit ? ' (cached)' : attempts.length > 1 ? ` (after ${attempts.length} attempts)` : ''}`);
+    if (duration !== undefined) console.log(`⏱️ Duration: ${duration.toFixed(2)}s`);
+
+    if (timestamps) {
+      const timestampsPath = `${outputPath}.timestamps.json`;
+      await fs.writeFile(timestampsPath, JSON.stringify({
+        source: result.timestampSource,
+        duration,
+        words: result.words,
+        sentences: result.sentences
+      }, null, 2));
+      console.log(`🕒 Timestamps (${result.timestampSource}): ${timestampsPath}`);
+    }
+
+  } catch (error) {
+    console.error(`❌ Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Render a batch file: plain text with one segment per line, or a JSON array
+ * of strings or { text, voice?, emotion?, intensity? } objects. Returns the failure count.
+ */
+async function runBatchCommand(engine: VoiceEngine, file: string, options: {
+  voicePrompt?: string;
+  outputFormat: 'mp3' | 'wav' | 'aac';
+  modulation?: GenerationRequest['modulation'];
+  bypassCache: boolean;
+  outputDir: string;
+  concurrency?: number;
+}): Promise<number> {
+  const content = await fs.readFile(file, 'utf-8');
+  const segments: { text: string; voice?: string; emotion?: string; intensity?: number }[] = file.endsWith('.json')
+    ? JSON.parse(content).map((segment: any) => typeof segment === 'string' ? { text: segment } : segment)
+    : content.split('\n').map(line => line.trim()).filter(Boolean).map(text => ({ text }));
+
+  // Segments with an unknown emotion are reported as failed and not rendered
+  const entries = segments.map((segment, index) => ({ segment, index }));
+  const invalid = entries.filter(({ segment }) => segment.emotion && !isEmotionType(segment.emotion));
+  const valid = entries.filter(({ segment }) => !segment.emotion || isEmotionType(segment.emotion));
+
+  const requests: GenerationRequest[] = valid.map(({ segment }) => ({
+    text: segment.text,
+    voicePrompt: segment.voice || options.voicePrompt,
+    outputFormat: options.outputFormat,
+    modulation: segment.emotion ? {
+      emotion: { type: segment.emotion as EmotionType, intensity: segment.intensity ?? 0.7, variations: [] },
+      speed: 1.0,
+      pitch: 0,
+      volume: 1.0,
+      emphasis: [],
+      pauses: []
+    } : options.modulation,
+    bypassCache: options.bypassCache
+  }));
+
+  console.log(`🎵 Generating ${requests.length} segment(s) from ${file}\n`);
+  for (const { segment, index } of invalid) {
+    console.log(`❌ Segment ${index + 1}: INVALID_EMOTION Unknown emotion "${segment.emotion}" (expected one of: ${EMOTIONS.join(', ')})`);
+  }
+
+  await fs.mkdir(options.outputDir, { recursive: true });
+  const batchId = Date.now();
+
+  const result = await engine.runBatch(requests, {
+    concurrency: options.concurrency,
+    onItemComplete: (item, progress) => {
+      const label = `[${progress.completed}/${progress.total}] Segment ${valid[item.index].index + 1}`;
+      if (item.status === 'success') {
+        const audio = item.audioDuration !== undefined ? `${item.audioDuration.toFixed(1)}s audio, ` : '';
+        console.log(`✅ ${label}: ${item.provider}${item.cacheHit ? ' (cached)' : ''}, ${audio}${item.durationMs}ms`);
+      } else {
+        console.log(`❌ ${label}: ${item.errorCode} ${item.errorMessage}`);
+      }
+    }
+  });
 
+  for (const item of result.items) {
+    if (item.audio) {
+      await fs.writeFile(path.join(options.outputDir, `batch_${batchId}_segment_${valid[item.index].index + 1}.${options.outputFormat}`), item.audio);
+    }
+  }
+
+  console.log(`\n📁 Output: ${options.outputDir}`);
+  const failed = result.failed + invalid.length;
+  console.log(`📊 ${result.succeeded} succeeded, ${failed} failed${result.cacheHits ? `, ${result.cacheHits} cached` : ''} in ${(result.durationMs / 1000).toFixed(1)}s`);
+  return failed;
+}
+
+async function runLoudnessCommand(file: string | undefined) {
+  if (!file) {
+    console.error('❌ Error: --loudness needs an audio file');
+    process.exit(1);
+  }
+
+  try {
+    const report = await new AudioProcessor().measureLoudness(await fs.readFile(file));
+    console.log(`\n📊 Loudness: ${file}\n`);
+    describeLoudness(report).forEach(line => console.log(`   ${line}`));
+    console.log('');
   } catch (error) {
     console.error(`❌ Error: ${error instanceof Error ? error.message : String(error)}`);
     process.exit(1);
   }
 }
 
+async function runCacheCommand(args: string[]) {
+  const cache = new RenderCache({ enabled: true });
+  const formatSize = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+  if (args.includes('--purge-cache')) {
+    const olderThanIndex = args.indexOf('--older-than');
+    const days = olderThanIndex >= 0 ? parseFloat(args[olderThanIndex + 1]) : NaN;
+    const olderThan = Number.isFinite(days) ? new Date(Date.now() - days * 24 * 60 * 60 * 1000) : undefined;
+
+    const { removed, bytes } = await cache.purge({ olderThan });
+    console.log(`🧹 Removed ${removed} cached render(s), freed ${formatSize(bytes)}`);
+    return;
+  }
+
+  const stats = await cache.stats();
+  console.log('\n💾 Render Cache:\n');
+  console.log(`   📁 Directory: ${stats.directory}`);
+  console.log(`   🎵 Entries: ${stats.entries} / ${stats.maxEntries}`);
+  console.log(`   📏 Size: ${formatSize(stats.totalBytes)} / ${formatSize(stats.maxBytes)}`);
+  if (stats.oldestAccess && stats.newestAccess) {
+    console.log(`   🕒 Last used: ${stats.oldestAccess.toISOString()} – ${stats.newestAccess.toISOString()}`);
+  }
+  Object.entries(stats.byProvider).forEach(([provider, usage]) => {
+    console.log(`   🎛️ ${provider}: ${usage.entries} render(s), ${formatSize(usage.bytes)}`);
+  });
+  console.log('');
+}
+
 if (import.meta.url === `file://${process.argv[1]}`) {
   main().catch(console.error);
 }
\ No newline at end of file
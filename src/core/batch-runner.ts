@@ -0,0 +1,144 @@
+import { GenerationRequest, GenerationResult, ProviderAttempt } from '../interfaces/voice.interface.js';
+import { ProviderError } from './provider-error.js';
+import { RateLimit } from './rate-limiter.js';
+
+export type BatchItemStatus = 'success' | 'failed';
+
+export interface BatchItemResult {
+  index: number; // position in the request list
+  status: BatchItemStatus;
+  audio?: Buffer;
+  provider?: string; // provider that served the item, or the last one tried
+  durationMs: number; // wall-clock time spent on the item
+  audioDuration?: number; // seconds of rendered audio, when the container could be parsed
+  errorCode?: string;
+  errorMessage?: string;
+  cacheHit: boolean;
+  attempts: ProviderAttempt[];
+}
+
+export interface BatchProgress {
+  total: number;
+  completed: number;
+  succeeded: number;
+  failed: number;
+  cacheHits: number;
+  inFlight: number;
+}
+
+export interface BatchOptions {
+  concurrency?: number; // items rendered at once, default $MAX_CONCURRENT_GENERATIONS or 3
+  rateLimits?: Record<string, RateLimit>; // per-provider limits applied for the run
+  onItemStart?: (index: number, progress: BatchProgress) => void;
+  onItemComplete?: (result: BatchItemResult, progress: BatchProgress) => void;
+}
+
+export interface BatchResult {
+  items: BatchItemResult[]; // in request order
+  succeeded: number;
+  failed: number;
+  cacheHits: number;
+  durationMs: number;
+}
+
+export type BatchRenderer = (request: GenerationRequest) => Promise<GenerationResult>;
+
+/**
+ * Renders a list of requests with a bounded number in flight. A failing item
+ * never stops the batch; it is reported with its error code and message.
+ */
+export class BatchRunner {
+  private concurrency: number;
+
+  constructor(private render: BatchRenderer, private options: BatchOptions = {}) {
+    const concurrency = options.concurrency ?? parseInt(process.env.MAX_CONCURRENT_GENERATIONS || '3', 10);
+    this.concurrency = Math.max(1, Number.isFinite(concurrency) ? concurrency : 1);
+  }
+
+  async run(requests: GenerationRequest[]): Promise<BatchResult> {
+    const startedAt = Date.now();
+    const items: BatchItemResult[] = new Array(requests.length);
+    const progress: BatchProgress = {
+      total: requests.length,
+      completed: 0,
+      succeeded: 0,
+      failed: 0,
+      cacheHits: 0,
+      inFlight: 0
+    };
+    let next = 0;
+
+    const worker = async () => {
+      while (next < requests.length) {
+        const index = next++;
+        progress.inFlight++;
+        this.options.onItemStart?.(index, { ...progress });
+
+        const result = await this.renderItem(index, requests[index]);
+        items[index] = result;
+
+        progress.inFlight--;
+        progress.completed++;
+        if (result.status === 'success') progress.succeeded++;
+        else progress.failed++;
+        if (result.cacheHit) progress.cacheHits++;
+
+        this.options.onItemComplete?.(result, { ...progress });
+      }
+    };
+
+    const workers = Array.from({ length: Math.min(this.concurrency, requests.length) }, () => worker());
+    await Promise.all(workers);
+
+    return {
+      items,
+      succeeded: progress.succeeded,
+      failed: progress.failed,
+      cacheHits: progress.cacheHits,
+      durationMs: Date.now() - startedAt
+    };
+  }
+
+  private async renderItem(index: number, request: GenerationRequest): Promise<BatchItemResult> {
+    const startedAt = Date.now();
+
+    try {
+      const result = await this.render(request);
+      return {
+        index,
+        status: 'success',
+        audio: result.audio,
+        provider: result.provider,
+        durationMs: Date.now() - startedAt,
+        audioDuration: result.duration,
+        cacheHit: result.cacheHit ?? false,
+        attempts: result.attempts
+      };
+    } catch (error) {
+      const providerError = error instanceof ProviderError ? error : null;
+      return {
+        index,
+        status: 'failed',
+        provider: providerError?.provider,
+        durationMs: Date.now() - startedAt,
+        errorCode: batchErrorCode(error),
+        errorMessage: error instanceof Error ? error.message : String(error),
+        cacheHit: false,
+        attempts: providerError?.attempts || []
+      };
+    }
+  }
+}
+
+/**
+ * Stable error code for a failed item: the provider's code, else the HTTP status
+ */
+export function batchErrorCode(error: unknown): string {
+  if (error instanceof ProviderError) {
+    if (error.code) return error.code;
+    if (error.status) return `HTTP_${error.status}`;
+    return 'PROVIDER_ERROR';
+  }
+
+  return 'GENERATION_FAILED';
+}
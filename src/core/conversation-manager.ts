@@ -17,18 +17,23 @@ import { GenerationRequest } from '../interfaces/voice.interface.js';
 import { CharacterManager } from './character-manager.js';
 import { DialogueParser } from '../utils/dialogue-parser.js';
 import { AudioMixer } from '../utils/audio-mixer.js';
+import { AudioProcessor } from '../utils/audio-processor.js';
+import { applyAudioEffects } from '../audio/effects.js';
+import { pcmDuration } from '../audio/pcm-buffer.js';
 
 export class ConversationManager {
   private voiceEngine: VoiceEngine;
   private characterManager: CharacterManager;
   private dialogueParser: DialogueParser;
   private audioMixer: AudioMixer;
+  private audioProcessor: AudioProcessor;
 
   constructor(voiceEngine: VoiceEngine) {
     this.voiceEngine = voiceEngine;
     this.characterManager = new CharacterManager();
     this.dialogueParser = new DialogueParser();
-    this.audioMixer = new AudioMixer();
+    this.audioProcessor = new AudioProcessor();
+    this.audioMixer = new AudioMixer(this.audioProcessor);
   }
 
   /**
@@ -63,7 +68,14 @@ export class ConversationManager {
     // Mix audio tracks if requested
     let mixedAudio: Buffer | undefined;
     if (request.mixingOptions?.enableAutomaticMixing) {
-      mixedAudio = await this.mixAudioTracks(audioTracks, timeline, request.mixingOptions);
+      const spatialAudio = request.mixingOptions.spatialAudio ?? config.globalSettings.spatialAudio;
+      mixedAudio = await this.mixAudioTracks(audioTracks, timeline, {
+        ...request.mixingOptions,
+        spatialAudio,
+        backgroundAmbience: request.mixingOptions.backgroundAmbience ?? config.globalSettings.backgroundAmbience,
+        roomTone: request.mixingOptions.roomTone ?? config.globalSettings.roomTone,
+        spatialAudioEnabled: request.mixingOptions.spatialAudioEnabled || !!spatialAudio?.enabled
+      });
     }
 
     // Calculate statistics
@@ -255,15 +267,18 @@ export class ConversationManager {
           outputFormat
         };
 
-        // Generate audio for this line
-        const audioBuffer = await this.voiceEngine.generateVoice(generationRequest);
+        // Generate audio for this line, then run it through its effects
+        const generated = await this.voiceEngine.generateVoice(generationRequest);
+        const effected = line.audioEffects?.length ? await this.applyLineEffects(line, generated) : undefined;
+        const audioBuffer = effected?.audioBuffer ?? generated;
         audioBuffers.push(audioBuffer);
 
-        // Create segment
+        // Create segment; effect tails (echo, reverb, squelch) may ring on past the line's slot
+        const slotEnd = line.timing.endTime || line.timing.startTime + 3000;
         const segment: AudioSegment = {
           lineId: line.id,
           startTime: line.timing.startTime,
-          endTime: line.timing.endTime || line.timing.startTime + 3000,
+          endTime: effected ? Math.max(slotEnd, line.timing.startTime + effected.duration) : slotEnd,
           text: line.text,
           emotion: line.emotion || character.defaultEmotion,
           audioBuffer
@@ -287,6 +302,22 @@ export class ConversationManager {
     return tracks;
   }
 
+  /**
+   * Decode a generated line and apply its effects in PCM. The result stays
+   * WAV so the line is only encoded lossily once, in the final mix; its
+   * duration (ms) includes any tail the effects added.
+   */
+  private async applyLineEffects(line: DialogueLine, audioBuffer: Buffer): Promise<{ audioBuffer: Buffer; duration: number }> {
+    try {
+      const pcm = await this.audioProcessor.decode(audioBuffer);
+      console.log(`🎛️ Applying ${line.audioEffects!.map(effect => effect.type).join(', ')} to line ${line.id}`);
+      const effected = applyAudioEffects(pcm, line.audioEffects!);
+      return { audioBuffer: await this.audioProcessor.encode(effected, 'wav'), duration: pcmDuration(effected) * 1000 };
+    } catch (error) {
+      throw new Error(`Failed to apply audio effects to line ${line.id}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
   /**
    * Create conversation timeline
    */
@@ -296,6 +327,7 @@ export class ConversationManager {
   ): ConversationTimeline {
     const events: TimelineEvent[] = [];
     const characterUsage: Record<string, number> = {};
+    const segments = new Map(audioTracks.flatMap(track => track.segments).map(segment => [segment.lineId, segment]));
 
     // Calculate total duration
     let totalDuration = 0;
@@ -339,6 +371,30 @@ export class ConversationManager {
         }
       }
 
+      // Add effect events spanning the line and any tail the effects rendered past it
+      const effectEnd = Math.max(endTime, segments.get(line.id)?.endTime ?? endTime);
+      if (line.audioEffects?.length) {
+        totalDuration = Math.max(totalDuration, effectEnd);
+      }
+
+      for (const effect of line.audioEffects ?? []) {
+        events.push({
+          time: line.timing.startTime,
+          type: 'effect_start',
+          characterId: line.characterId,
+          lineId: line.id,
+          data: { type: effect.type, intensity: effect.intensity, parameters: effect.parameters }
+        });
+
+        events.push({
+          time: effectEnd,
+          type: 'effect_end',
+          characterId: line.characterId,
+          lineId: line.id,
+          data: { type: effect.type }
+        });
+      }
+
       // Add overlap events
       if (line.timing.overlap?.enabled) {
         events.push({
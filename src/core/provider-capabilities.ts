@@ -0,0 +1,114 @@
+import { VoiceProvider } from './provider.base.js';
+import { GenerationRequest } from '../interfaces/voice.interface.js';
+import { ProviderCapabilities, ProviderRequirements } from '../interfaces/provider.interface.js';
+import { isSSML } from '../utils/ssml-generator.js';
+
+type RequirementKey = keyof ProviderRequirements;
+
+// Requirements a provider cannot work around; the rest only influence ranking
+const HARD_REQUIREMENTS: RequirementKey[] = ['characters', 'ssml', 'language', 'streaming', 'wordTimestamps', 'voiceCloning'];
+
+/**
+ * Work out what a request needs from its text and modulation, merged with
+ * any requirements stated explicitly on the request
+ */
+export function deriveRequirements(request: GenerationRequest): ProviderRequirements {
+  const modulation = request.modulation;
+  const emotion = modulation?.emotion || request.voiceProfile?.characteristics?.defaultEmotion;
+
+  const derived: ProviderRequirements = {
+    characters: request.text.length,
+    ssml: isSSML(request.text) || undefined,
+    emphasis: (modulation?.emphasis?.length || 0) > 0 || undefined,
+    pauses: (modulation?.pauses?.length || 0) > 0 || undefined,
+    emotionControl: (emotion && emotion.type !== 'neutral') || (request.emotionMap?.length || 0) > 0 || undefined
+  };
+
+  return { ...derived, ...request.requirements };
+}
+
+/**
+ * Check a single requirement against a provider's capabilities
+ */
+export function meetsRequirement(capabilities: ProviderCapabilities, key: RequirementKey, requirements: ProviderRequirements): boolean {
+  switch (key) {
+    case 'characters':
+      return requirements.characters === undefined || requirements.characters <= capabilities.maxCharacters;
+    case 'ssml':
+      return !requirements.ssml || capabilities.ssml.supported;
+    case 'emphasis':
+      return !requirements.emphasis || (capabilities.ssml.supported && capabilities.ssml.emphasis);
+    case 'pauses':
+      return !requirements.pauses || (capabilities.ssml.supported && capabilities.ssml.breaks);
+    case 'emotionControl':
+      return !requirements.emotionControl || capabilities.emotionControl;
+    case 'language':
+      return !requirements.language || supportsLanguage(capabilities, requirements.language);
+    case 'streaming':
+      return !requirements.streaming || capabilities.streaming;
+    case 'wordTimestamps':
+      return !requirements.wordTimestamps || capabilities.wordTimestamps;
+    case 'voiceCloning':
+      return !requirements.voiceCloning || capabilities.voiceCloning;
+    default:
+      return true;
+  }
+}
+
+export function supportsLanguage(capabilities: ProviderCapabilities, language: string): boolean {
+  const wanted = language.toLowerCase();
+  return capabilities.languages.some(code => {
+    const supported = code.toLowerCase();
+    return supported === '*' || supported === wanted || wanted.startsWith(`${supported}-`);
+  });
+}
+
+/**
+ * Names of the requirements a provider does not meet
+ */
+export function unmetRequirements(capabilities: ProviderCapabilities, requirements: ProviderRequirements): RequirementKey[] {
+  return (Object.keys(requirements) as RequirementKey[])
+    .filter(key => requirements[key] !== undefined && !meetsRequirement(capabilities, key, requirements));
+}
+
+/**
+ * Order providers for a request: providers meeting every hard requirement
+ * first, then by how many soft requirements they meet. Ties keep the incoming
+ * (priority) order. Providers missing a hard requirement are kept at the end
+ * so a request can still be attempted when nothing fits.
+ */
+export function rankProviders(providers: VoiceProvider[], requirements: ProviderRequirements): VoiceProvider[] {
+  const scored = providers.map((provider, index) => {
+    const unmet = unmetRequirements(provider.getCapabilities(), requirements);
+    return {
+      provider,
+      index,
+      hardMisses: unmet.filter(key => HARD_REQUIREMENTS.includes(key)).length,
+      softMisses: unmet.filter(key => !HARD_REQUIREMENTS.includes(key)).length
+    };
+  });
+
+  return scored
+    .sort((a, b) => a.hardMisses - b.hardMisses || a.softMisses - b.softMisses || a.index - b.index)
+    .map(entry => entry.provider);
+}
+
+/**
+ * Human readable capability summary shared by the CLI and MCP servers
+ */
+export function describeCapabilities(capabilities: ProviderCapabilities): string[] {
+  const yesNo = (value: boolean) => value ? 'Yes' : 'No';
+  const ssml = capabilities.ssml;
+  const ssmlFeatures = [ssml.emphasis && 'emphasis', ssml.breaks && 'breaks', ssml.prosody && 'prosody'].filter(Boolean).join(', ');
+
+  return [
+    `📜 SSML: ${ssml.supported ? `Yes (${ssml.dialect || 'w3c'}${ssmlFeatures ? `: ${ssmlFeatures}` : ''})` : 'No'}`,
+    `🎵 Formats: ${capabilities.outputFormats.join(', ')}${capabilities.sampleRates.length ? ` @ ${capabilities.sampleRates.join('/')} Hz` : ''}`,
+    `📏 Max characters: ${Number.isFinite(capabilities.maxCharacters) ? capabilities.maxCharacters : 'unlimited'}`,
+    `🌍 Languages: ${capabilities.languages.includes('*') ? 'any' : capabilities.languages.join(', ')}`,
+    `✅ Emotions: ${yesNo(capabilities.emotionControl)}`,
+    `📡 Streaming: ${yesNo(capabilities.streaming)}`,
+    `⏱️ Word timestamps: ${yesNo(capabilities.wordTimestamps)}`,
+    `🎭 Voice Cloning: ${yesNo(capabilities.voiceCloning)}`
+  ];
+}
@@ -0,0 +1,108 @@
+import { ProviderAttempt } from '../interfaces/voice.interface.js';
+
+export interface ProviderErrorOptions {
+  provider?: string;
+  status?: number;
+  code?: string;
+  retryable?: boolean;
+  cause?: unknown;
+  attempts?: ProviderAttempt[]; // set when the whole fallback chain failed
+}
+
+const RETRYABLE_CODES = new Set([
+  'ETIMEDOUT',
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'EAI_AGAIN',
+  'EPIPE',
+  'ThrottlingException',
+  'ServiceUnavailable',
+  'ServiceFailureException',
+  'RequestTimeout'
+]);
+
+// gRPC status codes used by the Google client, mapped to their HTTP equivalents
+const GRPC_STATUS: Record<number, number> = {
+  4: 504, // DEADLINE_EXCEEDED
+  8: 429, // RESOURCE_EXHAUSTED
+  13: 500, // INTERNAL
+  14: 503 // UNAVAILABLE
+};
+
+/**
+ * Transient failures worth retrying: rate limits, server errors and timeouts
+ */
+export function isRetryableStatus(status?: number, code?: string): boolean {
+  if (status !== undefined && (status === 408 || status === 429 || status >= 500)) {
+    return true;
+  }
+
+  return code !== undefined && RETRYABLE_CODES.has(code);
+}
+
+/**
+ * Error raised by a voice provider, carrying enough detail for the engine to
+ * decide whether to retry, fail over or give up.
+ */
+export class ProviderError extends Error {
+  readonly provider?: string;
+  readonly status?: number;
+  readonly code?: string;
+  readonly retryable: boolean;
+  readonly cause?: unknown;
+  readonly attempts: ProviderAttempt[];
+
+  constructor(message: string, options: ProviderErrorOptions = {}) {
+    super(message);
+    this.name = 'ProviderError';
+    this.provider = options.provider;
+    this.status = options.status;
+    this.code = options.code;
+    this.cause = options.cause;
+    this.attempts = options.attempts || [];
+    this.retryable = options.retryable ?? isRetryableStatus(options.status, options.code);
+  }
+
+  /**
+   * Wrap an SDK or HTTP error, pulling the status and error code out of the
+   * shapes used by axios, the OpenAI SDK, the AWS SDK and gRPC clients.
+   */
+  static from(provider: string, error: unknown, context: string): ProviderError {
+    const message = `${context}: ${error instanceof Error ? error.message : String(error)}`;
+
+    if (error instanceof ProviderError) {
+      return new ProviderError(message, {
+        provider,
+        status: error.status,
+        code: error.code,
+        retryable: error.retryable,
+        cause: error
+      });
+    }
+
+    const source = (error ?? {}) as Record<string, any>;
+    let status: number | undefined = source.response?.status ?? source.$metadata?.httpStatusCode;
+    let code: string | undefined = typeof source.code === 'string' ? source.code : undefined;
+
+    if (status === undefined && typeof source.status === 'number') {
+      status = source.status;
+    }
+
+    if (status === undefined && typeof source.code === 'number') {
+      status = GRPC_STATUS[source.code];
+    }
+
+    if (!code && typeof source.name === 'string' && RETRYABLE_CODES.has(source.name)) {
+      code = source.name;
+    }
+
+    return new ProviderError(message, {
+      provider,
+      status,
+      code,
+      retryable: source.$retryable ? true : undefined,
+      cause: error
+    });
+  }
+}
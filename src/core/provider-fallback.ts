@@ -0,0 +1,139 @@
+import { ProviderError } from './provider-error.js';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // consecutive failures before the circuit opens
+  resetTimeoutMs: number; // how long an open circuit rejects before a trial request
+}
+
+export interface FallbackPolicy {
+  maxRetries: number; // retries per provider for retryable errors
+  initialDelayMs: number;
+  maxDelayMs: number;
+  backoffMultiplier: number;
+  jitter: boolean;
+  failover: boolean; // try the next provider once retries are exhausted
+  circuitBreaker: CircuitBreakerOptions;
+}
+
+export const DEFAULT_FALLBACK_POLICY: FallbackPolicy = {
+  maxRetries: 2,
+  initialDelayMs: 500,
+  maxDelayMs: 8000,
+  backoffMultiplier: 2,
+  jitter: true,
+  failover: true,
+  circuitBreaker: {
+    failureThreshold: 5,
+    resetTimeoutMs: 30000
+  }
+};
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Per-provider circuit breaker. After `failureThreshold` consecutive failures
+ * the circuit opens and requests are skipped until `resetTimeoutMs` has passed,
+ * then a single trial request decides whether it closes again; other requests
+ * are skipped while the trial is in flight.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(private options: CircuitBreakerOptions, private now: () => number = Date.now) {}
+
+  /**
+   * Whether a request may go ahead. In the half-open state the first caller
+   * gets the trial and must report its outcome through one of the record
+   * methods or `release`.
+   */
+  canRequest(): boolean {
+    this.refresh();
+
+    if (this.state === 'half-open') {
+      if (this.trialInFlight) return false;
+      this.trialInFlight = true;
+    }
+
+    return this.state !== 'open';
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.state = 'closed';
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    this.trialInFlight = false;
+
+    if (this.state === 'half-open' || this.failures >= this.options.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = this.now();
+    }
+  }
+
+  /**
+   * End a request without counting it either way, e.g. one rejected for a
+   * fault of its own. A half-open circuit lets the next request be the trial.
+   */
+  release(): void {
+    this.trialInFlight = false;
+  }
+
+  getState(): CircuitState {
+    this.refresh();
+    return this.state;
+  }
+
+  private refresh(): void {
+    if (this.state === 'open' && this.now() - this.openedAt >= this.options.resetTimeoutMs) {
+      this.state = 'half-open';
+    }
+  }
+}
+
+export function resolveFallbackPolicy(policy: Partial<FallbackPolicy> = {}): FallbackPolicy {
+  return {
+    ...DEFAULT_FALLBACK_POLICY,
+    ...policy,
+    circuitBreaker: { ...DEFAULT_FALLBACK_POLICY.circuitBreaker, ...policy.circuitBreaker }
+  };
+}
+
+/**
+ * Exponential backoff delay for the given retry (0-based), with optional full jitter
+ */
+export function backoffDelay(policy: FallbackPolicy, retry: number, random: () => number = Math.random): number {
+  const delay = Math.min(policy.maxDelayMs, policy.initialDelayMs * Math.pow(policy.backoffMultiplier, retry));
+  return policy.jitter ? Math.round(delay * random()) : delay;
+}
+
+export function isRetryableError(error: unknown): boolean {
+  return error instanceof ProviderError && error.retryable;
+}
+
+/**
+ * Whether a failure counts against the provider's circuit. Non-retryable 4xx
+ * errors are caused by the request (a bad voice id, text over the limit,
+ * invalid SSML), as is an output format the provider cannot render; neither
+ * says anything about the provider's health.
+ */
+export function isProviderFailure(error: unknown): boolean {
+  if (error instanceof ProviderError && error.code === 'UNSUPPORTED_FORMAT') {
+    return false;
+  }
+
+  if (!(error instanceof ProviderError) || error.retryable || error.status === undefined) {
+    return true;
+  }
+
+  return error.status < 400 || error.status >= 500;
+}
+
+export function sleep(ms: number): Promise<void> {
+  return ms > 0 ? new Promise(resolve => setTimeout(resolve, ms)) : Promise.resolve();
+}
@@ -0,0 +1,262 @@
+import { VoiceProvider } from './provider.base.js';
+import { ElevenLabsProvider } from '../providers/elevenlabs/provider.js';
+import { OpenAIProvider } from '../providers/openai/provider.js';
+import { GoogleProvider } from '../providers/google/provider.js';
+import { PollyProvider } from '../providers/amazon/provider.js';
+import { LocalCommandProvider, LocalCommandPreset } from '../providers/local/provider.js';
+import { SyntheticProvider } from '../providers/synthetic/provider.js';
+import { RateLimit } from './rate-limiter.js';
+import { promises as fs } from 'fs';
+
+export type ProviderFactory = (config: ProviderConfig) => VoiceProvider | Promise<VoiceProvider>;
+
+/**
+ * Declarative provider entry, usable from code or a JSON config file
+ */
+export interface ProviderConfig {
+  name: string; // registry key, also used by VoiceProfile.provider
+  type?: string; // built-in factory to use when no provider or factory is given (defaults to name)
+  provider?: VoiceProvider;
+  factory?: ProviderFactory;
+  credentials?: Record<string, string | undefined>;
+  options?: Record<string, any>;
+  priority?: number; // higher is preferred
+  enabled?: boolean;
+  rateLimit?: RateLimit;
+}
+
+export interface ProviderConfigFile {
+  providers: ProviderConfig[];
+}
+
+interface RegistryEntry {
+  config: ProviderConfig;
+  provider?: VoiceProvider;
+  available: boolean;
+  error?: string;
+}
+
+export const BUILT_IN_PROVIDER_FACTORIES: Record<string, ProviderFactory> = {
+  elevenlabs: config => new ElevenLabsProvider(requireCredential(config, 'apiKey')),
+  openai: config => new OpenAIProvider(requireCredential(config, 'apiKey')),
+  google: config => new GoogleProvider({
+    keyFilename: config.credentials?.keyFilename,
+    projectId: config.credentials?.projectId,
+    ...config.options
+  }),
+  amazon: config => new PollyProvider({
+    credentials: config.credentials?.accessKeyId ? {
+      accessKeyId: config.credentials.accessKeyId,
+      secretAccessKey: config.credentials.secretAccessKey || '',
+      sessionToken: config.credentials.sessionToken
+    } : undefined,
+    ...config.options
+  }),
+  local: config => new LocalCommandProvider(config.options),
+  synthetic: config => new SyntheticProvider(config.options)
+};
+
+const DEFAULT_PRIORITIES: Record<string, number> = {
+  elevenlabs: 100,
+  openai: 90,
+  google: 80,
+  amazon: 70,
+  local: 20,
+  synthetic: 10
+};
+
+function requireCredential(config: ProviderConfig, key: string): string {
+  const value = config.credentials?.[key];
+  if (!value) {
+    throw new Error(`Provider "${config.name}" is missing credential "${key}"`);
+  }
+  return value;
+}
+
+/**
+ * Build provider configs from the environment variables the engine has always honoured
+ */
+export function providerConfigsFromEnv(env: NodeJS.ProcessEnv = process.env): ProviderConfig[] {
+  const configs: ProviderConfig[] = [];
+
+  if (env.ELEVENLABS_API_KEY) {
+    configs.push({ name: 'elevenlabs', credentials: { apiKey: env.ELEVENLABS_API_KEY } });
+  }
+
+  if (env.OPENAI_API_KEY) {
+    configs.push({ name: 'openai', credentials: { apiKey: env.OPENAI_API_KEY } });
+  }
+
+  if (env.GOOGLE_APPLICATION_CREDENTIALS) {
+    configs.push({
+      name: 'google',
+      credentials: { keyFilename: env.GOOGLE_APPLICATION_CREDENTIALS, projectId: env.GOOGLE_CLOUD_PROJECT }
+    });
+  }
+
+  if (env.AWS_ACCESS_KEY_ID || env.AWS_PROFILE) {
+    configs.push({ name: 'amazon', options: { region: env.AWS_REGION } });
+  }
+
+  if (env.LOCAL_TTS_COMMAND || env.LOCAL_TTS_PRESET) {
+    configs.push({
+      name: 'local',
+      options: {
+        command: env.LOCAL_TTS_COMMAND,
+        preset: env.LOCAL_TTS_PRESET as LocalCommandPreset | undefined,
+        defaultVoice: env.LOCAL_TTS_VOICE
+      }
+    });
+  }
+
+  if (env.SYNTHETIC_TTS_ENABLED === 'true') {
+    configs.push({ name: 'synthetic' });
+  }
+
+  return configs;
+}
+
+/**
+ * Load provider configs from a JSON file. String values of the form
+ * "${VAR_NAME}" are resolved from the environment so secrets stay out of the file.
+ */
+export async function loadProviderConfigFile(filePath: string, env: NodeJS.ProcessEnv = process.env): Promise<ProviderConfig[]> {
+  let parsed: ProviderConfigFile;
+
+  try {
+    const content = await fs.readFile(filePath, 'utf-8');
+    parsed = JSON.parse(content, (_key, value) =>
+      typeof value === 'string' ? value.replace(/\$\{(\w+)\}/g, (_, name) => env[name] ?? '') : value
+    );
+  } catch (error) {
+    throw new Error(`Failed to load provider config ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!parsed || !Array.isArray(parsed.providers)) {
+    throw new Error(`Provider config ${filePath} must contain a "providers" array`);
+  }
+
+  return parsed.providers;
+}
+
+/**
+ * Registry of voice providers with priorities and enabled flags
+ */
+export class ProviderRegistry {
+  private entries: Map<string, RegistryEntry> = new Map();
+  private factories: Map<string, ProviderFactory> = new Map(Object.entries(BUILT_IN_PROVIDER_FACTORIES));
+
+  /**
+   * Register (or replace) a provider config. The provider is created on initialization.
+   */
+  register(config: ProviderConfig): void {
+    if (!config.name) {
+      throw new Error('Provider config requires a name');
+    }
+
+    this.entries.set(config.name, { config, available: false });
+  }
+
+  /**
+   * Make a factory available to configs by type name
+   */
+  registerFactory(type: string, factory: ProviderFactory): void {
+    this.factories.set(type, factory);
+  }
+
+  unregister(name: string): boolean {
+    return this.entries.delete(name);
+  }
+
+  /**
+   * Create and initialize every enabled provider that is not available yet
+   */
+  async initializeAll(): Promise<void> {
+    for (const name of this.entries.keys()) {
+      await this.initializeProvider(name);
+    }
+  }
+
+  async initializeProvider(name: string): Promise<boolean> {
+    const entry = this.entries.get(name);
+    if (!entry || entry.available || entry.config.enabled === false) {
+      return entry?.available || false;
+    }
+
+    try {
+      const provider = entry.provider || await this.createProvider(entry.config);
+      entry.provider = provider;
+      await provider.initialize();
+      entry.available = true;
+      entry.error = undefined;
+      console.log(`✅ ${name} provider initialized`);
+    } catch (error) {
+      entry.error = error instanceof Error ? error.message : String(error);
+      console.warn(`⚠️ ${name} provider failed to initialize:`, entry.error);
+    }
+
+    return entry.available;
+  }
+
+  private async createProvider(config: ProviderConfig): Promise<VoiceProvider> {
+    if (config.provider) return config.provider;
+    if (config.factory) return config.factory(config);
+
+    const type = config.type || config.name;
+    const factory = this.factories.get(type);
+    if (!factory) {
+      throw new Error(`Unknown provider type "${type}"`);
+    }
+
+    return factory(config);
+  }
+
+  get(name: string): VoiceProvider | undefined {
+    const entry = this.entries.get(name);
+    return entry?.available && entry.config.enabled !== false ? entry.provider : undefined;
+  }
+
+  has(name: string): boolean {
+    return this.get(name) !== undefined;
+  }
+
+  setEnabled(name: string, enabled: boolean): void {
+    const entry = this.entries.get(name);
+    if (entry) {
+      entry.config.enabled = enabled;
+    }
+  }
+
+  getPriority(name: string): number {
+    const entry = this.entries.get(name);
+    return entry?.config.priority ?? DEFAULT_PRIORITIES[entry?.config.type || name] ?? 50;
+  }
+
+  getRateLimit(name: string): RateLimit | undefined {
+    return this.entries.get(name)?.config.rateLimit;
+  }
+
+  /**
+   * Available provider names, highest priority first
+   */
+  names(): string[] {
+    return Array.from(this.entries.keys())
+      .filter(name => this.has(name))
+      .sort((a, b) => this.getPriority(b) - this.getPriority(a));
+  }
+
+  /**
+   * Available providers, highest priority first
+   */
+  list(): VoiceProvider[] {
+    return this.names().map(name => this.get(name)!);
+  }
+
+  getError(name: string): string | undefined {
+    return this.entries.get(name)?.error;
+  }
+
+  get size(): number {
+    return this.names().length;
+  }
+}
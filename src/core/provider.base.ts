@@ -1,17 +1,58 @@
-import { VoiceProfile, GenerationRequest, VoiceModulation } from '../interfaces/voice.interface.js';
+import { VoiceProfile, GenerationRequest, VoiceModulation, WordTimestamp } from '../interfaces/voice.interface.js';
+import { ProviderCapabilities } from '../interfaces/provider.interface.js';
+import { ssmlDocument } from '../utils/ssml-generator.js';
 
 export abstract class VoiceProvider {
   abstract name: string;
+  model?: string; // model or engine identifier, part of the render cache key
   abstract initialize(): Promise<void>;
   abstract generateSpeech(request: GenerationRequest): Promise<Buffer>;
   abstract listVoices(): Promise<VoiceProfile[]>;
   abstract createVoiceProfile(prompt: string): Promise<VoiceProfile>;
   abstract supportsEmotions(): boolean;
   abstract supportsVoiceCloning(): boolean;
+
+  /**
+   * Optional incremental rendering. Providers that implement this yield audio
+   * in `request.outputFormat` as it arrives; others are streamed in chunks by the engine.
+   */
+  generateSpeechStream?(request: GenerationRequest): AsyncIterable<Buffer>;
+
+  /**
+   * Optional rendering with word timings measured by the provider. The engine
+   * uses it whenever a provider implements it; otherwise timings are estimated.
+   */
+  generateSpeechWithTimestamps?(request: GenerationRequest): Promise<{ audio: Buffer; words: WordTimestamp[] }>;
+
+  /**
+   * Describe what the provider can do. Providers should override this; the
+   * default is a conservative plain-text MP3 profile.
+   */
+  getCapabilities(): ProviderCapabilities {
+    return {
+      ssml: { supported: false, emphasis: false, breaks: false, prosody: false },
+      outputFormats: ['mp3'],
+      sampleRates: [],
+      maxCharacters: 5000,
+      languages: ['en'],
+      emotionControl: this.supportsEmotions(),
+      streaming: false,
+      wordTimestamps: false,
+      voiceCloning: this.supportsVoiceCloning()
+    };
+  }
   
+  /**
+   * The `<speak>` document when `text` is SSML, without any leading XML
+   * declaration (as `SSMLGenerator` writes); undefined for plain text
+   */
+  protected ssmlDocument(text: string): string | undefined {
+    return ssmlDocument(text);
+  }
+
   protected convertToSSML(text: string, modulation?: VoiceModulation): string {
     if (!modulation) {
-      return `<speak>${text}</speak>`;
+      return `<speak>${escapeXml(text)}</speak>`;
     }
 
     let ssml = '<speak>';
@@ -33,28 +74,25 @@ export abstract class VoiceProvider {
       ssml += `<prosody volume="${volumeDb}dB">`;
     }
 
-    // Process text with emphasis and pauses
-    let processedText = text;
-    
-    // Add emphasis
+    // Escape the text, then add pauses at their positions in the original text
+    let processedText = escapeXml(text);
+    [...modulation.pauses].sort((a, b) => b.position - a.position).forEach(pause => {
+      const position = escapeXml(text.slice(0, pause.position)).length;
+      processedText =
+        processedText.slice(0, position) +
+        `<break time="${pause.duration}ms"/>` +
+        processedText.slice(position);
+    });
+
+    // Add emphasis, leaving the break tags alone
     modulation.emphasis.forEach(emphasis => {
-      const word = emphasis.word;
+      const word = escapeXml(emphasis.word);
       const strength = emphasis.strength > 0.7 ? 'strong' : emphasis.strength > 0.3 ? 'moderate' : 'reduced';
       processedText = processedText.replace(
-        new RegExp(`\\b${word}\\b`, 'gi'),
+        new RegExp(`\\b${word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b(?![^<]*>)`, 'gi'),
         `<emphasis level="${strength}">${word}</emphasis>`
       );
     });
-    
-    // Add pauses
-    modulation.pauses.sort((a, b) => b.position - a.position); // Sort in reverse order
-    modulation.pauses.forEach(pause => {
-      const pauseTime = `${pause.duration}ms`;
-      processedText = 
-        processedText.slice(0, pause.position) + 
-        `<break time="${pauseTime}"/>` + 
-        processedText.slice(pause.position);
-    });
 
     ssml += processedText;
     
@@ -84,4 +122,8 @@ export abstract class VoiceProvider {
       pace: 'normal'
     };
   }
-}
\ No newline at end of file
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+}
@@ -0,0 +1,72 @@
+export interface RateLimit {
+  requestsPerMinute?: number; // requests started in any rolling 60 second window
+  maxConcurrent?: number; // requests in flight at once
+}
+
+const WINDOW_MS = 60000;
+
+/**
+ * Per-provider request limiter. `acquire()` waits until both the rolling
+ * window and the concurrency limit allow another request and resolves with a
+ * release function that must be called once the request has finished.
+ */
+export class RateLimiter {
+  private startedAt: number[] = [];
+  private inFlight = 0;
+  private waiters: (() => void)[] = [];
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private limit: RateLimit, private now: () => number = Date.now) {}
+
+  async acquire(): Promise<() => void> {
+    while (!this.tryStart()) {
+      await new Promise<void>(resolve => {
+        this.waiters.push(resolve);
+        this.scheduleWake();
+      });
+    }
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.inFlight--;
+      this.wakeNext();
+    };
+  }
+
+  getLimit(): RateLimit {
+    return this.limit;
+  }
+
+  private tryStart(): boolean {
+    const now = this.now();
+    this.startedAt = this.startedAt.filter(time => now - time < WINDOW_MS);
+
+    if (this.limit.maxConcurrent && this.inFlight >= this.limit.maxConcurrent) return false;
+    if (this.limit.requestsPerMinute && this.startedAt.length >= this.limit.requestsPerMinute) return false;
+
+    this.startedAt.push(now);
+    this.inFlight++;
+    return true;
+  }
+
+  private wakeNext(): void {
+    const waiter = this.waiters.shift();
+    if (waiter) waiter();
+  }
+
+  /**
+   * When the window is full, wake a waiter as soon as the oldest request leaves it
+   */
+  private scheduleWake(): void {
+    if (this.timer || !this.limit.requestsPerMinute || this.startedAt.length < this.limit.requestsPerMinute) return;
+
+    const delay = Math.max(0, this.startedAt[0] + WINDOW_MS - this.now());
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.wakeNext();
+      if (this.waiters.length > 0) this.scheduleWake();
+    }, delay);
+  }
+}
@@ -1,58 +1,145 @@
 import { VoiceProvider } from './provider.base.js';
-import { GenerationRequest, VoiceProfile, VoiceCharacteristics } from '../interfaces/voice.interface.js';
-import { ElevenLabsProvider } from '../providers/elevenlabs/provider.js';
-import { OpenAIProvider } from '../providers/openai/provider.js';
+import { GenerationRequest, GenerationResult, ProviderAttempt, VoiceProfile, VoiceCharacteristics, WordTimestamp } from '../interfaces/voice.interface.js';
+import { ProviderRegistry, ProviderConfig, providerConfigsFromEnv, loadProviderConfigFile } from './provider-registry.js';
+import { ProviderError } from './provider-error.js';
+import { deriveRequirements, rankProviders, unmetRequirements } from './provider-capabilities.js';
+import { ProviderCapabilities } from '../interfaces/provider.interface.js';
+import {
+  CircuitBreaker,
+  CircuitState,
+  FallbackPolicy,
+  resolveFallbackPolicy,
+  backoffDelay,
+  isRetryableError,
+  isProviderFailure,
+  sleep
+} from './provider-fallback.js';
+import { RateLimiter, RateLimit } from './rate-limiter.js';
+import { BatchRunner, BatchOptions, BatchResult } from './batch-runner.js';
 import { parseVoicePrompt } from '../utils/prompt-parser.js';
 import { AudioProcessor } from '../utils/audio-processor.js';
+import { TextChunker, TextChunk } from '../utils/text-chunker.js';
+import { isSSML } from '../utils/ssml-generator.js';
+import { RenderCache, RenderCacheOptions, RenderCacheKeyParts } from '../utils/render-cache.js';
+import { WavInfo, parseWavHeader, createStreamingWavHeader, probeAudio, audioFrames } from '../utils/audio-info.js';
+import { estimateWordTimestamps, sentenceTimestamps, offsetTimestamps } from '../utils/word-timing.js';
+import { Readable } from 'stream';
 import { EmotionTransitionEngine } from './emotion-transition-engine.js';
-import { EmotionTransition } from '../interfaces/emotion-transition.interface.js';
+import { EmotionTransition, EmotionSegment } from '../interfaces/emotion-transition.interface.js';
+import { PcmBuffer, joinPcm, pcmFrameCount } from '../audio/pcm-buffer.js';
+import { decodeWav, encodeWav } from '../audio/wav-codec.js';
+import { conformPcm } from '../audio/session-format.js';
+
+export interface VoiceEngineOptions {
+  providers?: ProviderConfig[];
+  configFile?: string; // JSON file with a "providers" array, defaults to $VOICE_PROVIDERS_CONFIG
+  discoverFromEnv?: boolean; // defaults to true unless providers or a config file are given
+  fallback?: Partial<FallbackPolicy>;
+  maxChunkCharacters?: number; // split long text below the provider limit, e.g. for latency
+  chunkCrossfadeMs?: number; // crossfade between stitched chunks, default 40
+  cache?: RenderCacheOptions | RenderCache | false; // false disables the render cache
+  streamChunkCharacters?: number; // chunk size when streaming without provider support, default 200
+  rateLimits?: Record<string, RateLimit>; // per provider, overrides a provider config's rateLimit
+  transitionCrossfadeMs?: number; // crossfade at emotion transition seams, default 30
+}
+
+// Fraction of a provider's character limit used per chunk
+const CHUNK_HEADROOM = 0.9;
+
+// Limiter per provider; null means unlimited
+type RateLimiters = Map<string, RateLimiter | null>;
 
 export class VoiceEngine {
-  private providers: Map<string, VoiceProvider> = new Map();
+  private registry: ProviderRegistry = new ProviderRegistry();
+  private options: VoiceEngineOptions;
+  private fallbackPolicy: FallbackPolicy;
+  private circuitBreakers: Map<string, CircuitBreaker> = new Map();
+  private rateLimiters: RateLimiters = new Map();
   private audioProcessor: AudioProcessor;
   private emotionEngine: EmotionTransitionEngine;
+  private textChunker: TextChunker = new TextChunker();
+  private renderCache: RenderCache | null;
   private initialized = false;
 
-  constructor() {
+  constructor(options: VoiceEngineOptions = {}) {
+    this.options = options;
+    this.fallbackPolicy = resolveFallbackPolicy(options.fallback);
+    this.renderCache = options.cache === false
+      ? null
+      : options.cache instanceof RenderCache ? options.cache : new RenderCache(options.cache);
     this.audioProcessor = new AudioProcessor();
     this.emotionEngine = new EmotionTransitionEngine();
+
+    for (const config of options.providers || []) {
+      this.registry.register(config);
+    }
   }
 
   async initialize() {
     if (this.initialized) return;
 
-    // Initialize all configured providers
-    if (process.env.ELEVENLABS_API_KEY) {
-      try {
-        const elevenlabs = new ElevenLabsProvider(process.env.ELEVENLABS_API_KEY);
-        await elevenlabs.initialize();
-        this.providers.set('elevenlabs', elevenlabs);
-        console.log('✅ ElevenLabs provider initialized');
-      } catch (error) {
-        console.warn('⚠️ ElevenLabs provider failed to initialize:', error instanceof Error ? error.message : String(error));
+    const configFile = this.options.configFile || process.env.VOICE_PROVIDERS_CONFIG;
+    if (configFile) {
+      for (const config of await loadProviderConfigFile(configFile)) {
+        this.registry.register(config);
       }
     }
 
-    if (process.env.OPENAI_API_KEY) {
-      try {
-        const openai = new OpenAIProvider(process.env.OPENAI_API_KEY);
-        await openai.initialize();
-        this.providers.set('openai', openai);
-        console.log('✅ OpenAI provider initialized');
-      } catch (error) {
-        console.warn('⚠️ OpenAI provider failed to initialize:', error instanceof Error ? error.message : String(error));
+    const discoverFromEnv = this.options.discoverFromEnv ?? (!this.options.providers && !configFile);
+    if (discoverFromEnv) {
+      for (const config of providerConfigsFromEnv()) {
+        this.registry.register(config);
       }
     }
 
-    if (this.providers.size === 0) {
-      throw new Error('No voice providers are available. Please configure API keys.');
+    await this.registry.initializeAll();
+
+    if (this.registry.size === 0) {
+      throw new Error('No voice providers are available. Please configure API keys or a local TTS command.');
     }
 
     this.initialized = true;
-    console.log(`🎵 Voice Engine initialized with ${this.providers.size} provider(s)`);
+    console.log(`🎵 Voice Engine initialized with ${this.registry.size} provider(s)`);
+  }
+
+  /**
+   * Register a provider instance or config. Providers registered after
+   * initialization are initialized immediately.
+   */
+  async registerProvider(provider: VoiceProvider | ProviderConfig): Promise<void> {
+    const config: ProviderConfig = provider instanceof VoiceProvider
+      ? { name: provider.name, provider }
+      : provider;
+
+    this.registry.register(config);
+
+    if (this.initialized && !(await this.registry.initializeProvider(config.name))) {
+      throw new Error(`Provider "${config.name}" failed to initialize: ${this.registry.getError(config.name)}`);
+    }
+  }
+
+  getProviderRegistry(): ProviderRegistry {
+    return this.registry;
   }
 
   async generateVoice(request: GenerationRequest): Promise<Buffer> {
+    const result = await this.generateVoiceResult(request);
+    return result.audio;
+  }
+
+  /**
+   * Generate voice and report the provider that served it, every attempt made,
+   * the audio's duration and format, and word and sentence timestamps
+   */
+  async generateVoiceResult(request: GenerationRequest): Promise<GenerationResult> {
+    return this.renderVoiceResult(request);
+  }
+
+  /**
+   * `generateVoiceResult` with rate limiters that replace the engine's for
+   * the providers they name, so a batch run can apply its own limits
+   */
+  private async renderVoiceResult(request: GenerationRequest, rateLimiters?: RateLimiters): Promise<GenerationResult> {
     await this.initialize();
 
     // Parse voice prompt if provided
@@ -62,20 +149,29 @@ export class VoiceEngine {
 
     // Handle emotion transitions if provided
     if (request.emotionTransitions && request.emotionTransitions.length > 0) {
-      return this.generateVoiceWithEmotionTransitions(request);
+      return this.renderEmotionTransitions(request, rateLimiters);
     }
 
-    // Select appropriate provider
-    const provider = this.selectProvider(request);
-    
-    if (!provider) {
-      throw new Error('No suitable voice provider available for this request');
+    const selected = this.getProviderChain(request)[0];
+    const cacheKey = this.renderCache?.enabled ? this.renderCache.createKey(this.cacheKeyParts(request, selected)) : null;
+
+    if (cacheKey && !request.bypassCache) {
+      const cached = await this.renderCache!.get(cacheKey);
+      const cachedWords = this.renderCache!.getEntry(cacheKey)?.words;
+
+      // Entries written before provider timings were stored cannot satisfy a timestamp requirement
+      if (cached && (cachedWords || !request.requirements?.wordTimestamps)) {
+        console.log(`💾 Using cached render (${cached.length} bytes)`);
+        return this.describeResult(request, { audio: cached, provider: selected.name, attempts: [], cacheHit: true, words: cachedWords });
+      }
     }
 
-    console.log(`🎤 Generating voice using ${provider.name} provider`);
-    
-    // Generate raw audio
-    const audioBuffer = await provider.generateSpeech(request);
+    // Generate raw audio, retrying and failing over as the policy allows.
+    // Text over the provider's character limit is rendered in chunks and stitched.
+    const chunks = this.splitForProviderLimit(request);
+    const { audio: audioBuffer, provider, attempts, words } = chunks
+      ? await this.renderChunks(chunks, rateLimiters)
+      : await this.generateWithFallback(request, rateLimiters);
     
     // Post-process audio
     const processedAudio = await this.audioProcessor.process(audioBuffer, {
@@ -84,14 +180,397 @@ export class VoiceEngine {
       removeNoise: true
     });
 
-    console.log(`✅ Voice generated successfully (${processedAudio.length} bytes)`);
-    return processedAudio;
+    // Only cache renders from the provider the key was computed for
+    if (cacheKey && provider === selected.name) {
+      await this.renderCache!.set(cacheKey, processedAudio, { provider, format: request.outputFormat, words });
+    }
+
+    console.log(`✅ Voice generated successfully by ${provider} (${processedAudio.length} bytes)`);
+    return this.describeResult(request, { audio: processedAudio, provider, attempts, cacheHit: false, words });
+  }
+
+  /**
+   * Fill in audio properties and timestamps. Provider timings are kept when
+   * present; otherwise words are estimated over the measured duration.
+   */
+  private describeResult(request: GenerationRequest, result: GenerationResult): GenerationResult {
+    const info = probeAudio(result.audio);
+    const providerWords = result.words && result.words.length > 0 ? result.words : null;
+    const words = providerWords || estimateWordTimestamps(request.text, {
+      duration: info?.duration,
+      pauses: request.modulation?.pauses
+    });
+    const profile = request.voiceProfile;
+
+    return {
+      ...result,
+      voice: profile && result.provider.split(',').includes(profile.provider) ? profile.baseVoiceId || undefined : undefined,
+      format: request.outputFormat,
+      duration: info?.duration,
+      sampleRate: info?.sampleRate,
+      channels: info?.channels,
+      words,
+      sentences: sentenceTimestamps(request.text, words),
+      timestampSource: providerWords ? 'provider' : 'estimated'
+    };
+  }
+
+  private cacheKeyParts(request: GenerationRequest, provider: VoiceProvider): RenderCacheKeyParts {
+    return {
+      text: request.text,
+      voiceProfile: request.voiceProfile,
+      modulation: request.modulation,
+      emotionMap: request.emotionMap,
+      provider: provider.name,
+      model: provider.model,
+      outputFormat: request.outputFormat
+    };
+  }
+
+  getRenderCache(): RenderCache | null {
+    return this.renderCache;
+  }
+
+  /**
+   * Split a request when its text exceeds the selected provider's character
+   * limit (or the configured chunk size). SSML input is never split.
+   */
+  private splitForProviderLimit(request: GenerationRequest): { request: GenerationRequest; chunk: TextChunk }[] | null {
+    if (isSSML(request.text)) {
+      return null;
+    }
+
+    const providerLimit = this.getProviderChain(request)[0].getCapabilities().maxCharacters;
+    // Leave headroom for the markup providers add when converting modulation to SSML
+    const limit = Math.min(Math.floor(providerLimit * CHUNK_HEADROOM), this.options.maxChunkCharacters ?? Infinity);
+
+    if (!Number.isFinite(limit) || request.text.length <= limit) {
+      return null;
+    }
+
+    const parts = this.textChunker.splitRequest(request, limit);
+    return parts.length > 1 ? parts : null;
+  }
+
+  /**
+   * Render chunks one by one and join them with loudness matching and short crossfades
+   */
+  private async renderChunks(parts: { request: GenerationRequest; chunk: TextChunk }[], rateLimiters?: RateLimiters): Promise<GenerationResult> {
+    console.log(`✂️ Rendering long text in ${parts.length} chunks`);
+
+    const buffers: Buffer[] = [];
+    const attempts: ProviderAttempt[] = [];
+    const providers: string[] = [];
+    const crossfadeSeconds = (this.options.chunkCrossfadeMs ?? 40) / 1000;
+    let words: WordTimestamp[] | undefined = [];
+    let offset = 0;
+
+    for (const part of parts) {
+      const result = await this.generateWithFallback(part.request, rateLimiters);
+      buffers.push(result.audio);
+      attempts.push(...result.attempts);
+      if (!providers.includes(result.provider)) providers.push(result.provider);
+
+      // Provider timings survive only if every chunk has them and a measurable length
+      const duration = probeAudio(result.audio)?.duration;
+      if (words && result.words?.length && duration !== undefined) {
+        words.push(...offsetTimestamps(result.words, offset, part.chunk.start));
+        offset += duration - crossfadeSeconds;
+      } else {
+        words = undefined;
+      }
+    }
+
+    const audio = await this.audioProcessor.concatenate(buffers, {
+      format: 'wav',
+      crossfadeMs: this.options.chunkCrossfadeMs
+    });
+
+    return { audio, provider: providers.join(','), attempts, words };
+  }
+
+  /**
+   * Stream audio as it is rendered. Providers with native streaming are used
+   * directly (without post-processing, to keep latency low); otherwise the text
+   * is rendered sentence by sentence and each chunk is emitted when ready.
+   */
+  generateVoiceStream(request: GenerationRequest): Readable {
+    return Readable.from(this.streamVoice(request), { objectMode: false });
+  }
+
+  private async *streamVoice(request: GenerationRequest): AsyncGenerator<Buffer> {
+    await this.initialize();
+
+    if (request.voicePrompt && !request.voiceProfile) {
+      request.voiceProfile = await this.createVoiceFromPrompt(request.voicePrompt);
+    }
+
+    // Emotion transitions need the whole timeline; render once and emit it
+    if (request.emotionTransitions && request.emotionTransitions.length > 0) {
+      yield (await this.renderEmotionTransitions(request)).audio;
+      return;
+    }
+
+    const streamRequest: GenerationRequest = {
+      ...request,
+      requirements: { ...request.requirements, streaming: true }
+    };
+
+    for (const provider of this.getProviderChain(streamRequest)) {
+      if (!provider.generateSpeechStream || !provider.getCapabilities().streaming) continue;
+      if (request.text.length > provider.getCapabilities().maxCharacters) continue;
+
+      const breaker = this.getCircuitBreaker(provider.name);
+      if (!breaker.canRequest()) continue;
+
+      const release = await this.acquireRateLimit(provider.name);
+      const iterator = provider.generateSpeechStream(this.adaptRequestForProvider(request, provider))[Symbol.asyncIterator]();
+      let first: IteratorResult<Buffer>;
+
+      // Failures before the first byte can still fall through to another provider
+      try {
+        first = await iterator.next();
+        breaker.recordSuccess();
+      } catch (error) {
+        release();
+        if (isProviderFailure(error)) breaker.recordFailure();
+        else breaker.release();
+        console.warn(`⚠️ ${provider.name} streaming failed to start:`, error instanceof Error ? error.message : String(error));
+        continue;
+      }
+
+      let finished = first.done ?? false;
+      try {
+        console.log(`📡 Streaming voice from ${provider.name} provider`);
+        if (!first.done) yield first.value;
+
+        for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+          yield next.value;
+        }
+        finished = true;
+      } finally {
+        release();
+        // A consumer that destroys the stream early stops the provider's stream too
+        if (!finished) await iterator.return?.();
+      }
+      return;
+    }
+
+    yield* this.streamChunks(request);
+  }
+
+  /**
+   * Fallback streaming: render sentence-sized chunks through the normal
+   * pipeline and emit each as soon as it is ready. WAV chunks are joined
+   * with crossfades under a single streaming header; MP3 and AAC chunks are
+   * sent as bare frames so no tags or VBR headers land mid-stream.
+   */
+  private async *streamChunks(request: GenerationRequest): AsyncGenerator<Buffer> {
+    const limit = this.options.streamChunkCharacters ?? 200;
+    const parts = isSSML(request.text)
+      ? [{ request }]
+      : this.textChunker.splitRequest(request, limit);
+
+    console.log(`📡 Streaming voice in ${parts.length} rendered chunk(s)`);
+
+    const crossfade = (this.options.chunkCrossfadeMs ?? 40) / 1000;
+    let format: WavInfo | null = null;
+    let held: PcmBuffer | null = null; // tail of the last chunk, crossfaded into the next
+
+    for (const part of parts) {
+      const { audio } = await this.generateVoiceResult(part.request);
+
+      if (request.outputFormat !== 'wav') {
+        const frames = audioFrames(audio);
+        yield frames.length > 0 ? frames : audio;
+        continue;
+      }
+
+      const wav = parseWavHeader(audio);
+      if (!wav) {
+        throw new Error('Expected WAV audio from the audio processor');
+      }
+
+      if (!format) {
+        format = wav;
+        yield createStreamingWavHeader(wav.sampleRate, wav.channels, wav.bitsPerSample, wav.audioFormat);
+      }
+
+      let pcm = conformPcm(decodeWav(audio).pcm, { sampleRate: format.sampleRate, channels: format.channels });
+      if (held) {
+        pcm = joinPcm([held, pcm], [crossfade]);
+      }
+
+      // Hold the tail back until the next chunk can fade in over it
+      const split = Math.max(0, pcmFrameCount(pcm) - Math.round(crossfade * format.sampleRate));
+      held = { sampleRate: pcm.sampleRate, channels: pcm.channels.map(data => data.subarray(split)) };
+      yield this.wavSamples({ sampleRate: pcm.sampleRate, channels: pcm.channels.map(data => data.subarray(0, split)) }, format);
+    }
+
+    if (held && format) {
+      yield this.wavSamples(held, format);
+    }
+  }
+
+  /**
+   * PCM as bare WAV sample data in the layout of a streaming header
+   */
+  private wavSamples(pcm: PcmBuffer, format: WavInfo): Buffer {
+    const wav = encodeWav(pcm, {
+      bitDepth: format.bitsPerSample as 8 | 16 | 24 | 32,
+      sampleFormat: format.audioFormat === 3 ? 'float' : 'int'
+    });
+    return wav.subarray(parseWavHeader(wav)!.dataOffset);
+  }
+
+  /**
+   * Try providers in preference order. Retryable errors are retried with
+   * exponential backoff; other errors, exhausted retries and open circuits move
+   * on to the next provider.
+   */
+  private async generateWithFallback(request: GenerationRequest, rateLimiters?: RateLimiters): Promise<GenerationResult> {
+    const policy = this.fallbackPolicy;
+    const attempts: ProviderAttempt[] = [];
+    let lastError: unknown;
+
+    for (const provider of this.getProviderChain(request)) {
+      const breaker = this.getCircuitBreaker(provider.name);
+
+      if (!breaker.canRequest()) {
+        console.warn(`⚡ Skipping ${provider.name} provider: circuit open after repeated failures`);
+        continue;
+      }
+
+      const providerRequest = this.adaptRequestForProvider(request, provider);
+      const withTimestamps = !!provider.generateSpeechWithTimestamps;
+
+      for (let attempt = 1; attempt <= policy.maxRetries + 1; attempt++) {
+        const release = await this.acquireRateLimit(provider.name, rateLimiters);
+        const startedAt = Date.now();
+
+        try {
+          console.log(`🎤 Generating voice using ${provider.name} provider`);
+          const { audio, words } = withTimestamps
+            ? await provider.generateSpeechWithTimestamps!(providerRequest).finally(release)
+            : { audio: await provider.generateSpeech(providerRequest).finally(release), words: undefined };
+
+          breaker.recordSuccess();
+          attempts.push({ provider: provider.name, attempt, success: true, durationMs: Date.now() - startedAt });
+          return { audio, provider: provider.name, attempts, words };
+        } catch (error) {
+          if (isProviderFailure(error)) breaker.recordFailure();
+          else breaker.release();
+          lastError = error;
+
+          const retryable = isRetryableError(error);
+          const message = error instanceof Error ? error.message : String(error);
+          attempts.push({
+            provider: provider.name,
+            attempt,
+            success: false,
+            durationMs: Date.now() - startedAt,
+            error: message,
+            status: error instanceof ProviderError ? error.status : undefined,
+            retryable
+          });
+
+          if (!retryable || attempt > policy.maxRetries || !breaker.canRequest()) {
+            console.warn(`⚠️ ${provider.name} provider failed:`, message);
+            break;
+          }
+
+          const delay = backoffDelay(policy, attempt - 1);
+          console.warn(`🔁 ${provider.name} provider failed (${message}), retrying in ${delay}ms`);
+          await sleep(delay);
+        }
+      }
+
+      if (!policy.failover) break;
+    }
+
+    if (attempts.length === 0) {
+      throw new ProviderError('No voice provider is currently available: all circuits are open', { attempts });
+    }
+
+    const message = lastError instanceof Error ? lastError.message : String(lastError);
+    throw new ProviderError(`All voice providers failed after ${attempts.length} attempt(s): ${message}`, {
+      provider: attempts[attempts.length - 1].provider,
+      status: lastError instanceof ProviderError ? lastError.status : undefined,
+      code: lastError instanceof ProviderError ? lastError.code : undefined,
+      retryable: false,
+      cause: lastError,
+      attempts
+    });
+  }
+
+  /**
+   * Selected provider first, then the remaining capable providers
+   */
+  private getProviderChain(request: GenerationRequest): VoiceProvider[] {
+    const chain = this.selectProviders(request);
+
+    if (chain.length === 0) {
+      throw new Error('No suitable voice provider available for this request');
+    }
+
+    return chain;
+  }
+
+  /**
+   * A voice profile's base voice id only means something to the provider that created it
+   */
+  private adaptRequestForProvider(request: GenerationRequest, provider: VoiceProvider): GenerationRequest {
+    if (!request.voiceProfile || request.voiceProfile.provider === provider.name) {
+      return request;
+    }
+
+    return { ...request, voiceProfile: { ...request.voiceProfile, baseVoiceId: '' } };
+  }
+
+  private getCircuitBreaker(name: string): CircuitBreaker {
+    let breaker = this.circuitBreakers.get(name);
+    if (!breaker) {
+      breaker = new CircuitBreaker(this.fallbackPolicy.circuitBreaker);
+      this.circuitBreakers.set(name, breaker);
+    }
+    return breaker;
+  }
+
+  getCircuitState(provider: string): CircuitState {
+    return this.getCircuitBreaker(provider).getState();
+  }
+
+  /**
+   * Limit how fast requests are sent to a provider; null removes the limit
+   */
+  setRateLimit(provider: string, limit: RateLimit | null): void {
+    this.rateLimiters.set(provider, limit ? new RateLimiter(limit) : null);
+  }
+
+  private async acquireRateLimit(provider: string, overrides?: RateLimiters): Promise<() => void> {
+    if (overrides?.has(provider)) {
+      const limiter = overrides.get(provider);
+      return limiter ? limiter.acquire() : () => undefined;
+    }
+
+    if (!this.rateLimiters.has(provider)) {
+      const limit = this.options.rateLimits?.[provider] ?? this.registry.getRateLimit(provider);
+      this.rateLimiters.set(provider, limit ? new RateLimiter(limit) : null);
+    }
+
+    const limiter = this.rateLimiters.get(provider);
+    return limiter ? limiter.acquire() : () => undefined;
   }
 
   /**
    * Generate voice with smooth emotion transitions
    */
   async generateVoiceWithEmotionTransitions(request: GenerationRequest): Promise<Buffer> {
+    const result = await this.renderEmotionTransitions(request);
+    return result.audio;
+  }
+
+  private async renderEmotionTransitions(request: GenerationRequest, rateLimiters?: RateLimiters): Promise<GenerationResult> {
     if (!request.emotionTransitions || request.emotionTransitions.length === 0) {
       throw new Error('No emotion transitions provided');
     }
@@ -115,11 +594,15 @@ export class VoiceEngine {
 
     // Generate audio segments with different emotions
     const audioSegments: Buffer[] = [];
+    const attempts: ProviderAttempt[] = [];
+    const providers: string[] = [];
     
     for (const segment of transitionResult.segments) {
+      // Segments stay uncompressed until the joined result is encoded once
       const segmentRequest: GenerationRequest = {
         ...request,
         text: segment.text,
+        outputFormat: 'wav',
         modulation: {
           emotion: segment.emotion,
           speed: request.modulation?.speed || 1.0,
@@ -133,40 +616,38 @@ export class VoiceEngine {
       // Remove emotion transitions for individual segments
       delete segmentRequest.emotionTransitions;
 
-      const segmentAudio = await this.generateVoice(segmentRequest);
-      audioSegments.push(segmentAudio);
+      const segmentResult = await this.renderVoiceResult(segmentRequest, rateLimiters);
+      audioSegments.push(segmentResult.audio);
+      attempts.push(...segmentResult.attempts);
+      if (!providers.includes(segmentResult.provider)) providers.push(segmentResult.provider);
     }
 
-    // Concatenate audio segments
-    const finalAudio = await this.concatenateAudioSegments(audioSegments, request.outputFormat);
+    const finalAudio = await this.joinEmotionSegments(audioSegments, transitionResult.segments, request.outputFormat);
     
     console.log(`✅ Voice with emotion transitions generated successfully (${finalAudio.length} bytes)`);
-    return finalAudio;
+    return this.describeResult(request, { audio: finalAudio, provider: providers.join(','), attempts });
   }
 
   /**
-   * Concatenate multiple audio segments into a single audio file
+   * Decode the segments to PCM at a common rate and channel layout, join them
+   * with equal-power crossfades at transition segments, and encode once
    */
-  private async concatenateAudioSegments(segments: Buffer[], format: 'mp3' | 'wav' | 'aac'): Promise<Buffer> {
-    if (segments.length === 0) {
+  private async joinEmotionSegments(buffers: Buffer[], segments: EmotionSegment[], format: 'mp3' | 'wav' | 'aac'): Promise<Buffer> {
+    if (buffers.length === 0) {
       throw new Error('No audio segments to concatenate');
     }
 
-    if (segments.length === 1) {
-      return segments[0];
-    }
+    const infos = buffers.map(buffer => probeAudio(buffer));
+    const sampleRate = Math.max(...infos.map(info => info?.sampleRate ?? 0)) || 44100;
+    const channels = Math.max(...infos.map(info => info?.channels ?? 0)) || 1;
 
-    // Use audio processor to concatenate segments
-    // This is a simplified version - in production, you'd want proper audio mixing
-    let concatenated = segments[0];
-    
-    for (let i = 1; i < segments.length; i++) {
-      // For now, just append segments (in reality, you'd want proper audio mixing)
-      const combined = Buffer.concat([concatenated, segments[i]]);
-      concatenated = combined;
-    }
+    const decoded = await Promise.all(buffers.map(buffer => this.audioProcessor.decode(buffer, { sampleRate, channels })));
+    const crossfade = (this.options.transitionCrossfadeMs ?? 30) / 1000;
+    const crossfades = segments.slice(1).map((segment, index) =>
+      segment.isTransition || segments[index].isTransition ? crossfade : 0
+    );
 
-    return concatenated;
+    return this.audioProcessor.encode(joinPcm(decoded, crossfades), format);
   }
 
   private async createVoiceFromPrompt(prompt: string): Promise<VoiceProfile> {
@@ -177,47 +658,35 @@ export class VoiceEngine {
     return provider.createVoiceProfile(prompt);
   }
 
-  private selectProvider(request: GenerationRequest): VoiceProvider {
-    if (request.voiceProfile) {
-      const provider = this.providers.get(request.voiceProfile.provider);
-      if (provider) return provider;
-    }
-    
-    // Default to most capable provider
-    // Prefer ElevenLabs for emotion control, OpenAI for general use
-    if (request.modulation?.emotion && this.providers.has('elevenlabs')) {
-      const provider = this.providers.get('elevenlabs');
-      if (provider) return provider;
-    }
-    
-    const defaultProvider = this.providers.get('elevenlabs') || 
-                           this.providers.get('openai') || 
-                           this.providers.values().next().value;
-    
-    if (!defaultProvider) {
-      throw new Error('No voice providers available');
+  /**
+   * Providers ordered for a request: a provider pinned by the voice profile
+   * first, then providers that meet the request's requirements, by priority
+   */
+  private selectProviders(request: GenerationRequest): VoiceProvider[] {
+    const requirements = deriveRequirements(request);
+    const ranked = rankProviders(this.registry.list(), requirements);
+    const pinned = request.voiceProfile ? this.registry.get(request.voiceProfile.provider) : undefined;
+
+    if (ranked[0] && !pinned) {
+      const unmet = unmetRequirements(ranked[0].getCapabilities(), requirements);
+      if (unmet.length > 0) {
+        console.warn(`⚠️ No provider meets every requirement; ${ranked[0].name} lacks: ${unmet.join(', ')}`);
+      }
     }
-    
-    return defaultProvider;
+
+    return pinned ? [pinned, ...ranked.filter(provider => provider !== pinned)] : ranked;
   }
 
   private getBestProvider(characteristics: VoiceCharacteristics): VoiceProvider {
-    // If we need emotion control, prefer ElevenLabs
-    if (characteristics.defaultEmotion.type !== 'neutral' && this.providers.has('elevenlabs')) {
-      const provider = this.providers.get('elevenlabs');
-      if (provider) return provider;
-    }
+    // If we need emotion control, prefer a provider that supports it
+    const requirements = { emotionControl: characteristics.defaultEmotion.type !== 'neutral' || undefined };
+    const provider = rankProviders(this.registry.list(), requirements)[0];
     
-    // Otherwise, use any available provider
-    const defaultProvider = this.providers.get('elevenlabs') || 
-                           this.providers.get('openai') || 
-                           this.providers.values().next().value;
-    
-    if (!defaultProvider) {
+    if (!provider) {
       throw new Error('No voice providers available');
     }
     
-    return defaultProvider;
+    return provider;
   }
 
   async listAvailableVoices(): Promise<VoiceProfile[]> {
@@ -225,7 +694,7 @@ export class VoiceEngine {
     
     const allVoices: VoiceProfile[] = [];
     
-    for (const provider of this.providers.values()) {
+    for (const provider of this.registry.list()) {
       try {
         const voices = await provider.listVoices();
         allVoices.push(...voices);
@@ -237,41 +706,52 @@ export class VoiceEngine {
     return allVoices;
   }
 
-  async getProviderCapabilities(): Promise<Record<string, any>> {
+  async getProviderCapabilities(): Promise<Record<string, ProviderCapabilities>> {
     await this.initialize();
     
-    const capabilities: Record<string, any> = {};
+    const capabilities: Record<string, ProviderCapabilities> = {};
     
-    for (const [name, provider] of this.providers) {
-      capabilities[name] = {
-        supportsEmotions: provider.supportsEmotions(),
-        supportsVoiceCloning: provider.supportsVoiceCloning(),
-        available: true
-      };
+    for (const name of this.registry.names()) {
+      capabilities[name] = this.registry.get(name)!.getCapabilities();
     }
     
     return capabilities;
   }
 
+  /**
+   * Render many requests with bounded concurrency. Every item gets a result
+   * with its status, provider and error details; failures never stop the batch.
+   */
+  async runBatch(requests: GenerationRequest[], options: BatchOptions = {}): Promise<BatchResult> {
+    await this.initialize();
+
+    // Limits for this run only; other calls on the engine keep the engine's limiters
+    const rateLimiters: RateLimiters = new Map();
+    for (const [provider, limit] of Object.entries(options.rateLimits || {})) {
+      rateLimiters.set(provider, new RateLimiter(limit));
+    }
+
+    return new BatchRunner(request => this.renderVoiceResult(request, rateLimiters), options).run(requests);
+  }
+
+  /**
+   * @deprecated Use runBatch, which reports why an item failed. Failed items
+   * are returned here as empty buffers.
+   */
   async generateBatch(requests: GenerationRequest[]): Promise<Buffer[]> {
-    const results: Buffer[] = [];
-    
-    for (const request of requests) {
-      try {
-        const audio = await this.generateVoice(request);
-        results.push(audio);
-      } catch (error) {
-        console.error(`Batch generation failed for request:`, error instanceof Error ? error.message : String(error));
-        // Continue with other requests
-        results.push(Buffer.alloc(0)); // Empty buffer for failed request
+    const result = await this.runBatch(requests, {
+      onItemComplete: item => {
+        if (item.status === 'failed') {
+          console.error(`Batch generation failed for request ${item.index + 1}:`, item.errorMessage);
+        }
       }
-    }
-    
-    return results;
+    });
+
+    return result.items.map(item => item.audio || Buffer.alloc(0));
   }
 
   getAvailableProviders(): string[] {
-    return Array.from(this.providers.keys());
+    return this.registry.names();
   }
 
   isInitialized(): boolean {
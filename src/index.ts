@@ -1,9 +1,88 @@
 export { VoiceEngine } from './core/voice-engine.js';
 export { VoiceProvider } from './core/provider.base.js';
+export { ProviderRegistry, BUILT_IN_PROVIDER_FACTORIES, providerConfigsFromEnv, loadProviderConfigFile } from './core/provider-registry.js';
+export type { ProviderConfig, ProviderConfigFile, ProviderFactory } from './core/provider-registry.js';
+export type { VoiceEngineOptions } from './core/voice-engine.js';
+export { ProviderError, isRetryableStatus } from './core/provider-error.js';
+export { CircuitBreaker, DEFAULT_FALLBACK_POLICY } from './core/provider-fallback.js';
+export type { FallbackPolicy, CircuitBreakerOptions, CircuitState } from './core/provider-fallback.js';
+export { RateLimiter } from './core/rate-limiter.js';
+export type { RateLimit } from './core/rate-limiter.js';
+export { BatchRunner, batchErrorCode } from './core/batch-runner.js';
+export type { BatchItemResult, BatchItemStatus, BatchProgress, BatchOptions, BatchResult, BatchRenderer } from './core/batch-runner.js';
+export { deriveRequirements, rankProviders, unmetRequirements, describeCapabilities } from './core/provider-capabilities.js';
+export type {
+  ProviderCapabilities,
+  ProviderRequirements,
+  SSMLSupport,
+  SSMLDialect,
+  AudioFormat
+} from './interfaces/provider.interface.js';
 export { ElevenLabsProvider } from './providers/elevenlabs/provider.js';
 export { OpenAIProvider } from './providers/openai/provider.js';
+export { GoogleProvider } from './providers/google/provider.js';
+export { PollyProvider } from './providers/amazon/provider.js';
+export { LocalCommandProvider } from './providers/local/provider.js';
+export { SyntheticProvider } from './providers/synthetic/provider.js';
+export type { GoogleProviderOptions, GoogleTTSClient, GoogleAudioEncoding } from './providers/google/provider.js';
+export type { PollyProviderOptions, PollyClientLike, PollyEngine, PollySpeechMarkType } from './providers/amazon/provider.js';
+export type { LocalCommandConfig, LocalCommandPreset, LocalVoiceDefinition } from './providers/local/provider.js';
 export { AudioProcessor } from './utils/audio-processor.js';
 export { parseVoicePrompt } from './utils/prompt-parser.js';
+export { isSSML, ssmlDocument } from './utils/ssml-generator.js';
+export { TextChunker } from './utils/text-chunker.js';
+export type { TextChunk } from './utils/text-chunker.js';
+export type { ConcatenateOptions, DecodeOptions, EncodeOptions, RenderOptions } from './utils/audio-processor.js';
+export { FFmpegPipeline } from './audio/ffmpeg-pipeline.js';
+export type { FFmpegInput, FFmpegOutput, FFmpegJob, FFmpegPipelineOptions } from './audio/ffmpeg-pipeline.js';
+export { createPcmBuffer, pcmFrameCount, pcmDuration, interleave, deinterleave, joinPcm } from './audio/pcm-buffer.js';
+export type { PcmBuffer } from './audio/pcm-buffer.js';
+export { decodeWav, encodeWav } from './audio/wav-codec.js';
+export type { DecodedWav, WavEncodeOptions, WavMetadata, WavSampleFormat, BextChunk } from './audio/wav-codec.js';
+export { resamplePcm, polyphaseFilterBank } from './audio/resampler.js';
+export type { ResampleQuality } from './audio/resampler.js';
+export { defaultChannelMatrix, remixPcm } from './audio/channel-matrix.js';
+export type { ChannelMatrix } from './audio/channel-matrix.js';
+export { conformPcm } from './audio/session-format.js';
+export type { SessionFormat, ConformOptions } from './audio/session-format.js';
+export { measureLoudness, describeLoudness, loudnessQualityMetrics, truePeakEnvelope } from './audio/loudness.js';
+export type { LoudnessReport } from './audio/loudness.js';
+export { normalizeLoudness, resolveLoudnessTarget, loudnessTargetFromSettings, loudnessTargetForExport, LOUDNESS_PROFILES } from './audio/loudness-normalizer.js';
+export type { LoudnessNormalizationResult } from './audio/loudness-normalizer.js';
+export type { LoudnessProfileName, LoudnessTarget, LimiterSettings } from './interfaces/video.interface.js';
+export { designBiquad, applyBiquads, biquadResponse } from './audio/biquad.js';
+export type { BiquadType, BiquadCoefficients } from './audio/biquad.js';
+export { applyEQ, eqFilters, eqResponse, resolveEQSettings, EQ_PRESETS } from './audio/equalizer.js';
+export type { EQPresetName, EQSettings } from './interfaces/video.interface.js';
+export { applyReverb, convolveReverb } from './audio/reverb.js';
+export { compress, gainComputer } from './audio/compressor.js';
+export { spatialize, spatialPlacement, scenePositionToPoint } from './audio/spatializer.js';
+export type { PanningModel, Point3D, RoomDimensions, SpatializeOptions, SpatialPlacement } from './audio/spatializer.js';
+export { applyAudioEffect, applyAudioEffects } from './audio/effects.js';
+export { renderAmbience, duck, duckingEnvelope, DEFAULT_DUCKING } from './audio/ambience.js';
+export { createRoomTone, generateRoomTone, extractRoomTone, roomToneSpectrum, findSilentGaps, fillSilence } from './audio/room-tone.js';
+export type { SilentGap, GapFillOptions } from './audio/room-tone.js';
+export type { RoomToneSettings } from './interfaces/video.interface.js';
+export type { CompressorOptions, CompressorResult } from './audio/compressor.js';
+export type { CompressionSettings } from './interfaces/video.interface.js';
+export { fft, nextPowerOfTwo } from './audio/fft.js';
+export type { ReverbSettings } from './interfaces/video.interface.js';
+export type { SceneEQ, TrackProcessing, SceneProcessing, AudioTrack, DuckingSettings } from './interfaces/conversation.interface.js';
+export { limitTruePeak } from './audio/limiter.js';
+export type { LimiterResult } from './audio/limiter.js';
+export { RenderCache } from './utils/render-cache.js';
+export { parseWavHeader, createStreamingWavHeader, probeAudio, audioFrames, detectAudioFormat, finalizeWavHeader } from './utils/audio-info.js';
+export type { WavInfo, AudioInfo } from './utils/audio-info.js';
+export {
+  estimateWordTimestamps,
+  wordsFromCharacterAlignment,
+  wordsFromSpeechMarks,
+  sentenceTimestamps,
+  offsetTimestamps,
+  toSpeechMarks
+} from './utils/word-timing.js';
+export type { CharacterAlignment, EstimateOptions } from './utils/word-timing.js';
+export type { RenderCacheOptions, RenderCacheKeyParts, RenderCacheEntry, RenderCacheStats } from './utils/render-cache.js';
 
 export type {
   VoiceProfile,
@@ -11,19 +90,25 @@ export type {
   EmotionProfile,
   VoiceModulation,
   GenerationRequest,
+  GenerationResult,
+  ProviderAttempt,
+  WordTimestamp,
+  SentenceTimestamp,
+  TimestampSource,
   AudioProcessingOptions,
   EmotionType,
   EmotionVariation,
   EmphasisPoint,
   PausePoint,
-  EmotionMapEntry
+  EmotionMapEntry,
+  SpeechMark
 } from './interfaces/voice.interface.js';
 
 // Main entry point for the voice generation tool
-import { VoiceEngine } from './core/voice-engine.js';
+import { VoiceEngine, VoiceEngineOptions } from './core/voice-engine.js';
 
-export async function createVoiceEngine(): Promise<VoiceEngine> {
-  const engine = new VoiceEngine();
+export async function createVoiceEngine(options?: VoiceEngineOptions): Promise<VoiceEngine> {
+  const engine = new VoiceEngine(options);
   await engine.initialize();
   return engine;
 }
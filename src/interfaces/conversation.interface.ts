@@ -1,5 +1,15 @@
 import { VoiceProfile, EmotionProfile } from './voice.interface.js';
 import { EmotionTransition } from './emotion-transition.interface.js';
+import {
+  CompressionSettings,
+  EQPresetName,
+  EQSettings,
+  LoudnessProfileName,
+  LoudnessTarget,
+  ReverbSettings,
+  RoomToneSettings,
+  SpatialPosition
+} from './video.interface.js';
 
 export interface ConversationCharacter {
   id: string;
@@ -103,22 +113,33 @@ export interface ConversationGlobalSettings {
   backgroundAmbience?: AudioTrack;
   masterVolume: number; // 0-1
   spatialAudio?: SpatialAudioConfig;
+  roomTone?: RoomToneSettings; // fills the silence between lines
   naturalTiming: boolean; // use AI to adjust timing naturally
 }
 
 export interface AudioTrack {
-  url: string;
+  url: string; // local file path or file:// URL
   volume: number; // 0-1
   loop: boolean;
   fadeIn?: number; // milliseconds
   fadeOut?: number; // milliseconds
+  ducking?: DuckingSettings; // lowers the track under dialogue, 12 dB by default
+}
+
+export interface DuckingSettings {
+  enabled: boolean;
+  depth: number; // dB of reduction while dialogue plays
+  attack: number; // ms to duck when dialogue starts
+  release: number; // ms to recover after it stops
+  threshold?: number; // dBFS dialogue level that triggers ducking, default -40
 }
 
 export interface SpatialAudioConfig {
   enabled: boolean;
-  characterPositions: Record<string, { x: number; y: number; z: number }>;
-  listenerPosition: { x: number; y: number; z: number };
-  roomSize: { width: number; height: number; depth: number };
+  characterPositions: Record<string, { x: number; y: number; z: number }>; // metres, keyed by characterId
+  listenerPosition: { x: number; y: number; z: number }; // metres
+  roomSize: { width: number; height: number; depth: number }; // metres, corner at the origin
+  model?: 'constant-power' | 'itd-ild'; // panning model, default 'constant-power'
 }
 
 export interface ConversationMetadata {
@@ -213,8 +234,39 @@ export interface MixingOptions {
   enableAutomaticMixing: boolean;
   preserveIndividualTracks: boolean;
   normalizeAudio: boolean;
-  compressionLevel: number; // 0-1
+  compressionLevel: number; // 0-1, mix bus compression when masterCompression is not set
   spatialAudioEnabled: boolean;
+  spatialAudio?: SpatialAudioConfig; // positions used when spatialAudioEnabled is set
+  sampleRate?: number; // session rate every segment is resampled to, default 44100 (48000 for video deliverables)
+  channels?: number; // session channel count, default 2
+  channelMatrices?: Record<number, number[][]>; // up/down-mix gains keyed by input channel count, [output][input]
+  loudness?: LoudnessProfileName | LoudnessTarget; // normalize the final mix to this target instead of peak normalizing
+  masterCompression?: CompressionSettings; // mix bus compressor
+  trackEQ?: Record<string, EQPresetName | EQSettings>; // per character, keyed by characterId, before its trackProcessing
+  sceneEQ?: SceneEQ[]; // applied to segments that start inside the scene, after the character's processing
+  trackProcessing?: Record<string, TrackProcessing>; // per character, keyed by characterId
+  sceneProcessing?: SceneProcessing[]; // applied to segments that start inside the scene, after the character's processing and scene EQ
+  backgroundAmbience?: AudioTrack; // ambience or music bed under the dialogue, ducked by it
+  roomTone?: RoomToneSettings; // fills digital silence between lines, before the ambience is added
+}
+
+export interface SceneEQ {
+  startTime: number; // ms
+  endTime: number; // ms
+  eq: EQPresetName | EQSettings;
+}
+
+export interface TrackProcessing {
+  eq?: EQPresetName | EQSettings;
+  compression?: CompressionSettings;
+  sidechain?: string; // characterId whose lines drive the compressor instead of the track itself
+  reverb?: ReverbSettings;
+}
+
+export interface SceneProcessing extends TrackProcessing {
+  startTime: number; // ms
+  endTime: number; // ms
+  spatialPosition?: SpatialPosition; // from SceneAnalyzer, for characters without a position of their own
 }
 
 export interface ExportOptions {
@@ -0,0 +1,42 @@
+/**
+ * Provider capability model used for routing and reporting
+ */
+
+export type AudioFormat = 'mp3' | 'wav' | 'aac';
+export type SSMLDialect = 'w3c' | 'google' | 'amazon';
+
+export interface SSMLSupport {
+  supported: boolean;
+  dialect?: SSMLDialect;
+  emphasis: boolean; // <emphasis>
+  breaks: boolean; // <break>
+  prosody: boolean; // <prosody rate/pitch/volume>
+}
+
+export interface ProviderCapabilities {
+  ssml: SSMLSupport;
+  outputFormats: AudioFormat[]; // formats returned natively, others are transcoded
+  sampleRates: number[]; // Hz
+  maxCharacters: number; // per request, Infinity when unlimited
+  languages: string[]; // BCP-47 codes or language prefixes, '*' for any
+  emotionControl: boolean;
+  streaming: boolean;
+  wordTimestamps: boolean;
+  voiceCloning: boolean;
+}
+
+/**
+ * What a request needs from a provider. Derived from the request itself and
+ * merged with any explicit `GenerationRequest.requirements`.
+ */
+export interface ProviderRequirements {
+  characters?: number;
+  ssml?: boolean;
+  emphasis?: boolean;
+  pauses?: boolean;
+  emotionControl?: boolean;
+  language?: string;
+  streaming?: boolean;
+  wordTimestamps?: boolean;
+  voiceCloning?: boolean;
+}
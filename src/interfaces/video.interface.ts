@@ -298,6 +298,7 @@ export interface ReverbSettings {
   wetLevel: number; // 0-1
   dryLevel: number; // 0-1
   predelay: number; // milliseconds
+  impulseResponse?: string; // path to an impulse-response WAV; convolves instead of the algorithmic reverb
 }
 
 export interface EQSettings {
@@ -309,6 +310,8 @@ export interface EQSettings {
   highCut: number; // Hz
 }
 
+export type EQPresetName = 'voice' | 'narration' | 'dialogue' | 'documentary';
+
 export interface CompressionSettings {
   enabled: boolean;
   threshold: number; // dB
@@ -336,6 +339,7 @@ export interface VideoExportConfig {
   quality: 'low' | 'medium' | 'high' | 'lossless';
   loudnessStandard?: 'ITU-R_BS.1770' | 'EBU_R128';
   targetLUFS?: number;
+  loudnessProfile?: LoudnessProfileName; // takes precedence over targetLUFS and loudnessStandard
 }
 
 export interface ExportResult {
@@ -445,7 +449,7 @@ export interface ParseStatistics {
 export interface VideoAudioSettings {
   targetLUFS: number; // Loudness standard (-23 for broadcast)
   dynamicRange: number; // Target dynamic range
-  eqPreset: 'voice' | 'narration' | 'dialogue' | 'documentary' | 'custom';
+  eqPreset: EQPresetName | 'custom';
   noiseReduction: boolean;
   deEsser: boolean;
   limiter: LimiterSettings;
@@ -459,10 +463,18 @@ export interface LimiterSettings {
   release: number; // ms
 }
 
+export type LoudnessProfileName = 'broadcast' | 'atsc' | 'podcast' | 'streaming';
+
+export interface LoudnessTarget {
+  targetLUFS: number;
+  truePeakCeiling?: number; // dBTP, default -1
+  limiter?: LimiterSettings; // replaces the brickwall limiter at the ceiling
+}
+
 export interface RoomToneSettings {
   enabled: boolean;
   duration: number; // seconds of room tone to add
   level: number; // 0-1 relative to dialogue
   source: 'generate' | 'extract' | 'file';
-  sourceFile?: string;
+  sourceFile?: string; // required for 'extract' and 'file'; spectrum reference for 'generate'
 }
\ No newline at end of file
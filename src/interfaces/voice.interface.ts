@@ -1,3 +1,12 @@
+import {
+  CompressionSettings,
+  EQPresetName,
+  EQSettings,
+  LoudnessProfileName,
+  LoudnessTarget,
+  ReverbSettings
+} from './video.interface.js';
+
 export type EmotionType = 'happy' | 'sad' | 'angry' | 'excited' | 'calm' | 'fearful' | 'surprised' | 'neutral';
 
 export interface EmotionVariation {
@@ -24,10 +33,18 @@ export interface EmotionMapEntry {
   intensity: number;
 }
 
+export interface SpeechMark {
+  time: number; // milliseconds from start of audio
+  type: 'word' | 'sentence' | 'viseme' | 'ssml';
+  start?: number; // byte offset of the marked text in the input
+  end?: number;
+  value: string; // word, sentence text or viseme code
+}
+
 export interface VoiceProfile {
   id: string;
   name: string;
-  provider: 'elevenlabs' | 'openai' | 'google' | 'amazon' | 'coqui';
+  provider: 'elevenlabs' | 'openai' | 'google' | 'amazon' | 'coqui' | 'local' | 'synthetic';
   baseVoiceId: string;
   characteristics: VoiceCharacteristics;
   customSettings: Record<string, any>;
@@ -68,12 +85,61 @@ export interface GenerationRequest {
   outputFormat: 'mp3' | 'wav' | 'aac';
   emotionMap?: EmotionMapEntry[];
   emotionTransitions?: import('./emotion-transition.interface.js').EmotionTransition[];
+  requirements?: import('./provider.interface.js').ProviderRequirements;
+  bypassCache?: boolean; // skip the render cache lookup; the fresh render is still stored
+}
+
+export interface ProviderAttempt {
+  provider: string;
+  attempt: number; // 1-based, per provider
+  success: boolean;
+  durationMs: number;
+  error?: string;
+  status?: number;
+  retryable?: boolean;
+}
+
+export interface WordTimestamp {
+  word: string;
+  start: number; // seconds from the start of the audio
+  end: number;
+  charStart: number; // offset of the word in the request text
+  charEnd: number; // exclusive
+}
+
+export interface SentenceTimestamp {
+  text: string;
+  start: number; // seconds
+  end: number;
+  charStart: number;
+  charEnd: number;
+}
+
+export type TimestampSource = 'provider' | 'estimated';
+
+export interface GenerationResult {
+  audio: Buffer;
+  provider: string; // provider that served the request
+  attempts: ProviderAttempt[];
+  cacheHit?: boolean;
+  voice?: string; // provider voice id, when the request named one
+  format?: 'mp3' | 'wav' | 'aac';
+  duration?: number; // seconds of audio, when the container could be parsed
+  sampleRate?: number;
+  channels?: number;
+  words?: WordTimestamp[];
+  sentences?: SentenceTimestamp[];
+  timestampSource?: TimestampSource;
 }
 
 export interface AudioProcessingOptions {
   format: 'mp3' | 'wav' | 'aac';
   normalize: boolean;
-  removeNoise: boolean;
+  removeNoise: boolean; // high-pass at the voice preset's low cut
   bitrate?: number;
   sampleRate?: number;
+  loudness?: LoudnessProfileName | LoudnessTarget; // target for `normalize`, default 'podcast'
+  eq?: EQPresetName | EQSettings;
+  compression?: CompressionSettings;
+  reverb?: ReverbSettings;
 }
\ No newline at end of file
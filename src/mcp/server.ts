@@ -1,6 +1,9 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { VoiceEngine } from '../core/voice-engine.js';
+import { describeCapabilities } from '../core/provider-capabilities.js';
+import { AudioProcessor } from '../utils/audio-processor.js';
+import { describeLoudness } from '../audio/loudness.js';
 import { GenerationRequest } from '../interfaces/voice.interface.js';
 import { z } from 'zod';
 import { promises as fs } from 'fs';
@@ -30,7 +33,8 @@ const GenerateVoiceSchema = z.object({
     emotion: z.enum(['happy', 'sad', 'angry', 'excited', 'calm', 'fearful', 'surprised', 'neutral']),
     intensity: z.number().min(0).max(1)
   })).optional(),
-  output_format: z.enum(['mp3', 'wav', 'aac']).default('mp3')
+  output_format: z.enum(['mp3', 'wav', 'aac']).default('mp3'),
+  word_timestamps: z.boolean().default(false)
 });
 
 const CreateVoiceProfileSchema = z.object({
@@ -46,7 +50,8 @@ const BatchGenerateSchema = z.object({
     voice_prompt: z.string().optional()
   })).min(1, 'At least one segment is required'),
   voice_profile: z.string().optional(),
-  output_format: z.enum(['mp3', 'wav', 'aac']).default('mp3')
+  output_format: z.enum(['mp3', 'wav', 'aac']).default('mp3'),
+  concurrency: z.number().int().min(1).max(16).optional()
 });
 
 const EmotionalNarrationSchema = z.object({
@@ -61,6 +66,10 @@ const EmotionalNarrationSchema = z.object({
   output_format: z.enum(['mp3', 'wav', 'aac']).default('mp3')
 });
 
+const AnalyzeLoudnessSchema = z.object({
+  file_path: z.string().min(1, 'File path is required')
+});
+
 // Register tools
 server.setRequestHandler('tools/list', async () => ({
   tools: [
@@ -85,7 +94,8 @@ server.setRequestHandler('tools/list', async () => ({
               }
             }
           },
-          output_format: { type: 'string', enum: ['mp3', 'wav', 'aac'], default: 'mp3' }
+          output_format: { type: 'string', enum: ['mp3', 'wav', 'aac'], default: 'mp3' },
+          word_timestamps: { type: 'boolean', description: 'Return word and sentence timings, preferring a provider that measures them', default: false }
         },
         required: ['text']
       }
@@ -121,7 +131,8 @@ server.setRequestHandler('tools/list', async () => ({
             }
           },
           voice_profile: { type: 'string', description: 'Voice profile to use for all segments' },
-          output_format: { type: 'string', enum: ['mp3', 'wav', 'aac'], default: 'mp3' }
+          output_format: { type: 'string', enum: ['mp3', 'wav', 'aac'], default: 'mp3' },
+          concurrency: { type: 'number', description: 'Segments rendered at once (default 3)' }
         },
         required: ['segments']
       }
@@ -166,6 +177,20 @@ server.setRequestHandler('tools/list', async () => ({
         type: 'object',
         properties: {}
       }
+    },
+    {
+      name: 'analyze_loudness',
+      description: 'Measure EBU R128 / ITU-R BS.1770 loudness of an audio file: integrated, short-term and momentary loudness, loudness range, sample peak and true peak',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          file_path: {
+            type: 'string',
+            description: 'Path of the audio file to measure (WAV, MP3, AAC, ...)'
+          }
+        },
+        required: ['file_path']
+      }
     }
   ]
 }));
@@ -182,10 +207,11 @@ server.setRequestHandler('tools/call', async (request) => {
           text: params.text,
           voicePrompt: params.voice_prompt,
           outputFormat: params.output_format,
-          emotionMap: params.emotion_map
+          emotionMap: params.emotion_map,
+          requirements: params.word_timestamps ? { wordTimestamps: true } : undefined
         };
 
-        const audio = await engine.generateVoice(generationRequest);
+        const { audio, provider, attempts, duration, words, sentences, timestampSource } = await engine.generateVoiceResult(generationRequest);
         const filename = `voice_${Date.now()}.${params.output_format}`;
         const outputPath = path.join('./output', filename);
         
@@ -194,8 +220,11 @@ server.setRequestHandler('tools/call', async (request) => {
         return {
           content: [{
             type: 'text',
-            text: `✅ Voice generated successfully!\n\n📁 Output: ${outputPath}\n🎵 Format: ${params.output_format.toUpperCase()}\n📏 Size: ${(audio.length / 1024).toFixed(1)} KB\n\n${params.voice_prompt ? `🎭 Voice: ${params.voice_prompt}\n` : ''}${params.emotion_map ? `😊 Emotions: ${params.emotion_map.length} transitions\n` : ''}📝 Text: "${params.text}"`
-          }]
+            text: `✅ Voice generated successfully!\n\n📁 Output: ${outputPath}\n🎵 Format: ${params.output_format.toUpperCase()}\n📏 Size: ${(audio.length / 1024).toFixed(1)} KB\n🎤 Provider: ${provider}${attempts.length > 1 ? ` (after ${attempts.length} attempts)` : ''}${duration !== undefined ? `\n⏱️ Duration: ${duration.toFixed(2)}s` : ''}\n\n${params.voice_prompt ? `🎭 Voice: ${params.voice_prompt}\n` : ''}${params.emotion_map ? `😊 Emotions: ${params.emotion_map.length} transitions\n` : ''}📝 Text: "${params.text}"`
+          }, ...(params.word_timestamps ? [{
+            type: 'text',
+            text: JSON.stringify({ source: timestampSource, words, sentences }, null, 2)
+          }] : [])]
         };
       }
 
@@ -239,22 +268,50 @@ server.setRequestHandler('tools/call', async (request) => {
           } : undefined
         }));
 
-        const audioBuffers = await engine.generateBatch(requests);
-        const outputPaths: string[] = [];
+        const progressToken = request.params._meta?.progressToken;
+        const batchId = Date.now();
 
-        for (let i = 0; i < audioBuffers.length; i++) {
-          if (audioBuffers[i].length > 0) {
-            const filename = `batch_${Date.now()}_segment_${i + 1}.${params.output_format}`;
+        const result = await engine.runBatch(requests, {
+          concurrency: params.concurrency,
+          onItemComplete: async (item, progress) => {
+            if (progressToken !== undefined) {
+              await server.notification({
+                method: 'notifications/progress',
+                params: { progressToken, progress: progress.completed, total: progress.total }
+              }).catch(() => undefined);
+            }
+          }
+        });
+
+        const lines: string[] = [];
+        for (const item of result.items) {
+          if (item.status === 'success' && item.audio) {
+            const filename = `batch_${batchId}_segment_${item.index + 1}.${params.output_format}`;
             const outputPath = path.join('./output', filename);
-            await fs.writeFile(outputPath, audioBuffers[i]);
-            outputPaths.push(outputPath);
+            await fs.writeFile(outputPath, item.audio);
+            lines.push(`  ${item.index + 1}. ✅ ${outputPath} (${item.provider}${item.cacheHit ? ', cached' : ''}, ${item.durationMs}ms)`);
+          } else {
+            lines.push(`  ${item.index + 1}. ❌ ${item.errorCode}: ${item.errorMessage}`);
           }
         }
-        
+
+        const summary = result.items.map(item => ({
+          index: item.index,
+          status: item.status,
+          provider: item.provider,
+          durationMs: item.durationMs,
+          cacheHit: item.cacheHit,
+          errorCode: item.errorCode,
+          errorMessage: item.errorMessage
+        }));
+
         return {
           content: [{
             type: 'text',
-            text: `✅ Batch generation completed!\n\n📁 Generated ${outputPaths.length} audio files:\n${outputPaths.map((path, i) => `  ${i + 1}. ${path}`).join('\n')}\n\n🎵 Format: ${params.output_format.toUpperCase()}\n📊 Segments: ${params.segments.length}`
+            text: `${result.failed === 0 ? '✅' : '⚠️'} Batch generation completed: ${result.succeeded}/${params.segments.length} segments succeeded${result.cacheHits ? ` (${result.cacheHits} cached)` : ''}\n\n${lines.join('\n')}\n\n🎵 Format: ${params.output_format.toUpperCase()}\n⏱️ Total time: ${result.durationMs}ms`
+          }, {
+            type: 'text',
+            text: JSON.stringify(summary, null, 2)
           }]
         };
       }
@@ -310,13 +367,35 @@ server.setRequestHandler('tools/call', async (request) => {
         
         const capabilityText = providers.map(provider => {
           const caps = capabilities[provider];
-          return `🎛️ ${provider.toUpperCase()}\n   ✅ Emotions: ${caps.supportsEmotions ? 'Yes' : 'No'}\n   🎭 Voice Cloning: ${caps.supportsVoiceCloning ? 'Yes' : 'No'}\n   🟢 Status: Available`;
+          const lines = describeCapabilities(caps).map(line => `   ${line}`).join('\n');
+          return `🎛️ ${provider.toUpperCase()}\n${lines}\n   🟢 Status: Available`;
         }).join('\n\n');
         
         return {
           content: [{
             type: 'text',
             text: `🔧 Voice Generation Capabilities:\n\n${capabilityText}\n\n📊 Total Providers: ${providers.length}`
+          }, {
+            type: 'text',
+            text: JSON.stringify(capabilities, (_key, value) => value === Infinity ? 'unlimited' : value, 2)
+          }]
+        };
+      }
+
+      case 'analyze_loudness': {
+        const params = AnalyzeLoudnessSchema.parse(request.params.arguments);
+        const report = await new AudioProcessor().measureLoudness(await fs.readFile(params.file_path));
+        // Leave out the per-window series (ten values a second) to keep the reply small
+        const { momentary, shortTerm, ...summary } = report;
+
+        return {
+          content: [{
+            type: 'text',
+            text: `📊 Loudness: ${params.file_path}\n\n${describeLoudness(report).join('\n')}`
+          }, {
+            type: 'text',
+            // Silence measures -Infinity, which JSON writes as null
+            text: JSON.stringify(summary, null, 2)
           }]
         };
       }
@@ -1,6 +1,7 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { VoiceEngine } from '../core/voice-engine.js';
+import { describeCapabilities } from '../core/provider-capabilities.js';
 import { promises as fs } from 'fs';
 import path from 'path';
 
@@ -65,7 +66,7 @@ server.setRequestHandler('tools/call', async (request) => {
       case 'generate_voice': {
         const args = request.params.arguments as any;
         
-        const audio = await engine.generateVoice({
+        const { audio, provider } = await engine.generateVoiceResult({
           text: args.text,
           voicePrompt: args.voice_prompt,
           outputFormat: args.output_format || 'mp3'
@@ -79,7 +80,7 @@ server.setRequestHandler('tools/call', async (request) => {
         return {
           content: [{
             type: 'text',
-            text: `✅ Voice generated successfully!\n\n📁 Output: ${outputPath}\n📏 Size: ${(audio.length / 1024).toFixed(1)} KB\n\n📝 Text: "${args.text}"`
+            text: `✅ Voice generated successfully!\n\n📁 Output: ${outputPath}\n📏 Size: ${(audio.length / 1024).toFixed(1)} KB\n🎤 Provider: ${provider}\n\n📝 Text: "${args.text}"`
           }]
         };
       }
@@ -105,8 +106,8 @@ server.setRequestHandler('tools/call', async (request) => {
         
         const capabilityText = providers.map(provider => {
           const caps = capabilities[provider];
-          return `🎛️ ${provider.toUpperCase()}: Emotions=${caps.supportsEmotions ? 'Yes' : 'No'}, Cloning=${caps.supportsVoiceCloning ? 'Yes' : 'No'}`;
-        }).join('\n');
+          return `🎛️ ${provider.toUpperCase()}\n${describeCapabilities(caps).map(line => `   ${line}`).join('\n')}`;
+        }).join('\n\n');
         
         return {
           content: [{
@@ -0,0 +1,375 @@
+import { VoiceProvider } from '../../core/provider.base.js';
+import { ProviderCapabilities } from '../../interfaces/provider.interface.js';
+import { ProviderError } from '../../core/provider-error.js';
+import { VoiceProfile, GenerationRequest, VoiceCharacteristics, SpeechMark, WordTimestamp } from '../../interfaces/voice.interface.js';
+import { parseVoicePrompt } from '../../utils/prompt-parser.js';
+import { probeAudio } from '../../utils/audio-info.js';
+import { wordsFromSpeechMarks } from '../../utils/word-timing.js';
+import {
+  PollyClient,
+  SynthesizeSpeechCommand,
+  DescribeVoicesCommand,
+  SynthesizeSpeechCommandInput,
+  SynthesizeSpeechCommandOutput,
+  DescribeVoicesCommandOutput,
+  LanguageCode,
+  Voice as PollyVoice
+} from '@aws-sdk/client-polly';
+
+export type PollyEngine = 'neural' | 'standard' | 'long-form' | 'generative';
+export type PollySpeechMarkType = 'word' | 'sentence' | 'viseme' | 'ssml';
+
+/**
+ * Subset of the AWS SDK client used by the provider, so a local stub can be injected
+ */
+export interface PollyClientLike {
+  send(command: SynthesizeSpeechCommand): Promise<SynthesizeSpeechCommandOutput>;
+  send(command: DescribeVoicesCommand): Promise<DescribeVoicesCommandOutput>;
+}
+
+export interface PollyProviderOptions {
+  client?: PollyClientLike;
+  region?: string;
+  credentials?: { accessKeyId: string; secretAccessKey: string; sessionToken?: string };
+  engine?: PollyEngine;
+  languageCode?: string;
+  defaultVoiceId?: string;
+  sampleRate?: '8000' | '16000' | '22050' | '24000'; // defaults to Polly's own: 22050 Hz MP3 (24000 Hz neural), 16000 Hz PCM
+}
+
+export interface PollySpeechResult {
+  audio: Buffer;
+  speechMarks: SpeechMark[];
+}
+
+const ACCENT_BY_LANGUAGE: Record<string, string> = {
+  'en-US': 'american',
+  'en-GB': 'british',
+  'en-AU': 'australian',
+  'en-IN': 'indian',
+  'en-IE': 'irish'
+};
+
+export class PollyProvider extends VoiceProvider {
+  name = 'amazon';
+  private client: PollyClientLike;
+  private engine: PollyEngine;
+  private languageCode: string;
+  private defaultVoiceId: string;
+  private sampleRate?: string;
+  private voiceCache: PollyVoice[] | null = null;
+
+  constructor(options: PollyProviderOptions = {}) {
+    super();
+    this.client = options.client || new PollyClient({
+      region: options.region || process.env.AWS_REGION || 'us-east-1',
+      credentials: options.credentials
+    });
+    this.engine = options.engine || 'neural';
+    this.model = this.engine;
+    this.languageCode = options.languageCode || 'en-US';
+    this.defaultVoiceId = options.defaultVoiceId || 'Joanna';
+    this.sampleRate = options.sampleRate;
+  }
+
+  async initialize(): Promise<void> {
+    try {
+      await this.describeVoices();
+    } catch (error) {
+      throw new Error(`Amazon Polly initialization failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  async generateSpeech(request: GenerationRequest): Promise<Buffer> {
+    if (request.outputFormat !== 'mp3' && request.outputFormat !== 'wav') {
+      throw new ProviderError(`Amazon Polly cannot render ${request.outputFormat}`, { provider: this.name, code: 'UNSUPPORTED_FORMAT' });
+    }
+
+    const input = await this.buildInput(request);
+    const wantsWav = request.outputFormat === 'wav';
+    // Polly's PCM is 16 kHz unless told otherwise; MP3 keeps Polly's per-engine default
+    const sampleRate = wantsWav ? this.sampleRate ?? '16000' : this.sampleRate;
+
+    try {
+      // Polly has no WAV output: request raw PCM and wrap it in a WAV header
+      const response = await this.client.send(new SynthesizeSpeechCommand({
+        ...input,
+        SampleRate: sampleRate,
+        OutputFormat: wantsWav ? 'pcm' : 'mp3'
+      }));
+
+      const audio = await this.readStream(response.AudioStream);
+      return wantsWav ? this.pcmToWav(audio, parseInt(sampleRate!, 10)) : audio;
+    } catch (error) {
+      throw ProviderError.from(this.name, error, 'Amazon Polly speech generation failed');
+    }
+  }
+
+  /**
+   * Request Polly speech marks (word, viseme, sentence timings) for a request
+   */
+  async getSpeechMarks(
+    request: GenerationRequest,
+    types: PollySpeechMarkType[] = ['word', 'viseme', 'sentence']
+  ): Promise<SpeechMark[]> {
+    const input = await this.buildInput(request);
+
+    try {
+      const response = await this.client.send(new SynthesizeSpeechCommand({
+        ...input,
+        OutputFormat: 'json',
+        SpeechMarkTypes: types
+      }));
+
+      const body = await this.readStream(response.AudioStream);
+      return this.parseSpeechMarks(body.toString('utf-8'));
+    } catch (error) {
+      throw ProviderError.from(this.name, error, 'Amazon Polly speech marks failed');
+    }
+  }
+
+  /**
+   * Generate audio and speech marks for the same input in parallel
+   */
+  async generateSpeechWithMarks(
+    request: GenerationRequest,
+    types?: PollySpeechMarkType[]
+  ): Promise<PollySpeechResult> {
+    const [audio, speechMarks] = await Promise.all([
+      this.generateSpeech(request),
+      this.getSpeechMarks(request, types)
+    ]);
+
+    return { audio, speechMarks };
+  }
+
+  /**
+   * Audio plus word timings from Polly's word speech marks
+   */
+  async generateSpeechWithTimestamps(request: GenerationRequest): Promise<{ audio: Buffer; words: WordTimestamp[] }> {
+    const { audio, speechMarks } = await this.generateSpeechWithMarks(request, ['word']);
+    return { audio, words: wordsFromSpeechMarks(request.text, speechMarks, probeAudio(audio)?.duration) };
+  }
+
+  /**
+   * Parse Polly's newline-delimited JSON speech mark stream
+   */
+  parseSpeechMarks(body: string): SpeechMark[] {
+    return body
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line.length > 0)
+      .map(line => {
+        const mark = JSON.parse(line);
+        return {
+          time: mark.time,
+          type: mark.type,
+          start: mark.start,
+          end: mark.end,
+          value: mark.value
+        } as SpeechMark;
+      });
+  }
+
+  private async buildInput(request: GenerationRequest): Promise<SynthesizeSpeechCommandInput> {
+    const voiceId = await this.resolveVoiceId(request);
+    const engine = await this.resolveEngine(voiceId);
+    const ssml = this.ssmlDocument(request.text);
+
+    let text = ssml ?? request.text;
+    if (!ssml && request.modulation) {
+      text = this.convertToSSML(request.text, request.modulation);
+    }
+
+    const textType = ssml || request.modulation ? 'ssml' : 'text';
+
+    return {
+      Engine: engine,
+      VoiceId: voiceId as SynthesizeSpeechCommandInput['VoiceId'],
+      LanguageCode: this.languageCode as LanguageCode,
+      Text: textType === 'ssml' ? this.adaptSSMLForEngine(text, engine) : text,
+      TextType: textType,
+      OutputFormat: 'mp3'
+    };
+  }
+
+  /**
+   * Polly expresses pitch in percent rather than semitones, and neural voices
+   * reject emphasis and pitch changes altogether.
+   */
+  private adaptSSMLForEngine(ssml: string, engine: PollyEngine): string {
+    if (engine === 'standard') {
+      return ssml.replace(/pitch="([+-]?\d+(?:\.\d+)?)st"/g, (_, semitones) => {
+        const percent = Math.round((Math.pow(2, parseFloat(semitones) / 12) - 1) * 100);
+        return `pitch="${percent >= 0 ? '+' : ''}${percent}%"`;
+      });
+    }
+
+    return ssml
+      .replace(/<emphasis[^>]*>/g, '')
+      .replace(/<\/emphasis>/g, '')
+      .replace(/<prosody pitch="[^"]*">([\s\S]*?)<\/prosody>/g, '$1');
+  }
+
+  private async resolveVoiceId(request: GenerationRequest): Promise<string> {
+    const profile = request.voiceProfile;
+    if (profile?.provider === 'amazon' && profile.baseVoiceId) {
+      return profile.baseVoiceId;
+    }
+
+    if (profile) {
+      const voices = await this.listVoices();
+      const match = voices.find(v => v.characteristics.gender === profile.characteristics.gender);
+      if (match) return match.baseVoiceId;
+    }
+
+    return this.defaultVoiceId;
+  }
+
+  /**
+   * Use the configured engine when the voice supports it, otherwise fall back to standard
+   */
+  private async resolveEngine(voiceId: string): Promise<PollyEngine> {
+    const voices = await this.describeVoices().catch(() => [] as PollyVoice[]);
+    const voice = voices.find(v => v.Id === voiceId);
+
+    if (!voice?.SupportedEngines || voice.SupportedEngines.includes(this.engine)) {
+      return this.engine;
+    }
+
+    return voice.SupportedEngines.includes('standard') ? 'standard' : voice.SupportedEngines[0] as PollyEngine;
+  }
+
+  private async describeVoices(): Promise<PollyVoice[]> {
+    if (this.voiceCache) return this.voiceCache;
+
+    const response = await this.client.send(new DescribeVoicesCommand({
+      LanguageCode: this.languageCode as LanguageCode,
+      IncludeAdditionalLanguageCodes: true
+    }));
+
+    this.voiceCache = response.Voices || [];
+    return this.voiceCache!;
+  }
+
+  /**
+   * Collect the SDK stream through its mixin, whichever runtime stream backs it
+   */
+  private async readStream(stream: SynthesizeSpeechCommandOutput['AudioStream']): Promise<Buffer> {
+    if (!stream) {
+      throw new Error('Empty audio stream in response');
+    }
+
+    return Buffer.from(await stream.transformToByteArray());
+  }
+
+  /**
+   * Wrap Polly's 16-bit mono little-endian PCM in a WAV header
+   */
+  private pcmToWav(pcm: Buffer, sampleRate: number): Buffer {
+    const header = Buffer.alloc(44);
+
+    header.write('RIFF', 0);
+    header.writeUInt32LE(36 + pcm.length, 4);
+    header.write('WAVE', 8);
+    header.write('fmt ', 12);
+    header.writeUInt32LE(16, 16);
+    header.writeUInt16LE(1, 20);
+    header.writeUInt16LE(1, 22);
+    header.writeUInt32LE(sampleRate, 24);
+    header.writeUInt32LE(sampleRate * 2, 28);
+    header.writeUInt16LE(2, 32);
+    header.writeUInt16LE(16, 34);
+    header.write('data', 36);
+    header.writeUInt32LE(pcm.length, 40);
+
+    return Buffer.concat([header, pcm]);
+  }
+
+  async listVoices(): Promise<VoiceProfile[]> {
+    try {
+      const voices = await this.describeVoices();
+
+      return voices
+        .filter(voice => voice.Id)
+        .map(voice => ({
+          id: voice.Id!,
+          name: voice.Name || voice.Id!,
+          provider: 'amazon' as const,
+          baseVoiceId: voice.Id!,
+          characteristics: this.extractCharacteristics(voice),
+          customSettings: {
+            languageCode: voice.LanguageCode,
+            supportedEngines: voice.SupportedEngines || []
+          },
+          created: new Date(),
+          updated: new Date()
+        }));
+    } catch (error) {
+      throw new Error(`Failed to list Amazon Polly voices: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  async createVoiceProfile(prompt: string): Promise<VoiceProfile> {
+    const characteristics = parseVoicePrompt(prompt);
+    const voices = await this.listVoices();
+
+    if (voices.length === 0) {
+      throw new Error(`No Amazon Polly voices available for ${this.languageCode}`);
+    }
+
+    const supportsEngine = (voice: VoiceProfile) => voice.customSettings.supportedEngines.includes(this.engine) ? 1 : 0;
+    const candidates = voices
+      .filter(v => characteristics.gender === 'neutral' || v.characteristics.gender === characteristics.gender)
+      .sort((a, b) => supportsEngine(b) - supportsEngine(a));
+    const bestMatch = candidates[0] || voices[0];
+
+    return {
+      ...bestMatch,
+      id: `amazon-custom-${Date.now()}`,
+      name: `Custom Polly Voice: ${bestMatch.name}`,
+      characteristics: { ...characteristics, accent: bestMatch.characteristics.accent }
+    };
+  }
+
+  protected extractCharacteristics(voice: PollyVoice): VoiceCharacteristics {
+    const languageCode = voice.LanguageCode || this.languageCode;
+
+    return {
+      gender: voice.Gender === 'Male' ? 'male' : voice.Gender === 'Female' ? 'female' : 'neutral',
+      age: 'adult',
+      accent: ACCENT_BY_LANGUAGE[languageCode] || languageCode,
+      personality: [],
+      defaultEmotion: {
+        type: 'neutral',
+        intensity: 0.5,
+        variations: []
+      },
+      timbre: 'medium',
+      pace: 'normal'
+    };
+  }
+
+  getCapabilities(): ProviderCapabilities {
+    // Neural voices ignore <emphasis> and pitch, see adaptSSMLForEngine
+    return {
+      ssml: { supported: true, dialect: 'amazon', emphasis: this.engine === 'standard', breaks: true, prosody: true },
+      outputFormats: ['mp3', 'wav'],
+      sampleRates: [8000, 16000, 22050, 24000],
+      maxCharacters: 3000,
+      languages: ['*'],
+      emotionControl: false,
+      streaming: false,
+      wordTimestamps: true,
+      voiceCloning: false
+    };
+  }
+
+  supportsEmotions(): boolean {
+    return false;
+  }
+
+  supportsVoiceCloning(): boolean {
+    return false;
+  }
+}
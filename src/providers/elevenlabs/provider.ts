@@ -1,9 +1,16 @@
 import { VoiceProvider } from '../../core/provider.base.js';
-import { VoiceProfile, GenerationRequest, VoiceModulation, VoiceCharacteristics } from '../../interfaces/voice.interface.js';
+import { ProviderCapabilities } from '../../interfaces/provider.interface.js';
+import { ProviderError } from '../../core/provider-error.js';
+import { VoiceProfile, GenerationRequest, VoiceModulation, VoiceCharacteristics, WordTimestamp } from '../../interfaces/voice.interface.js';
+import { createStreamingWavHeader } from '../../utils/audio-info.js';
+import { wordsFromCharacterAlignment } from '../../utils/word-timing.js';
 import axios from 'axios';
 
+const STREAM_PCM_SAMPLE_RATE = 24000;
+
 export class ElevenLabsProvider extends VoiceProvider {
   name = 'elevenlabs';
+  model = 'eleven_monolingual_v1';
   private apiKey: string;
   private baseUrl = 'https://api.elevenlabs.io/v1';
 
@@ -30,7 +37,7 @@ export class ElevenLabsProvider extends VoiceProvider {
     
     const payload = {
       text: request.text,
-      model_id: 'eleven_monolingual_v1',
+      model_id: this.model,
       voice_settings: this.mapEmotionToVoiceSettings(request.modulation)
     };
 
@@ -50,7 +57,92 @@ export class ElevenLabsProvider extends VoiceProvider {
 
       return Buffer.from(response.data);
     } catch (error) {
-      throw new Error(`ElevenLabs speech generation failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw ProviderError.from(this.name, error, 'ElevenLabs speech generation failed');
+    }
+  }
+
+  /**
+   * Render through the /with-timestamps endpoint, which returns the audio as
+   * base64 together with per-character timings
+   */
+  async generateSpeechWithTimestamps(request: GenerationRequest): Promise<{ audio: Buffer; words: WordTimestamp[] }> {
+    const voiceId = request.voiceProfile?.baseVoiceId || '9BWtsMINqrJLrRacOk9x';
+
+    try {
+      const response = await axios.post(
+        `${this.baseUrl}/text-to-speech/${voiceId}/with-timestamps`,
+        {
+          text: request.text,
+          model_id: this.model,
+          voice_settings: this.mapEmotionToVoiceSettings(request.modulation)
+        },
+        {
+          headers: {
+            'xi-api-key': this.apiKey,
+            'Content-Type': 'application/json'
+          }
+        }
+      );
+
+      const alignment = response.data.alignment;
+      return {
+        audio: Buffer.from(response.data.audio_base64, 'base64'),
+        words: alignment ? wordsFromCharacterAlignment(request.text, {
+          characters: alignment.characters,
+          startTimes: alignment.character_start_times_seconds,
+          endTimes: alignment.character_end_times_seconds
+        }) : []
+      };
+    } catch (error) {
+      throw ProviderError.from(this.name, error, 'ElevenLabs speech generation with timestamps failed');
+    }
+  }
+
+  /**
+   * Stream audio from the /stream endpoint. MP3 is streamed as-is; WAV is
+   * requested as raw PCM and prefixed with a streaming WAV header.
+   */
+  async *generateSpeechStream(request: GenerationRequest): AsyncIterable<Buffer> {
+    if (request.outputFormat === 'aac') {
+      throw new ProviderError('ElevenLabs cannot stream AAC', { provider: this.name, code: 'UNSUPPORTED_FORMAT' });
+    }
+
+    const voiceId = request.voiceProfile?.baseVoiceId || '9BWtsMINqrJLrRacOk9x';
+    const isWav = request.outputFormat === 'wav';
+    let stream: AsyncIterable<Buffer>;
+
+    try {
+      const response = await axios.post(
+        `${this.baseUrl}/text-to-speech/${voiceId}/stream`,
+        {
+          text: request.text,
+          model_id: this.model,
+          voice_settings: this.mapEmotionToVoiceSettings(request.modulation)
+        },
+        {
+          params: {
+            output_format: isWav ? `pcm_${STREAM_PCM_SAMPLE_RATE}` : 'mp3_44100_128',
+            optimize_streaming_latency: 2
+          },
+          headers: {
+            'Accept': isWav ? 'audio/pcm' : 'audio/mpeg',
+            'xi-api-key': this.apiKey,
+            'Content-Type': 'application/json'
+          },
+          responseType: 'stream'
+        }
+      );
+      stream = response.data;
+    } catch (error) {
+      throw ProviderError.from(this.name, error, 'ElevenLabs speech streaming failed');
+    }
+
+    if (isWav) {
+      yield createStreamingWavHeader(STREAM_PCM_SAMPLE_RATE, 1, 16);
+    }
+
+    for await (const chunk of stream) {
+      yield Buffer.from(chunk);
     }
   }
 
@@ -210,6 +302,20 @@ export class ElevenLabsProvider extends VoiceProvider {
     };
   }
 
+  getCapabilities(): ProviderCapabilities {
+    return {
+      ssml: { supported: false, emphasis: false, breaks: false, prosody: false },
+      outputFormats: ['mp3'],
+      sampleRates: [44100],
+      maxCharacters: 5000,
+      languages: ['en'],
+      emotionControl: true,
+      streaming: true,
+      wordTimestamps: true,
+      voiceCloning: true
+    };
+  }
+
   supportsEmotions(): boolean { 
     return true; 
   }
@@ -0,0 +1,249 @@
+import { VoiceProvider } from '../../core/provider.base.js';
+import { ProviderCapabilities } from '../../interfaces/provider.interface.js';
+import { ProviderError } from '../../core/provider-error.js';
+import { VoiceProfile, GenerationRequest, VoiceModulation, VoiceCharacteristics } from '../../interfaces/voice.interface.js';
+import { parseVoicePrompt } from '../../utils/prompt-parser.js';
+
+export type GoogleAudioEncoding = 'LINEAR16' | 'MP3' | 'OGG_OPUS' | 'MULAW' | 'ALAW';
+
+export interface GoogleVoice {
+  name?: string | null;
+  languageCodes?: string[] | null;
+  ssmlGender?: string | number | null;
+  naturalSampleRateHertz?: number | null;
+}
+
+export interface GoogleSynthesizeRequest {
+  input: { text?: string; ssml?: string };
+  voice: { languageCode: string; name?: string; ssmlGender?: string };
+  audioConfig: {
+    audioEncoding: GoogleAudioEncoding;
+    sampleRateHertz?: number;
+    effectsProfileId?: string[];
+  };
+}
+
+/**
+ * Subset of the @google-cloud/text-to-speech client used by the provider.
+ * Tests inject a stub implementing this shape so no network is needed.
+ */
+export interface GoogleTTSClient {
+  synthesizeSpeech(request: GoogleSynthesizeRequest): Promise<[{ audioContent?: Uint8Array | string | null }, ...unknown[]]>;
+  listVoices(request: { languageCode?: string }): Promise<[{ voices?: GoogleVoice[] | null }, ...unknown[]]>;
+}
+
+export interface GoogleProviderOptions {
+  client?: GoogleTTSClient;
+  keyFilename?: string;
+  projectId?: string;
+  languageCode?: string;
+  audioEncoding?: GoogleAudioEncoding;
+  sampleRateHertz?: number;
+  effectsProfileId?: string[];
+}
+
+const ACCENT_BY_LANGUAGE: Record<string, string> = {
+  'en-US': 'american',
+  'en-GB': 'british',
+  'en-AU': 'australian',
+  'en-IN': 'indian',
+  'en-IE': 'irish'
+};
+
+export class GoogleProvider extends VoiceProvider {
+  name = 'google';
+  private client?: GoogleTTSClient;
+  private options: GoogleProviderOptions;
+  private languageCode: string;
+
+  constructor(options: GoogleProviderOptions = {}) {
+    super();
+    this.options = options;
+    this.client = options.client;
+    this.languageCode = options.languageCode || 'en-US';
+  }
+
+  async initialize(): Promise<void> {
+    try {
+      if (!this.client) {
+        const { TextToSpeechClient } = await import('@google-cloud/text-to-speech');
+        this.client = new TextToSpeechClient({
+          keyFilename: this.options.keyFilename,
+          projectId: this.options.projectId
+        }) as unknown as GoogleTTSClient;
+      }
+
+      // Verify credentials with a cheap call
+      await this.client.listVoices({ languageCode: this.languageCode });
+    } catch (error) {
+      throw new Error(`Google TTS initialization failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  async generateSpeech(request: GenerationRequest): Promise<Buffer> {
+    const client = this.getClient();
+    const voice = this.resolveVoice(request.voiceProfile);
+
+    const synthesizeRequest: GoogleSynthesizeRequest = {
+      input: this.buildInput(request.text, request.modulation),
+      voice,
+      audioConfig: {
+        audioEncoding: this.options.audioEncoding || this.encodingForFormat(request.outputFormat),
+        ...(this.options.sampleRateHertz ? { sampleRateHertz: this.options.sampleRateHertz } : {}),
+        ...(this.options.effectsProfileId ? { effectsProfileId: this.options.effectsProfileId } : {})
+      }
+    };
+
+    try {
+      const [response] = await client.synthesizeSpeech(synthesizeRequest);
+
+      if (!response.audioContent) {
+        throw new Error('Empty audio content in response');
+      }
+
+      return typeof response.audioContent === 'string'
+        ? Buffer.from(response.audioContent, 'base64')
+        : Buffer.from(response.audioContent);
+    } catch (error) {
+      throw ProviderError.from(this.name, error, 'Google speech generation failed');
+    }
+  }
+
+  /**
+   * Pass SSML through untouched, convert modulation to SSML, otherwise send plain text
+   */
+  private buildInput(text: string, modulation?: VoiceModulation): GoogleSynthesizeRequest['input'] {
+    const ssml = this.ssmlDocument(text);
+    if (ssml) {
+      return { ssml };
+    }
+
+    if (modulation) {
+      return { ssml: this.convertToSSML(text, modulation) };
+    }
+
+    return { text };
+  }
+
+  /**
+   * Google has no AAC encoding, so AAC requests are rendered as LINEAR16 and
+   * transcoded by the audio processor.
+   */
+  private encodingForFormat(format: 'mp3' | 'wav' | 'aac'): GoogleAudioEncoding {
+    return format === 'mp3' ? 'MP3' : 'LINEAR16';
+  }
+
+  private resolveVoice(voiceProfile?: VoiceProfile): GoogleSynthesizeRequest['voice'] {
+    if (voiceProfile?.provider === 'google' && voiceProfile.baseVoiceId) {
+      const languageCode = voiceProfile.customSettings.languageCodes?.[0] || this.languageFromVoiceName(voiceProfile.baseVoiceId);
+      return { languageCode, name: voiceProfile.baseVoiceId };
+    }
+
+    const gender = voiceProfile?.characteristics.gender;
+    return {
+      languageCode: this.languageCode,
+      ssmlGender: gender === 'male' ? 'MALE' : gender === 'female' ? 'FEMALE' : 'NEUTRAL'
+    };
+  }
+
+  private languageFromVoiceName(name: string): string {
+    const match = name.match(/^([a-z]{2,3}-[A-Z]{2})/);
+    return match ? match[1] : this.languageCode;
+  }
+
+  async listVoices(languageCode?: string): Promise<VoiceProfile[]> {
+    const client = this.getClient();
+
+    try {
+      const [response] = await client.listVoices(languageCode ? { languageCode } : {});
+
+      return (response.voices || [])
+        .filter(voice => voice.name)
+        .map(voice => ({
+          id: voice.name!,
+          name: voice.name!,
+          provider: 'google' as const,
+          baseVoiceId: voice.name!,
+          characteristics: this.extractCharacteristics(voice),
+          customSettings: {
+            languageCodes: voice.languageCodes || [],
+            naturalSampleRateHertz: voice.naturalSampleRateHertz || undefined
+          },
+          created: new Date(),
+          updated: new Date()
+        }));
+    } catch (error) {
+      throw new Error(`Failed to list Google voices: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  async createVoiceProfile(prompt: string): Promise<VoiceProfile> {
+    const characteristics = parseVoicePrompt(prompt);
+    const voices = await this.listVoices(this.languageCode);
+
+    if (voices.length === 0) {
+      throw new Error(`No Google voices available for ${this.languageCode}`);
+    }
+
+    const premium = (voice: VoiceProfile) => /Neural2|Wavenet|Studio/.test(voice.name) ? 1 : 0;
+    const candidates = voices
+      .filter(v => characteristics.gender === 'neutral' || v.characteristics.gender === characteristics.gender)
+      .sort((a, b) => premium(b) - premium(a));
+    const bestMatch = candidates[0] || voices[0];
+
+    return {
+      ...bestMatch,
+      id: `google-custom-${Date.now()}`,
+      name: `Custom Google Voice: ${bestMatch.name}`,
+      characteristics: { ...characteristics, accent: bestMatch.characteristics.accent }
+    };
+  }
+
+  protected extractCharacteristics(voice: GoogleVoice): VoiceCharacteristics {
+    const ssmlGender = String(voice.ssmlGender || '').toUpperCase();
+    const languageCode = voice.languageCodes?.[0] || this.languageCode;
+
+    return {
+      gender: ssmlGender === 'MALE' || ssmlGender === '1' ? 'male' : ssmlGender === 'FEMALE' || ssmlGender === '2' ? 'female' : 'neutral',
+      age: 'adult',
+      accent: ACCENT_BY_LANGUAGE[languageCode] || languageCode,
+      personality: [],
+      defaultEmotion: {
+        type: 'neutral',
+        intensity: 0.5,
+        variations: []
+      },
+      timbre: 'medium',
+      pace: 'normal'
+    };
+  }
+
+  private getClient(): GoogleTTSClient {
+    if (!this.client) {
+      throw new Error('Google provider is not initialized');
+    }
+    return this.client;
+  }
+
+  getCapabilities(): ProviderCapabilities {
+    return {
+      ssml: { supported: true, dialect: 'google', emphasis: true, breaks: true, prosody: true },
+      outputFormats: ['mp3', 'wav'],
+      sampleRates: [8000, 16000, 22050, 24000, 44100, 48000],
+      maxCharacters: 5000,
+      languages: ['*'],
+      emotionControl: false,
+      streaming: false,
+      wordTimestamps: false,
+      voiceCloning: false
+    };
+  }
+
+  supportsEmotions(): boolean {
+    return false;
+  }
+
+  supportsVoiceCloning(): boolean {
+    return false;
+  }
+}
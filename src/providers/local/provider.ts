@@ -0,0 +1,271 @@
+import { VoiceProvider } from '../../core/provider.base.js';
+import { ProviderCapabilities } from '../../interfaces/provider.interface.js';
+import { ProviderError } from '../../core/provider-error.js';
+import { VoiceProfile, GenerationRequest, VoiceCharacteristics } from '../../interfaces/voice.interface.js';
+import { parseVoicePrompt } from '../../utils/prompt-parser.js';
+import { spawn } from 'child_process';
+import { promises as fs, constants as fsConstants } from 'fs';
+import os from 'os';
+import path from 'path';
+
+export type LocalCommandPreset = 'espeak-ng' | 'piper';
+
+export interface LocalVoiceDefinition {
+  id: string;
+  name: string;
+  gender?: 'male' | 'female' | 'neutral';
+  age?: 'child' | 'young' | 'adult' | 'senior';
+  accent?: string;
+}
+
+export interface LocalCommandConfig {
+  /**
+   * Command template. Supported placeholders: {text}, {voice}, {output},
+   * {rate}, {pitch}, {volume}, {lengthScale}. When {text} is absent the text
+   * is written to stdin; when {output} is absent audio is read from stdout.
+   */
+  command?: string;
+  preset?: LocalCommandPreset;
+  voices?: LocalVoiceDefinition[];
+  defaultVoice?: string;
+  outputFormat?: 'wav' | 'mp3';
+  timeoutMs?: number;
+}
+
+const PRESET_COMMANDS: Record<LocalCommandPreset, string> = {
+  // Text goes in on stdin so lines starting with '-' are never read as options
+  'espeak-ng': 'espeak-ng -v {voice} -s {rate} -p {pitch} -a {volume} -w {output} --stdin',
+  'piper': 'piper --model {voice} --length_scale {lengthScale} --output_file {output}'
+};
+
+const PRESET_VOICES: Record<LocalCommandPreset, LocalVoiceDefinition[]> = {
+  'espeak-ng': [
+    { id: 'en-us', name: 'English (US)', gender: 'male', accent: 'american' },
+    { id: 'en-us+f3', name: 'English (US) Female', gender: 'female', accent: 'american' },
+    { id: 'en-gb', name: 'English (UK)', gender: 'male', accent: 'british' },
+    { id: 'en-gb+f3', name: 'English (UK) Female', gender: 'female', accent: 'british' }
+  ],
+  'piper': [
+    { id: 'en_US-lessac-medium', name: 'Lessac', gender: 'female', accent: 'american' },
+    { id: 'en_US-ryan-medium', name: 'Ryan', gender: 'male', accent: 'american' },
+    { id: 'en_GB-alan-medium', name: 'Alan', gender: 'male', accent: 'british' }
+  ]
+};
+
+/**
+ * Offline provider that shells out to a locally installed TTS binary
+ * (espeak-ng, Piper or any user supplied command template)
+ */
+export class LocalCommandProvider extends VoiceProvider {
+  name = 'local';
+  private template: string;
+  private voices: LocalVoiceDefinition[];
+  private defaultVoice: string;
+  private outputFormat: 'wav' | 'mp3';
+  private timeoutMs: number;
+
+  constructor(config: LocalCommandConfig = {}) {
+    super();
+    const preset = config.preset || (config.command ? undefined : 'espeak-ng');
+    this.template = config.command || PRESET_COMMANDS[preset!];
+    this.voices = config.voices || (preset ? PRESET_VOICES[preset] : [{ id: 'default', name: 'Default' }]);
+    this.defaultVoice = config.defaultVoice || this.voices[0]?.id || 'default';
+    this.outputFormat = config.outputFormat || 'wav';
+    this.timeoutMs = config.timeoutMs || 60000;
+  }
+
+  async initialize(): Promise<void> {
+    const binary = this.tokenize(this.template)[0];
+    if (!binary) {
+      throw new Error('Local TTS initialization failed: command template is empty');
+    }
+
+    if (!(await this.resolveBinary(binary))) {
+      throw new Error(`Local TTS initialization failed: command "${binary}" not found`);
+    }
+  }
+
+  async generateSpeech(request: GenerationRequest): Promise<Buffer> {
+    const voice = this.resolveVoiceId(request.voiceProfile);
+    const speed = request.modulation?.speed || 1.0;
+    const pitch = request.modulation?.pitch || 0;
+    const volume = request.modulation?.volume ?? 1.0;
+
+    const usesOutputFile = this.template.includes('{output}');
+    const usesTextArg = this.template.includes('{text}');
+    const outputPath = path.join(os.tmpdir(), `local_tts_${process.pid}_${Date.now()}_${Math.random().toString(36).slice(2)}.${this.outputFormat}`);
+
+    const values: Record<string, string> = {
+      text: request.text,
+      voice,
+      output: outputPath,
+      rate: String(Math.round(175 * Math.max(0.5, Math.min(2.0, speed)))),
+      pitch: String(Math.round(Math.max(0, Math.min(99, 50 + pitch * 2.5)))),
+      volume: String(Math.round(Math.max(0, Math.min(200, volume * 100)))),
+      lengthScale: (1 / Math.max(0.5, Math.min(2.0, speed))).toFixed(2)
+    };
+
+    const [binary, ...args] = this.tokenize(this.template).map(token =>
+      token.replace(/\{(\w+)\}/g, (match, key) => values[key] ?? match)
+    );
+
+    try {
+      const stdout = await this.run(binary, args, usesTextArg ? undefined : request.text);
+
+      if (!usesOutputFile) {
+        return stdout;
+      }
+
+      return await fs.readFile(outputPath);
+    } catch (error) {
+      throw ProviderError.from(this.name, error, 'Local TTS speech generation failed');
+    } finally {
+      if (usesOutputFile) {
+        await fs.unlink(outputPath).catch(() => undefined);
+      }
+    }
+  }
+
+  async listVoices(): Promise<VoiceProfile[]> {
+    return this.voices.map(voice => ({
+      id: voice.id,
+      name: voice.name,
+      provider: 'local' as const,
+      baseVoiceId: voice.id,
+      characteristics: this.extractCharacteristics(voice),
+      customSettings: {},
+      created: new Date(),
+      updated: new Date()
+    }));
+  }
+
+  async createVoiceProfile(prompt: string): Promise<VoiceProfile> {
+    const characteristics = parseVoicePrompt(prompt);
+    const voices = await this.listVoices();
+
+    const bestMatch =
+      voices.find(v => v.characteristics.gender === characteristics.gender && v.characteristics.accent === characteristics.accent) ||
+      voices.find(v => v.characteristics.gender === characteristics.gender) ||
+      voices[0];
+
+    return {
+      id: `local-custom-${Date.now()}`,
+      name: `Custom Local Voice: ${bestMatch.name}`,
+      provider: 'local',
+      baseVoiceId: bestMatch.baseVoiceId,
+      characteristics,
+      customSettings: {},
+      created: new Date(),
+      updated: new Date()
+    };
+  }
+
+  protected extractCharacteristics(voice: LocalVoiceDefinition): VoiceCharacteristics {
+    return {
+      gender: voice.gender || 'neutral',
+      age: voice.age || 'adult',
+      accent: voice.accent || 'neutral',
+      personality: [],
+      defaultEmotion: {
+        type: 'neutral',
+        intensity: 0.5,
+        variations: []
+      },
+      timbre: 'medium',
+      pace: 'normal'
+    };
+  }
+
+  private resolveVoiceId(voiceProfile?: VoiceProfile): string {
+    if (voiceProfile?.provider === 'local' && voiceProfile.baseVoiceId) {
+      return voiceProfile.baseVoiceId;
+    }
+    return this.defaultVoice;
+  }
+
+  /**
+   * Split a command template into arguments, honouring single and double quotes
+   */
+  private tokenize(template: string): string[] {
+    const tokens: string[] = [];
+    const pattern = /"([^"]*)"|'([^']*)'|(\S+)/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(template)) !== null) {
+      tokens.push(match[1] ?? match[2] ?? match[3]);
+    }
+
+    return tokens;
+  }
+
+  private async resolveBinary(binary: string): Promise<string | null> {
+    const candidates = binary.includes(path.sep)
+      ? [binary]
+      : (process.env.PATH || '').split(path.delimiter).filter(Boolean).map(dir => path.join(dir, binary));
+
+    for (const candidate of candidates) {
+      try {
+        await fs.access(candidate, fsConstants.X_OK);
+        return candidate;
+      } catch (error) {
+        // Not executable here, keep looking
+      }
+    }
+
+    return null;
+  }
+
+  private run(binary: string, args: string[], stdin?: string): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(binary, args, { stdio: ['pipe', 'pipe', 'pipe'] });
+      const stdout: Buffer[] = [];
+      const stderr: Buffer[] = [];
+
+      const timer = setTimeout(() => {
+        child.kill('SIGKILL');
+        reject(new ProviderError(`command timed out after ${this.timeoutMs}ms`, { code: 'ETIMEDOUT' }));
+      }, this.timeoutMs);
+
+      child.stdout.on('data', chunk => stdout.push(chunk));
+      child.stderr.on('data', chunk => stderr.push(chunk));
+      child.on('error', error => {
+        clearTimeout(timer);
+        reject(error);
+      });
+      child.on('close', code => {
+        clearTimeout(timer);
+        if (code !== 0) {
+          const message = Buffer.concat(stderr).toString().trim();
+          reject(new Error(`${path.basename(binary)} exited with code ${code}${message ? `: ${message}` : ''}`));
+          return;
+        }
+        resolve(Buffer.concat(stdout));
+      });
+
+      child.stdin.on('error', () => undefined);
+      child.stdin.end(stdin ?? '');
+    });
+  }
+
+  getCapabilities(): ProviderCapabilities {
+    return {
+      ssml: { supported: false, emphasis: false, breaks: false, prosody: false },
+      outputFormats: [this.outputFormat],
+      sampleRates: [22050],
+      maxCharacters: Infinity,
+      languages: ['*'],
+      emotionControl: false,
+      streaming: false,
+      wordTimestamps: false,
+      voiceCloning: false
+    };
+  }
+
+  supportsEmotions(): boolean {
+    return false;
+  }
+
+  supportsVoiceCloning(): boolean {
+    return false;
+  }
+}
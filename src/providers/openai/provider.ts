@@ -1,9 +1,12 @@
 import { VoiceProvider } from '../../core/provider.base.js';
+import { ProviderCapabilities } from '../../interfaces/provider.interface.js';
+import { ProviderError } from '../../core/provider-error.js';
 import { VoiceProfile, GenerationRequest, VoiceCharacteristics } from '../../interfaces/voice.interface.js';
 import OpenAI from 'openai';
 
 export class OpenAIProvider extends VoiceProvider {
   name = 'openai';
+  model = 'tts-1-hd';
   private openai: OpenAI;
 
   constructor(apiKey: string) {
@@ -26,7 +29,7 @@ export class OpenAIProvider extends VoiceProvider {
 
     try {
       const response = await this.openai.audio.speech.create({
-        model: 'tts-1-hd',
+        model: this.model,
         voice: voice as any,
         input: request.text,
         speed: Math.max(0.25, Math.min(4.0, speed))
@@ -35,7 +38,35 @@ export class OpenAIProvider extends VoiceProvider {
       const arrayBuffer = await response.arrayBuffer();
       return Buffer.from(arrayBuffer);
     } catch (error) {
-      throw new Error(`OpenAI speech generation failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw ProviderError.from(this.name, error, 'OpenAI speech generation failed');
+    }
+  }
+
+  /**
+   * Stream the speech response body as it arrives, in the requested format
+   */
+  async *generateSpeechStream(request: GenerationRequest): AsyncIterable<Buffer> {
+    let body: AsyncIterable<Uint8Array>;
+
+    try {
+      const response = await this.openai.audio.speech.create({
+        model: this.model,
+        voice: this.mapVoiceProfileToOpenAI(request.voiceProfile) as any,
+        input: request.text,
+        speed: Math.max(0.25, Math.min(4.0, request.modulation?.speed || 1.0)),
+        response_format: request.outputFormat
+      });
+
+      if (!response.body) {
+        throw new Error('Empty response body');
+      }
+      body = response.body as unknown as AsyncIterable<Uint8Array>;
+    } catch (error) {
+      throw ProviderError.from(this.name, error, 'OpenAI speech streaming failed');
+    }
+
+    for await (const chunk of body) {
+      yield Buffer.from(chunk);
     }
   }
 
@@ -148,6 +179,20 @@ export class OpenAIProvider extends VoiceProvider {
     };
   }
 
+  getCapabilities(): ProviderCapabilities {
+    return {
+      ssml: { supported: false, emphasis: false, breaks: false, prosody: false },
+      outputFormats: ['mp3'],
+      sampleRates: [24000],
+      maxCharacters: 4096,
+      languages: ['*'],
+      emotionControl: false,
+      streaming: true,
+      wordTimestamps: false,
+      voiceCloning: false
+    };
+  }
+
   supportsEmotions(): boolean { 
     return false; // OpenAI TTS doesn't support emotion control
   }
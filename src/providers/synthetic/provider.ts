@@ -0,0 +1,359 @@
+import { VoiceProvider } from '../../core/provider.base.js';
+import { ProviderCapabilities } from '../../interfaces/provider.interface.js';
+import { VoiceProfile, GenerationRequest, VoiceCharacteristics, EmotionType, EmphasisPoint } from '../../interfaces/voice.interface.js';
+import { parseVoicePrompt } from '../../utils/prompt-parser.js';
+import { encodeWav } from '../../audio/wav-codec.js';
+
+interface SyntheticVoiceDefinition {
+  id: string;
+  name: string;
+  fundamental: number; // Hz
+  gender: 'male' | 'female' | 'neutral';
+  age: 'child' | 'young' | 'adult' | 'senior';
+  timbre: 'deep' | 'medium' | 'high';
+}
+
+interface SyntheticEvent {
+  type: 'syllable' | 'silence';
+  duration: number; // seconds
+  vowel?: string;
+  stress?: number; // 0-1 emphasis strength
+  consonant?: boolean;
+  pitchBend?: number; // semitones applied across the syllable
+}
+
+const SYNTHETIC_VOICES: SyntheticVoiceDefinition[] = [
+  { id: 'synth-low', name: 'Synthetic Low', fundamental: 105, gender: 'male', age: 'adult', timbre: 'deep' },
+  { id: 'synth-mid', name: 'Synthetic Mid', fundamental: 150, gender: 'neutral', age: 'adult', timbre: 'medium' },
+  { id: 'synth-high', name: 'Synthetic High', fundamental: 215, gender: 'female', age: 'adult', timbre: 'high' },
+  { id: 'synth-child', name: 'Synthetic Child', fundamental: 290, gender: 'neutral', age: 'child', timbre: 'high' }
+];
+
+// First and second formant frequencies per vowel (Hz)
+const VOWEL_FORMANTS: Record<string, [number, number]> = {
+  a: [730, 1090],
+  e: [530, 1840],
+  i: [270, 2290],
+  o: [570, 840],
+  u: [300, 870],
+  y: [390, 1990]
+};
+
+// Pitch offset (semitones) and syllable tempo factor per emotion at full intensity
+const EMOTION_PROSODY: Record<EmotionType, { pitch: number; tempo: number; energy: number }> = {
+  happy: { pitch: 2, tempo: 1.1, energy: 1.1 },
+  excited: { pitch: 4, tempo: 1.2, energy: 1.2 },
+  surprised: { pitch: 3, tempo: 1.05, energy: 1.1 },
+  angry: { pitch: 1, tempo: 1.1, energy: 1.3 },
+  fearful: { pitch: 2, tempo: 1.15, energy: 0.9 },
+  sad: { pitch: -2, tempo: 0.85, energy: 0.8 },
+  calm: { pitch: -1, tempo: 0.9, energy: 0.85 },
+  neutral: { pitch: 0, tempo: 1.0, energy: 1.0 }
+};
+
+/**
+ * Built-in provider that renders text into deterministic, decodable WAV audio.
+ * Each syllable becomes a formant-shaped harmonic burst so timing, pauses and
+ * emphasis can be exercised end to end without calling a cloud API.
+ */
+export class SyntheticProvider extends VoiceProvider {
+  name = 'synthetic';
+  private sampleRate: number;
+
+  private static readonly SYLLABLE_DURATION = 0.16; // seconds at speed 1.0
+  private static readonly WORD_GAP = 0.04;
+  private static readonly COMMA_PAUSE = 0.15;
+  private static readonly SENTENCE_PAUSE = 0.3;
+
+  constructor(options: { sampleRate?: number } = {}) {
+    super();
+    this.sampleRate = options.sampleRate || 22050;
+  }
+
+  async initialize(): Promise<void> {
+    // Nothing to connect to
+  }
+
+  async generateSpeech(request: GenerationRequest): Promise<Buffer> {
+    const voice = this.resolveVoice(request.voiceProfile);
+    const modulation = request.modulation;
+    const emotion = modulation?.emotion || request.voiceProfile?.characteristics.defaultEmotion;
+    const prosody = EMOTION_PROSODY[emotion?.type || 'neutral'] || EMOTION_PROSODY.neutral;
+    const intensity = emotion?.intensity ?? 0.5;
+
+    const speed = Math.max(0.25, Math.min(4.0, (modulation?.speed || 1.0) * (1 + (prosody.tempo - 1) * intensity)));
+    const pitchOffset = (modulation?.pitch || 0) + prosody.pitch * intensity;
+    const volume = Math.max(0, Math.min(1, modulation?.volume ?? 1.0));
+    const energy = 1 + (prosody.energy - 1) * intensity;
+
+    const events = this.buildEvents(request, speed);
+    const fundamental = voice.fundamental * Math.pow(2, pitchOffset / 12);
+    const samples = this.render(events, fundamental, volume * energy, this.seedFor(request.text, voice.id));
+
+    return encodeWav({ sampleRate: this.sampleRate, channels: [samples] }, { bitDepth: 16 });
+  }
+
+  /**
+   * Turn text into a sequence of syllable and silence events
+   */
+  private buildEvents(request: GenerationRequest, speed: number): SyntheticEvent[] {
+    const text = request.text;
+    const events: SyntheticEvent[] = [];
+    const pauses = [...(request.modulation?.pauses || [])].sort((a, b) => a.position - b.position);
+    const emphasis = request.modulation?.emphasis || [];
+    let pauseIndex = 0;
+
+    const wordPattern = /[A-Za-z0-9']+|[.,!?;:]/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = wordPattern.exec(text)) !== null) {
+      // Insert explicit pauses that fall before this token
+      while (pauseIndex < pauses.length && pauses[pauseIndex].position <= match.index) {
+        events.push({ type: 'silence', duration: pauses[pauseIndex].duration / 1000 });
+        pauseIndex++;
+      }
+
+      const token = match[0];
+
+      if (/^[.!?]$/.test(token)) {
+        if (token === '?') this.bendLastSyllable(events, 3);
+        events.push({ type: 'silence', duration: SyntheticProvider.SENTENCE_PAUSE / speed });
+        continue;
+      }
+
+      if (/^[,;:]$/.test(token)) {
+        events.push({ type: 'silence', duration: SyntheticProvider.COMMA_PAUSE / speed });
+        continue;
+      }
+
+      const stress = this.emphasisFor(token, match.index, emphasis);
+      const syllables = this.splitSyllables(token);
+
+      for (const syllable of syllables) {
+        const vowel = (syllable.match(/[aeiouy]/i)?.[0] || 'a').toLowerCase();
+        const lengthFactor = 1 + stress * 0.4;
+        events.push({
+          type: 'syllable',
+          duration: (SyntheticProvider.SYLLABLE_DURATION * lengthFactor) / speed,
+          vowel,
+          stress,
+          consonant: /^[^aeiouy]/i.test(syllable)
+        });
+      }
+
+      events.push({ type: 'silence', duration: SyntheticProvider.WORD_GAP / speed });
+    }
+
+    // Pauses positioned after the last token
+    for (; pauseIndex < pauses.length; pauseIndex++) {
+      events.push({ type: 'silence', duration: pauses[pauseIndex].duration / 1000 });
+    }
+
+    return events;
+  }
+
+  private bendLastSyllable(events: SyntheticEvent[], semitones: number): void {
+    for (let i = events.length - 1; i >= 0; i--) {
+      if (events[i].type === 'syllable') {
+        events[i].pitchBend = semitones;
+        return;
+      }
+    }
+  }
+
+  private emphasisFor(word: string, position: number, emphasis: EmphasisPoint[]): number {
+    const candidates = emphasis.filter(e => e.word.toLowerCase() === word.toLowerCase());
+    const point = candidates.find(e => e.position >= position && e.position < position + word.length) || candidates[0];
+    return point ? Math.max(0, Math.min(1, point.strength)) : 0;
+  }
+
+  /**
+   * Rough syllable split on vowel groups
+   */
+  private splitSyllables(word: string): string[] {
+    const parts = word.match(/[^aeiouy]*[aeiouy]+[^aeiouy]*/gi);
+    return parts && parts.length > 0 ? parts : [word];
+  }
+
+  private render(events: SyntheticEvent[], fundamental: number, gain: number, seed: number): Float32Array {
+    const totalSamples = events.reduce((sum, event) => sum + Math.round(event.duration * this.sampleRate), 0);
+    const output = new Float32Array(Math.max(totalSamples, 1));
+    const random = this.createRandom(seed);
+    let offset = 0;
+
+    for (const event of events) {
+      const length = Math.round(event.duration * this.sampleRate);
+
+      if (event.type === 'syllable') {
+        this.renderSyllable(output, offset, length, event, fundamental, gain, random);
+      }
+
+      offset += length;
+    }
+
+    return output;
+  }
+
+  private renderSyllable(
+    output: Float32Array,
+    offset: number,
+    length: number,
+    event: SyntheticEvent,
+    fundamental: number,
+    gain: number,
+    random: () => number
+  ): void {
+    const [f1, f2] = VOWEL_FORMANTS[event.vowel || 'a'] || VOWEL_FORMANTS.a;
+    const stress = event.stress || 0;
+    const amplitude = 0.25 * gain * (1 + stress * 0.6);
+    const stressedPitch = fundamental * Math.pow(2, (stress * 2) / 12);
+    const attack = Math.min(length, Math.round(0.01 * this.sampleRate));
+    const release = Math.min(length - attack, Math.round(0.03 * this.sampleRate));
+    const burst = event.consonant ? Math.min(length, Math.round(0.015 * this.sampleRate)) : 0;
+    const nyquist = this.sampleRate / 2;
+    let phase = 0;
+
+    for (let i = 0; i < length; i++) {
+      const progress = i / length;
+      const f0 = stressedPitch * Math.pow(2, ((event.pitchBend || 0) * progress) / 12);
+      phase += (2 * Math.PI * f0) / this.sampleRate;
+
+      // Sum harmonics weighted by their distance to the vowel formants
+      let sample = 0;
+      for (let harmonic = 1; harmonic * f0 < Math.min(4000, nyquist); harmonic++) {
+        const frequency = harmonic * f0;
+        const weight =
+          1 / (1 + Math.pow((frequency - f1) / 120, 2)) +
+          0.6 / (1 + Math.pow((frequency - f2) / 180, 2)) +
+          0.05 / harmonic;
+        sample += weight * Math.sin(phase * harmonic);
+      }
+
+      let envelope = 1;
+      if (i < attack) envelope = 0.5 - 0.5 * Math.cos((Math.PI * i) / attack);
+      else if (i >= length - release) envelope = 0.5 - 0.5 * Math.cos((Math.PI * (length - i)) / release);
+
+      let value = sample * envelope * amplitude * 0.5;
+
+      // Consonant onset: short deterministic noise burst
+      if (i < burst) {
+        value += (random() * 2 - 1) * amplitude * 0.4 * (1 - i / burst);
+      }
+
+      output[offset + i] = Math.max(-1, Math.min(1, value));
+    }
+  }
+
+  private resolveVoice(voiceProfile?: VoiceProfile): SyntheticVoiceDefinition {
+    if (voiceProfile?.provider === 'synthetic') {
+      const voice = SYNTHETIC_VOICES.find(v => v.id === voiceProfile.baseVoiceId);
+      if (voice) return voice;
+    }
+
+    if (voiceProfile) {
+      return this.matchVoice(voiceProfile.characteristics);
+    }
+
+    return SYNTHETIC_VOICES[1];
+  }
+
+  private matchVoice(characteristics: VoiceCharacteristics): SyntheticVoiceDefinition {
+    if (characteristics.age === 'child') return SYNTHETIC_VOICES[3];
+    if (characteristics.gender === 'male' || characteristics.timbre === 'deep') return SYNTHETIC_VOICES[0];
+    if (characteristics.gender === 'female' || characteristics.timbre === 'high') return SYNTHETIC_VOICES[2];
+    return SYNTHETIC_VOICES[1];
+  }
+
+  /**
+   * FNV-1a hash so identical requests always produce identical audio
+   */
+  private seedFor(text: string, voiceId: string): number {
+    let hash = 0x811c9dc5;
+    const input = `${voiceId}:${text}`;
+    for (let i = 0; i < input.length; i++) {
+      hash ^= input.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+
+  /**
+   * Mulberry32 PRNG
+   */
+  private createRandom(seed: number): () => number {
+    let state = seed;
+    return () => {
+      state = (state + 0x6d2b79f5) | 0;
+      let t = Math.imul(state ^ (state >>> 15), 1 | state);
+      t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  async listVoices(): Promise<VoiceProfile[]> {
+    return SYNTHETIC_VOICES.map(voice => ({
+      id: voice.id,
+      name: voice.name,
+      provider: 'synthetic' as const,
+      baseVoiceId: voice.id,
+      characteristics: this.extractCharacteristics(voice),
+      customSettings: { fundamental: voice.fundamental },
+      created: new Date(0),
+      updated: new Date(0)
+    }));
+  }
+
+  async createVoiceProfile(prompt: string): Promise<VoiceProfile> {
+    const characteristics = parseVoicePrompt(prompt);
+    const voice = this.matchVoice(characteristics);
+
+    return {
+      id: `synthetic-custom-${voice.id}`,
+      name: `Custom Synthetic Voice: ${voice.name}`,
+      provider: 'synthetic',
+      baseVoiceId: voice.id,
+      characteristics,
+      customSettings: { fundamental: voice.fundamental },
+      created: new Date(0),
+      updated: new Date(0)
+    };
+  }
+
+  protected extractCharacteristics(voice: SyntheticVoiceDefinition): VoiceCharacteristics {
+    return {
+      gender: voice.gender,
+      age: voice.age,
+      accent: 'neutral',
+      personality: [],
+      defaultEmotion: {
+        type: 'neutral',
+        intensity: 0.5,
+        variations: []
+      },
+      timbre: voice.timbre,
+      pace: 'normal'
+    };
+  }
+
+  getCapabilities(): ProviderCapabilities {
+    return {
+      ssml: { supported: false, emphasis: false, breaks: false, prosody: false },
+      outputFormats: ['wav'],
+      sampleRates: [this.sampleRate],
+      maxCharacters: Infinity,
+      languages: ['*'],
+      emotionControl: true,
+      streaming: false,
+      wordTimestamps: false,
+      voiceCloning: false
+    };
+  }
+
+  supportsEmotions(): boolean {
+    return true;
+  }
+
+  supportsVoiceCloning(): boolean {
+    return false;
+  }
+}
@@ -0,0 +1,284 @@
+export interface WavInfo {
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+  audioFormat: number; // 1 = PCM, 3 = IEEE float
+  dataOffset: number; // byte offset of the sample data
+  dataLength: number; // bytes of sample data actually present
+}
+
+/**
+ * Parse the RIFF/WAVE header of a buffer, walking chunks to find `fmt ` and `data`.
+ * Returns null for anything that is not a WAV file.
+ */
+export function parseWavHeader(buffer: Buffer): WavInfo | null {
+  if (buffer.length < 12 || buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+    return null;
+  }
+
+  let offset = 12;
+  let format: Omit<WavInfo, 'dataOffset' | 'dataLength'> | null = null;
+
+  while (offset + 8 <= buffer.length) {
+    const chunkId = buffer.toString('ascii', offset, offset + 4);
+    const chunkSize = buffer.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (chunkId === 'fmt ' && body + 16 <= buffer.length) {
+      format = {
+        audioFormat: buffer.readUInt16LE(body),
+        channels: buffer.readUInt16LE(body + 2),
+        sampleRate: buffer.readUInt32LE(body + 4),
+        bitsPerSample: buffer.readUInt16LE(body + 14)
+      };
+    } else if (chunkId === 'data') {
+      if (!format) return null;
+      // Streaming writers leave the size at 0 or 0xFFFFFFFF; trust the buffer length instead
+      const available = buffer.length - body;
+      const dataLength = chunkSize === 0 || chunkSize === 0xFFFFFFFF ? available : Math.min(chunkSize, available);
+      return { ...format, dataOffset: body, dataLength };
+    }
+
+    offset = body + chunkSize + (chunkSize % 2);
+  }
+
+  return null;
+}
+
+/**
+ * WAV header for a stream of unknown length. Sizes are set to the maximum,
+ * which players and ffmpeg treat as "read until end of stream".
+ */
+export function createStreamingWavHeader(sampleRate: number, channels: number, bitsPerSample: number, audioFormat = 1): Buffer {
+  const header = Buffer.alloc(44);
+  const blockAlign = channels * bitsPerSample / 8;
+
+  header.write('RIFF', 0);
+  header.writeUInt32LE(0xFFFFFFFF, 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(audioFormat, 20);
+  header.writeUInt16LE(channels, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * blockAlign, 28);
+  header.writeUInt16LE(blockAlign, 32);
+  header.writeUInt16LE(bitsPerSample, 34);
+  header.write('data', 36);
+  header.writeUInt32LE(0xFFFFFFFF, 40);
+
+  return header;
+}
+
+/**
+ * Rewrite the RIFF and data chunk sizes to match the buffer. Writers on a
+ * non-seekable output (pipes, streams) cannot patch them after the fact.
+ */
+export function finalizeWavHeader(buffer: Buffer): Buffer {
+  const wav = parseWavHeader(buffer);
+  if (!wav) return buffer;
+
+  buffer.writeUInt32LE(buffer.length - 8, 4);
+  buffer.writeUInt32LE(buffer.length - wav.dataOffset, wav.dataOffset - 4);
+  return buffer;
+}
+
+/**
+ * Identify a container from its magic bytes. Returns the ffmpeg demuxer name,
+ * or null when the data is not recognized.
+ */
+export function detectAudioFormat(buffer: Buffer): string | null {
+  if (buffer.length < 12) return null;
+
+  const ascii = (start: number, end: number) => buffer.toString('ascii', start, end);
+
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WAVE') return 'wav';
+  if (ascii(0, 3) === 'ID3') return 'mp3';
+  if (ascii(0, 4) === 'OggS') return 'ogg';
+  if (ascii(0, 4) === 'fLaC') return 'flac';
+  if (buffer.readUInt32BE(0) === 0x1A45DFA3) return 'matroska';
+  if (ascii(4, 8) === 'ftyp') return 'mov';
+
+  if (buffer[0] === 0xFF && (buffer[1] & 0xE0) === 0xE0) {
+    return ((buffer[1] >> 1) & 0x03) === 0 ? 'aac' : 'mp3';
+  }
+
+  return null;
+}
+
+export interface AudioInfo {
+  format: 'wav' | 'mp3' | 'aac';
+  sampleRate: number;
+  channels: number;
+  duration: number; // seconds
+}
+
+const MP3_BITRATES_KBPS: Record<string, number[]> = {
+  'V1L1': [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  'V1L2': [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  'V1L3': [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  'V2L1': [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  'V2L2': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  'V2L3': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160]
+};
+
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG 1
+  2: [22050, 24000, 16000], // MPEG 2
+  0: [11025, 12000, 8000] // MPEG 2.5
+};
+
+const ADTS_SAMPLE_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+
+/**
+ * Identify a WAV, MP3 or ADTS AAC buffer and measure its duration without
+ * decoding. MP3 and AAC durations are summed frame by frame, so VBR files are
+ * measured correctly. Returns null for anything else.
+ */
+export function probeAudio(buffer: Buffer): AudioInfo | null {
+  const wav = parseWavHeader(buffer);
+  if (wav) {
+    const bytesPerSecond = wav.sampleRate * wav.channels * wav.bitsPerSample / 8;
+    return {
+      format: 'wav',
+      sampleRate: wav.sampleRate,
+      channels: wav.channels,
+      duration: bytesPerSecond > 0 ? wav.dataLength / bytesPerSecond : 0
+    };
+  }
+
+  return probeFrames(buffer);
+}
+
+function probeFrames(buffer: Buffer): AudioInfo | null {
+  let info: Omit<AudioInfo, 'duration'> | null = null;
+  let samples = 0;
+
+  for (const { frame } of walkFrames(buffer)) {
+    if (!info) {
+      info = { format: frame.format, sampleRate: frame.sampleRate, channels: frame.channels };
+    }
+
+    if (!frame.isInfoFrame) {
+      samples += frame.samples;
+    }
+  }
+
+  return info && samples > 0 ? { ...info, duration: samples / info.sampleRate } : null;
+}
+
+/**
+ * The audio frames of an MP3 or ADTS AAC buffer without ID3 tags, VBR info
+ * frames or junk between them. Frames decode on their own, so the frames of
+ * separate renders can be sent back to back as one stream.
+ */
+export function audioFrames(buffer: Buffer): Buffer {
+  const frames: Buffer[] = [];
+
+  for (const { frame, offset } of walkFrames(buffer)) {
+    if (!frame.isInfoFrame) {
+      frames.push(buffer.subarray(offset, offset + frame.length));
+    }
+  }
+
+  return Buffer.concat(frames);
+}
+
+/**
+ * Complete MP3 or ADTS frames in order, in the format of the first one found
+ */
+function* walkFrames(buffer: Buffer): Generator<{ frame: FrameHeader; offset: number }> {
+  let offset = skipId3(buffer, 0);
+  let format: FrameHeader['format'] | null = null;
+
+  while (offset + 7 <= buffer.length) {
+    const frame = buffer[offset] === 0xFF ? readFrameHeader(buffer, offset) : null;
+
+    if (!frame || (format && frame.format !== format)) {
+      // Resynchronize past junk or a tag between concatenated files
+      offset = skipId3(buffer, offset + 1);
+      continue;
+    }
+
+    if (offset + frame.length > buffer.length) break;
+
+    format = frame.format;
+    yield { frame, offset };
+    offset += frame.length;
+  }
+}
+
+function skipId3(buffer: Buffer, offset: number): number {
+  if (offset + 10 <= buffer.length && buffer.toString('ascii', offset, offset + 3) === 'ID3') {
+    // Tag size is a 28-bit "syncsafe" integer; a footer adds another 10 bytes
+    const size = (buffer[offset + 6] << 21) | (buffer[offset + 7] << 14) | (buffer[offset + 8] << 7) | buffer[offset + 9];
+    const footer = buffer[offset + 5] & 0x10 ? 10 : 0;
+    return offset + 10 + size + footer;
+  }
+  return offset;
+}
+
+interface FrameHeader {
+  format: 'mp3' | 'aac';
+  sampleRate: number;
+  channels: number;
+  samples: number;
+  length: number; // bytes, header included
+  isInfoFrame: boolean;
+}
+
+function readFrameHeader(buffer: Buffer, offset: number): FrameHeader | null {
+  const b1 = buffer[offset + 1];
+  const b2 = buffer[offset + 2];
+  const b3 = buffer[offset + 3];
+
+  if ((b1 & 0xE0) !== 0xE0) return null;
+
+  const layerBits = (b1 >> 1) & 0x03;
+
+  // ADTS (AAC): 12-bit sync and a zero layer field
+  if (layerBits === 0) {
+    if ((b1 & 0xF0) !== 0xF0) return null;
+    const sampleRate = ADTS_SAMPLE_RATES[(b2 >> 2) & 0x0F];
+    const length = ((b3 & 0x03) << 11) | (buffer[offset + 4] << 3) | (buffer[offset + 5] >> 5);
+    if (!sampleRate || length < 7) return null;
+
+    return {
+      format: 'aac',
+      sampleRate,
+      channels: ((b2 & 0x01) << 2) | (b3 >> 6),
+      samples: 1024 * ((buffer[offset + 6] & 0x03) + 1),
+      length,
+      isInfoFrame: false
+    };
+  }
+
+  const versionBits = (b1 >> 3) & 0x03;
+  if (versionBits === 1) return null;
+
+  const layer = 4 - layerBits;
+  const sampleRate = MP3_SAMPLE_RATES[versionBits]?.[(b2 >> 2) & 0x03];
+  const bitrate = MP3_BITRATES_KBPS[`${versionBits === 3 ? 'V1' : 'V2'}L${layer}`][b2 >> 4];
+  if (!sampleRate || !bitrate) return null;
+
+  const padding = (b2 >> 1) & 0x01;
+  const samples = layer === 1 ? 384 : layer === 3 && versionBits !== 3 ? 576 : 1152;
+  const length = layer === 1
+    ? (Math.floor(12 * bitrate * 1000 / sampleRate) + padding) * 4
+    : Math.floor(samples / 8 * bitrate * 1000 / sampleRate) + padding;
+  const channels = (b3 >> 6) === 3 ? 1 : 2;
+
+  // The first frame of a VBR file may carry a Xing/Info header instead of audio
+  const sideInfo = versionBits === 3 ? (channels === 1 ? 17 : 32) : (channels === 1 ? 9 : 17);
+  const tagOffset = offset + 4 + sideInfo;
+  const tag = tagOffset + 4 <= buffer.length ? buffer.toString('ascii', tagOffset, tagOffset + 4) : '';
+
+  return {
+    format: 'mp3',
+    sampleRate,
+    channels,
+    samples,
+    length,
+    isInfoFrame: tag === 'Xing' || tag === 'Info'
+  };
+}
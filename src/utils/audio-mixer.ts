@@ -1,10 +1,25 @@
+import { promises as fs } from 'fs';
+import { fileURLToPath } from 'url';
 import {
+  AudioTrack,
   AudioTrackResult,
   ConversationTimeline,
   MixingOptions,
   AudioSegment,
-  TimelineEvent
+  TimelineEvent,
+  TrackProcessing
 } from '../interfaces/conversation.interface.js';
+import { PcmBuffer, createPcmBuffer, pcmFrameCount } from '../audio/pcm-buffer.js';
+import { encodeWav } from '../audio/wav-codec.js';
+import { SessionFormat, conformPcm } from '../audio/session-format.js';
+import { normalizeLoudness } from '../audio/loudness-normalizer.js';
+import { applyEQ } from '../audio/equalizer.js';
+import { compress } from '../audio/compressor.js';
+import { Point3D, scenePositionToPoint, spatialize } from '../audio/spatializer.js';
+import { DEFAULT_DUCKING, duck, renderAmbience } from '../audio/ambience.js';
+import { createRoomTone, fillSilence } from '../audio/room-tone.js';
+import { CompressionSettings, RoomToneSettings } from '../interfaces/video.interface.js';
+import { AudioProcessor } from './audio-processor.js';
 
 export interface MixedAudioResult {
   audioBuffer: Buffer;
@@ -27,11 +42,19 @@ export interface AudioProcessingOptions {
 
 export class AudioMixer {
   private defaultSampleRate = 44100;
-  private defaultBitDepth = 16;
+  private defaultBitDepth = 16 as const;
   private defaultChannels = 2;
+  private processor: AudioProcessor;
+
+  constructor(processor: AudioProcessor = new AudioProcessor()) {
+    this.processor = processor;
+  }
 
   /**
-   * Mix multiple conversation tracks into a single audio file
+   * Mix multiple conversation tracks into a single WAV file. Segments are
+   * decoded from whatever the provider returned (WAV directly, anything else
+   * through ffmpeg) and conformed to the session rate and channel layout
+   * before they are mixed as float PCM.
    */
   async mixConversation(
     tracks: AudioTrackResult[],
@@ -39,83 +62,286 @@ export class AudioMixer {
     options: MixingOptions
   ): Promise<Buffer> {
     console.log(`🎚️ Mixing ${tracks.length} audio tracks...`);
-    
+
     if (tracks.length === 0) {
       throw new Error('No audio tracks to mix');
     }
 
-    // Prepare audio processing options
-    const processingOptions: AudioProcessingOptions = {
-      sampleRate: this.defaultSampleRate,
-      bitDepth: this.defaultBitDepth,
-      channels: this.defaultChannels,
-      format: 'wav' // Use WAV for intermediate processing
-    };
+    const format = this.sessionFormat(options);
+    const { sampleRate } = format;
+    const decoded = await this.decodeSegments(tracks.flatMap(track => track.segments));
+    const conformed = this.conformSegments(decoded, format, options);
+    await this.processSegments(tracks, conformed, format, options);
+    this.spatializeSegments(tracks, conformed, format, options);
 
-    // Calculate the total duration and create mix buffer
-    const totalDurationMs = timeline.totalDuration;
-    const totalSamples = Math.ceil((totalDurationMs / 1000) * processingOptions.sampleRate!);
-    const bytesPerSample = (processingOptions.bitDepth! / 8) * processingOptions.channels!;
-    const mixBuffer = Buffer.alloc(totalSamples * bytesPerSample);
+    // Size the mix to the timeline, extended if a segment runs past its slot
+    const segmentEnd = tracks.flatMap(track => track.segments).reduce((end, segment) => {
+      const pcm = conformed.get(segment);
+      return pcm ? Math.max(end, Math.floor((segment.startTime / 1000) * sampleRate) + pcmFrameCount(pcm)) : end;
+    }, 0);
+    const totalFrames = Math.max(Math.ceil((timeline.totalDuration / 1000) * sampleRate), segmentEnd);
+    const mix = createPcmBuffer(sampleRate, format.channels, totalFrames);
 
-    console.log(`📊 Mix duration: ${totalDurationMs}ms (${totalSamples} samples)`);
+    console.log(`📊 Mix duration: ${timeline.totalDuration}ms (${totalFrames} samples at ${sampleRate} Hz)`);
 
     // Process each track according to the timeline
     for (const track of tracks) {
-      await this.mixTrackIntoBuffer(track, timeline, mixBuffer, processingOptions, options);
+      this.mixTrackIntoBuffer(track, timeline, mix, conformed);
     }
 
+    // The bed is keyed by the dialogue alone, so it is rendered before room tone fills the gaps
+    const bed = options.backgroundAmbience && await this.renderAmbienceBed(mix, options.backgroundAmbience, format);
+
     // Apply final processing
-    let finalBuffer = mixBuffer;
+    let finalMix = mix;
+
+    if (options.roomTone?.enabled) {
+      finalMix = await this.fillRoomTone(finalMix, options.roomTone, format);
+    }
+
+    if (bed) {
+      this.mixAudioSegmentIntoBuffer(bed, finalMix, 0, 1.0);
+    }
 
-    if (options.normalizeAudio) {
-      finalBuffer = this.normalizeAudio(finalBuffer, processingOptions);
+    // A loudness target replaces peak normalization and runs last, after everything that changes level
+    if (options.normalizeAudio && !options.loudness) {
+      finalMix = this.normalizeAudio(finalMix);
     }
 
-    if (options.compressionLevel > 0) {
-      finalBuffer = this.applyCompression(finalBuffer, options.compressionLevel, processingOptions);
+    if (options.masterCompression) {
+      finalMix = this.applyCompression(finalMix, options.masterCompression);
+    } else if (options.compressionLevel > 0) {
+      finalMix = this.applyCompression(finalMix, this.compressionFromLevel(options.compressionLevel));
     }
 
-    // Apply spatial audio if enabled
-    if (options.spatialAudioEnabled) {
-      finalBuffer = await this.applySpatialAudio(finalBuffer, tracks, processingOptions);
+    if (options.loudness) {
+      finalMix = this.normalizeLoudness(finalMix, options);
     }
 
+    const finalBuffer = encodeWav(finalMix, { bitDepth: this.defaultBitDepth });
     console.log(`✅ Audio mixing complete (${finalBuffer.length} bytes)`);
     return finalBuffer;
   }
 
+  /**
+   * Decode every segment once, keyed by segment
+   */
+  private async decodeSegments(segments: AudioSegment[]): Promise<Map<AudioSegment, PcmBuffer>> {
+    const decoded = new Map<AudioSegment, PcmBuffer>();
+
+    for (const segment of segments) {
+      if (segment.audioBuffer.length === 0) continue;
+
+      try {
+        decoded.set(segment, await this.processor.decode(segment.audioBuffer));
+      } catch (error) {
+        throw new Error(`Failed to decode audio for line ${segment.lineId}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    return decoded;
+  }
+
+  private sessionFormat(options: MixingOptions): SessionFormat {
+    return {
+      sampleRate: options.sampleRate || this.defaultSampleRate,
+      channels: options.channels || this.defaultChannels
+    };
+  }
+
+  /**
+   * Resample and up/down-mix every segment to the session format
+   */
+  private conformSegments(
+    decoded: Map<AudioSegment, PcmBuffer>,
+    format: SessionFormat,
+    options: MixingOptions
+  ): Map<AudioSegment, PcmBuffer> {
+    const conformed = new Map<AudioSegment, PcmBuffer>();
+
+    for (const [segment, pcm] of decoded) {
+      conformed.set(segment, conformPcm(pcm, format, { channelMatrices: options.channelMatrices }));
+    }
+
+    return conformed;
+  }
+
+  /**
+   * Apply the character's processing, then that of the scene each segment
+   * starts in. Reverb tails extend the segment past its slot. `sources` are
+   * the tracks sidechain keys are looked up in, when not all are being
+   * processed.
+   */
+  private async processSegments(
+    tracks: AudioTrackResult[],
+    conformed: Map<AudioSegment, PcmBuffer>,
+    format: SessionFormat,
+    options: MixingOptions,
+    sources: AudioTrackResult[] = tracks
+  ): Promise<void> {
+    if (!options.trackEQ && !options.sceneEQ?.length && !options.trackProcessing && !options.sceneProcessing?.length) return;
+
+    // Keys are built from the unprocessed lines, before any segment is replaced
+    const keys = await this.sidechainKeys(sources, conformed, format, options);
+    const inScene = (segment: AudioSegment) => (scene: { startTime: number; endTime: number }) =>
+      segment.startTime >= scene.startTime && segment.startTime < scene.endTime;
+
+    for (const track of tracks) {
+      const trackEQ = options.trackEQ?.[track.characterId];
+      const trackProcessing = options.trackProcessing?.[track.characterId];
+
+      for (const segment of track.segments) {
+        let pcm = conformed.get(segment);
+        if (!pcm) continue;
+
+        const start = Math.floor((segment.startTime / 1000) * format.sampleRate);
+        const sceneEQ = options.sceneEQ?.find(inScene(segment));
+        const scene = options.sceneProcessing?.find(inScene(segment));
+        const chain: (TrackProcessing | undefined)[] = [trackEQ && { eq: trackEQ }, trackProcessing, sceneEQ && { eq: sceneEQ.eq }, scene];
+        for (const processing of chain) {
+          if (processing) {
+            pcm = await this.applyProcessing(pcm, processing, keys.get(processing.sidechain), start);
+          }
+        }
+
+        conformed.set(segment, pcm);
+      }
+    }
+  }
+
+  /**
+   * Lay out each character used as a sidechain key on the session timeline
+   */
+  private async sidechainKeys(
+    tracks: AudioTrackResult[],
+    conformed: Map<AudioSegment, PcmBuffer>,
+    format: SessionFormat,
+    options: MixingOptions
+  ): Promise<Map<string, PcmBuffer>> {
+    const keys = new Map<string, PcmBuffer>();
+    const processings = [...Object.values(options.trackProcessing ?? {}), ...(options.sceneProcessing ?? [])];
+
+    for (const characterId of new Set(processings.map(processing => processing.sidechain).filter(Boolean))) {
+      const track = tracks.find(candidate => candidate.characterId === characterId);
+      if (!track) {
+        console.warn(`⚠️ Sidechain source not found: ${characterId}`);
+        continue;
+      }
+
+      const missing = track.segments.filter(segment => !conformed.has(segment));
+      const decoded = this.conformSegments(await this.decodeSegments(missing), format, options);
+      const lines = track.segments
+        .map(segment => ({ segment, pcm: conformed.get(segment) ?? decoded.get(segment) }))
+        .filter(line => line.pcm);
+
+      keys.set(characterId, this.placeSegments(lines, format));
+    }
+
+    return keys;
+  }
+
+  /**
+   * EQ, compression (keyed from `key` at `start` when sidechained), then reverb
+   */
+  private async applyProcessing(pcm: PcmBuffer, processing: TrackProcessing, key?: PcmBuffer, start = 0): Promise<PcmBuffer> {
+    let processed = pcm;
+
+    if (processing.eq) {
+      processed = applyEQ(processed, processing.eq);
+    }
+
+    if (processing.compression) {
+      const sidechain = key && {
+        sampleRate: key.sampleRate,
+        channels: key.channels.map(data => data.subarray(start, start + pcmFrameCount(processed)))
+      };
+      processed = compress(processed, processing.compression, { sidechain }).pcm;
+    }
+
+    if (processing.reverb) {
+      processed = await this.processor.applyReverb(processed, processing.reverb);
+    }
+
+    return processed;
+  }
+
+  /**
+   * Place each character's lines around the listener before they are
+   * summed: the character's own position, else the position recommended for
+   * the scene the line starts in. Lines with neither stay centred.
+   */
+  private spatializeSegments(
+    tracks: AudioTrackResult[],
+    conformed: Map<AudioSegment, PcmBuffer>,
+    format: SessionFormat,
+    options: MixingOptions
+  ): void {
+    if (!options.spatialAudioEnabled) return;
+
+    if (format.channels !== 2) {
+      console.warn('⚠️ Spatial audio requires stereo output');
+      return;
+    }
+
+    console.log('🌍 Applying spatial audio...');
+
+    const config = options.spatialAudio;
+    const listener = config?.listenerPosition ?? { x: 0, y: 0, z: 0 };
+
+    for (const track of tracks) {
+      const characterPosition = config?.characterPositions?.[track.characterId];
+
+      for (const segment of track.segments) {
+        const pcm = conformed.get(segment);
+        if (!pcm) continue;
+
+        let position: Point3D | undefined = characterPosition;
+        if (!position) {
+          const scene = options.sceneProcessing?.find(scene =>
+            scene.spatialPosition && segment.startTime >= scene.startTime && segment.startTime < scene.endTime
+          );
+          if (scene) {
+            const offset = scenePositionToPoint(scene.spatialPosition);
+            position = { x: listener.x + offset.x, y: listener.y + offset.y, z: listener.z + offset.z };
+          }
+        }
+
+        if (position) {
+          conformed.set(segment, spatialize(pcm, position, listener, { model: config?.model, room: config?.roomSize }));
+        }
+      }
+    }
+  }
+
   /**
    * Mix a single track into the main mix buffer
    */
-  private async mixTrackIntoBuffer(
+  private mixTrackIntoBuffer(
     track: AudioTrackResult,
     timeline: ConversationTimeline,
-    mixBuffer: Buffer,
-    processingOptions: AudioProcessingOptions,
-    mixingOptions: MixingOptions
-  ): Promise<void> {
+    mix: PcmBuffer,
+    decoded: Map<AudioSegment, PcmBuffer>
+  ): void {
     console.log(`🎤 Mixing track: ${track.characterName}`);
 
     // Get events for this character
     const characterEvents = timeline.events.filter(event => event.characterId === track.characterId);
-    
+
     for (const segment of track.segments) {
+      const pcm = decoded.get(segment);
+      if (!pcm) continue;
+
       const startTimeMs = segment.startTime;
       const endTimeMs = segment.endTime;
-      
+
       // Convert time to sample positions
-      const startSample = Math.floor((startTimeMs / 1000) * processingOptions.sampleRate!);
-      const endSample = Math.floor((endTimeMs / 1000) * processingOptions.sampleRate!);
-      
-      // Get audio data for this segment
-      const segmentBuffer = segment.audioBuffer;
-      
+      const startSample = Math.floor((startTimeMs / 1000) * mix.sampleRate);
+
       // Check for overlapping events
-      const overlappingEvents = characterEvents.filter(event => 
+      const overlappingEvents = characterEvents.filter(event =>
         event.time >= startTimeMs && event.time <= endTimeMs && event.type === 'overlap_start'
       );
-      
+
       // Calculate volume for this segment
       let volume = 1.0;
       if (overlappingEvents.length > 0) {
@@ -123,315 +349,266 @@ export class AudioMixer {
         const overlapEvent = overlappingEvents[0];
         volume = 1.0 - (overlapEvent.data?.volumeReduction || 0.3);
       }
-      
+
       // Mix segment into main buffer
-      await this.mixAudioSegmentIntoBuffer(
-        segmentBuffer,
-        mixBuffer,
-        startSample,
-        volume,
-        processingOptions
-      );
+      this.mixAudioSegmentIntoBuffer(pcm, mix, startSample, volume);
     }
   }
 
   /**
    * Mix an audio segment into the main buffer at a specific position
    */
-  private async mixAudioSegmentIntoBuffer(
-    segmentBuffer: Buffer,
-    mixBuffer: Buffer,
+  private mixAudioSegmentIntoBuffer(
+    segment: PcmBuffer,
+    mix: PcmBuffer,
     startSample: number,
-    volume: number,
-    processingOptions: AudioProcessingOptions
-  ): Promise<void> {
-    const bytesPerSample = (processingOptions.bitDepth! / 8) * processingOptions.channels!;
-    const startByte = startSample * bytesPerSample;
-    
-    // Simple audio mixing - in production, you'd want proper audio processing
-    const segmentSamples = Math.floor(segmentBuffer.length / bytesPerSample);
-    const mixBufferSamples = Math.floor(mixBuffer.length / bytesPerSample);
-    
-    for (let i = 0; i < segmentSamples && (startSample + i) < mixBufferSamples; i++) {
-      const mixIndex = (startSample + i) * bytesPerSample;
-      const segmentIndex = i * bytesPerSample;
-      
-      if (mixIndex + bytesPerSample <= mixBuffer.length && segmentIndex + bytesPerSample <= segmentBuffer.length) {
-        // Mix 16-bit stereo samples (simplified mixing)
-        for (let channel = 0; channel < processingOptions.channels!; channel++) {
-          const mixByteIndex = mixIndex + (channel * 2);
-          const segmentByteIndex = segmentIndex + (channel * 2);
-          
-          // Read existing mix value (16-bit little-endian)
-          const mixValue = mixBuffer.readInt16LE(mixByteIndex);
-          
-          // Read segment value (16-bit little-endian)
-          const segmentValue = segmentBuffer.readInt16LE(segmentByteIndex);
-          
-          // Apply volume and mix
-          const scaledSegmentValue = Math.round(segmentValue * volume);
-          let mixedValue = mixValue + scaledSegmentValue;
-          
-          // Prevent clipping
-          mixedValue = Math.max(-32768, Math.min(32767, mixedValue));
-          
-          // Write back to mix buffer
-          mixBuffer.writeInt16LE(mixedValue, mixByteIndex);
-        }
+    volume: number
+  ): void {
+    const frames = Math.min(pcmFrameCount(segment), pcmFrameCount(mix) - startSample);
+
+    for (let channel = 0; channel < mix.channels.length; channel++) {
+      const source = segment.channels[channel];
+      const target = mix.channels[channel];
+
+      // Sum in float; clipping is only resolved when the mix is encoded
+      for (let i = 0; i < frames; i++) {
+        target[startSample + i] += source[i] * volume;
+      }
+    }
+  }
+
+  /**
+   * Loop, fade and duck a background track under the dialogue in `mix`
+   */
+  private async renderAmbienceBed(mix: PcmBuffer, track: AudioTrack, format: SessionFormat): Promise<PcmBuffer> {
+    console.log(`🌲 Adding background ambience: ${track.url}`);
+
+    const source = conformPcm(await this.loadAudioFile(track.url, 'background ambience'), format);
+    return duck(renderAmbience(source, pcmFrameCount(mix), track), mix, track.ducking ?? DEFAULT_DUCKING);
+  }
+
+  /**
+   * Fill the digital silence between lines with room tone
+   */
+  private async fillRoomTone(mix: PcmBuffer, settings: RoomToneSettings, format: SessionFormat): Promise<PcmBuffer> {
+    console.log(`🔇 Filling gaps with room tone (${settings.source})...`);
+
+    const reference = settings.sourceFile
+      ? conformPcm(await this.loadAudioFile(settings.sourceFile, 'room tone'), format)
+      : undefined;
+    return fillSilence(mix, createRoomTone(settings, format.sampleRate, format.channels, reference), settings.level);
+  }
+
+  /**
+   * Read a local file (path or file:// URL) for use in the mix
+   */
+  private async loadAudioFile(url: string, description: string): Promise<PcmBuffer> {
+    try {
+      if (/^[a-z][a-z0-9+.-]+:\/\//i.test(url) && !url.startsWith('file://')) {
+        throw new Error('only local files are supported');
       }
+      const path = url.startsWith('file://') ? fileURLToPath(url) : url;
+      return await this.processor.decode(await fs.readFile(path));
+    } catch (error) {
+      throw new Error(`Failed to load ${description} ${url}: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
   /**
    * Normalize audio levels
    */
-  private normalizeAudio(buffer: Buffer, options: AudioProcessingOptions): Buffer {
+  private normalizeAudio(pcm: PcmBuffer): PcmBuffer {
     console.log('🔊 Normalizing audio levels...');
-    
-    const bytesPerSample = (options.bitDepth! / 8) * options.channels!;
-    const totalSamples = Math.floor(buffer.length / bytesPerSample);
-    
+
     // Find peak amplitude
     let peak = 0;
-    for (let i = 0; i < totalSamples; i++) {
-      for (let channel = 0; channel < options.channels!; channel++) {
-        const byteIndex = (i * bytesPerSample) + (channel * 2);
-        if (byteIndex + 1 < buffer.length) {
-          const sample = Math.abs(buffer.readInt16LE(byteIndex));
-          peak = Math.max(peak, sample);
-        }
+    for (const data of pcm.channels) {
+      for (let i = 0; i < data.length; i++) {
+        peak = Math.max(peak, Math.abs(data[i]));
       }
     }
-    
-    if (peak === 0) return buffer;
-    
+
+    if (peak === 0) return pcm;
+
     // Calculate normalization factor (leave some headroom)
-    const maxValue = 32767 * 0.95; // 95% of max to prevent clipping
-    const normalizationFactor = maxValue / peak;
-    
+    const normalizationFactor = 0.95 / peak; // 95% of max to prevent clipping
+
     // Apply normalization
-    const normalizedBuffer = Buffer.alloc(buffer.length);
-    for (let i = 0; i < totalSamples; i++) {
-      for (let channel = 0; channel < options.channels!; channel++) {
-        const byteIndex = (i * bytesPerSample) + (channel * 2);
-        if (byteIndex + 1 < buffer.length) {
-          const sample = buffer.readInt16LE(byteIndex);
-          const normalizedSample = Math.round(sample * normalizationFactor);
-          const clampedSample = Math.max(-32768, Math.min(32767, normalizedSample));
-          normalizedBuffer.writeInt16LE(clampedSample, byteIndex);
-        }
+    const normalized = createPcmBuffer(pcm.sampleRate, pcm.channels.length, pcmFrameCount(pcm));
+    pcm.channels.forEach((data, channel) => {
+      const target = normalized.channels[channel];
+      for (let i = 0; i < data.length; i++) {
+        target[i] = data[i] * normalizationFactor;
       }
-    }
-    
+    });
+
     console.log(`📈 Normalization applied (factor: ${normalizationFactor.toFixed(2)})`);
-    return normalizedBuffer;
+    return normalized;
   }
 
   /**
-   * Apply dynamic range compression
+   * Normalize the mix to the loudness target with true-peak limiting
    */
-  private applyCompression(
-    buffer: Buffer, 
-    compressionLevel: number, 
-    options: AudioProcessingOptions
-  ): Buffer {
-    console.log(`🗜️ Applying compression (level: ${compressionLevel})...`);
-    
-    const bytesPerSample = (options.bitDepth! / 8) * options.channels!;
-    const totalSamples = Math.floor(buffer.length / bytesPerSample);
-    
-    // Simple compression algorithm
-    const threshold = 32767 * (1 - compressionLevel); // Compression threshold
-    const ratio = 1 + (compressionLevel * 3); // Compression ratio
-    
-    const compressedBuffer = Buffer.alloc(buffer.length);
-    
-    for (let i = 0; i < totalSamples; i++) {
-      for (let channel = 0; channel < options.channels!; channel++) {
-        const byteIndex = (i * bytesPerSample) + (channel * 2);
-        if (byteIndex + 1 < buffer.length) {
-          const sample = buffer.readInt16LE(byteIndex);
-          const absSample = Math.abs(sample);
-          
-          let compressedSample = sample;
-          if (absSample > threshold) {
-            // Apply compression
-            const overage = absSample - threshold;
-            const compressedOverage = overage / ratio;
-            const sign = sample >= 0 ? 1 : -1;
-            compressedSample = sign * (threshold + compressedOverage);
-          }
-          
-          const clampedSample = Math.max(-32768, Math.min(32767, Math.round(compressedSample)));
-          compressedBuffer.writeInt16LE(clampedSample, byteIndex);
-        }
-      }
+  private normalizeLoudness(pcm: PcmBuffer, options: MixingOptions): PcmBuffer {
+    const result = normalizeLoudness(pcm, options.loudness);
+
+    if (Number.isFinite(result.before.integrated)) {
+      const limiting = result.limited ? ', limited' : '';
+      console.log(`📈 Loudness ${result.before.integrated.toFixed(1)} → ${result.after.integrated.toFixed(1)} LUFS, true peak ${result.after.truePeak.toFixed(1)} dBTP${limiting}`);
     }
-    
-    return compressedBuffer;
+
+    return result.pcm;
   }
 
   /**
-   * Apply spatial audio effects (simplified implementation)
+   * Apply dynamic range compression on the mix bus
    */
-  private async applySpatialAudio(
-    buffer: Buffer,
-    tracks: AudioTrackResult[],
-    options: AudioProcessingOptions
-  ): Promise<Buffer> {
-    console.log('🌍 Applying spatial audio effects...');
-    
-    // This is a simplified spatial audio implementation
-    // In production, you'd use more sophisticated 3D audio processing
-    
-    if (options.channels !== 2) {
-      console.warn('⚠️ Spatial audio requires stereo output');
-      return buffer;
-    }
-    
-    const bytesPerSample = (options.bitDepth! / 8) * options.channels!;
-    const totalSamples = Math.floor(buffer.length / bytesPerSample);
-    
-    // Apply simple panning based on character positions
-    // This is a placeholder - real spatial audio is much more complex
-    const spatialBuffer = Buffer.alloc(buffer.length);
-    buffer.copy(spatialBuffer);
-    
-    console.log('✅ Spatial audio effects applied');
-    return spatialBuffer;
+  private applyCompression(pcm: PcmBuffer, settings: CompressionSettings): PcmBuffer {
+    console.log(`🗜️ Applying compression (${settings.threshold} dB, ${settings.ratio}:1)...`);
+
+    const { pcm: compressed, maxReduction } = compress(pcm, settings);
+
+    console.log(`📉 Peak gain reduction: ${maxReduction.toFixed(1)} dB`);
+    return compressed;
+  }
+
+  /**
+   * Compressor settings for the legacy 0-1 compression level: the threshold
+   * drops and the ratio rises with the level
+   */
+  private compressionFromLevel(compressionLevel: number): CompressionSettings {
+    const level = Math.min(1, Math.max(0, compressionLevel));
+
+    return {
+      enabled: true,
+      threshold: 20 * Math.log10(Math.max(0.05, 1 - level)),
+      ratio: 1 + level * 3,
+      attack: 5,
+      release: 100,
+      makeupGain: 0
+    };
   }
 
   /**
-   * Export individual character tracks
+   * Export individual character tracks as WAV files, each segment placed at
+   * its timeline position
    */
   async exportCharacterTracks(
     tracks: AudioTrackResult[],
     outputDir: string,
     options: MixingOptions
   ): Promise<string[]> {
+    const fs = await import('fs/promises');
+    await fs.mkdir(outputDir, { recursive: true });
     const exportedFiles: string[] = [];
-    
+
     for (const track of tracks) {
       const filename = `${track.characterName.toLowerCase().replace(/\s+/g, '_')}.wav`;
       const filepath = `${outputDir}/${filename}`;
-      
+
       // Process individual track
-      let trackBuffer = await this.concatenateSegments(track.segments);
-      
-      if (options.normalizeAudio) {
-        trackBuffer = this.normalizeAudio(trackBuffer, {
-          sampleRate: this.defaultSampleRate,
-          bitDepth: this.defaultBitDepth,
-          channels: this.defaultChannels
-        });
+      let trackPcm = await this.concatenateSegments(track, tracks, options);
+
+      if (options.loudness) {
+        trackPcm = this.normalizeLoudness(trackPcm, options);
+      } else if (options.normalizeAudio) {
+        trackPcm = this.normalizeAudio(trackPcm);
       }
-      
-      // In a real implementation, you'd write the audio file here
-      // For now, we'll just track the intended exports
+
+      await fs.writeFile(filepath, encodeWav(trackPcm, { bitDepth: this.defaultBitDepth }));
       exportedFiles.push(filepath);
-      
+
       console.log(`💾 Exported track: ${filename}`);
     }
-    
+
     return exportedFiles;
   }
 
   /**
-   * Concatenate audio segments for a single character
+   * Lay out a single character's segments on their own timeline, with
+   * silence in the gaps between lines and the same EQ as in the mix
    */
-  private async concatenateSegments(segments: AudioSegment[]): Promise<Buffer> {
-    if (segments.length === 0) {
-      return Buffer.alloc(0);
-    }
-    
-    if (segments.length === 1) {
-      return segments[0].audioBuffer;
+  private async concatenateSegments(track: AudioTrackResult, tracks: AudioTrackResult[], options: MixingOptions): Promise<PcmBuffer> {
+    const format = this.sessionFormat(options);
+    const conformed = this.conformSegments(await this.decodeSegments(track.segments), format, options);
+    await this.processSegments([track], conformed, format, options, tracks);
+    return this.placeSegments([...conformed].map(([segment, pcm]) => ({ segment, pcm })), format);
+  }
+
+  /**
+   * Sum segments into one buffer at their timeline positions
+   */
+  private placeSegments(lines: { segment: AudioSegment; pcm: PcmBuffer }[], format: SessionFormat): PcmBuffer {
+    const placed = lines.map(({ segment, pcm }) => ({
+      start: Math.floor((segment.startTime / 1000) * format.sampleRate),
+      pcm
+    }));
+    const totalFrames = placed.reduce((end, item) => Math.max(end, item.start + pcmFrameCount(item.pcm)), 0);
+    const output = createPcmBuffer(format.sampleRate, format.channels, totalFrames);
+
+    for (const item of placed) {
+      this.mixAudioSegmentIntoBuffer(item.pcm, output, item.start, 1.0);
     }
-    
-    // Simple concatenation - in production, you'd handle timing gaps properly
-    const buffers = segments
-      .sort((a, b) => a.startTime - b.startTime)
-      .map(segment => segment.audioBuffer);
-    
-    return Buffer.concat(buffers);
+
+    return output;
   }
 
   /**
    * Create audio crossfades between speakers
    */
   private applyCrossfades(
-    buffer: Buffer,
+    pcm: PcmBuffer,
     timeline: ConversationTimeline,
-    crossfadeDuration: number,
-    options: AudioProcessingOptions
-  ): Buffer {
+    crossfadeDuration: number
+  ): PcmBuffer {
     console.log(`🔄 Applying crossfades (${crossfadeDuration}ms)...`);
-    
+
     // Find speaker transitions
-    const transitions = timeline.events.filter(event => 
+    const transitions = timeline.events.filter(event =>
       event.type === 'line_start' || event.type === 'line_end'
     );
-    
-    const crossfadedBuffer = Buffer.alloc(buffer.length);
-    buffer.copy(crossfadedBuffer);
-    
+
+    const crossfaded: PcmBuffer = { sampleRate: pcm.sampleRate, channels: pcm.channels.map(data => data.slice()) };
+
     // Apply crossfades at transition points
     for (let i = 0; i < transitions.length - 1; i++) {
       const currentEvent = transitions[i];
       const nextEvent = transitions[i + 1];
-      
+
       if (currentEvent.type === 'line_end' && nextEvent.type === 'line_start' &&
           currentEvent.characterId !== nextEvent.characterId) {
-        
+
         const crossfadeStartMs = currentEvent.time - (crossfadeDuration / 2);
         const crossfadeEndMs = nextEvent.time + (crossfadeDuration / 2);
-        
-        this.applyCrossfadeToRegion(
-          crossfadedBuffer,
-          crossfadeStartMs,
-          crossfadeEndMs,
-          options
-        );
+
+        this.applyCrossfadeToRegion(crossfaded, crossfadeStartMs, crossfadeEndMs);
       }
     }
-    
-    return crossfadedBuffer;
+
+    return crossfaded;
   }
 
   /**
    * Apply crossfade to a specific region of audio
    */
-  private applyCrossfadeToRegion(
-    buffer: Buffer,
-    startMs: number,
-    endMs: number,
-    options: AudioProcessingOptions
-  ): void {
-    const sampleRate = options.sampleRate!;
-    const bytesPerSample = (options.bitDepth! / 8) * options.channels!;
-    
-    const startSample = Math.floor((startMs / 1000) * sampleRate);
-    const endSample = Math.floor((endMs / 1000) * sampleRate);
+  private applyCrossfadeToRegion(pcm: PcmBuffer, startMs: number, endMs: number): void {
+    const sampleRate = pcm.sampleRate;
+    const frames = pcmFrameCount(pcm);
+
+    const startSample = Math.max(0, Math.floor((startMs / 1000) * sampleRate));
+    const endSample = Math.min(frames, Math.floor((endMs / 1000) * sampleRate));
     const crossfadeSamples = endSample - startSample;
-    
+
     if (crossfadeSamples <= 0) return;
-    
+
     for (let i = 0; i < crossfadeSamples; i++) {
-      const sampleIndex = startSample + i;
       const fadeProgress = i / crossfadeSamples;
-      
-      // Simple linear crossfade
+
+      // Raised-cosine fade
       const fadeMultiplier = 0.5 + (0.5 * Math.cos(fadeProgress * Math.PI));
-      
-      for (let channel = 0; channel < options.channels!; channel++) {
-        const byteIndex = (sampleIndex * bytesPerSample) + (channel * 2);
-        
-        if (byteIndex + 1 < buffer.length) {
-          const sample = buffer.readInt16LE(byteIndex);
-          const fadedSample = Math.round(sample * fadeMultiplier);
-          const clampedSample = Math.max(-32768, Math.min(32767, fadedSample));
-          buffer.writeInt16LE(clampedSample, byteIndex);
-        }
+
+      for (const data of pcm.channels) {
+        data[startSample + i] *= fadeMultiplier;
       }
     }
   }
@@ -443,10 +620,10 @@ export class AudioMixer {
     const sampleRate = options.sampleRate || this.defaultSampleRate;
     const bitDepth = options.bitDepth || this.defaultBitDepth;
     const channels = options.channels || this.defaultChannels;
-    
+
     const samples = Math.floor((durationMs / 1000) * sampleRate);
     const bytesPerSample = (bitDepth / 8) * channels;
-    
+
     return Buffer.alloc(samples * bytesPerSample, 0);
   }
 
@@ -468,4 +645,4 @@ export class AudioMixer {
       supportsCompression: true
     };
   }
-}
\ No newline at end of file
+}
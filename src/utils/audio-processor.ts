@@ -1,105 +1,281 @@
-import { AudioProcessingOptions } from '../interfaces/voice.interface.js';
-import ffmpeg from 'fluent-ffmpeg';
-import ffmpegStatic from 'ffmpeg-static';
 import { promises as fs } from 'fs';
-import path from 'path';
+import { AudioProcessingOptions } from '../interfaces/voice.interface.js';
+import { PcmBuffer, interleave, deinterleave, joinPcm } from '../audio/pcm-buffer.js';
+import { FFmpegPipeline, FFmpegOutput } from '../audio/ffmpeg-pipeline.js';
+import { decodeWav, encodeWav } from '../audio/wav-codec.js';
+import { conformPcm } from '../audio/session-format.js';
+import { LoudnessReport, measureLoudness } from '../audio/loudness.js';
+import { LoudnessNormalizationResult, normalizeLoudness } from '../audio/loudness-normalizer.js';
+import { EQ_PRESETS, applyEQ } from '../audio/equalizer.js';
+import { compress } from '../audio/compressor.js';
+import { applyReverb, convolveReverb } from '../audio/reverb.js';
+import { EQSettings, LoudnessProfileName, LoudnessTarget, ReverbSettings } from '../interfaces/video.interface.js';
+import { probeAudio } from './audio-info.js';
+
+export interface ConcatenateOptions {
+  format: 'mp3' | 'wav' | 'aac';
+  crossfadeMs?: number; // default 40
+  matchLoudness?: boolean; // normalize each clip to targetLufs before joining, default true
+  targetLufs?: number; // default -16
+  loudness?: LoudnessProfileName | LoudnessTarget; // replaces targetLufs with a profile or full target
+}
+
+export interface DecodeOptions {
+  sampleRate?: number; // resample to this rate, default: keep the source rate
+  channels?: number; // up- or down-mix to this many channels, default: keep the source layout
+  filters?: string[]; // ffmpeg filter chain applied while decoding
+}
+
+export interface EncodeOptions {
+  bitrate?: number; // kbps, ignored for WAV
+}
 
-// Set the ffmpeg binary path
-if (ffmpegStatic) {
-  ffmpeg.setFfmpegPath(ffmpegStatic);
+export interface RenderOptions {
+  filters?: string[]; // ffmpeg filter chain applied once before the outputs are encoded
+  outputs: FFmpegOutput[];
 }
 
+// `removeNoise`: the voice preset's low cut alone, clearing rumble and hum without dulling the top end
+const FLAT_BAND = { frequency: 1000, gain: 0, q: 1 };
+const RUMBLE_FILTER: EQSettings = {
+  enabled: true,
+  lowCut: EQ_PRESETS.voice.lowCut,
+  lowShelf: FLAT_BAND,
+  midPeaking: FLAT_BAND,
+  highShelf: FLAT_BAND,
+  highCut: 0
+};
+
 export class AudioProcessor {
-  private tempDir = './cache';
+  private pipeline: FFmpegPipeline;
+  private impulseResponses = new Map<string, Promise<PcmBuffer>>();
 
-  constructor() {
-    this.ensureTempDir();
+  constructor(pipeline: FFmpegPipeline = new FFmpegPipeline()) {
+    this.pipeline = pipeline;
   }
 
-  private async ensureTempDir() {
+  /**
+   * Clean up and re-encode a clip. With `removeNoise`, an EQ, compressor,
+   * reverb or `normalize` the clip is decoded, run through them in that order
+   * in PCM, normalized to the loudness target, and encoded again.
+   */
+  async process(audioBuffer: Buffer, options: AudioProcessingOptions): Promise<Buffer> {
     try {
-      await fs.mkdir(this.tempDir, { recursive: true });
+      if (options.removeNoise || options.normalize || options.eq || options.compression || options.reverb) {
+        let pcm = await this.decode(audioBuffer, { sampleRate: options.sampleRate });
+
+        if (options.removeNoise) {
+          pcm = applyEQ(pcm, RUMBLE_FILTER);
+        }
+
+        if (options.eq) {
+          pcm = applyEQ(pcm, options.eq);
+        }
+
+        if (options.compression) {
+          pcm = compress(pcm, options.compression).pcm;
+        }
+
+        if (options.reverb) {
+          pcm = await this.applyReverb(pcm, options.reverb);
+        }
+
+        if (options.normalize) {
+          pcm = normalizeLoudness(pcm, options.loudness ?? 'podcast').pcm;
+        }
+
+        return await this.encode(pcm, options.format, { bitrate: options.bitrate });
+      }
+
+      const [processed] = await this.render(audioBuffer, {
+        outputs: [this.outputFor(options.format, { bitrate: options.bitrate, sampleRate: options.sampleRate })]
+      });
+      return processed;
     } catch (error) {
-      // Directory already exists
+      throw new Error(`Audio processing failed: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
-  async process(audioBuffer: Buffer, options: AudioProcessingOptions): Promise<Buffer> {
-    const inputPath = path.join(this.tempDir, `input_${Date.now()}.mp3`);
-    const outputPath = path.join(this.tempDir, `output_${Date.now()}.${options.format}`);
+  /**
+   * Decode once, run the filter chain, and encode every requested output
+   * from the same filtered signal
+   */
+  async render(audioBuffer: Buffer, options: RenderOptions): Promise<Buffer[]> {
+    return this.pipeline.run({
+      inputs: [audioBuffer],
+      filters: options.filters,
+      outputs: options.outputs
+    });
+  }
+
+  private outputFor(format: 'mp3' | 'wav' | 'aac', options: { bitrate?: number; sampleRate?: number } = {}): FFmpegOutput {
+    return {
+      format,
+      // Pin the codec so piped WAV is always 16-bit PCM whatever the source was
+      codec: format === 'wav' ? 'pcm_s16le' : undefined,
+      bitrate: format === 'wav' ? undefined : options.bitrate,
+      sampleRate: options.sampleRate
+    };
+  }
+
+  /**
+   * Join separately rendered clips into one: decode them to PCM at the
+   * highest source rate and channel count, bring each to the same loudness,
+   * join them with equal-power crossfades and encode once. A single clip
+   * takes the same path, so it still comes back in `format` at the target
+   * loudness.
+   */
+  async concatenate(buffers: Buffer[], options: ConcatenateOptions): Promise<Buffer> {
+    if (buffers.length === 0) {
+      throw new Error('No audio to concatenate');
+    }
+
+    const infos = buffers.map(buffer => probeAudio(buffer));
+    const sampleRate = Math.max(...infos.map(info => info?.sampleRate ?? 0)) || 44100;
+    const channels = Math.max(...infos.map(info => info?.channels ?? 0)) || 1;
+    const decoded = await Promise.all(buffers.map(buffer => this.decode(buffer, { sampleRate, channels })));
+
+    try {
+      const target = options.loudness ?? { targetLUFS: options.targetLufs ?? -16, truePeakCeiling: -1.5 };
+      const clips = options.matchLoudness === false ? decoded : decoded.map(pcm => normalizeLoudness(pcm, target).pcm);
+      const crossfade = Math.max(0, options.crossfadeMs ?? 40) / 1000;
+
+      return await this.encode(joinPcm(clips, clips.slice(1).map(() => crossfade)), options.format);
+    } catch (error) {
+      throw new Error(`Audio concatenation failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Decode any supported container to planar float PCM, optionally
+   * resampled and remixed so clips from different providers line up.
+   * PCM WAV input is decoded and converted without ffmpeg.
+   */
+  async decode(audioBuffer: Buffer, options: DecodeOptions = {}): Promise<PcmBuffer> {
+    const info = probeAudio(audioBuffer);
+    const sampleRate = options.sampleRate ?? info?.sampleRate ?? 44100;
+    const channels = options.channels ?? info?.channels ?? 1;
+
+    // PCM WAV is read and converted natively; anything else, or anything to filter, goes through ffmpeg
+    if (info?.format === 'wav' && !options.filters?.length) {
+      try {
+        return conformPcm(decodeWav(audioBuffer).pcm, { sampleRate, channels });
+      } catch {
+        // Compressed WAV (ADPCM, mu-law, ...) falls through to ffmpeg
+      }
+    }
 
     try {
-      // Write input buffer to temp file
-      await fs.writeFile(inputPath, audioBuffer);
+      const [raw] = await this.pipeline.run({
+        inputs: [audioBuffer],
+        filters: options.filters,
+        outputs: [{ format: 'f32le', codec: 'pcm_f32le', sampleRate, channels }]
+      });
 
-      // Process with ffmpeg
-      await this.processWithFFmpeg(inputPath, outputPath, options);
+      // Copy into an aligned buffer; pooled Node buffers may start at an odd offset
+      const samples = new Float32Array(Math.floor(raw.length / 4));
+      Buffer.from(samples.buffer).set(raw.subarray(0, samples.length * 4));
+      return deinterleave(samples, channels, sampleRate);
+    } catch (error) {
+      throw new Error(`Audio decoding failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
 
-      // Read processed file
-      const processedBuffer = await fs.readFile(outputPath);
+  /**
+   * Encode planar float PCM to the requested container in a single pass.
+   * WAV is written directly as 16-bit PCM.
+   */
+  async encode(pcm: PcmBuffer, format: 'mp3' | 'wav' | 'aac', options: EncodeOptions = {}): Promise<Buffer> {
+    if (format === 'wav') {
+      return encodeWav(pcm, { bitDepth: 16 });
+    }
 
-      // Cleanup temp files
-      await this.cleanup([inputPath, outputPath]);
+    const samples = interleave(pcm);
 
-      return processedBuffer;
+    try {
+      const [encoded] = await this.pipeline.run({
+        inputs: [{
+          data: Buffer.from(samples.buffer, samples.byteOffset, samples.byteLength),
+          format: 'f32le',
+          options: ['-ar', String(pcm.sampleRate), '-ac', String(pcm.channels.length)]
+        }],
+        outputs: [this.outputFor(format, { bitrate: options.bitrate })]
+      });
+      return encoded;
     } catch (error) {
-      // Cleanup on error
-      await this.cleanup([inputPath, outputPath]);
-      throw new Error(`Audio processing failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw new Error(`Audio encoding failed: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
-  private async processWithFFmpeg(inputPath: string, outputPath: string, options: AudioProcessingOptions): Promise<void> {
-    return new Promise((resolve, reject) => {
-      let command = ffmpeg(inputPath);
+  /**
+   * Measure BS.1770 / EBU R128 loudness, loudness range and peaks of any
+   * decodable buffer
+   */
+  async measureLoudness(audioBuffer: Buffer): Promise<LoudnessReport> {
+    const pcm = await this.decode(audioBuffer);
 
-      // Set output format
-      command = command.format(options.format);
+    try {
+      return measureLoudness(pcm);
+    } catch (error) {
+      throw new Error(`Loudness measurement failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
 
-      // Set bitrate if specified
-      if (options.bitrate) {
-        command = command.audioBitrate(options.bitrate);
-      }
+  /**
+   * Decode, normalize to a loudness target with true-peak limiting, and
+   * re-encode, reporting loudness before and after
+   */
+  async normalizeLoudness(
+    audioBuffer: Buffer,
+    format: 'mp3' | 'wav' | 'aac',
+    target: LoudnessProfileName | LoudnessTarget
+  ): Promise<{ audioBuffer: Buffer; result: LoudnessNormalizationResult }> {
+    const pcm = await this.decode(audioBuffer);
 
-      // Set sample rate if specified
-      if (options.sampleRate) {
-        command = command.audioFrequency(options.sampleRate);
-      }
+    try {
+      const result = normalizeLoudness(pcm, target);
+      return { audioBuffer: await this.encode(result.pcm, format), result };
+    } catch (error) {
+      throw new Error(`Loudness normalization failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
 
-      // Apply audio filters
-      const filters: string[] = [];
-      
-      if (options.normalize) {
-        filters.push('loudnorm');
-      }
+  /**
+   * Render reverb settings: convolution when an impulse response file is
+   * given, the algorithmic reverb otherwise
+   */
+  async applyReverb(pcm: PcmBuffer, settings: ReverbSettings): Promise<PcmBuffer> {
+    if (!settings.enabled) return pcm;
 
-      if (options.removeNoise) {
-        // Simple noise reduction
-        filters.push('highpass=f=80');
-        filters.push('lowpass=f=8000');
-      }
+    if (!settings.impulseResponse) {
+      return applyReverb(pcm, settings);
+    }
 
-      if (filters.length > 0) {
-        command = command.audioFilters(filters);
-      }
+    const impulse = await this.loadImpulseResponse(settings.impulseResponse);
+    return convolveReverb(pcm, impulse, settings);
+  }
 
-      command
-        .save(outputPath)
-        .on('end', () => resolve())
-        .on('error', (error: any) => reject(error));
-    });
+  /**
+   * Decode an impulse-response file once per processor
+   */
+  async loadImpulseResponse(path: string): Promise<PcmBuffer> {
+    let impulse = this.impulseResponses.get(path);
+
+    if (!impulse) {
+      impulse = this.readImpulseResponse(path);
+      impulse.catch(() => this.impulseResponses.delete(path));
+      this.impulseResponses.set(path, impulse);
+    }
+
+    return impulse;
   }
 
-  private async cleanup(files: string[]): Promise<void> {
-    await Promise.all(
-      files.map(async (file) => {
-        try {
-          await fs.unlink(file);
-        } catch (error) {
-          // File might not exist, ignore error
-        }
-      })
-    );
+  private async readImpulseResponse(path: string): Promise<PcmBuffer> {
+    try {
+      return await this.decode(await fs.readFile(path));
+    } catch (error) {
+      throw new Error(`Failed to load impulse response ${path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
   }
 
   async convertFormat(audioBuffer: Buffer, fromFormat: string, toFormat: string): Promise<Buffer> {
@@ -110,11 +286,16 @@ export class AudioProcessor {
     });
   }
 
-  async normalizeAudio(audioBuffer: Buffer, format: 'mp3' | 'wav' | 'aac'): Promise<Buffer> {
+  async normalizeAudio(
+    audioBuffer: Buffer,
+    format: 'mp3' | 'wav' | 'aac',
+    loudness?: LoudnessProfileName | LoudnessTarget
+  ): Promise<Buffer> {
     return this.process(audioBuffer, {
       format,
       normalize: true,
-      removeNoise: false
+      removeNoise: false,
+      loudness
     });
   }
 
@@ -127,4 +308,4 @@ export class AudioProcessor {
       sampleRate: 44100
     });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,287 @@
+import { GenerationRequest, VoiceProfile, WordTimestamp } from '../interfaces/voice.interface.js';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface RenderCacheOptions {
+  directory?: string; // default ./cache, or $CACHE_DIR
+  maxBytes?: number; // default 512 MB, or $CACHE_MAX_MB
+  maxEntries?: number; // default 10000
+  ttlMs?: number; // 0 disables expiry, default $CACHE_TTL seconds
+  enabled?: boolean; // default true unless $CACHE_ENABLED is 'false'
+}
+
+export interface RenderCacheKeyParts {
+  text: string;
+  voiceProfile?: VoiceProfile;
+  modulation?: GenerationRequest['modulation'];
+  emotionMap?: GenerationRequest['emotionMap'];
+  provider: string;
+  model?: string;
+  outputFormat: string;
+}
+
+export interface RenderCacheEntry {
+  key: string;
+  file: string; // relative to the cache directory
+  size: number;
+  provider: string;
+  format: string;
+  words?: WordTimestamp[]; // provider word timings, when the provider measured them
+  createdAt: number;
+  lastAccessedAt: number;
+}
+
+export interface RenderCacheStats {
+  directory: string;
+  enabled: boolean;
+  entries: number;
+  totalBytes: number;
+  maxBytes: number;
+  maxEntries: number;
+  oldestAccess?: Date;
+  newestAccess?: Date;
+  byProvider: Record<string, { entries: number; bytes: number }>;
+}
+
+interface RenderCacheIndex {
+  version: 1;
+  entries: Record<string, RenderCacheEntry>;
+}
+
+const INDEX_FILE = 'index.json';
+
+/**
+ * Content-addressed disk cache for rendered audio. Keys are SHA-256 hashes of
+ * the normalized text and everything else that changes the rendered output;
+ * entries are evicted least-recently-used once the size or entry limits are hit.
+ */
+export class RenderCache {
+  readonly directory: string;
+  readonly enabled: boolean;
+  private maxBytes: number;
+  private maxEntries: number;
+  private ttlMs: number;
+  private index: RenderCacheIndex | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(options: RenderCacheOptions = {}) {
+    this.directory = options.directory || process.env.CACHE_DIR || './cache';
+    this.enabled = options.enabled ?? process.env.CACHE_ENABLED !== 'false';
+    this.maxBytes = options.maxBytes ?? (parseFloat(process.env.CACHE_MAX_MB || '512') * 1024 * 1024);
+    this.maxEntries = options.maxEntries ?? 10000;
+    this.ttlMs = options.ttlMs ?? (parseFloat(process.env.CACHE_TTL || '0') * 1000);
+  }
+
+  /**
+   * Build the cache key for a render
+   */
+  createKey(parts: RenderCacheKeyParts): string {
+    const profile = parts.voiceProfile;
+    const material = {
+      text: this.normalizeText(parts.text),
+      // Ids, names and timestamps differ between otherwise identical profiles
+      voice: profile ? {
+        provider: profile.provider,
+        baseVoiceId: profile.baseVoiceId,
+        characteristics: profile.characteristics,
+        customSettings: profile.customSettings
+      } : null,
+      modulation: parts.modulation || null,
+      emotionMap: parts.emotionMap || null,
+      provider: parts.provider,
+      model: parts.model || null,
+      format: parts.outputFormat
+    };
+
+    return createHash('sha256').update(this.stableStringify(material)).digest('hex');
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    if (!this.enabled) return null;
+
+    const index = await this.loadIndex();
+    const entry = index.entries[key];
+    if (!entry) return null;
+
+    if (this.ttlMs > 0 && Date.now() - entry.createdAt > this.ttlMs) {
+      await this.delete(key);
+      return null;
+    }
+
+    try {
+      const audio = await fs.readFile(path.join(this.directory, entry.file));
+      entry.lastAccessedAt = Date.now();
+      await this.saveIndex();
+      return audio;
+    } catch {
+      // The file was removed behind our back
+      delete index.entries[key];
+      await this.saveIndex();
+      return null;
+    }
+  }
+
+  getEntry(key: string): RenderCacheEntry | undefined {
+    return this.index?.entries[key];
+  }
+
+  async set(key: string, audio: Buffer, meta: { provider: string; format: string; words?: WordTimestamp[] }): Promise<void> {
+    if (!this.enabled || audio.length === 0 || audio.length > this.maxBytes) return;
+
+    const index = await this.loadIndex();
+    const file = path.join(key.slice(0, 2), `${key}.${meta.format}`);
+    const fullPath = path.join(this.directory, file);
+
+    try {
+      await fs.mkdir(path.dirname(fullPath), { recursive: true });
+      await fs.writeFile(fullPath, audio);
+    } catch (error) {
+      console.warn('⚠️ Failed to write render cache entry:', error instanceof Error ? error.message : String(error));
+      return;
+    }
+
+    const now = Date.now();
+    index.entries[key] = {
+      key,
+      file,
+      size: audio.length,
+      provider: meta.provider,
+      format: meta.format,
+      words: meta.words?.length ? meta.words : undefined,
+      createdAt: now,
+      lastAccessedAt: now
+    };
+
+    await this.evict();
+    await this.saveIndex();
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const index = await this.loadIndex();
+    const entry = index.entries[key];
+    if (!entry) return false;
+
+    delete index.entries[key];
+    await fs.unlink(path.join(this.directory, entry.file)).catch(() => undefined);
+    await this.saveIndex();
+    return true;
+  }
+
+  /**
+   * Remove cached renders, optionally only those not used since `olderThan`
+   */
+  async purge(options: { olderThan?: Date; provider?: string } = {}): Promise<{ removed: number; bytes: number }> {
+    const index = await this.loadIndex();
+    let removed = 0;
+    let bytes = 0;
+
+    for (const entry of Object.values(index.entries)) {
+      if (options.olderThan && entry.lastAccessedAt >= options.olderThan.getTime()) continue;
+      if (options.provider && entry.provider !== options.provider) continue;
+
+      delete index.entries[entry.key];
+      await fs.unlink(path.join(this.directory, entry.file)).catch(() => undefined);
+      removed++;
+      bytes += entry.size;
+    }
+
+    await this.saveIndex();
+    return { removed, bytes };
+  }
+
+  async stats(): Promise<RenderCacheStats> {
+    const entries = Object.values((await this.loadIndex()).entries);
+    const byProvider: RenderCacheStats['byProvider'] = {};
+    const accessTimes = entries.map(entry => entry.lastAccessedAt);
+
+    for (const entry of entries) {
+      byProvider[entry.provider] = byProvider[entry.provider] || { entries: 0, bytes: 0 };
+      byProvider[entry.provider].entries++;
+      byProvider[entry.provider].bytes += entry.size;
+    }
+
+    return {
+      directory: path.resolve(this.directory),
+      enabled: this.enabled,
+      entries: entries.length,
+      totalBytes: entries.reduce((sum, entry) => sum + entry.size, 0),
+      maxBytes: this.maxBytes,
+      maxEntries: this.maxEntries,
+      oldestAccess: accessTimes.length ? new Date(Math.min(...accessTimes)) : undefined,
+      newestAccess: accessTimes.length ? new Date(Math.max(...accessTimes)) : undefined,
+      byProvider
+    };
+  }
+
+  private async evict(): Promise<void> {
+    const index = this.index!;
+    const entries = Object.values(index.entries).sort((a, b) => a.lastAccessedAt - b.lastAccessedAt);
+    let totalBytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+    let count = entries.length;
+
+    for (const entry of entries) {
+      if (totalBytes <= this.maxBytes && count <= this.maxEntries) break;
+
+      delete index.entries[entry.key];
+      await fs.unlink(path.join(this.directory, entry.file)).catch(() => undefined);
+      totalBytes -= entry.size;
+      count--;
+    }
+  }
+
+  private async loadIndex(): Promise<RenderCacheIndex> {
+    if (this.index) return this.index;
+
+    try {
+      const content = await fs.readFile(path.join(this.directory, INDEX_FILE), 'utf-8');
+      const parsed = JSON.parse(content);
+      this.index = parsed?.version === 1 && parsed.entries ? parsed : { version: 1, entries: {} };
+    } catch {
+      this.index = { version: 1, entries: {} };
+    }
+
+    return this.index!;
+  }
+
+  /**
+   * Serialize index writes and swap the file in atomically
+   */
+  private saveIndex(): Promise<void> {
+    const write = async () => {
+      const indexPath = path.join(this.directory, INDEX_FILE);
+      const tempPath = `${indexPath}.${process.pid}.tmp`;
+
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(tempPath, JSON.stringify(this.index));
+      await fs.rename(tempPath, indexPath);
+    };
+
+    this.writeQueue = this.writeQueue.then(write, write);
+    return this.writeQueue.catch(error => {
+      console.warn('⚠️ Failed to save render cache index:', error instanceof Error ? error.message : String(error));
+    });
+  }
+
+  private normalizeText(text: string): string {
+    return text.normalize('NFC').replace(/\s+/g, ' ').trim();
+  }
+
+  private stableStringify(value: unknown): string {
+    if (value === null || typeof value !== 'object') {
+      return JSON.stringify(value ?? null);
+    }
+
+    if (value instanceof Date) {
+      return JSON.stringify(value.toISOString());
+    }
+
+    if (Array.isArray(value)) {
+      return `[${value.map(item => this.stableStringify(item)).join(',')}]`;
+    }
+
+    const record = value as Record<string, unknown>;
+    const keys = Object.keys(record).filter(key => record[key] !== undefined).sort();
+    return `{${keys.map(key => `${JSON.stringify(key)}:${this.stableStringify(record[key])}`).join(',')}}`;
+  }
+}
@@ -18,6 +18,22 @@ import {
   SpeechPattern
 } from '../interfaces/conversation.interface.js';
 
+/**
+ * The `<speak>` document when `text` is SSML, without any leading XML
+ * declaration (as `SSMLGenerator` writes); undefined for plain text
+ */
+export function ssmlDocument(text: string): string | undefined {
+  const document = text.replace(/^\s*<\?xml[^>]*\?>/i, '').trimStart();
+  return /^<speak[\s>]/i.test(document) ? document : undefined;
+}
+
+/**
+ * Whether `text` is an SSML document, with or without an XML declaration
+ */
+export function isSSML(text: string): boolean {
+  return ssmlDocument(text) !== undefined;
+}
+
 /**
  * Advanced SSML generation engine with emotion-aware markup
  */
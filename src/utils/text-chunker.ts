@@ -0,0 +1,152 @@
+import { GenerationRequest, EmotionMapEntry } from '../interfaces/voice.interface.js';
+
+export interface TextChunk {
+  text: string;
+  start: number; // offset of the chunk text in the original string
+  end: number; // exclusive
+}
+
+const SENTENCE_PATTERN = /[^.!?\n]+(?:[.!?]+["')\]]*|\n|$)\s*/g;
+const CLAUSE_PATTERN = /[^,;:—]+(?:[,;:—]\s*|$)/g;
+
+/**
+ * Splits long text at paragraph, sentence, clause and word boundaries so each
+ * chunk fits a provider's character limit, and remaps request positions
+ * (emphasis, pauses, emotion map) onto the chunks.
+ */
+export class TextChunker {
+  /**
+   * Split text into chunks of at most `maxCharacters`, preferring paragraph
+   * breaks, then sentence ends, then clause punctuation, then spaces
+   */
+  chunk(text: string, maxCharacters: number): TextChunk[] {
+    if (maxCharacters <= 0) {
+      throw new Error('maxCharacters must be positive');
+    }
+
+    const pieces = this.splitToFit(text, 0, text.length, maxCharacters);
+    const chunks: TextChunk[] = [];
+    let current: { start: number; end: number } | null = null;
+
+    // Greedily pack adjacent pieces back together up to the limit
+    for (const piece of pieces) {
+      if (current && this.trimmed(text, current.start, piece.end).text.length <= maxCharacters) {
+        current.end = piece.end;
+      } else {
+        if (current) chunks.push(this.trimmed(text, current.start, current.end));
+        current = { ...piece };
+      }
+    }
+    if (current) chunks.push(this.trimmed(text, current.start, current.end));
+
+    return chunks.filter(chunk => chunk.text.length > 0);
+  }
+
+  /**
+   * Split a request into per-chunk requests. Positions are shifted into each
+   * chunk; a chunk owns every position from its start up to the next chunk's start.
+   */
+  splitRequest(request: GenerationRequest, maxCharacters: number): { request: GenerationRequest; chunk: TextChunk }[] {
+    const chunks = this.chunk(request.text, maxCharacters);
+
+    return chunks.map((chunk, index) => {
+      const ownedEnd = index < chunks.length - 1 ? chunks[index + 1].start : Infinity;
+      const owns = (position: number) => position >= chunk.start && position < ownedEnd;
+      const shift = (position: number) => Math.min(chunk.text.length, Math.max(0, position - chunk.start));
+
+      const chunkRequest: GenerationRequest = { ...request, text: chunk.text };
+
+      if (request.modulation) {
+        chunkRequest.modulation = {
+          ...request.modulation,
+          emphasis: request.modulation.emphasis
+            .filter(point => owns(point.position))
+            .map(point => ({ ...point, position: shift(point.position) })),
+          pauses: request.modulation.pauses
+            .filter(pause => owns(pause.position))
+            .map(pause => ({ ...pause, position: shift(pause.position) }))
+        };
+      }
+
+      if (request.emotionMap) {
+        chunkRequest.emotionMap = this.remapEmotionMap(request.emotionMap, chunk);
+      }
+
+      return { request: chunkRequest, chunk };
+    });
+  }
+
+  /**
+   * Emotion map ranges are inclusive and `end: -1` runs to the end of the text
+   */
+  private remapEmotionMap(entries: EmotionMapEntry[], chunk: TextChunk): EmotionMapEntry[] {
+    const lastIndex = chunk.end - 1;
+
+    return entries
+      .filter(entry => entry.start <= lastIndex && (entry.end === -1 || entry.end >= chunk.start))
+      .map(entry => ({
+        ...entry,
+        start: Math.max(0, entry.start - chunk.start),
+        end: entry.end === -1 || entry.end >= lastIndex ? -1 : entry.end - chunk.start
+      }));
+  }
+
+  private splitToFit(text: string, start: number, end: number, maxCharacters: number): { start: number; end: number }[] {
+    if (this.trimmed(text, start, end).text.length <= maxCharacters) {
+      return [{ start, end }];
+    }
+
+    const levels = [
+      (segment: string) => this.matchRanges(segment, /[\s\S]+?(?:\n\s*\n|$)/g),
+      (segment: string) => this.matchRanges(segment, SENTENCE_PATTERN),
+      (segment: string) => this.matchRanges(segment, CLAUSE_PATTERN),
+      (segment: string) => this.matchRanges(segment, /\S+\s*/g)
+    ];
+
+    const segment = text.slice(start, end);
+
+    for (const split of levels) {
+      const ranges = split(segment);
+      if (ranges.length > 1) {
+        return ranges.flatMap(range => this.splitToFit(text, start + range.start, start + range.end, maxCharacters));
+      }
+    }
+
+    // A single word longer than the limit: hard cut
+    const pieces: { start: number; end: number }[] = [];
+    for (let offset = start; offset < end; offset += maxCharacters) {
+      pieces.push({ start: offset, end: Math.min(end, offset + maxCharacters) });
+    }
+    return pieces;
+  }
+
+  private matchRanges(segment: string, pattern: RegExp): { start: number; end: number }[] {
+    const ranges: { start: number; end: number }[] = [];
+    pattern.lastIndex = 0;
+
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(segment)) !== null) {
+      if (match[0].length === 0) {
+        pattern.lastIndex++;
+        continue;
+      }
+      ranges.push({ start: match.index, end: match.index + match[0].length });
+    }
+
+    // Text the pattern skipped (stray punctuation, blank lines) joins the following range
+    if (ranges.length > 0) {
+      ranges.forEach((range, index) => {
+        range.start = index === 0 ? 0 : ranges[index - 1].end;
+      });
+      ranges[ranges.length - 1].end = segment.length;
+    }
+
+    return ranges;
+  }
+
+  private trimmed(text: string, start: number, end: number): TextChunk {
+    while (start < end && /\s/.test(text[start])) start++;
+    while (end > start && /\s/.test(text[end - 1])) end--;
+    return { text: text.slice(start, end), start, end };
+  }
+}
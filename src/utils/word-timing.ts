@@ -0,0 +1,249 @@
+import { WordTimestamp, SentenceTimestamp, PausePoint, SpeechMark } from '../interfaces/voice.interface.js';
+
+export interface CharacterAlignment {
+  characters: string[];
+  startTimes: number[]; // seconds, one per character
+  endTimes: number[];
+}
+
+export interface EstimateOptions {
+  duration?: number; // seconds of audio to spread the words over; estimated from the text when unknown
+  pauses?: PausePoint[];
+}
+
+// Roughly five syllables a second for conversational speech
+const SECONDS_PER_SYLLABLE = 0.2;
+const SENTENCE_PATTERN = /[^.!?\n]+(?:[.!?]+["')\]]*|\n|$)/g;
+
+/**
+ * Estimate word timings by spreading the audio duration over the words,
+ * weighted by syllable count, with extra time after punctuation and for
+ * explicit pauses (modulation pauses and SSML breaks).
+ */
+export function estimateWordTimestamps(text: string, options: EstimateOptions = {}): WordTimestamp[] {
+  const spoken = spokenText(text);
+  const words = tokenize(spoken);
+  if (words.length === 0) return [];
+
+  const pauses = [
+    ...(options.pauses || []).map(pause => ({ position: pause.position, seconds: pause.duration / 1000 })),
+    ...ssmlBreaks(text)
+  ].sort((a, b) => a.position - b.position);
+
+  const weights = words.map(word => syllables(word.word));
+  const gaps = words.map(word => punctuationGap(word.token));
+  const units = weights.reduce((sum, weight) => sum + weight, 0) + gaps.reduce((sum, gap) => sum + gap, 0);
+  const fixedSeconds = pauses.reduce((sum, pause) => sum + pause.seconds, 0);
+
+  const secondsPerUnit = options.duration !== undefined && options.duration > fixedSeconds
+    ? (options.duration - fixedSeconds) / units
+    : SECONDS_PER_SYLLABLE;
+  // When the explicit pauses alone exceed the duration, compress them to fit
+  const pauseScale = options.duration !== undefined && fixedSeconds >= options.duration && fixedSeconds > 0
+    ? options.duration * 0.5 / fixedSeconds
+    : 1;
+
+  const timestamps: WordTimestamp[] = [];
+  let time = 0;
+  let pauseIndex = 0;
+
+  words.forEach((word, index) => {
+    while (pauseIndex < pauses.length && pauses[pauseIndex].position <= word.charStart) {
+      time += pauses[pauseIndex++].seconds * pauseScale;
+    }
+
+    const start = time;
+    time += weights[index] * secondsPerUnit;
+    timestamps.push({ word: word.word, start: round(start), end: round(time), charStart: word.charStart, charEnd: word.charEnd });
+    time += gaps[index] * secondsPerUnit;
+  });
+
+  return timestamps;
+}
+
+/**
+ * Group character-level timings (e.g. ElevenLabs alignment) into words.
+ * Characters are matched back to the text in order, so small differences
+ * between the sent and aligned text are tolerated.
+ */
+export function wordsFromCharacterAlignment(text: string, alignment: CharacterAlignment): WordTimestamp[] {
+  const times: ({ start: number; end: number } | undefined)[] = new Array(text.length);
+  let cursor = 0;
+
+  alignment.characters.forEach((character, index) => {
+    const found = text.indexOf(character, cursor);
+    if (found === -1 || found - cursor > 8) return;
+
+    times[found] = { start: alignment.startTimes[index], end: alignment.endTimes[index] };
+    cursor = found + character.length;
+  });
+
+  const timestamps: WordTimestamp[] = [];
+  for (const word of tokenize(spokenText(text))) {
+    const timed = times.slice(word.charStart, word.charEnd).filter((time): time is { start: number; end: number } => !!time);
+    if (timed.length === 0) continue;
+
+    timestamps.push({
+      word: word.word,
+      start: round(Math.min(...timed.map(time => time.start))),
+      end: round(Math.max(...timed.map(time => time.end))),
+      charStart: word.charStart,
+      charEnd: word.charEnd
+    });
+  }
+
+  return timestamps;
+}
+
+/**
+ * Turn Polly-style word speech marks into timestamps. Marks only carry start
+ * times, so each word ends where the next begins (or at `duration`).
+ */
+export function wordsFromSpeechMarks(text: string, marks: SpeechMark[], duration?: number): WordTimestamp[] {
+  const spoken = spokenText(text);
+  const wordMarks = marks.filter(mark => mark.type === 'word').sort((a, b) => a.time - b.time);
+  const timestamps: WordTimestamp[] = [];
+  let cursor = 0;
+
+  wordMarks.forEach((mark, index) => {
+    const found = spoken.indexOf(mark.value, cursor);
+    const charStart = found === -1 ? cursor : found;
+    const charEnd = found === -1 ? cursor : found + mark.value.length;
+    cursor = charEnd;
+
+    const start = mark.time / 1000;
+    const next = wordMarks[index + 1];
+    const end = next ? next.time / 1000 : duration ?? start + syllables(mark.value) * SECONDS_PER_SYLLABLE;
+
+    timestamps.push({ word: mark.value, start: round(start), end: round(Math.max(start, end)), charStart, charEnd });
+  });
+
+  return timestamps;
+}
+
+/**
+ * Sentence spans derived from word timings
+ */
+export function sentenceTimestamps(text: string, words: WordTimestamp[]): SentenceTimestamp[] {
+  const spoken = spokenText(text);
+  const sentences: SentenceTimestamp[] = [];
+  SENTENCE_PATTERN.lastIndex = 0;
+
+  let match: RegExpExecArray | null;
+  while ((match = SENTENCE_PATTERN.exec(spoken)) !== null) {
+    const charStart = match.index;
+    const charEnd = match.index + match[0].length;
+    const inside = words.filter(word => word.charStart >= charStart && word.charStart < charEnd);
+    if (inside.length === 0) continue;
+
+    sentences.push({
+      text: match[0].replace(/\s+/g, ' ').trim(),
+      start: inside[0].start,
+      end: inside[inside.length - 1].end,
+      charStart: inside[0].charStart,
+      charEnd: inside[inside.length - 1].charEnd
+    });
+  }
+
+  return sentences;
+}
+
+/**
+ * Shift timestamps of a chunk into the timeline of the text it was cut from
+ */
+export function offsetTimestamps(words: WordTimestamp[], seconds: number, characters: number): WordTimestamp[] {
+  return words.map(word => ({
+    ...word,
+    start: round(word.start + seconds),
+    end: round(word.end + seconds),
+    charStart: word.charStart + characters,
+    charEnd: word.charEnd + characters
+  }));
+}
+
+/**
+ * Express timestamps as speech marks for the subtitle and lipsync tooling
+ */
+export function toSpeechMarks(words: WordTimestamp[], sentences: SentenceTimestamp[] = []): SpeechMark[] {
+  return [
+    ...sentences.map(sentence => ({
+      time: Math.round(sentence.start * 1000),
+      type: 'sentence' as const,
+      start: sentence.charStart,
+      end: sentence.charEnd,
+      value: sentence.text
+    })),
+    ...words.map(word => ({
+      time: Math.round(word.start * 1000),
+      type: 'word' as const,
+      start: word.charStart,
+      end: word.charEnd,
+      value: word.word
+    }))
+  ].sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Blank out SSML tags with spaces so offsets still point into the original text
+ */
+function spokenText(text: string): string {
+  return text.replace(/<[^>]*>/g, tag => ' '.repeat(tag.length));
+}
+
+interface Token {
+  word: string;
+  token: string; // the word with its surrounding punctuation
+  charStart: number;
+  charEnd: number;
+}
+
+function tokenize(spoken: string): Token[] {
+  const words: Token[] = [];
+  const pattern = /\S+/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(spoken)) !== null) {
+    // Keep punctuation out of the word but inside the text span it came from
+    const word = match[0].replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+    if (!word) continue;
+
+    const charStart = match.index + match[0].indexOf(word);
+    words.push({ word, token: match[0], charStart, charEnd: charStart + word.length });
+  }
+
+  return words;
+}
+
+function ssmlBreaks(text: string): { position: number; seconds: number }[] {
+  const breaks: { position: number; seconds: number }[] = [];
+  const pattern = /<break\b[^>]*\btime="([\d.]+)(ms|s)"[^>]*>/gi;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const value = parseFloat(match[1]);
+    breaks.push({ position: match.index, seconds: match[2].toLowerCase() === 'ms' ? value / 1000 : value });
+  }
+
+  return breaks;
+}
+
+function syllables(word: string): number {
+  const groups = word.toLowerCase().match(/[aeiouyàáâäèéêëìíîïòóôöùúûü]+/g);
+  if (groups) {
+    // A trailing silent "e" rarely forms its own syllable
+    const silentE = groups.length > 1 && /[^aeiouy]e$/i.test(word) ? 1 : 0;
+    return groups.length - silentE;
+  }
+  // Digits, abbreviations and scripts without latin vowels
+  return Math.max(1, Math.ceil(word.length / 3));
+}
+
+function punctuationGap(token: string): number {
+  if (/[.!?]["')\]]*$/.test(token)) return 2;
+  if (/[,;:—]["')\]]*$/.test(token)) return 1;
+  return 0;
+}
+
+function round(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
@@ -6,6 +6,7 @@ import {
   VideoScene,
   SceneContext
 } from '../../interfaces/video.interface.js';
+import { SpeechMark } from '../../interfaces/voice.interface.js';
 import * as fs from 'fs/promises';
 
 /**
@@ -211,6 +212,42 @@ export class SubtitleReader {
     };
   }
 
+  /**
+   * Build subtitle entries from provider speech marks (e.g. Amazon Polly)
+   * so cue timing follows the rendered audio instead of text estimates
+   */
+  createEntriesFromSpeechMarks(speechMarks: SpeechMark[], offsetSeconds: number = 0): SubtitleEntry[] {
+    const sentences = speechMarks.filter(mark => mark.type === 'sentence').sort((a, b) => a.time - b.time);
+    const words = speechMarks.filter(mark => mark.type === 'word').sort((a, b) => a.time - b.time);
+
+    return sentences.map((sentence, index) => {
+      const next = sentences[index + 1];
+      let endMs: number;
+
+      if (next) {
+        endMs = next.time;
+      } else {
+        // Last sentence: end after its final word, allowing ~80ms per character
+        const lastWord = words.filter(word => word.time >= sentence.time).pop();
+        endMs = lastWord
+          ? lastWord.time + Math.max(200, lastWord.value.length * 80)
+          : sentence.time + sentence.value.length * 60;
+      }
+
+      const startTime = offsetSeconds + sentence.time / 1000;
+      const endTime = offsetSeconds + endMs / 1000;
+
+      return {
+        index: index + 1,
+        startTime,
+        endTime,
+        startTimecode: this.secondsToTimecode(startTime),
+        endTimecode: this.secondsToTimecode(endTime),
+        text: sentence.value
+      };
+    });
+  }
+
   /**
    * Parse time components to seconds
    */
@@ -6,6 +6,29 @@ import {
   SyncQualityMetrics
 } from '../interfaces/video.interface.js';
 import { AudioSegment } from '../interfaces/conversation.interface.js';
+import { SpeechMark } from '../interfaces/voice.interface.js';
+import { PcmBuffer, pcmFrameCount } from '../audio/pcm-buffer.js';
+
+// Amazon Polly viseme codes mapped to mouth shapes
+const VISEME_MOUTH_SHAPES: Record<string, MouthShape> = {
+  p: 'P',
+  t: 'Closed',
+  S: 'Closed',
+  T: 'Closed',
+  f: 'F',
+  k: 'Closed',
+  i: 'I',
+  r: 'Closed',
+  s: 'Closed',
+  u: 'U',
+  '@': 'E',
+  a: 'A',
+  e: 'E',
+  E: 'E',
+  o: 'O',
+  O: 'O',
+  sil: 'Closed'
+};
 
 /**
  * Advanced lip-sync timing optimization engine
@@ -77,6 +100,41 @@ export class LipSyncEngine {
     return movements;
   }
 
+  /**
+   * Derive mouth movement from the speech itself: one movement per video
+   * frame, opening scaled by the frame's RMS level relative to the loudest frame
+   */
+  analyzeAudioMovements(pcm: PcmBuffer, startTime: number = 0, frameRate: number = 24): LipMovement[] {
+    const frames = pcmFrameCount(pcm);
+    const window = Math.max(1, Math.round(pcm.sampleRate / frameRate));
+    const levels: number[] = [];
+
+    for (let offset = 0; offset < frames; offset += window) {
+      const end = Math.min(frames, offset + window);
+      let energy = 0;
+      for (const data of pcm.channels) {
+        for (let i = offset; i < end; i++) {
+          energy += data[i] * data[i];
+        }
+      }
+      levels.push(Math.sqrt(energy / ((end - offset) * pcm.channels.length)));
+    }
+
+    const loudest = levels.reduce((max, level) => Math.max(max, level), 0);
+    // Below roughly -50 dBFS the mouth is treated as closed
+    const gate = 0.003;
+
+    return levels.map((level, index) => {
+      const voiced = level > gate && loudest > 0;
+      return {
+        startTime: startTime + (index * window) / pcm.sampleRate,
+        endTime: startTime + Math.min(frames, (index + 1) * window) / pcm.sampleRate,
+        intensity: voiced ? Math.min(1, level / loudest) : 0,
+        confidence: voiced ? 0.8 : 0.5
+      };
+    });
+  }
+
   /**
    * Optimize audio timing for lip synchronization
    */
@@ -113,6 +171,31 @@ export class LipSyncEngine {
     return markers;
   }
 
+  /**
+   * Generate lip sync markers from provider viseme speech marks.
+   * Uses the provider's real timings instead of text-based estimates.
+   */
+  generateMarkersFromSpeechMarks(speechMarks: SpeechMark[], startTime: number = 0): LipSyncMarker[] {
+    const visemes = speechMarks
+      .filter(mark => mark.type === 'viseme')
+      .sort((a, b) => a.time - b.time);
+
+    return visemes.map((mark, index) => {
+      const next = visemes[index + 1];
+      const mouthShape = VISEME_MOUTH_SHAPES[mark.value] || 'Closed';
+      const duration = next ? (next.time - mark.time) / 1000 : 0.1;
+
+      return {
+        time: startTime + mark.time / 1000,
+        phoneme: mark.value,
+        mouthShape,
+        duration,
+        intensity: mark.value === 'sil' ? 0 : this.calculatePhonemeIntensity(mark.value.toLowerCase()),
+        confidence: 0.95
+      };
+    });
+  }
+
   /**
    * Generate lip sync markers for a single audio segment
    */
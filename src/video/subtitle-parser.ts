@@ -7,14 +7,22 @@ import {
   LipSyncMarker,
   SyncQualityMetrics,
   SyncIssue,
-  TimingMode
+  TimingMode,
+  RoomToneSettings,
+  VideoAudioSettings,
+  VideoExportConfig
 } from '../interfaces/video.interface.js';
 import { VoiceEngine } from '../core/voice-engine.js';
 import { ConversationManager } from '../core/conversation-manager.js';
 import { CharacterManager } from '../core/character-manager.js';
 import { VoiceProfile, VoiceModulation } from '../interfaces/voice.interface.js';
-import { ConversationCharacter, ConversationConfig } from '../interfaces/conversation.interface.js';
+import { AudioTrackResult, ConversationCharacter, ConversationConfig } from '../interfaces/conversation.interface.js';
 import { SubtitleReader } from './format-readers/subtitle-reader.js';
+import { AudioMixer } from '../utils/audio-mixer.js';
+import { AudioProcessor } from '../utils/audio-processor.js';
+import { createPcmBuffer } from '../audio/pcm-buffer.js';
+import { decodeWav, encodeWav } from '../audio/wav-codec.js';
+import { loudnessTargetForExport, loudnessTargetFromSettings } from '../audio/loudness-normalizer.js';
 
 /**
  * Advanced subtitle parser with voice generation and synchronization
@@ -24,12 +32,16 @@ export class SubtitleParser {
   private conversationManager: ConversationManager;
   private characterManager: CharacterManager;
   private subtitleReader: SubtitleReader;
+  private audioProcessor: AudioProcessor;
+  private audioMixer: AudioMixer;
 
   constructor() {
     this.voiceEngine = new VoiceEngine();
     this.conversationManager = new ConversationManager();
     this.characterManager = new CharacterManager();
     this.subtitleReader = new SubtitleReader();
+    this.audioProcessor = new AudioProcessor();
+    this.audioMixer = new AudioMixer(this.audioProcessor);
   }
 
   /**
@@ -126,7 +138,7 @@ export class SubtitleParser {
           id: `segment_${entry.index}`,
           startTime: entry.startTime,
           endTime: entry.endTime,
-          audioBuffer: Buffer.alloc(Math.floor(duration * 44100 * 2)), // Silent audio
+          audioBuffer: encodeWav(createPcmBuffer(44100, 1, Math.floor(duration * 44100))), // Silent audio
           speaker: entry.speaker,
           text: entry.text,
           confidence: 0.0
@@ -467,22 +479,81 @@ export class SubtitleParser {
   }
 
   /**
-   * Export synchronized audio to file
+   * Export synchronized audio to file: every segment is placed at its
+   * subtitle time, one track per speaker, and with `roomTone` enabled the
+   * silence between subtitles is filled with room tone. The audio
+   * settings' EQ preset ('custom' leaves the lines as they are) is applied
+   * to every line, and the mix is normalized to the loudness target of the
+   * export config and audio settings when either is given.
    */
   async exportSynchronizedAudio(
     syncedAudio: SynchronizedAudio,
     outputPath: string,
-    format: 'wav' | 'mp3' | 'aac' = 'wav'
+    format: 'wav' | 'mp3' | 'aac' = 'wav',
+    options: SynchronizedAudioExportOptions = {}
   ): Promise<void> {
-    // This would mix all segments into a single audio file
-    // For now, just save the first segment as an example
-    if (syncedAudio.audioSegments.length > 0) {
-      const fs = await import('fs/promises');
-      await fs.writeFile(outputPath, syncedAudio.audioSegments[0].audioBuffer);
+    if (syncedAudio.audioSegments.length === 0) return;
+
+    const { exportConfig, audioSettings } = options;
+    const loudness = exportConfig
+      ? loudnessTargetForExport(exportConfig, audioSettings)
+      : audioSettings && loudnessTargetFromSettings(audioSettings);
+    const eqPreset = audioSettings?.eqPreset;
+    // One scene spanning the whole export
+    const sceneEQ = eqPreset && eqPreset !== 'custom' ? [{ startTime: 0, endTime: Infinity, eq: eqPreset }] : undefined;
+
+    // Subtitle times are in seconds, the mixer works in milliseconds
+    const tracks: AudioTrackResult[] = [];
+    for (const segment of syncedAudio.audioSegments) {
+      const speaker = segment.speaker || 'narrator';
+      let track = tracks.find(candidate => candidate.characterId === speaker);
+      if (!track) {
+        track = { characterId: speaker, characterName: speaker, audioBuffer: Buffer.alloc(0), segments: [], totalDuration: 0 };
+        tracks.push(track);
+      }
+
+      track.segments.push({
+        lineId: segment.id,
+        startTime: segment.startTime * 1000,
+        endTime: segment.endTime * 1000,
+        text: segment.text,
+        emotion: { type: 'neutral', intensity: 0.5, variations: [] },
+        audioBuffer: segment.audioBuffer
+      });
+      track.totalDuration = Math.max(track.totalDuration, segment.endTime * 1000);
     }
+
+    const mixed = await this.audioMixer.mixConversation(
+      tracks,
+      { totalDuration: syncedAudio.totalDuration * 1000, events: [], characterUsage: {} },
+      {
+        enableAutomaticMixing: true,
+        preserveIndividualTracks: false,
+        normalizeAudio: false,
+        compressionLevel: 0,
+        spatialAudioEnabled: false,
+        sampleRate: exportConfig?.sampleRate ?? 48000,
+        loudness,
+        sceneEQ,
+        roomTone: options.roomTone ?? audioSettings?.roomTone
+      }
+    );
+
+    const output = format === 'wav' ? mixed : await this.audioProcessor.encode(decodeWav(mixed).pcm, format);
+    const fs = await import('fs/promises');
+    await fs.writeFile(outputPath, output);
   }
 }
 
+/**
+ * Options for `SubtitleParser.exportSynchronizedAudio`
+ */
+export interface SynchronizedAudioExportOptions {
+  roomTone?: RoomToneSettings; // defaults to audioSettings.roomTone
+  exportConfig?: VideoExportConfig; // loudness target and sample rate of the export
+  audioSettings?: VideoAudioSettings; // post-production settings: EQ preset, room tone, and the loudness target without an export config
+}
+
 /**
  * Configuration for voice generation from subtitles
  */
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { renderAmbience, duck, duckingEnvelope } from '../src/audio/ambience.js';
+import { createPcmBuffer } from '../src/audio/pcm-buffer.js';
+import { encodeWav, decodeWav } from '../src/audio/wav-codec.js';
+import { AudioMixer } from '../src/utils/audio-mixer.js';
+import { constant, db, track, timeline, MIX_OPTIONS } from './helpers/audio.js';
+
+const ducking = { enabled: true, depth: 12, attack: 10, release: 100, threshold: -40 };
+
+describe('renderAmbience', () => {
+  it('should loop with crossfaded seams that keep a steady level', () => {
+    const bed = renderAmbience(constant(8000, 2000, 0.5), 10000, { volume: 1, loop: true }).channels[0];
+
+    // 50 ms crossfades: each repeat starts 1600 frames after the last
+    expect(bed.length).toBe(10000);
+    for (const i of [0, 1700, 1800, 3300, 9999]) expect(bed[i]).toBeCloseTo(0.5, 5);
+  });
+
+  it('should play once without looping and apply volume and fades', () => {
+    const once = renderAmbience(constant(8000, 2000, 0.5), 4000, { volume: 1, loop: false }).channels[0];
+    expect(once[1999]).toBe(0.5);
+    expect(once[2000]).toBe(0);
+
+    const faded = renderAmbience(constant(8000, 8000, 1), 8000, { volume: 0.5, loop: true, fadeIn: 100, fadeOut: 200 }).channels[0];
+    expect(faded[0]).toBe(0);
+    expect(faded[400]).toBeCloseTo(0.25, 5);
+    expect(faded[4000]).toBeCloseTo(0.5, 5);
+    expect(faded[8000 - 800]).toBeCloseTo(0.25, 2);
+    expect(faded[7999]).toBe(0);
+  });
+});
+
+describe('duck', () => {
+  it('should ease down by the depth while the key is active and recover after', () => {
+    const key = createPcmBuffer(8000, 1, 16000);
+    key.channels[0].fill(0.3, 4000, 8000);
+    const gain = duckingEnvelope(key, 16000, ducking);
+
+    expect(gain[3999]).toBe(1);
+    expect(db(gain[4000 + 80])).toBeCloseTo(-12 * (1 - Math.exp(-1)), 0); // one attack time constant
+    expect(db(gain[7999])).toBeCloseTo(-12, 2);
+    expect(db(gain[8000 + 800])).toBeCloseTo(-12 * Math.exp(-1), 1); // one release time constant
+    expect(gain[15999]).toBeCloseTo(1, 3);
+  });
+
+  it('should ignore keys under the threshold and pass through when disabled', () => {
+    const music = constant(8000, 1000, 0.2);
+    expect(duck(music, constant(8000, 1000, 0.001), ducking).channels[0][999]).toBeCloseTo(0.2, 6);
+    expect(duck(music, constant(8000, 1000, 0.5), { ...ducking, enabled: false })).toBe(music);
+  });
+});
+
+describe('background ambience in the mixer', () => {
+  let directory: string;
+  let bedPath: string;
+  const tracks = [track('alice', 1000, 500, encodeWav(constant(16000, 8000, 0.5)))];
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'ambience-'));
+    bedPath = path.join(directory, 'rain.wav');
+    await fs.writeFile(bedPath, encodeWav(constant(8000, 4000, 0.4)));
+  });
+
+  afterAll(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should loop the bed for the whole conversation and duck it under dialogue', async () => {
+    const mixed = await new AudioMixer().mixConversation(tracks, timeline(3000), {
+      ...MIX_OPTIONS,
+      backgroundAmbience: { url: pathToFileURL(bedPath).href, volume: 0.5, loop: true, ducking }
+    });
+    const data = decodeWav(mixed).pcm.channels[0];
+
+    expect(data.length).toBe(48000);
+    expect(data[8000]).toBeCloseTo(0.2, 3);
+    expect(data[23000] - 0.5).toBeCloseTo(0.2 * Math.pow(10, -12 / 20), 2);
+    expect(data[47000]).toBeCloseTo(0.2, 3); // past the end of the 0.5 s file
+  });
+
+  it('should report beds that are not local files', async () => {
+    const mix = (url: string) => new AudioMixer().mixConversation(tracks, timeline(1500), {
+      ...MIX_OPTIONS,
+      backgroundAmbience: { url, volume: 1, loop: true }
+    });
+
+    await expect(mix('https://example.com/rain.mp3')).rejects.toThrow('Failed to load background ambience https://example.com/rain.mp3: only local files are supported');
+    await expect(mix(path.join(directory, 'missing.wav'))).rejects.toThrow('Failed to load background ambience');
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, vi } from 'vitest';
+import { applyAudioEffect, applyAudioEffects } from '../src/audio/effects.js';
+import { biquadResponse, designBiquad } from '../src/audio/biquad.js';
+import { createPcmBuffer, pcmFrameCount } from '../src/audio/pcm-buffer.js';
+import { encodeWav, decodeWav } from '../src/audio/wav-codec.js';
+import { ConversationManager } from '../src/core/conversation-manager.js';
+import { VoiceEngine } from '../src/core/voice-engine.js';
+import { DialogueLine } from '../src/interfaces/conversation.interface.js';
+import { sine, rms } from './helpers/audio.js';
+
+describe('applyAudioEffect', () => {
+  it('should repeat the line at the delay with feedback', () => {
+    const click = createPcmBuffer(8000, 1, 100);
+    click.channels[0][0] = 1;
+    const output = applyAudioEffect(click, { type: 'echo', intensity: 1, parameters: { delay: 100, feedback: 0.5, mix: 0.8 } });
+    const data = output.channels[0];
+
+    expect(data[0]).toBe(1);
+    expect(data[800]).toBeCloseTo(0.8, 6);
+    expect(data[1600]).toBeCloseTo(0.4, 6);
+    expect(data[2400]).toBeCloseTo(0.2, 6);
+    // Runs on until the repeats fall below -60 dB: 0.5^10 < 0.001
+    expect(pcmFrameCount(output)).toBe(100 + 10 * 800);
+  });
+
+  it('should band-limit phone and radio voices', () => {
+    const effects = [
+      { type: 'phone' as const, intensity: 1, parameters: { noise: 0 } },
+      { type: 'radio' as const, intensity: 1, parameters: { noise: 0, squelch: 0 } }
+    ];
+
+    for (const effect of effects) {
+      const band = rms(applyAudioEffect(sine(16000, 1000, 8000, 0.1), effect).channels[0], 800);
+      const low = rms(applyAudioEffect(sine(16000, 100, 8000, 0.1), effect).channels[0], 800);
+      const high = rms(applyAudioEffect(sine(16000, 6000, 8000, 0.1), effect).channels[0], 800);
+
+      expect(low).toBeLessThan(band * 0.1);
+      expect(high).toBeLessThan(band * 0.1);
+    }
+  });
+
+  it('should open radio hiss only with the voice and end on a squelch burst', () => {
+    const pcm = createPcmBuffer(16000, 1, 16000);
+    pcm.channels[0].set(sine(16000, 1000, 8000).channels[0]);
+    const output = applyAudioEffect(pcm, { type: 'radio', intensity: 1, parameters: { squelch: 200 } });
+    const data = output.channels[0];
+
+    expect(pcmFrameCount(output)).toBe(16000 + 3200);
+    expect(rms(data, 15000, 16000)).toBeLessThan(1e-4); // squelch closed in the silence
+    expect(rms(data, 16000, 17600)).toBeGreaterThan(0.01);
+    // Seeded noise: the same line renders the same way every time
+    expect(Array.from(applyAudioEffect(pcm, { type: 'radio', intensity: 1, parameters: { squelch: 200 } }).channels[0])).toEqual(Array.from(data));
+  });
+
+  it('should low-pass with the filter and saturate with distortion', () => {
+    const filtered = applyAudioEffect(sine(16000, 4000, 8000), { type: 'filter', intensity: 1, parameters: { highCut: 1000 } });
+    const expected = Math.pow(10, biquadResponse([designBiquad('lowpass', 1000, 16000)], 4000, 16000) / 20);
+    expect(rms(filtered.channels[0], 800)).toBeCloseTo(rms(sine(16000, 4000, 8000).channels[0]) * expected, 3);
+
+    const distorted = applyAudioEffect(sine(16000, 100, 1600, 1), { type: 'distortion', intensity: 1 }).channels[0];
+    expect(Math.max(...distorted)).toBeCloseTo(1, 3);
+    expect(distorted[8]).toBeGreaterThan(0.9); // 0.16 in, pushed towards full scale
+  });
+
+  it('should replace the voiced body with breath for a whisper and push a shout', () => {
+    const voice = sine(16000, 200, 8000);
+    const whisper = applyAudioEffect(voice, { type: 'whisper', intensity: 1 }).channels[0];
+    const shout = applyAudioEffect(voice, { type: 'shout', intensity: 1 }).channels[0];
+
+    expect(rms(whisper, 800)).toBeLessThan(rms(voice.channels[0]) * 0.5);
+    expect(rms(whisper, 800)).toBeGreaterThan(0.001);
+    expect(rms(shout, 800)).toBeGreaterThan(rms(voice.channels[0]) * 1.3);
+    expect(Math.max(...shout)).toBeLessThan(1);
+  });
+
+  it('should chain effects and pass through at zero intensity', () => {
+    const pcm = sine(16000, 1000, 1600);
+    expect(applyAudioEffect(pcm, { type: 'reverb', intensity: 0 })).toBe(pcm);
+    expect(pcmFrameCount(applyAudioEffects(pcm, [{ type: 'phone', intensity: 1 }, { type: 'reverb', intensity: 0.5 }]))).toBeGreaterThan(1600);
+    expect(() => applyAudioEffect(pcm, { type: 'megaphone' as any, intensity: 1 })).toThrow('Unknown audio effect: megaphone');
+  });
+});
+
+describe('dialogue effects in the conversation manager', () => {
+  const line: DialogueLine = {
+    id: 'line_1',
+    characterId: 'pilot',
+    text: 'Tower, we have you in sight.',
+    timing: { startTime: 1000, endTime: 2000 },
+    audioEffects: [{ type: 'phone', intensity: 1, parameters: { noise: 0 } }, { type: 'echo', intensity: 0.5 }]
+  };
+
+  it('should render each line through its effects', async () => {
+    const voiceEngine = new VoiceEngine();
+    const generated = encodeWav(sine(16000, 100, 16000));
+    vi.spyOn(voiceEngine, 'generateVoice').mockResolvedValue(generated);
+    const manager = new ConversationManager(voiceEngine);
+
+    const [track] = await (manager as any).generateCharacterAudioTracks(
+      [line, { ...line, id: 'line_2', audioEffects: undefined }],
+      [{ id: 'pilot', name: 'Pilot', voiceProfile: {}, defaultEmotion: { type: 'neutral', intensity: 0.5, variations: [] } }],
+      'wav'
+    );
+
+    const processed = decodeWav(track.segments[0].audioBuffer).pcm;
+    expect(pcmFrameCount(processed)).toBeGreaterThan(16000);
+    expect(rms(processed.channels[0], 800, 16000)).toBeLessThan(0.05); // 100 Hz is below the phone band
+    expect(track.segments[1].audioBuffer).toBe(generated);
+  });
+
+  it('should keep effected lines as WAV and extend them by the effect tail', async () => {
+    const voiceEngine = new VoiceEngine();
+    vi.spyOn(voiceEngine, 'generateVoice').mockResolvedValue(encodeWav(sine(16000, 1000, 16000)));
+    const manager = new ConversationManager(voiceEngine);
+
+    const [track] = await (manager as any).generateCharacterAudioTracks(
+      [line],
+      [{ id: 'pilot', name: 'Pilot', voiceProfile: {}, defaultEmotion: { type: 'neutral', intensity: 0.5, variations: [] } }],
+      'mp3'
+    );
+    const { pcm } = decodeWav(track.segments[0].audioBuffer);
+    const timeline = (manager as any).createConversationTimeline([line], [track]);
+    const effectEnds = timeline.events.filter((event: any) => event.type === 'effect_end');
+
+    expect(track.segments[0].endTime).toBeCloseTo(1000 + pcmFrameCount(pcm) / 16, 6);
+    expect(track.segments[0].endTime).toBeGreaterThan(2000);
+    expect(effectEnds.map((event: any) => event.time)).toEqual([track.segments[0].endTime, track.segments[0].endTime]);
+    expect(timeline.totalDuration).toBe(track.segments[0].endTime);
+  });
+
+  it('should add effect events to the timeline', () => {
+    const manager = new ConversationManager(new VoiceEngine());
+    const timeline = (manager as any).createConversationTimeline([line], []);
+    const effects = timeline.events.filter((event: any) => event.type.startsWith('effect_'));
+
+    expect(effects.map((event: any) => [event.type, event.time, event.data.type])).toEqual([
+      ['effect_start', 1000, 'phone'],
+      ['effect_start', 1000, 'echo'],
+      ['effect_end', 2000, 'phone'],
+      ['effect_end', 2000, 'echo']
+    ]);
+    expect(effects[1]).toMatchObject({ characterId: 'pilot', lineId: 'line_1', data: { intensity: 0.5 } });
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { compress, gainComputer } from '../src/audio/compressor.js';
+import { createPcmBuffer, PcmBuffer } from '../src/audio/pcm-buffer.js';
+import { encodeWav, decodeWav } from '../src/audio/wav-codec.js';
+import { AudioMixer } from '../src/utils/audio-mixer.js';
+import { db, track, timeline, MIX_OPTIONS } from './helpers/audio.js';
+
+const settings = { enabled: true, threshold: -20, ratio: 4, attack: 5, release: 50, makeupGain: 0 };
+
+function constant(sampleRate: number, frames: number, ...levels: [number, number][]): PcmBuffer {
+  const pcm = createPcmBuffer(sampleRate, 1, frames);
+  for (const [from, value] of levels) pcm.channels[0].fill(value, from);
+  return pcm;
+}
+
+describe('gainComputer', () => {
+  it('should pass quiet levels, divide the overshoot by the ratio and bend through the knee', () => {
+    expect(gainComputer(-40, -20, 4)).toBe(-40);
+    expect(gainComputer(-4, -20, 4)).toBe(-16);
+    expect(gainComputer(-20, -20, 4, 6)).toBeCloseTo(-20 - 0.75 * 6 / 8, 10);
+    expect(gainComputer(-17, -20, 4, 6)).toBeCloseTo(gainComputer(-17, -20, 4, 0), 10);
+  });
+});
+
+describe('compress', () => {
+  it('should settle on the static curve plus makeup gain', () => {
+    const { pcm, maxReduction } = compress(constant(16000, 8000, [0, 0.5]), { ...settings, makeupGain: 3 });
+
+    expect(db(pcm.channels[0][7999])).toBeCloseTo(-20 + (db(0.5) + 20) / 4 + 3, 1);
+    expect(maxReduction).toBeCloseTo((db(0.5) + 20) * 0.75, 1);
+  });
+
+  it('should clamp down over the attack time and recover over the release time', () => {
+    const input = constant(16000, 16000, [0, 0.01], [1600, 0.5], [8000, 0.01]);
+    const data = compress(input, settings).pcm.channels[0];
+    const full = (db(0.5) + 20) * 0.75;
+
+    // One time constant in, about 63% of the reduction is applied
+    expect(db(0.5) - db(data[1600 + 80])).toBeCloseTo(full * (1 - Math.exp(-1)), 0);
+    expect(db(0.5) - db(data[7999])).toBeCloseTo(full, 1);
+    // After the release time about 37% of it is left
+    expect(db(0.01) - db(data[8000 + 800])).toBeCloseTo(full * Math.exp(-1), 0);
+    expect(data[15999]).toBeCloseTo(0.01, 4);
+  });
+
+  it('should duck the input under a sidechain signal', () => {
+    const music = constant(16000, 16000, [0, 0.2]);
+    const voice = constant(16000, 16000, [8000, 0.8]);
+    const data = compress(music, { ...settings, ratio: 10 }, { sidechain: voice, knee: 0 }).pcm.channels[0];
+
+    expect(data[7000]).toBeCloseTo(0.2, 6);
+    expect(db(data[15000])).toBeCloseTo(db(0.2) - (db(0.8) + 20) * 0.9, 1);
+  });
+
+  it('should pass audio through when disabled', () => {
+    const pcm = constant(16000, 10, [0, 0.9]);
+    expect(compress(pcm, { ...settings, enabled: false })).toEqual({ pcm, maxReduction: 0 });
+  });
+});
+
+describe('compression in the mixer', () => {
+  const line = (duration: number, level: number) => encodeWav(constant(16000, duration * 16, [0, level]));
+
+  it('should duck a track keyed by another character', async () => {
+    const mixed = await new AudioMixer().mixConversation(
+      [track('music', 0, 2000, line(2000, 0.2)), track('alice', 1000, 1000, line(1000, 0.3))],
+      timeline(2000),
+      { ...MIX_OPTIONS, trackProcessing: { music: { compression: { ...settings, threshold: -30, ratio: 8 }, sidechain: 'alice' } } }
+    );
+
+    const data = decodeWav(mixed).pcm.channels[0];
+    expect(data[8000]).toBeCloseTo(0.2, 3);
+    // Music drops well under its level while Alice talks
+    expect(data[30000] - 0.3).toBeLessThan(0.05);
+  });
+
+  it('should compress the mix bus with the master settings or the legacy level', async () => {
+    const loud = [track('a', 0, 500, line(500, 0.9))];
+
+    const master = decodeWav(await new AudioMixer().mixConversation(loud, timeline(500), { ...MIX_OPTIONS, masterCompression: settings })).pcm.channels[0];
+    const legacy = decodeWav(await new AudioMixer().mixConversation(loud, timeline(500), { ...MIX_OPTIONS, compressionLevel: 0.5 })).pcm.channels[0];
+
+    expect(db(master[7000])).toBeCloseTo(-20 + (db(0.9) + 20) / 4, 1);
+    expect(legacy[7000]).toBeLessThan(0.8);
+    expect(legacy[7000]).toBeGreaterThan(0.5);
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { designBiquad, biquadResponse, applyBiquads } from '../src/audio/biquad.js';
+import { applyEQ, eqFilters, eqResponse, resolveEQSettings, EQ_PRESETS } from '../src/audio/equalizer.js';
+import { encodeWav, decodeWav } from '../src/audio/wav-codec.js';
+import { AudioMixer } from '../src/utils/audio-mixer.js';
+import { AudioProcessor } from '../src/utils/audio-processor.js';
+import { SubtitleParser } from '../src/video/subtitle-parser.js';
+import { sine, rms, db, track, timeline, MIX_OPTIONS } from './helpers/audio.js';
+
+// RMS after the filters have settled
+function level(data: Float32Array) {
+  return db(rms(data, Math.floor(data.length / 2)));
+}
+
+describe('designBiquad', () => {
+  it('should match the cookbook responses', () => {
+    const rate = 48000;
+
+    expect(biquadResponse([designBiquad('peaking', 1000, rate, 1, 6)], 1000, rate)).toBeCloseTo(6, 5);
+    expect(biquadResponse([designBiquad('lowshelf', 200, rate, 0.7, -4)], 20, rate)).toBeCloseTo(-4, 1);
+    expect(biquadResponse([designBiquad('highshelf', 5000, rate, 0.7, 3)], 20000, rate)).toBeCloseTo(3, 0);
+    expect(biquadResponse([designBiquad('highpass', 100, rate)], 100, rate)).toBeCloseTo(-3.01, 1);
+    expect(biquadResponse([designBiquad('lowpass', 8000, rate)], 100, rate)).toBeCloseTo(0, 3);
+  });
+
+  it('should reject frequencies outside the audible band of the sample rate', () => {
+    expect(() => designBiquad('lowpass', 30000, 48000)).toThrow('Filter frequency 30000 Hz is outside 0-24000 Hz');
+  });
+
+  it('should filter samples the way the response predicts', () => {
+    const filter = designBiquad('peaking', 1000, 16000, 2, -9);
+    const output = applyBiquads(sine(16000, 1000, 8000).channels[0], [filter]);
+
+    expect(level(output) - level(sine(16000, 1000, 8000).channels[0])).toBeCloseTo(-9, 1);
+  });
+});
+
+describe('applyEQ', () => {
+  it.each(Object.keys(EQ_PRESETS))('should render the %s preset as its response predicts', preset => {
+    for (const frequency of [60, 250, 2500, 9000]) {
+      const input = sine(44100, frequency, 22050);
+      const output = applyEQ(input, preset as keyof typeof EQ_PRESETS);
+
+      expect(level(output.channels[0]) - level(input.channels[0])).toBeCloseTo(eqResponse(preset as any, frequency, 44100), 1);
+    }
+  });
+
+  it('should cut rumble and lift presence for dialogue', () => {
+    expect(eqResponse('dialogue', 40, 48000)).toBeLessThan(-12);
+    expect(eqResponse('dialogue', 2500, 48000)).toBeGreaterThan(2.5);
+  });
+
+  it('should skip disabled settings, flat bands and cuts above Nyquist', () => {
+    const pcm = sine(16000, 440, 1600);
+
+    expect(applyEQ(pcm, { ...EQ_PRESETS.voice, enabled: false })).toBe(pcm);
+    // 16 kHz high cut and 10 kHz shelf are out of range at 16 kHz
+    expect(eqFilters('voice', 16000)).toHaveLength(3);
+    expect(eqFilters({ ...EQ_PRESETS.voice, lowShelf: { frequency: 200, gain: 0, q: 0.7 } }, 48000)).toHaveLength(4);
+    expect(() => resolveEQSettings('telephone' as any)).toThrow('Unknown EQ preset: telephone');
+  });
+});
+
+describe('EQ in the mixer and processor', () => {
+  const rumble = encodeWav(sine(16000, 50, 8000));
+
+  it('should apply character and scene EQ to their segments', async () => {
+    const mixed = await new AudioMixer().mixConversation(
+      [track('a', 0, 500, rumble), track('b', 500, 500, rumble), track('c', 1000, 500, rumble)],
+      timeline(1500),
+      {
+        ...MIX_OPTIONS,
+        trackEQ: { a: 'dialogue' },
+        sceneEQ: [{ startTime: 1000, endTime: 2000, eq: 'voice' }]
+      }
+    );
+
+    const data = decodeWav(mixed).pcm.channels[0];
+    const a = level(data.subarray(0, 8000));
+    const b = level(data.subarray(8000, 16000));
+    const c = level(data.subarray(16000, 24000));
+
+    expect(b).toBeCloseTo(20 * Math.log10(0.5 / Math.SQRT2), 1);
+    expect(a - b).toBeCloseTo(eqResponse('dialogue', 50, 16000), 0);
+    expect(c - b).toBeCloseTo(eqResponse('voice', 50, 16000), 0);
+  });
+
+  it('should equalize processed clips', async () => {
+    const processed = await new AudioProcessor().process(encodeWav(sine(16000, 1000, 8000)), {
+      format: 'wav',
+      normalize: false,
+      removeNoise: false,
+      eq: { ...EQ_PRESETS.voice, midPeaking: { frequency: 1000, gain: 6, q: 1 } }
+    });
+
+    const data = decodeWav(processed).pcm.channels[0];
+    expect(level(data) - 20 * Math.log10(0.5 / Math.SQRT2)).toBeCloseTo(eqResponse({ ...EQ_PRESETS.voice, midPeaking: { frequency: 1000, gain: 6, q: 1 } }, 1000, 16000), 1);
+  });
+
+  it('should remove rumble with the voice low cut and keep the top end', async () => {
+    const remove = async (frequency: number) => {
+      const processed = await new AudioProcessor().process(encodeWav(sine(48000, frequency, 24000)), { format: 'wav', normalize: false, removeNoise: true });
+      return level(decodeWav(processed).pcm.channels[0]) - 20 * Math.log10(0.5 / Math.SQRT2);
+    };
+
+    expect(await remove(30)).toBeLessThan(-15);
+    expect(await remove(12000)).toBeCloseTo(0, 1);
+  });
+
+  it('should apply the audio settings EQ preset to subtitle exports', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'export-eq-'));
+    const outputPath = path.join(directory, 'dub.wav');
+    const segment = (id: string, startTime: number, frequency: number) => ({
+      id, startTime, endTime: startTime + 0.5, audioBuffer: encodeWav(sine(48000, frequency, 24000)), speaker: id, text: 'x', confidence: 1
+    });
+    const synced = {
+      audioSegments: [segment('rumble', 0, 50), segment('tone', 1, 1000)],
+      totalDuration: 1.5,
+      timingAdjustments: [],
+      lipSyncMarkers: [],
+      qualityMetrics: { overallScore: 1, timingAccuracy: 1, lipSyncQuality: 1, naturalness: 1, issues: [] }
+    };
+    const settings = {
+      targetLUFS: -20,
+      dynamicRange: 12,
+      noiseReduction: false,
+      deEsser: false,
+      limiter: { enabled: false, threshold: -1, ceiling: -1, release: 50 },
+      roomTone: { enabled: false, duration: 0, level: 0, source: 'generate' as const }
+    };
+    // Rumble level against the tone, in dB
+    const balance = async (eqPreset: 'voice' | 'custom') => {
+      await new SubtitleParser().exportSynchronizedAudio(synced, outputPath, 'wav', { audioSettings: { ...settings, eqPreset } });
+      const data = decodeWav(await fs.readFile(outputPath)).pcm.channels[0];
+      return level(data.subarray(0, 24000)) - level(data.subarray(48000, 72000));
+    };
+
+    try {
+      expect(await balance('custom')).toBeCloseTo(0, 1);
+      expect(await balance('voice')).toBeCloseTo(eqResponse('voice', 50, 48000) - eqResponse('voice', 1000, 48000), 0);
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
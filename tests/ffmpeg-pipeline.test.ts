@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { FFmpegPipeline } from '../src/audio/ffmpeg-pipeline.js';
+import { AudioProcessor } from '../src/utils/audio-processor.js';
+import { detectAudioFormat, createStreamingWavHeader, parseWavHeader } from '../src/utils/audio-info.js';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+describe('FFmpegPipeline', () => {
+  let directory: string;
+
+  // Stand-ins for the ffmpeg binary that only exercise the pipe plumbing
+  const script = async (name: string, body: string) => {
+    const file = path.join(directory, name);
+    await fs.writeFile(file, `#!/bin/sh\n${body}\n`, { mode: 0o755 });
+    return file;
+  };
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'ffmpeg-pipeline-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should probe inputs and map one decode to several outputs', () => {
+    const pipeline = new FFmpegPipeline({ binaryPath: 'ffmpeg' });
+    const wav = Buffer.concat([createStreamingWavHeader(24000, 1, 16), Buffer.alloc(100)]);
+
+    const { args, inputFds, outputFds } = pipeline.buildCommand({
+      inputs: [wav],
+      filters: ['loudnorm'],
+      outputs: [{ format: 'mp3', bitrate: 128 }, { format: 'aac', filters: ['volume=0.5'] }]
+    });
+
+    expect(inputFds).toEqual([0]);
+    expect(outputFds).toEqual([1, 3]);
+    expect(args.slice(args.indexOf('-f'), args.indexOf('-i') + 2)).toEqual(['-f', 'wav', '-i', 'pipe:0']);
+    expect(args[args.indexOf('-filter_complex') + 1]).toBe('[0:a]loudnorm,asplit=2[s0][s1];[s1]volume=0.5[o1]');
+    expect(args.join(' ')).toContain('-map [s0] -b:a 128k -f mp3 pipe:1 -map [o1] -f adts pipe:3');
+
+    const joined = pipeline.buildCommand({
+      inputs: [wav, wav],
+      graph: ['[0:a][1:a]acrossfade=d=0.04[out]'],
+      outputs: [{ format: 'wav', label: 'out' }]
+    });
+    expect(joined.inputFds).toEqual([0, 3]);
+    expect(joined.args.join(' ')).toContain('-i pipe:3 -filter_complex [0:a][1:a]acrossfade=d=0.04[out] -map [out]');
+  });
+
+  it('should stream input through stdin and collect stdout', async () => {
+    const pipeline = new FFmpegPipeline({ binaryPath: await script('echo.sh', 'cat') });
+
+    const [output] = await pipeline.run({ inputs: [Buffer.from('pcm data')], outputs: [{ format: 'f32le' }] });
+
+    expect(output.toString()).toBe('pcm data');
+  });
+
+  it('should collect extra outputs from additional descriptors', async () => {
+    const pipeline = new FFmpegPipeline({ binaryPath: await script('split.sh', 'IN=$(cat); printf "%s" "$IN"; printf "%s" "$IN" >&3') });
+
+    const outputs = await pipeline.run({
+      inputs: [Buffer.from('same')],
+      outputs: [{ format: 'f32le' }, { format: 'f32le' }]
+    });
+
+    expect(outputs.map(output => output.toString())).toEqual(['same', 'same']);
+  });
+
+  it('should fix the sizes of piped WAV output', async () => {
+    const pipeline = new FFmpegPipeline({ binaryPath: await script('wav.sh', 'cat') });
+    const wav = Buffer.concat([createStreamingWavHeader(8000, 1, 16), Buffer.alloc(80)]);
+
+    const [output] = await pipeline.run({ inputs: [wav], outputs: [{ format: 'wav' }] });
+
+    expect(output.readUInt32LE(4)).toBe(output.length - 8);
+    expect(output.readUInt32LE(40)).toBe(80);
+    expect(parseWavHeader(output)?.dataLength).toBe(80);
+  });
+
+  it('should reject with ffmpeg error output and time out hung processes', async () => {
+    const failing = new FFmpegPipeline({ binaryPath: await script('fail.sh', 'echo "Invalid data found" >&2; exit 1') });
+    await expect(failing.run({ inputs: [Buffer.from('x')], outputs: [{ format: 'mp3' }] }))
+      .rejects.toThrow('ffmpeg exited with 1: Invalid data found');
+
+    const hanging = new FFmpegPipeline({ binaryPath: await script('hang.sh', 'exec sleep 5'), timeoutMs: 50 });
+    await expect(hanging.run({ inputs: [Buffer.from('x')], outputs: [{ format: 'mp3' }] }))
+      .rejects.toThrow('timed out');
+  });
+
+  it('should decode raw float output into planar PCM', async () => {
+    const samples = new Float32Array([0.5, -0.5, 0.25, -0.25]);
+    const processor = new AudioProcessor(new FFmpegPipeline({
+      binaryPath: await script('raw.sh', `cat > /dev/null; printf '${Array.from(Buffer.from(samples.buffer)).map(b => `\\${b.toString(8).padStart(3, '0')}`).join('')}'`)
+    }));
+
+    const pcm = await processor.decode(Buffer.from('anything'), { sampleRate: 16000, channels: 2 });
+
+    expect(pcm.sampleRate).toBe(16000);
+    expect(Array.from(pcm.channels[0])).toEqual([0.5, 0.25]);
+    expect(Array.from(pcm.channels[1])).toEqual([-0.5, -0.25]);
+  });
+});
+
+describe('detectAudioFormat', () => {
+  it('should recognize containers from their magic bytes', () => {
+    const padded = (head: Buffer) => Buffer.concat([head, Buffer.alloc(16)]);
+
+    expect(detectAudioFormat(createStreamingWavHeader(8000, 1, 16))).toBe('wav');
+    expect(detectAudioFormat(padded(Buffer.from('ID3')))).toBe('mp3');
+    expect(detectAudioFormat(padded(Buffer.from([0xFF, 0xFB, 0x90, 0xC0])))).toBe('mp3');
+    expect(detectAudioFormat(padded(Buffer.from([0xFF, 0xF1, 0x58, 0x80])))).toBe('aac');
+    expect(detectAudioFormat(padded(Buffer.from('OggS')))).toBe('ogg');
+    expect(detectAudioFormat(padded(Buffer.from('fLaC')))).toBe('flac');
+    expect(detectAudioFormat(padded(Buffer.from('\0\0\0\x20ftypM4A ')))).toBe('mov');
+    expect(detectAudioFormat(padded(Buffer.from('hello')))).toBeNull();
+  });
+});
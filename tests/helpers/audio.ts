@@ -0,0 +1,65 @@
+import { createPcmBuffer, PcmBuffer } from '../../src/audio/pcm-buffer.js';
+import { AudioSegment, AudioTrackResult, ConversationTimeline, MixingOptions } from '../../src/interfaces/conversation.interface.js';
+
+/**
+ * Mono sine of `frames` frames at `level` peak
+ */
+export function sine(sampleRate: number, frequency: number, frames: number, level = 0.5): PcmBuffer {
+  const pcm = createPcmBuffer(sampleRate, 1, frames);
+  pcm.channels[0].forEach((_, i, data) => { data[i] = level * Math.sin(2 * Math.PI * frequency * i / sampleRate); });
+  return pcm;
+}
+
+/**
+ * `frames` frames of DC at `level` on every channel
+ */
+export function constant(sampleRate: number, frames: number, level: number, channelCount = 1): PcmBuffer {
+  const pcm = createPcmBuffer(sampleRate, channelCount, frames);
+  pcm.channels.forEach(data => data.fill(level));
+  return pcm;
+}
+
+export function rms(data: Float32Array, from = 0, to = data.length): number {
+  let sum = 0;
+  for (let i = from; i < to; i++) sum += data[i] * data[i];
+  return Math.sqrt(sum / (to - from));
+}
+
+export const db = (value: number) => 20 * Math.log10(Math.abs(value));
+
+/**
+ * Mixer options with every automatic stage off: 16 kHz mono, no
+ * normalization, compression or spatial audio
+ */
+export const MIX_OPTIONS: MixingOptions = {
+  enableAutomaticMixing: true,
+  preserveIndividualTracks: false,
+  normalizeAudio: false,
+  compressionLevel: 0,
+  spatialAudioEnabled: false,
+  sampleRate: 16000,
+  channels: 1
+};
+
+export const NEUTRAL = { type: 'neutral' as const, intensity: 0.5, variations: [] };
+
+export function segment(lineId: string, startTime: number, duration: number, audioBuffer: Buffer): AudioSegment {
+  return { lineId, startTime, endTime: startTime + duration, text: 'x', emotion: NEUTRAL, audioBuffer };
+}
+
+/**
+ * A character track with one line of `audioBuffer` at `startTime` (ms)
+ */
+export function track(characterId: string, startTime: number, duration: number, audioBuffer: Buffer): AudioTrackResult {
+  return {
+    characterId,
+    characterName: characterId,
+    audioBuffer,
+    totalDuration: startTime + duration,
+    segments: [segment(characterId, startTime, duration, audioBuffer)]
+  };
+}
+
+export function timeline(totalDuration: number): ConversationTimeline {
+  return { totalDuration, events: [], characterUsage: {} };
+}
@@ -0,0 +1,196 @@
+import { describe, it, expect } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { normalizeLoudness, loudnessTargetForExport, resolveLoudnessTarget } from '../src/audio/loudness-normalizer.js';
+import { limitTruePeak } from '../src/audio/limiter.js';
+import { measureLoudness } from '../src/audio/loudness.js';
+import { createPcmBuffer, PcmBuffer } from '../src/audio/pcm-buffer.js';
+import { encodeWav, decodeWav } from '../src/audio/wav-codec.js';
+import { AudioMixer } from '../src/utils/audio-mixer.js';
+import { AudioProcessor } from '../src/utils/audio-processor.js';
+import { SubtitleParser } from '../src/video/subtitle-parser.js';
+import { track, timeline, MIX_OPTIONS } from './helpers/audio.js';
+
+/**
+ * Stereo 1 kHz sine at `level` dBFS with optional full-scale bursts of
+ * `burstMs` every half second
+ */
+function program(sampleRate: number, seconds: number, level: number, burstMs = 0): PcmBuffer {
+  const pcm = createPcmBuffer(sampleRate, 2, Math.round(seconds * sampleRate));
+  const amplitude = Math.pow(10, level / 20);
+  const burst = Math.round(burstMs * sampleRate / 1000);
+
+  pcm.channels.forEach(data => {
+    for (let i = 0; i < data.length; i++) {
+      const gain = i % (sampleRate / 2) < burst ? 1 : amplitude;
+      data[i] = gain * Math.sin(2 * Math.PI * 1000 * i / sampleRate);
+    }
+  });
+
+  return pcm;
+}
+
+const settings = {
+  targetLUFS: -20,
+  dynamicRange: 12,
+  eqPreset: 'voice' as const,
+  noiseReduction: false,
+  deEsser: false,
+  limiter: { enabled: true, threshold: -4, ceiling: -2, release: 50 },
+  roomTone: { enabled: false, duration: 0, level: 0, source: 'generate' as const }
+};
+
+describe('normalizeLoudness', () => {
+  it('should bring quiet speech up to the podcast target without limiting', () => {
+    const result = normalizeLoudness(program(48000, 2, -30), 'podcast');
+
+    expect(result.before.integrated).toBeCloseTo(-30, 1);
+    expect(result.after.integrated).toBeCloseTo(-16, 1);
+    expect(result.gain).toBeCloseTo(14, 1);
+    expect(result.limited).toBe(false);
+  });
+
+  it('should hold true peaks under the ceiling while reaching the target', () => {
+    const result = normalizeLoudness(program(48000, 3, -20, 5), 'streaming');
+
+    expect(result.before.truePeak).toBeGreaterThan(-0.5);
+    expect(result.limited).toBe(true);
+    expect(Math.abs(result.after.integrated + 14)).toBeLessThanOrEqual(0.1);
+    expect(result.after.truePeak).toBeLessThanOrEqual(-0.95);
+  });
+
+  it('should return silence unchanged', () => {
+    const silence = createPcmBuffer(48000, 2, 48000);
+    const result = normalizeLoudness(silence, 'broadcast');
+
+    expect(result.pcm).toBe(silence);
+    expect(result.gain).toBe(0);
+  });
+
+  it('should reject unknown profiles', () => {
+    expect(() => resolveLoudnessTarget('cinema' as any)).toThrow('Unknown loudness profile: cinema');
+  });
+});
+
+describe('limitTruePeak', () => {
+  it('should leave audio alone when disabled or under the threshold', () => {
+    const pcm = program(16000, 0.5, -12);
+
+    expect(limitTruePeak(pcm, { ...settings.limiter, enabled: false }).pcm).toBe(pcm);
+    expect(limitTruePeak(pcm, settings.limiter)).toEqual({ pcm, maxReduction: 0 });
+  });
+
+  it('should reduce gain ahead of a peak and release afterwards', () => {
+    const pcm = createPcmBuffer(16000, 1, 16000);
+    pcm.channels[0].fill(0.1);
+    pcm.channels[0].fill(0.9, 8000, 8016);
+
+    const { pcm: limited, maxReduction } = limitTruePeak(pcm, { enabled: true, threshold: -6, ceiling: -6, release: 20 });
+    const data = limited.channels[0];
+
+    expect(maxReduction).toBeGreaterThan(2.5);
+    expect(Math.max(...data.subarray(7990, 8030))).toBeLessThanOrEqual(0.502);
+    expect(data[7999]).toBeLessThan(0.1); // already ducking in the lookahead
+    expect(data[4000]).toBeCloseTo(0.1, 6);
+    expect(data[12000]).toBeCloseTo(0.1, 3); // recovered after the release
+  });
+});
+
+describe('loudnessTargetForExport', () => {
+  it('should prefer the profile, then targetLUFS, then the standard, then the settings', () => {
+    const config = { format: 'wav' as const, sampleRate: 48000, bitDepth: 24, channels: 2, quality: 'high' as const };
+
+    expect(loudnessTargetForExport({ ...config, loudnessProfile: 'podcast', targetLUFS: -18 }, settings)).toEqual({
+      targetLUFS: -16,
+      truePeakCeiling: -1,
+      limiter: settings.limiter
+    });
+    expect(loudnessTargetForExport({ ...config, targetLUFS: -18, loudnessStandard: 'EBU_R128' }, settings)).toMatchObject({
+      targetLUFS: -18,
+      truePeakCeiling: -2
+    });
+    expect(loudnessTargetForExport({ ...config, loudnessStandard: 'EBU_R128' })).toEqual({ targetLUFS: -23, truePeakCeiling: -1 });
+    expect(loudnessTargetForExport({ ...config, loudnessStandard: 'ITU-R_BS.1770' })).toMatchObject({ targetLUFS: -24, truePeakCeiling: -2 });
+    expect(loudnessTargetForExport(config, settings)).toMatchObject({ targetLUFS: -20, truePeakCeiling: -2 });
+    expect(loudnessTargetForExport(config)).toBeUndefined();
+  });
+});
+
+describe('loudness targets in the mixer and processor', () => {
+  it('should normalize a conversation mix to the broadcast target', async () => {
+    const line = encodeWav(program(48000, 2, -35));
+
+    const mixed = await new AudioMixer().mixConversation(
+      [track('a', 0, 2000, line)],
+      timeline(2000),
+      { ...MIX_OPTIONS, normalizeAudio: true, sampleRate: 48000, channels: 2, loudness: 'broadcast' }
+    );
+
+    expect(measureLoudness(decodeWav(mixed).pcm).integrated).toBeCloseTo(-23, 1);
+  });
+
+  it('should normalize processed WAV clips to the requested target', async () => {
+    const processor = new AudioProcessor();
+    const clip = encodeWav(program(24000, 1, -30));
+
+    const normalized = await processor.normalizeAudio(clip, 'wav', { targetLUFS: -18 });
+    expect(measureLoudness(decodeWav(normalized).pcm).integrated).toBeCloseTo(-18, 1);
+
+    const { result } = await processor.normalizeLoudness(clip, 'wav', 'podcast');
+    expect(result.after.integrated).toBeCloseTo(-16, 1);
+  });
+
+  it('should concatenate clips in PCM at the source format with matched loudness', async () => {
+    const quiet = program(24000, 1, -30);
+    const loud = program(16000, 1, -10);
+    const mono = { sampleRate: 16000, channels: [loud.channels[0]] };
+
+    const joined = await new AudioProcessor().concatenate([encodeWav(quiet), encodeWav(mono)], { format: 'wav', crossfadeMs: 40 });
+    const { pcm } = decodeWav(joined);
+    const part = (from: number, to: number) => ({ sampleRate: pcm.sampleRate, channels: pcm.channels.map(data => data.slice(from, to)) });
+
+    expect(pcm.sampleRate).toBe(24000);
+    expect(pcm.channels).toHaveLength(2);
+    expect(pcm.channels[0].length).toBe(48000 - 960);
+    expect(measureLoudness(part(0, 22000)).integrated).toBeCloseTo(-16, 0);
+    expect(measureLoudness(part(25000, 47040)).integrated).toBeCloseTo(-16, 0);
+  });
+
+  it('should normalize and re-encode a single clip', async () => {
+    const clip = encodeWav(program(24000, 1, -30), { bitDepth: 24 });
+
+    const joined = await new AudioProcessor().concatenate([clip], { format: 'wav' });
+    const decoded = decodeWav(joined);
+
+    expect(decoded.bitDepth).toBe(16);
+    expect(measureLoudness(decoded.pcm).integrated).toBeCloseTo(-16, 0);
+  });
+
+  it('should normalize subtitle exports to the export config, or the audio settings without one', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'loudness-'));
+    const outputPath = path.join(directory, 'dub.wav');
+    const config = { format: 'wav' as const, sampleRate: 24000, bitDepth: 16, channels: 2, quality: 'high' as const };
+    const synced = {
+      audioSegments: [{ id: 'segment_1', startTime: 0, endTime: 2, audioBuffer: encodeWav(program(24000, 2, -30)), speaker: 'ALICE', text: 'x', confidence: 1 }],
+      totalDuration: 2,
+      timingAdjustments: [],
+      lipSyncMarkers: [],
+      qualityMetrics: { overallScore: 1, timingAccuracy: 1, lipSyncQuality: 1, naturalness: 1, issues: [] }
+    };
+    const exported = async () => decodeWav(await fs.readFile(outputPath)).pcm;
+
+    try {
+      const parser = new SubtitleParser();
+      await parser.exportSynchronizedAudio(synced, outputPath, 'wav', { exportConfig: { ...config, loudnessProfile: 'broadcast' }, audioSettings: settings });
+      const broadcast = await exported();
+      expect(broadcast.sampleRate).toBe(24000);
+      expect(measureLoudness(broadcast).integrated).toBeCloseTo(-23, 1);
+
+      await parser.exportSynchronizedAudio(synced, outputPath, 'wav', { audioSettings: settings });
+      expect(measureLoudness(await exported()).integrated).toBeCloseTo(-20, 1);
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { measureLoudness, describeLoudness, loudnessQualityMetrics } from '../src/audio/loudness.js';
+import { createPcmBuffer, PcmBuffer } from '../src/audio/pcm-buffer.js';
+import { encodeWav } from '../src/audio/wav-codec.js';
+import { AudioProcessor } from '../src/utils/audio-processor.js';
+
+/**
+ * Stereo 1 kHz sine in both channels; sections are [seconds, dBFS] pairs
+ */
+function stereoTone(sampleRate: number, sections: [number, number][]): PcmBuffer {
+  const frames = sections.reduce((sum, [seconds]) => sum + Math.round(seconds * sampleRate), 0);
+  const pcm = createPcmBuffer(sampleRate, 2, frames);
+  let offset = 0;
+
+  for (const [seconds, level] of sections) {
+    const amplitude = Math.pow(10, level / 20);
+    const count = Math.round(seconds * sampleRate);
+    for (let i = 0; i < count; i++) {
+      const value = amplitude * Math.sin(2 * Math.PI * 1000 * (offset + i) / sampleRate);
+      pcm.channels[0][offset + i] = value;
+      pcm.channels[1][offset + i] = value;
+    }
+    offset += count;
+  }
+
+  return pcm;
+}
+
+describe('measureLoudness', () => {
+  it('should read a -23 dBFS stereo 1 kHz tone as -23 LUFS (EBU Tech 3341 case 1)', () => {
+    const report = measureLoudness(stereoTone(48000, [[4, -23]]));
+
+    expect(report.integrated).toBeCloseTo(-23, 1);
+    expect(report.momentaryMax).toBeCloseTo(-23, 1);
+    expect(report.shortTermMax).toBeCloseTo(-23, 1);
+    expect(report.momentary).toHaveLength(37);
+    expect(report.shortTerm).toHaveLength(11);
+    expect(report.samplePeak).toBeCloseTo(-23, 1);
+    expect(report.duration).toBe(4);
+  });
+
+  it('should measure the same level at other sample rates', () => {
+    expect(measureLoudness(stereoTone(44100, [[2, -23]])).integrated).toBeCloseTo(-23, 1);
+    expect(measureLoudness(stereoTone(22050, [[2, -23]])).integrated).toBeCloseTo(-23, 0);
+  });
+
+  it('should gate quiet passages out of the integrated level', () => {
+    const report = measureLoudness(stereoTone(16000, [[10, -20], [10, -40]]));
+
+    // The ungated mean would be about -23 LUFS; the -40 section falls under the relative gate
+    expect(report.integrated).toBeCloseTo(-20, 0);
+  });
+
+  it('should report the loudness range between loud and quiet sections (EBU Tech 3342 case 1)', () => {
+    const report = measureLoudness(stereoTone(16000, [[20, -20], [20, -30]]));
+
+    expect(report.range).toBeGreaterThan(9);
+    expect(report.range).toBeLessThan(11);
+  });
+
+  it('should find inter-sample peaks above the sample peak', () => {
+    // A quarter-rate sine sampled 45 degrees off its crests never lands on them
+    const pcm = createPcmBuffer(48000, 1, 4800);
+    pcm.channels[0].forEach((_, i, data) => { data[i] = Math.sin(Math.PI * i / 2 + Math.PI / 4); });
+
+    const report = measureLoudness(pcm);
+
+    expect(report.samplePeak).toBeCloseTo(-3.01, 1);
+    expect(report.truePeak).toBeGreaterThan(-0.5);
+  });
+
+  it('should report silence as -Infinity', () => {
+    const report = measureLoudness(createPcmBuffer(48000, 2, 48000));
+
+    expect(report.integrated).toBe(-Infinity);
+    expect(report.samplePeak).toBe(-Infinity);
+    expect(report.range).toBe(0);
+    expect(describeLoudness(report)[0]).toBe('🔊 Integrated: -inf LUFS');
+  });
+
+  it('should measure clips shorter than a window as a whole', () => {
+    const report = measureLoudness(stereoTone(48000, [[0.2, -23]]));
+
+    expect(report.momentary).toHaveLength(1);
+    expect(report.integrated).toBeCloseTo(-23, 0);
+  });
+
+  it('should map into quality metrics and measure encoded buffers', async () => {
+    const wav = encodeWav(stereoTone(48000, [[1, -18]]), { bitDepth: 24 });
+    const report = await new AudioProcessor().measureLoudness(wav);
+
+    expect(loudnessQualityMetrics(report)).toMatchObject({ lufs: report.integrated, peak: report.samplePeak, dynamicRange: report.range });
+    expect(report.integrated).toBeCloseTo(-18, 1);
+  });
+});
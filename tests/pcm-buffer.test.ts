@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { interleave, deinterleave, joinPcm, pcmFrameCount } from '../src/audio/pcm-buffer.js';
+import { constant } from './helpers/audio.js';
+
+describe('PcmBuffer', () => {
+  it('should round-trip interleaved samples', () => {
+    const samples = new Float32Array([0.1, -0.1, 0.2, -0.2, 0.3, -0.3]);
+    const pcm = deinterleave(samples, 2, 8000);
+
+    expect(Array.from(pcm.channels[0])).toEqual([0.1, 0.2, 0.3].map(Math.fround));
+    expect(Array.from(pcm.channels[1])).toEqual([-0.1, -0.2, -0.3].map(Math.fround));
+    expect(interleave(pcm)).toEqual(samples);
+  });
+
+  it('should butt-splice clips without a crossfade', () => {
+    const joined = joinPcm([constant(1000, 10, 0.5), constant(1000, 5, -0.5)]);
+
+    expect(pcmFrameCount(joined)).toBe(15);
+    expect(joined.channels[0][9]).toBe(0.5);
+    expect(joined.channels[0][10]).toBe(-0.5);
+  });
+
+  it('should overlap clips with an equal-power crossfade', () => {
+    const joined = joinPcm([constant(1000, 100, 1), constant(1000, 100, 1)], [0.02]);
+    const data = joined.channels[0];
+
+    expect(pcmFrameCount(joined)).toBe(180);
+    // Two identical signals through cos/sin gains peak at sqrt(2) mid-seam
+    expect(data[89]).toBeCloseTo(Math.SQRT2, 2);
+    expect(data[80]).toBeGreaterThan(1);
+    expect(data[100]).toBe(1);
+    // Power stays constant for uncorrelated material: cos² + sin² = 1
+    const progress = (9 + 0.5) / 20;
+    expect(Math.cos(progress * Math.PI / 2) ** 2 + Math.sin(progress * Math.PI / 2) ** 2).toBeCloseTo(1, 10);
+  });
+
+  it('should clamp a crossfade to the shorter clip and reject mismatched formats', () => {
+    expect(pcmFrameCount(joinPcm([constant(1000, 100, 1), constant(1000, 10, 1)], [1]))).toBe(100);
+    expect(() => joinPcm([constant(1000, 10, 1), constant(2000, 10, 1)])).toThrow('sample rate');
+  });
+});
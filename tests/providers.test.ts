@@ -0,0 +1,463 @@
+import { describe, it, expect, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { LocalCommandProvider } from '../src/providers/local/provider.js';
+import { SyntheticProvider } from '../src/providers/synthetic/provider.js';
+import { GoogleProvider, GoogleTTSClient, GoogleSynthesizeRequest } from '../src/providers/google/provider.js';
+import { PollyProvider, PollyClientLike } from '../src/providers/amazon/provider.js';
+import { LipSyncEngine } from '../src/video/lipsync-engine.js';
+import { SubtitleReader } from '../src/video/format-readers/subtitle-reader.js';
+import { DescribeVoicesCommand } from '@aws-sdk/client-polly';
+import { GenerationRequest, VoiceModulation } from '../src/interfaces/voice.interface.js';
+import { SSMLGenerator } from '../src/utils/ssml-generator.js';
+
+const ssmlCharacter: any = {
+  id: 'narrator',
+  name: 'Narrator',
+  voiceProfile: { provider: 'google', voiceId: 'en-US-Neural2-F', gender: 'female', age: 'adult', language: 'en-US' },
+  personality: { traits: ['calm'], speakingStyle: 'conversational', emotionalRange: { default: 'neutral', intensity: 0.5, variability: 0.2 } },
+  speechPatterns: { pace: 'medium', pauseFrequency: 0.2, emphasisStyle: 'moderate', fillerWords: [], catchphrases: [] }
+};
+
+describe('LocalCommandProvider', () => {
+  it('should initialize when the command exists on PATH', async () => {
+    const provider = new LocalCommandProvider({ command: 'cat' });
+    await expect(provider.initialize()).resolves.toBeUndefined();
+  });
+
+  it('should fail to initialize when the command is missing', async () => {
+    const provider = new LocalCommandProvider({ command: 'definitely-not-a-tts-binary {text}' });
+    await expect(provider.initialize()).rejects.toThrow('not found');
+  });
+
+  it('should pipe text through stdin and read audio from stdout', async () => {
+    const provider = new LocalCommandProvider({ command: 'cat' });
+    const request: GenerationRequest = { text: 'Hello offline world', outputFormat: 'wav' };
+
+    const audio = await provider.generateSpeech(request);
+    expect(audio.toString()).toBe('Hello offline world');
+  });
+
+  it('should read audio from the {output} file and clean it up', async () => {
+    const provider = new LocalCommandProvider({ command: 'tee {output}' });
+    const audio = await provider.generateSpeech({ text: 'written to disk', outputFormat: 'wav' });
+
+    expect(audio.toString()).toBe('written to disk');
+  });
+
+  it('should substitute voice and rate placeholders', async () => {
+    const provider = new LocalCommandProvider({
+      command: 'echo {voice} {rate} {text}',
+      voices: [{ id: 'narrator', name: 'Narrator' }]
+    });
+
+    const audio = await provider.generateSpeech({
+      text: 'fast',
+      outputFormat: 'wav',
+      modulation: {
+        emotion: { type: 'neutral', intensity: 0.5, variations: [] },
+        speed: 2.0,
+        pitch: 0,
+        volume: 1.0,
+        emphasis: [],
+        pauses: []
+      }
+    });
+
+    expect(audio.toString().trim()).toBe('narrator 350 fast');
+  });
+
+  it('should surface non-zero exit codes as errors', async () => {
+    const provider = new LocalCommandProvider({ command: 'false' });
+    await expect(provider.generateSpeech({ text: 'x', outputFormat: 'wav' })).rejects.toThrow('exited with code 1');
+  });
+
+  it('should feed espeak-ng text that starts with a dash on stdin', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'espeak-'));
+    // Stand-in espeak-ng that copies stdin to the -w file
+    await fs.writeFile(path.join(directory, 'espeak-ng'), '#!/bin/sh\nwhile [ $# -gt 0 ]; do [ "$1" = -w ] && out="$2"; shift; done\ncat > "$out"\n', { mode: 0o755 });
+    const originalPath = process.env.PATH;
+    process.env.PATH = `${directory}${path.delimiter}${originalPath}`;
+
+    try {
+      const audio = await new LocalCommandProvider({ preset: 'espeak-ng' }).generateSpeech({ text: '-- Hello', outputFormat: 'wav' });
+      expect(audio.toString()).toBe('-- Hello');
+    } finally {
+      process.env.PATH = originalPath;
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should list preset voices and match prompts to them', async () => {
+    const provider = new LocalCommandProvider({ preset: 'espeak-ng' });
+    const voices = await provider.listVoices();
+
+    expect(voices.length).toBeGreaterThan(0);
+    expect(voices.every(v => v.provider === 'local')).toBe(true);
+
+    const profile = await provider.createVoiceProfile('British female narrator');
+    expect(profile.provider).toBe('local');
+    expect(profile.baseVoiceId).toBe('en-gb+f3');
+  });
+});
+
+describe('SyntheticProvider', () => {
+  const provider = new SyntheticProvider();
+
+  const readWav = (buffer: Buffer) => ({
+    riff: buffer.toString('ascii', 0, 4),
+    wave: buffer.toString('ascii', 8, 12),
+    channels: buffer.readUInt16LE(22),
+    sampleRate: buffer.readUInt32LE(24),
+    bitDepth: buffer.readUInt16LE(34),
+    dataSize: buffer.readUInt32LE(40),
+    duration: buffer.readUInt32LE(40) / 2 / buffer.readUInt32LE(24)
+  });
+
+  const modulation = (overrides: Partial<VoiceModulation> = {}): VoiceModulation => ({
+    emotion: { type: 'neutral', intensity: 0.5, variations: [] },
+    speed: 1.0,
+    pitch: 0,
+    volume: 1.0,
+    emphasis: [],
+    pauses: [],
+    ...overrides
+  });
+
+  it('should render a valid mono 16-bit WAV file', async () => {
+    const audio = await provider.generateSpeech({ text: 'Hello there, world.', outputFormat: 'wav' });
+    const wav = readWav(audio);
+
+    expect(wav.riff).toBe('RIFF');
+    expect(wav.wave).toBe('WAVE');
+    expect(wav.channels).toBe(1);
+    expect(wav.sampleRate).toBe(22050);
+    expect(wav.bitDepth).toBe(16);
+    expect(wav.dataSize).toBe(audio.length - 44);
+    expect(wav.duration).toBeGreaterThan(0.3);
+  });
+
+  it('should be fully deterministic', async () => {
+    const request: GenerationRequest = { text: 'Same input, same output!', outputFormat: 'wav' };
+    const first = await provider.generateSpeech(request);
+    const second = await provider.generateSpeech(request);
+
+    expect(first.equals(second)).toBe(true);
+  });
+
+  it('should shorten audio as speed increases', async () => {
+    const text = 'The quick brown fox jumps over the lazy dog';
+    const normal = readWav(await provider.generateSpeech({ text, outputFormat: 'wav', modulation: modulation() }));
+    const fast = readWav(await provider.generateSpeech({ text, outputFormat: 'wav', modulation: modulation({ speed: 2.0 }) }));
+
+    expect(fast.duration).toBeLessThan(normal.duration * 0.6);
+  });
+
+  it('should insert pauses and lengthen emphasized words', async () => {
+    const text = 'This is important';
+    const base = readWav(await provider.generateSpeech({ text, outputFormat: 'wav', modulation: modulation() }));
+    const paused = readWav(await provider.generateSpeech({
+      text,
+      outputFormat: 'wav',
+      modulation: modulation({ pauses: [{ position: 8, duration: 500 }] })
+    }));
+    const emphasized = readWav(await provider.generateSpeech({
+      text,
+      outputFormat: 'wav',
+      modulation: modulation({ emphasis: [{ word: 'important', strength: 1, position: 8 }] })
+    }));
+
+    expect(paused.duration - base.duration).toBeCloseTo(0.5, 2);
+    expect(emphasized.duration).toBeGreaterThan(base.duration);
+  });
+
+  it('should match voice prompts to synthetic voices', async () => {
+    const profile = await provider.createVoiceProfile('Deep male voice');
+    expect(profile.provider).toBe('synthetic');
+    expect(profile.baseVoiceId).toBe('synth-low');
+  });
+});
+
+describe('GoogleProvider', () => {
+  const createStubClient = () => {
+    const requests: GoogleSynthesizeRequest[] = [];
+    const client: GoogleTTSClient = {
+      synthesizeSpeech: vi.fn(async (request: GoogleSynthesizeRequest) => {
+        requests.push(request);
+        return [{ audioContent: new Uint8Array([1, 2, 3, 4]) }];
+      }),
+      listVoices: vi.fn(async () => [{
+        voices: [
+          { name: 'en-US-Standard-B', languageCodes: ['en-US'], ssmlGender: 'MALE', naturalSampleRateHertz: 24000 },
+          { name: 'en-US-Neural2-F', languageCodes: ['en-US'], ssmlGender: 'FEMALE', naturalSampleRateHertz: 24000 },
+          { name: 'en-GB-Wavenet-A', languageCodes: ['en-GB'], ssmlGender: 'FEMALE', naturalSampleRateHertz: 24000 }
+        ]
+      }])
+    };
+    return { client, requests };
+  };
+
+  it('should initialize against an injected client', async () => {
+    const { client } = createStubClient();
+    const provider = new GoogleProvider({ client });
+
+    await provider.initialize();
+    expect(client.listVoices).toHaveBeenCalledWith({ languageCode: 'en-US' });
+  });
+
+  it('should list voices with language codes', async () => {
+    const { client } = createStubClient();
+    const provider = new GoogleProvider({ client });
+    const voices = await provider.listVoices();
+
+    expect(voices).toHaveLength(3);
+    expect(voices[0].provider).toBe('google');
+    expect(voices[0].characteristics.gender).toBe('male');
+    expect(voices[2].customSettings.languageCodes).toEqual(['en-GB']);
+    expect(voices[2].characteristics.accent).toBe('british');
+  });
+
+  it('should send plain text and pick the encoding from the output format', async () => {
+    const { client, requests } = createStubClient();
+    const provider = new GoogleProvider({ client });
+
+    const audio = await provider.generateSpeech({ text: 'Plain text', outputFormat: 'mp3' });
+    await provider.generateSpeech({ text: 'Plain text', outputFormat: 'wav' });
+
+    expect(audio).toEqual(Buffer.from([1, 2, 3, 4]));
+    expect(requests[0].input).toEqual({ text: 'Plain text' });
+    expect(requests[0].audioConfig.audioEncoding).toBe('MP3');
+    expect(requests[1].audioConfig.audioEncoding).toBe('LINEAR16');
+  });
+
+  it('should pass SSML through and convert modulation to SSML', async () => {
+    const { client, requests } = createStubClient();
+    const provider = new GoogleProvider({ client, audioEncoding: 'OGG_OPUS' });
+
+    await provider.generateSpeech({ text: '<speak>Hello <break time="200ms"/> there</speak>', outputFormat: 'mp3' });
+    await provider.generateSpeech({
+      text: 'This is important',
+      outputFormat: 'mp3',
+      modulation: {
+        emotion: { type: 'neutral', intensity: 0.5, variations: [] },
+        speed: 1.0,
+        pitch: 0,
+        volume: 1.0,
+        emphasis: [{ word: 'important', strength: 0.9, position: 8 }],
+        pauses: []
+      }
+    });
+
+    expect(requests[0].input.ssml).toBe('<speak>Hello <break time="200ms"/> there</speak>');
+    expect(requests[1].input.ssml).toContain('<emphasis level="strong">important</emphasis>');
+    expect(requests[1].audioConfig.audioEncoding).toBe('OGG_OPUS');
+  });
+
+  it('should send SSMLGenerator documents as SSML and escape converted text', async () => {
+    const { client, requests } = createStubClient();
+    const provider = new GoogleProvider({ client });
+    const { rawSSML } = new SSMLGenerator().generateSSML('Hello there, how are you?', ssmlCharacter);
+
+    await provider.generateSpeech({ text: rawSSML, outputFormat: 'mp3' });
+    await provider.generateSpeech({
+      text: 'Tom & Jerry <3',
+      outputFormat: 'mp3',
+      modulation: { emotion: { type: 'neutral', intensity: 0.5, variations: [] }, speed: 1.0, pitch: 0, volume: 1.0, emphasis: [], pauses: [{ position: 5, duration: 300 }] }
+    });
+
+    expect(rawSSML.startsWith('<?xml')).toBe(true);
+    expect(requests[0].input.text).toBeUndefined();
+    expect(requests[0].input.ssml).toMatch(/^<speak>/);
+    expect(requests[0].input.ssml).toContain('how are you');
+    expect(requests[1].input.ssml).toBe('<speak>Tom &amp;<break time="300ms"/> Jerry &lt;3</speak>');
+  });
+
+  it('should use the profile voice name and language', async () => {
+    const { client, requests } = createStubClient();
+    const provider = new GoogleProvider({ client });
+    const [, , britishVoice] = await provider.listVoices();
+
+    await provider.generateSpeech({ text: 'Cheerio', voiceProfile: britishVoice, outputFormat: 'mp3' });
+    expect(requests[0].voice).toEqual({ languageCode: 'en-GB', name: 'en-GB-Wavenet-A' });
+  });
+
+  it('should prefer premium voices when matching prompts', async () => {
+    const { client } = createStubClient();
+    const provider = new GoogleProvider({ client });
+    const profile = await provider.createVoiceProfile('Friendly female voice');
+
+    expect(profile.baseVoiceId).toBe('en-US-Neural2-F');
+  });
+});
+
+describe('PollyProvider', () => {
+  const speechMarksBody = [
+    '{"time":0,"type":"sentence","start":0,"end":11,"value":"Hello world."}',
+    '{"time":6,"type":"word","start":0,"end":5,"value":"Hello"}',
+    '{"time":6,"type":"viseme","value":"k"}',
+    '{"time":120,"type":"viseme","value":"E"}',
+    '{"time":380,"type":"word","start":6,"end":11,"value":"world"}',
+    '{"time":380,"type":"viseme","value":"u"}',
+    '{"time":900,"type":"sentence","start":13,"end":24,"value":"Second one."}',
+    '{"time":900,"type":"word","start":13,"end":19,"value":"Second"}'
+  ].join('\n');
+
+  const createStubClient = () => {
+    const synthesizeInputs: any[] = [];
+    const client: PollyClientLike = {
+      send: vi.fn(async (command: any) => {
+        if (command instanceof DescribeVoicesCommand) {
+          return {
+            Voices: [
+              { Id: 'Joanna', Name: 'Joanna', Gender: 'Female', LanguageCode: 'en-US', SupportedEngines: ['neural', 'standard'] },
+              { Id: 'Matthew', Name: 'Matthew', Gender: 'Male', LanguageCode: 'en-US', SupportedEngines: ['neural', 'standard'] },
+              { Id: 'Brian', Name: 'Brian', Gender: 'Male', LanguageCode: 'en-GB', SupportedEngines: ['standard'] }
+            ]
+          };
+        }
+
+        synthesizeInputs.push(command.input);
+        const body = command.input.OutputFormat === 'json'
+          ? Buffer.from(speechMarksBody)
+          : Buffer.from([0, 1, 2, 3]);
+        return { AudioStream: { transformToByteArray: async () => new Uint8Array(body) } };
+      })
+    };
+    return { client, synthesizeInputs };
+  };
+
+  it('should list voices with supported engines', async () => {
+    const { client } = createStubClient();
+    const provider = new PollyProvider({ client });
+    await provider.initialize();
+
+    const voices = await provider.listVoices();
+    expect(voices).toHaveLength(3);
+    expect(voices[0].provider).toBe('amazon');
+    expect(voices[1].characteristics.gender).toBe('male');
+    expect(voices[2].characteristics.accent).toBe('british');
+  });
+
+  it('should synthesize mp3 with the neural engine', async () => {
+    const { client, synthesizeInputs } = createStubClient();
+    const provider = new PollyProvider({ client });
+
+    const audio = await provider.generateSpeech({ text: 'Hello world.', outputFormat: 'mp3' });
+
+    expect(audio).toEqual(Buffer.from([0, 1, 2, 3]));
+    expect(synthesizeInputs[0]).toMatchObject({ Engine: 'neural', VoiceId: 'Joanna', OutputFormat: 'mp3', TextType: 'text' });
+    // MP3 keeps Polly's own sample rate unless one is configured
+    expect(synthesizeInputs[0].SampleRate).toBeUndefined();
+
+    await new PollyProvider({ client, sampleRate: '24000' }).generateSpeech({ text: 'Hello world.', outputFormat: 'mp3' });
+    expect(synthesizeInputs[1].SampleRate).toBe('24000');
+  });
+
+  it('should reject output formats Polly cannot render', async () => {
+    const { client, synthesizeInputs } = createStubClient();
+    const provider = new PollyProvider({ client });
+
+    await expect(provider.generateSpeech({ text: 'Hello world.', outputFormat: 'aac' })).rejects.toMatchObject({ code: 'UNSUPPORTED_FORMAT' });
+    expect(synthesizeInputs).toHaveLength(0);
+  });
+
+  it('should wrap PCM in a WAV header for wav output', async () => {
+    const { client, synthesizeInputs } = createStubClient();
+    const provider = new PollyProvider({ client });
+
+    const audio = await provider.generateSpeech({ text: 'Hello world.', outputFormat: 'wav' });
+
+    expect(synthesizeInputs[0]).toMatchObject({ OutputFormat: 'pcm', SampleRate: '16000' });
+    expect(audio.toString('ascii', 0, 4)).toBe('RIFF');
+    expect(audio.readUInt32LE(24)).toBe(16000);
+    expect(audio.length).toBe(48);
+  });
+
+  it('should fall back to the standard engine and adapt SSML', async () => {
+    const { client, synthesizeInputs } = createStubClient();
+    const provider = new PollyProvider({ client });
+    const voices = await provider.listVoices();
+    const brian = voices.find(v => v.id === 'Brian')!;
+
+    await provider.generateSpeech({
+      text: 'Truly remarkable',
+      voiceProfile: brian,
+      outputFormat: 'mp3',
+      modulation: {
+        emotion: { type: 'neutral', intensity: 0.5, variations: [] },
+        speed: 1.0,
+        pitch: 12,
+        volume: 1.0,
+        emphasis: [{ word: 'remarkable', strength: 0.9, position: 6 }],
+        pauses: []
+      }
+    });
+
+    expect(synthesizeInputs[0].Engine).toBe('standard');
+    expect(synthesizeInputs[0].TextType).toBe('ssml');
+    expect(synthesizeInputs[0].Text).toContain('pitch="+100%"');
+    expect(synthesizeInputs[0].Text).toContain('<emphasis level="strong">remarkable</emphasis>');
+  });
+
+  it('should send SSMLGenerator documents as SSML', async () => {
+    const { client, synthesizeInputs } = createStubClient();
+    const provider = new PollyProvider({ client });
+    const { rawSSML } = new SSMLGenerator().generateSSML('Hello there, how are you?', ssmlCharacter);
+
+    await provider.generateSpeech({ text: rawSSML, outputFormat: 'mp3' });
+
+    expect(synthesizeInputs[0].TextType).toBe('ssml');
+    expect(synthesizeInputs[0].Text).toMatch(/^<speak>/);
+    expect(synthesizeInputs[0].Text).not.toContain('<?xml');
+  });
+
+  it('should strip emphasis for neural voices', async () => {
+    const { client, synthesizeInputs } = createStubClient();
+    const provider = new PollyProvider({ client });
+
+    await provider.generateSpeech({
+      text: 'Truly remarkable',
+      outputFormat: 'mp3',
+      modulation: {
+        emotion: { type: 'neutral', intensity: 0.5, variations: [] },
+        speed: 1.0,
+        pitch: 0,
+        volume: 1.0,
+        emphasis: [{ word: 'remarkable', strength: 0.9, position: 6 }],
+        pauses: []
+      }
+    });
+
+    expect(synthesizeInputs[0].Text).toBe('<speak>Truly remarkable</speak>');
+  });
+
+  it('should request and parse speech marks', async () => {
+    const { client, synthesizeInputs } = createStubClient();
+    const provider = new PollyProvider({ client });
+
+    const { audio, speechMarks } = await provider.generateSpeechWithMarks({ text: 'Hello world. Second one.', outputFormat: 'mp3' });
+
+    expect(audio.length).toBe(4);
+    const marksRequest = synthesizeInputs.find(input => input.OutputFormat === 'json');
+    expect(marksRequest.SpeechMarkTypes).toEqual(['word', 'viseme', 'sentence']);
+    expect(speechMarks).toHaveLength(8);
+    expect(speechMarks[1]).toEqual({ time: 6, type: 'word', start: 0, end: 5, value: 'Hello' });
+  });
+
+  it('should feed speech marks into lip sync and subtitle timing', () => {
+    const provider = new PollyProvider({ client: createStubClient().client });
+    const marks = provider.parseSpeechMarks(speechMarksBody);
+
+    const lipSync = new LipSyncEngine().generateMarkersFromSpeechMarks(marks, 10);
+    expect(lipSync).toHaveLength(3);
+    expect(lipSync[0].time).toBeCloseTo(10.006);
+    expect(lipSync[1]).toMatchObject({ mouthShape: 'E', phoneme: 'E' });
+    expect(lipSync[1].duration).toBeCloseTo(0.26);
+
+    const entries = new SubtitleReader().createEntriesFromSpeechMarks(marks, 10);
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({ index: 1, startTime: 10, endTime: 10.9, text: 'Hello world.' });
+    expect(entries[1].endTime).toBeGreaterThan(entries[1].startTime);
+  });
+});
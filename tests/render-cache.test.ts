@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { RenderCache, RenderCacheKeyParts } from '../src/utils/render-cache.js';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+describe('RenderCache', () => {
+  let directory: string;
+  const parts: RenderCacheKeyParts = {
+    text: 'Hello there.',
+    modulation: {
+      emotion: { type: 'happy', intensity: 0.8, variations: [] },
+      speed: 1, pitch: 0, volume: 1, emphasis: [], pauses: []
+    },
+    provider: 'openai',
+    model: 'tts-1-hd',
+    outputFormat: 'mp3'
+  };
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'render-cache-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should key on normalized text and ignore profile ids and timestamps', () => {
+    const cache = new RenderCache({ directory, enabled: true });
+    const profile = (id: string) => ({
+      id,
+      name: id,
+      provider: 'openai' as const,
+      baseVoiceId: 'nova',
+      characteristics: {} as any,
+      customSettings: {},
+      created: new Date(),
+      updated: new Date()
+    });
+
+    const key = cache.createKey({ ...parts, voiceProfile: profile('a') });
+
+    expect(cache.createKey({ ...parts, text: '  Hello\n  there. ', voiceProfile: profile('b') })).toBe(key);
+    expect(cache.createKey({ ...parts, voiceProfile: profile('a'), outputFormat: 'wav' })).not.toBe(key);
+    expect(cache.createKey({ ...parts, voiceProfile: profile('a'), model: 'tts-1' })).not.toBe(key);
+  });
+
+  it('should persist entries across instances', async () => {
+    const key = new RenderCache({ directory, enabled: true }).createKey(parts);
+    await new RenderCache({ directory, enabled: true }).set(key, Buffer.from('audio'), { provider: 'openai', format: 'mp3' });
+
+    const audio = await new RenderCache({ directory, enabled: true }).get(key);
+    expect(audio?.toString()).toBe('audio');
+  });
+
+  it('should evict least recently used entries over the size limit', async () => {
+    const cache = new RenderCache({ directory, enabled: true, maxBytes: 10 });
+    const meta = { provider: 'openai', format: 'mp3' };
+
+    await cache.set('aa1', Buffer.alloc(4), meta);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await cache.set('bb2', Buffer.alloc(4), meta);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await cache.get('aa1');
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await cache.set('cc3', Buffer.alloc(4), meta);
+
+    expect(await cache.get('bb2')).toBeNull();
+    expect(await cache.get('aa1')).not.toBeNull();
+    expect((await cache.stats()).totalBytes).toBe(8);
+  });
+
+  it('should expire entries after the ttl and purge on request', async () => {
+    const cache = new RenderCache({ directory, enabled: true, ttlMs: 1 });
+    await cache.set('key1', Buffer.from('x'), { provider: 'openai', format: 'mp3' });
+    await new Promise(resolve => setTimeout(resolve, 5));
+    expect(await cache.get('key1')).toBeNull();
+
+    const persistent = new RenderCache({ directory, enabled: true });
+    await persistent.set('key2', Buffer.from('yy'), { provider: 'local', format: 'wav' });
+    expect((await persistent.stats()).byProvider.local).toEqual({ entries: 1, bytes: 2 });
+    expect(await persistent.purge()).toEqual({ removed: 1, bytes: 2 });
+    expect((await persistent.stats()).entries).toBe(0);
+  });
+
+  it('should do nothing when disabled', async () => {
+    const cache = new RenderCache({ directory, enabled: false });
+    await cache.set('key', Buffer.from('x'), { provider: 'openai', format: 'mp3' });
+    expect(await cache.get('key')).toBeNull();
+  });
+});
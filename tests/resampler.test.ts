@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { resamplePcm } from '../src/audio/resampler.js';
+import { defaultChannelMatrix, remixPcm } from '../src/audio/channel-matrix.js';
+import { conformPcm } from '../src/audio/session-format.js';
+import { createPcmBuffer, pcmFrameCount } from '../src/audio/pcm-buffer.js';
+import { encodeWav, decodeWav } from '../src/audio/wav-codec.js';
+import { AudioMixer } from '../src/utils/audio-mixer.js';
+import { sine, rms, track, timeline, MIX_OPTIONS } from './helpers/audio.js';
+
+describe('resamplePcm', () => {
+  it.each([
+    [24000, 48000],
+    [22050, 44100],
+    [44100, 48000],
+    [48000, 24000]
+  ])('should keep a 1 kHz tone intact from %i to %i Hz', (from, to) => {
+    const output = resamplePcm(sine(from, 1000, from / 10), to);
+    const data = output.channels[0];
+
+    expect(output.sampleRate).toBe(to);
+    expect(pcmFrameCount(output)).toBe(Math.round(0.1 * to));
+
+    // Away from the edges the output matches the ideal tone at the new rate
+    let error = 0;
+    for (let i = 200; i < data.length - 200; i++) {
+      error = Math.max(error, Math.abs(data[i] - 0.5 * Math.sin(2 * Math.PI * 1000 * i / to)));
+    }
+    expect(error).toBeLessThan(0.002);
+  });
+
+  it('should filter content above the new Nyquist frequency when downsampling', () => {
+    const output = resamplePcm(sine(48000, 15000, 4800), 22050);
+
+    expect(rms(output.channels[0], 200, pcmFrameCount(output) - 200)).toBeLessThan(0.005);
+  });
+
+  it('should pass audio through at the same rate and reject invalid rates', () => {
+    const pcm = sine(24000, 440, 240);
+
+    expect(resamplePcm(pcm, 24000)).toBe(pcm);
+    expect(() => resamplePcm(pcm, 0)).toThrow('Invalid sample rate');
+  });
+});
+
+describe('channel matrices', () => {
+  it('should copy mono to both sides and average stereo down to mono', () => {
+    expect(defaultChannelMatrix(1, 2)).toEqual([[1], [1]]);
+    expect(defaultChannelMatrix(2, 1)).toEqual([[0.5, 0.5]]);
+    expect(defaultChannelMatrix(1, 6)[2]).toEqual([1]);
+  });
+
+  it('should fold 5.1 to stereo without clipping', () => {
+    const [left, right] = defaultChannelMatrix(6, 2);
+
+    expect(left[3]).toBe(0); // LFE dropped
+    expect(left[2]).toBeCloseTo(right[2], 10);
+    expect(left.reduce((sum, gain) => sum + gain, 0)).toBeCloseTo(1, 10);
+    expect(right[4]).toBe(0);
+  });
+
+  it('should apply custom matrices through conformPcm', () => {
+    const stereo = createPcmBuffer(8000, 2, 4);
+    stereo.channels[0].fill(0.8);
+    stereo.channels[1].fill(0.2);
+
+    const leftOnly = conformPcm(stereo, { sampleRate: 8000, channels: 1 }, { channelMatrices: { 2: [[1, 0]] } });
+    expect(leftOnly.channels).toHaveLength(1);
+    expect(leftOnly.channels[0][0]).toBeCloseTo(0.8, 6);
+
+    expect(() => remixPcm(stereo, [[1, 0, 0]])).toThrow('Channel matrix expects 3 input channels, got 2');
+  });
+});
+
+describe('AudioMixer session format', () => {
+  it('should conform 24 kHz mono and 44.1 kHz stereo segments to a 48 kHz render', async () => {
+    const mono = encodeWav(sine(24000, 500, 2400));
+    const stereo = createPcmBuffer(44100, 2, 4410);
+    stereo.channels.forEach(data => data.fill(0.25));
+    const wide = encodeWav(stereo);
+
+    const mixed = await new AudioMixer().mixConversation(
+      [track('a', 0, 100, mono), track('b', 200, 100, wide)],
+      timeline(300),
+      { ...MIX_OPTIONS, sampleRate: 48000, channels: 2 }
+    );
+
+    const { pcm } = decodeWav(mixed);
+    expect(pcm.sampleRate).toBe(48000);
+    expect(pcmFrameCount(pcm)).toBe(14400);
+    // The 100 ms line still lasts 100 ms, so it plays at the right speed
+    expect(rms(pcm.channels[0], 500, 4300)).toBeCloseTo(0.5 / Math.SQRT2, 2);
+    expect(rms(pcm.channels[1], 4900, 9000)).toBeLessThan(0.001);
+    expect(pcm.channels[1][12000]).toBeCloseTo(0.25, 3);
+  });
+});
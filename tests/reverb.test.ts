@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { applyReverb, convolveReverb } from '../src/audio/reverb.js';
+import { fft } from '../src/audio/fft.js';
+import { createPcmBuffer, pcmFrameCount, PcmBuffer } from '../src/audio/pcm-buffer.js';
+import { encodeWav, decodeWav } from '../src/audio/wav-codec.js';
+import { AudioMixer } from '../src/utils/audio-mixer.js';
+import { AudioProcessor } from '../src/utils/audio-processor.js';
+import { SceneAnalyzer } from '../src/video/scene-analyzer.js';
+import { SceneContext } from '../src/interfaces/video.interface.js';
+import { track, timeline, MIX_OPTIONS } from './helpers/audio.js';
+
+const room = { enabled: true, roomSize: 0.5, damping: 0.5, wetLevel: 0.3, dryLevel: 1, predelay: 0 };
+
+function click(sampleRate: number, frames: number, channels = 1): PcmBuffer {
+  const pcm = createPcmBuffer(sampleRate, channels, frames);
+  pcm.channels.forEach(data => { data[0] = 1; });
+  return pcm;
+}
+
+function energy(data: Float32Array, from = 0, to = data.length) {
+  let sum = 0;
+  for (let i = from; i < Math.min(to, data.length); i++) sum += data[i] * data[i];
+  return sum;
+}
+
+describe('fft', () => {
+  it('should round-trip and find a tone in its bin', () => {
+    const real = new Float64Array(64);
+    const imag = new Float64Array(64);
+    real.forEach((_, i) => { real[i] = Math.cos(2 * Math.PI * 5 * i / 64); });
+    const original = Float64Array.from(real);
+
+    fft(real, imag);
+    expect(real[5]).toBeCloseTo(32, 8);
+    expect(Math.abs(real[6])).toBeLessThan(1e-9);
+
+    fft(real, imag, true);
+    original.forEach((value, i) => expect(real[i]).toBeCloseTo(value, 10));
+    expect(() => fft(new Float64Array(6), new Float64Array(6))).toThrow('FFT size must be a power of two, got 6');
+  });
+});
+
+describe('applyReverb', () => {
+  it('should add a decaying tail after the dry signal', () => {
+    const output = applyReverb(click(16000, 1600), room);
+    const data = output.channels[0];
+
+    expect(pcmFrameCount(output)).toBeGreaterThan(1600);
+    expect(data[0]).toBe(1); // dry click untouched until the first reflection
+    expect(energy(data, 1, 8000)).toBeGreaterThan(0.01);
+    // Each half second carries less energy than the one before
+    expect(energy(data, 8000, 16000)).toBeLessThan(energy(data, 0, 8000) - 1);
+    expect(energy(data, 16000, 24000)).toBeLessThan(energy(data, 8000, 16000));
+  });
+
+  it('should decay longer in a bigger room and hold the reverb back by the predelay', () => {
+    const small = applyReverb(click(16000, 1600), { ...room, roomSize: 0.1, dryLevel: 0 });
+    const large = applyReverb(click(16000, 1600), { ...room, roomSize: 0.9, dryLevel: 0 });
+    const delayed = applyReverb(click(16000, 1600), { ...room, predelay: 100, dryLevel: 0 });
+
+    expect(pcmFrameCount(large)).toBeGreaterThan(pcmFrameCount(small));
+    expect(energy(large.channels[0], 8000, 16000)).toBeGreaterThan(energy(small.channels[0], 8000, 16000) * 10);
+    expect(energy(delayed.channels[0], 0, 1600 + 1116 * 16000 / 44100 - 1)).toBe(0);
+  });
+
+  it('should decorrelate stereo channels and pass through when disabled', () => {
+    const stereo = applyReverb(click(16000, 1600, 2), room);
+    const pcm = click(16000, 100);
+
+    expect(Array.from(stereo.channels[0].subarray(1000, 1100))).not.toEqual(Array.from(stereo.channels[1].subarray(1000, 1100)));
+    expect(applyReverb(pcm, { ...room, enabled: false })).toBe(pcm);
+  });
+
+  it('should make scene environments sound different', () => {
+    const analyzer = new SceneAnalyzer();
+    const context: SceneContext = {
+      mood: 'documentary',
+      environment: 'indoor',
+      timeOfDay: 'afternoon',
+      characterCount: 2,
+      proximityToCamera: 'medium',
+      backgroundNoise: 0.2,
+      emotionalIntensity: 0.5,
+      pacing: 'medium'
+    };
+    const tails = (['indoor', 'outdoor', 'vehicle', 'crowded'] as const).map(environment => {
+      const { reverb } = analyzer.recommendVoiceSettings({ ...context, environment });
+      return energy(applyReverb(click(16000, 1600), { ...reverb, dryLevel: 0 }).channels[0], 4000, 12000);
+    });
+
+    expect(new Set(tails.map(tail => tail.toPrecision(3))).size).toBe(4);
+    expect(tails[1]).toBeGreaterThan(tails[2]); // outdoor space rings longer than a car
+  });
+});
+
+describe('convolveReverb', () => {
+  it('should match direct convolution with a unit-energy response', () => {
+    const signal = createPcmBuffer(8000, 1, 300);
+    signal.channels[0].forEach((_, i, data) => { data[i] = Math.sin(i / 7) * (i < 200 ? 1 : 0); });
+    const impulse = createPcmBuffer(8000, 1, 5);
+    impulse.channels[0].set([0, 0.6, 0, -0.8, 0]);
+
+    const output = convolveReverb(signal, impulse, { enabled: true, wetLevel: 1, dryLevel: 0, predelay: 0 });
+
+    expect(pcmFrameCount(output)).toBe(304);
+    for (let i = 0; i < 304; i++) {
+      const x = (n: number) => (n >= 0 && n < 300 ? signal.channels[0][n] : 0);
+      expect(output.channels[0][i]).toBeCloseTo(0.6 * x(i - 1) - 0.8 * x(i - 3), 5);
+    }
+  });
+
+  it('should resample the response, apply predelay and mix dry', () => {
+    const impulse = createPcmBuffer(16000, 1, 64);
+    impulse.channels[0][0] = 0.5;
+
+    const output = convolveReverb(click(8000, 100, 2), impulse, { enabled: true, wetLevel: 0.5, dryLevel: 1, predelay: 5 });
+
+    expect(output.channels).toHaveLength(2);
+    expect(output.channels[0][0]).toBeCloseTo(1, 5);
+    expect(Math.abs(output.channels[1][40])).toBeGreaterThan(0.2);
+    expect(() => convolveReverb(click(8000, 10), createPcmBuffer(8000, 1, 4), { ...room })).toThrow('Impulse response is silent');
+  });
+});
+
+describe('reverb in the mixer and processor', () => {
+  let directory: string;
+  let irPath: string;
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'reverb-'));
+    irPath = path.join(directory, 'hall.wav');
+    const impulse = createPcmBuffer(16000, 1, 1600);
+    impulse.channels[0].forEach((_, i, data) => { data[i] = Math.exp(-i / 300) * (i % 37 === 0 ? 1 : 0); });
+    await fs.writeFile(irPath, encodeWav(impulse, { bitDepth: 24 }));
+  });
+
+  afterAll(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should let reverb tails ring past the segment', async () => {
+    const line = encodeWav(click(16000, 1600));
+
+    const mixed = await new AudioMixer().mixConversation(
+      [track('a', 0, 100, line)],
+      timeline(100),
+      {
+        ...MIX_OPTIONS,
+        sceneProcessing: [{ startTime: 0, endTime: 1000, reverb: { ...room, impulseResponse: irPath } }]
+      }
+    );
+
+    const data = decodeWav(mixed).pcm.channels[0];
+    expect(data.length).toBe(1600 + 1599);
+    expect(Math.abs(data[37])).toBeGreaterThan(0.01);
+  });
+
+  it('should report impulse responses that cannot be read', async () => {
+    const processor = new AudioProcessor();
+
+    await expect(processor.applyReverb(click(16000, 10), { ...room, impulseResponse: path.join(directory, 'missing.wav') }))
+      .rejects.toThrow('Failed to load impulse response');
+    expect(await processor.loadImpulseResponse(irPath)).toBe(await processor.loadImpulseResponse(irPath));
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  createRoomTone,
+  generateRoomTone,
+  extractRoomTone,
+  roomToneSpectrum,
+  findSilentGaps,
+  fillSilence
+} from '../src/audio/room-tone.js';
+import { seededNoise } from '../src/audio/noise.js';
+import { createPcmBuffer, pcmFrameCount, PcmBuffer } from '../src/audio/pcm-buffer.js';
+import { encodeWav, decodeWav } from '../src/audio/wav-codec.js';
+import { AudioMixer } from '../src/utils/audio-mixer.js';
+import { SubtitleParser } from '../src/video/subtitle-parser.js';
+import { sine, rms, segment, track, timeline, MIX_OPTIONS } from './helpers/audio.js';
+
+const settings = { enabled: true, duration: 1, level: 0.1, source: 'generate' as const };
+
+/**
+ * A quiet 300 Hz hum under white noise, with a loud tone over the middle half
+ */
+function recording(sampleRate: number, frames: number): PcmBuffer {
+  const random = seededNoise(7);
+  const pcm = sine(sampleRate, 300, frames, 0.01);
+  pcm.channels[0].forEach((value, i, data) => {
+    data[i] = value + random() * 0.001 + (i >= frames / 4 && i < frames * 3 / 4 ? 0.5 * Math.sin(i / 3) : 0);
+  });
+  return pcm;
+}
+
+describe('generateRoomTone', () => {
+  it('should make quiet, decorrelated noise with a falling spectrum', () => {
+    const tone = generateRoomTone(16000, 2, 1);
+    const spectrum = roomToneSpectrum(tone);
+    const bin = (frequency: number) => spectrum[Math.round(frequency * 2048 / 16000)];
+
+    expect(pcmFrameCount(tone)).toBe(16000);
+    expect(rms(tone.channels[0])).toBeCloseTo(0.01, 5);
+    expect(Array.from(tone.channels[0].subarray(0, 100))).not.toEqual(Array.from(tone.channels[1].subarray(0, 100)));
+    expect(bin(200)).toBeGreaterThan(bin(3000) * 2);
+  });
+
+  it('should follow a reference spectrum', () => {
+    const tone = generateRoomTone(16000, 1, 1, { spectrum: roomToneSpectrum(sine(16000, 1000, 16000)) });
+    const spectrum = roomToneSpectrum(tone);
+
+    expect(spectrum[128]).toBeGreaterThan(spectrum[64] * 20); // 1 kHz against 500 Hz
+  });
+});
+
+describe('extractRoomTone', () => {
+  it('should keep the quiet regions and leave out the loud ones', () => {
+    const reference = recording(16000, 32000);
+    const tone = extractRoomTone(reference, 0.5);
+
+    expect(pcmFrameCount(tone)).toBeGreaterThanOrEqual(8000);
+    expect(pcmFrameCount(tone)).toBeLessThan(9000);
+    expect(rms(tone.channels[0])).toBeLessThan(0.02);
+    expect(() => extractRoomTone(createPcmBuffer(16000, 1, 16000), 1)).toThrow('Reference recording has no room tone to extract');
+  });
+
+  it('should need a reference for extract and file sources', () => {
+    expect(() => createRoomTone({ ...settings, source: 'extract' }, 16000, 1)).toThrow("Room tone source 'extract' requires a sourceFile");
+    const file = sine(16000, 60, 4000, 0.01);
+    expect(createRoomTone({ ...settings, source: 'file' }, 16000, 1, file)).toBe(file);
+  });
+});
+
+describe('fillSilence', () => {
+  const lines = createPcmBuffer(16000, 1, 16000);
+  lines.channels[0].set(sine(16000, 440, 4000).channels[0], 0);
+  lines.channels[0].set(sine(16000, 440, 4000).channels[0], 12000);
+
+  it('should find runs of digital silence', () => {
+    const pcm = createPcmBuffer(16000, 1, 1000);
+    pcm.channels[0].fill(0.1, 500, 510);
+
+    expect(findSilentGaps(pcm)).toEqual([{ start: 0, end: 500 }, { start: 510, end: 1000 }]);
+    expect(findSilentGaps(pcm, 40)).toEqual([]);
+  });
+
+  it('should fill only the gaps, at the level relative to the dialogue', () => {
+    const filled = fillSilence(lines, generateRoomTone(16000, 1, 1), 0.1).channels[0];
+
+    expect(Array.from(filled.subarray(0, 4000))).toEqual(Array.from(lines.channels[0].subarray(0, 4000)));
+    expect(filled[4000]).toBe(0); // faded in from silence
+    expect(rms(filled, 4160, 11840)).toBeCloseTo(0.1 * 0.5 / Math.SQRT2, 2);
+    expect(findSilentGaps({ sampleRate: 16000, channels: [filled] })).toEqual([]);
+  });
+
+  it('should leave silent audio unchanged', () => {
+    const silence = createPcmBuffer(16000, 1, 100);
+    expect(fillSilence(silence, generateRoomTone(16000, 1, 1), 0.1)).toBe(silence);
+  });
+});
+
+describe('room tone in renders', () => {
+  let directory: string;
+  let referencePath: string;
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'room-tone-'));
+    referencePath = path.join(directory, 'set.wav');
+    await fs.writeFile(referencePath, encodeWav(recording(16000, 32000)));
+  });
+
+  afterAll(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should fill the gaps between conversation lines', async () => {
+    const line = encodeWav(sine(16000, 440, 4000));
+
+    const mixed = await new AudioMixer().mixConversation(
+      [{ ...track('a', 0, 1000, line), segments: [segment('l1', 0, 250, line), segment('l2', 750, 250, line)] }],
+      timeline(1000),
+      {
+        ...MIX_OPTIONS,
+        roomTone: { ...settings, source: 'extract', sourceFile: referencePath }
+      }
+    );
+
+    const data = decodeWav(mixed).pcm.channels[0];
+    expect(rms(data, 4500, 11500)).toBeGreaterThan(0.005);
+    expect(rms(data, 4500, 11500)).toBeLessThan(0.05);
+  });
+
+  it('should place subtitle segments and fill between them', async () => {
+    const outputPath = path.join(directory, 'subtitles.wav');
+    const segment = (index: number, startTime: number) => ({
+      id: `segment_${index}`,
+      startTime,
+      endTime: startTime + 0.5,
+      audioBuffer: encodeWav(sine(48000, 440, 24000)),
+      speaker: index === 1 ? 'ALICE' : 'BOB',
+      text: 'x',
+      confidence: 1
+    });
+
+    await new SubtitleParser().exportSynchronizedAudio(
+      {
+        audioSegments: [segment(1, 0), segment(2, 1.5)],
+        totalDuration: 2,
+        timingAdjustments: [],
+        lipSyncMarkers: [],
+        qualityMetrics: { overallScore: 1, timingAccuracy: 1, lipSyncQuality: 1, naturalness: 1, issues: [] }
+      },
+      outputPath,
+      'wav',
+      { roomTone: settings }
+    );
+
+    const { pcm } = decodeWav(await fs.readFile(outputPath));
+    expect(pcmFrameCount(pcm)).toBe(96000);
+    expect(rms(pcm.channels[0], 72000, 96000)).toBeCloseTo(0.5 / Math.SQRT2, 2);
+    expect(rms(pcm.channels[0], 30000, 66000)).toBeGreaterThan(0.01);
+    expect(rms(pcm.channels[0], 30000, 66000)).toBeLessThan(0.06);
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { spatialize, spatialPlacement, scenePositionToPoint } from '../src/audio/spatializer.js';
+import { createPcmBuffer } from '../src/audio/pcm-buffer.js';
+import { encodeWav, decodeWav } from '../src/audio/wav-codec.js';
+import { AudioMixer } from '../src/utils/audio-mixer.js';
+import { SceneAnalyzer } from '../src/video/scene-analyzer.js';
+import { sine, rms, track, timeline, MIX_OPTIONS } from './helpers/audio.js';
+
+const origin = { x: 0, y: 0, z: 0 };
+
+describe('spatialPlacement', () => {
+  it('should find azimuth, distance and inverse-distance gain', () => {
+    const placement = spatialPlacement({ x: 3, y: 4, z: 0 }, origin);
+
+    expect(placement.distance).toBe(5);
+    expect(placement.gain).toBeCloseTo(0.2, 10);
+    expect(placement.azimuth).toBeCloseTo(Math.atan2(3, 4), 10);
+    expect(spatialPlacement({ x: 0, y: 0.5, z: 0 }, origin).gain).toBe(1); // inside the reference distance
+  });
+
+  it('should keep positions inside the room', () => {
+    const room = { width: 4, height: 3, depth: 6 };
+    expect(spatialPlacement({ x: 50, y: 1, z: 1 }, { x: 2, y: 1, z: 1 }, { room }).distance).toBe(2);
+  });
+});
+
+describe('spatialize', () => {
+  it('should pan with constant power', () => {
+    const pcm = sine(16000, 500, 1600);
+    const levels = [-1, -0.5, 0, 0.5, 1].map(x => {
+      const output = spatialize(pcm, { x, y: Math.sqrt(1 - x * x), z: 0 }, origin);
+      return [rms(output.channels[0]), rms(output.channels[1])];
+    });
+
+    levels.forEach(([left, right]) => expect(left * left + right * right).toBeCloseTo(rms(pcm.channels[0]) ** 2, 6));
+    expect(levels[0][1]).toBeCloseTo(0, 6);
+    expect(levels[2][0]).toBeCloseTo(levels[2][1], 6);
+    expect(levels[4][0]).toBeCloseTo(0, 6);
+  });
+
+  it('should mirror rear sources to the front', () => {
+    const pcm = sine(16000, 500, 1600);
+    const front = spatialize(pcm, { x: 1, y: 1, z: 0 }, origin);
+    const rear = spatialize(pcm, { x: 1, y: -1, z: 0 }, origin);
+
+    expect(Array.from(rear.channels[1])).toEqual(Array.from(front.channels[1]));
+  });
+
+  it('should delay and shadow the far ear with the ITD/ILD model', () => {
+    const click = createPcmBuffer(48000, 1, 200);
+    click.channels[0][10] = 1;
+    const output = spatialize(click, { x: 1, y: 0, z: 0 }, origin, { model: 'itd-ild' });
+    const arrival = (data: Float32Array) => data.findIndex(value => Math.abs(value) > 0.01);
+
+    // Woodworth at 90 degrees: 0.0875 m / 343 m/s * (pi/2 + 1) = 0.66 ms = 31.5 samples
+    expect(output.channels[1][10]).toBeCloseTo(1, 6);
+    expect(arrival(output.channels[0]) - 10).toBeGreaterThanOrEqual(31);
+    expect(arrival(output.channels[0]) - 10).toBeLessThanOrEqual(33);
+    expect(Math.max(...output.channels[0])).toBeLessThan(0.5);
+  });
+
+  it('should dull distant sources more than near ones', () => {
+    const ratio = (distance: number) => {
+      const high = spatialize(sine(48000, 10000, 4800), { x: 0, y: distance, z: 0 }, origin);
+      const low = spatialize(sine(48000, 100, 4800), { x: 0, y: distance, z: 0 }, origin);
+      return rms(high.channels[0], 480) / rms(low.channels[0], 480);
+    };
+
+    expect(ratio(2)).toBeGreaterThan(0.95);
+    expect(ratio(60)).toBeLessThan(0.6);
+  });
+});
+
+describe('scenePositionToPoint', () => {
+  it('should place scene recommendations in front of the listener', () => {
+    expect(scenePositionToPoint({ x: 0, y: 0, z: 0, distance: 0 })).toEqual({ x: 0, y: 1, z: 0 });
+
+    const right = scenePositionToPoint({ x: 1, y: 0, z: 0, distance: 1 });
+    expect(right.x).toBeCloseTo(10, 10);
+    expect(right.y).toBeCloseTo(0, 10);
+
+    const { spatialPosition } = new SceneAnalyzer().recommendVoiceSettings({
+      mood: 'dramatic',
+      environment: 'outdoor',
+      timeOfDay: 'night',
+      characterCount: 1,
+      proximityToCamera: 'wide',
+      backgroundNoise: 0.1,
+      emotionalIntensity: 0.6,
+      pacing: 'slow'
+    });
+    const point = scenePositionToPoint(spatialPosition);
+    expect(spatialPlacement(point, origin).distance).toBeGreaterThan(7);
+    expect(point.z).toBeGreaterThan(0);
+  });
+});
+
+describe('spatial audio in the mixer', () => {
+  const line = encodeWav(sine(16000, 500, 8000));
+  const base = { ...MIX_OPTIONS, spatialAudioEnabled: true, channels: 2 };
+
+  it('should place each character before summing', async () => {
+    const mixed = await new AudioMixer().mixConversation(
+      [track('left', 0, 500, line), track('right', 500, 500, line), track('scene', 1000, 500, line)],
+      timeline(1500),
+      {
+        ...base,
+        spatialAudio: {
+          enabled: true,
+          characterPositions: { left: { x: 1, y: 4, z: 1.5 }, right: { x: 7, y: 4, z: 1.5 } },
+          listenerPosition: { x: 4, y: 1, z: 1.5 },
+          roomSize: { width: 8, height: 3, depth: 6 }
+        },
+        sceneProcessing: [{ startTime: 1000, endTime: 1500, spatialPosition: { x: 0, y: 0, z: 0, distance: 0 } }]
+      }
+    );
+
+    const [left, right] = decodeWav(mixed).pcm.channels;
+    expect(rms(left, 0, 8000)).toBeGreaterThan(rms(right, 0, 8000) * 2);
+    expect(rms(right, 8000, 16000)).toBeGreaterThan(rms(left, 8000, 16000) * 2);
+    // 45 degrees off centre and 4.2 m away
+    expect(Math.hypot(rms(left, 0, 8000), rms(right, 0, 8000))).toBeCloseTo(0.5 / Math.SQRT2 / Math.hypot(3, 3), 2);
+    expect(rms(left, 16000, 24000)).toBeCloseTo(rms(right, 16000, 24000), 4);
+  });
+
+  it('should leave mono sessions unplaced', async () => {
+    const mixed = await new AudioMixer().mixConversation(
+      [track('left', 0, 500, line)],
+      timeline(500),
+      { ...base, channels: 1, spatialAudio: { enabled: true, characterPositions: { left: { x: -5, y: 0, z: 0 } }, listenerPosition: origin, roomSize: { width: 10, height: 3, depth: 10 } } }
+    );
+
+    expect(rms(decodeWav(mixed).pcm.channels[0], 0, 8000)).toBeCloseTo(0.5 / Math.SQRT2, 3);
+  });
+});
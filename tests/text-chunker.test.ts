@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TextChunker } from '../src/utils/text-chunker.js';
+import { GenerationRequest } from '../src/interfaces/voice.interface.js';
+
+describe('TextChunker', () => {
+  let chunker: TextChunker;
+
+  beforeEach(() => {
+    chunker = new TextChunker();
+  });
+
+  it('should return short text as a single chunk', () => {
+    expect(chunker.chunk('Short text.', 100)).toEqual([{ text: 'Short text.', start: 0, end: 11 }]);
+  });
+
+  it('should split at paragraph and sentence boundaries within the limit', () => {
+    const text = 'One sentence here. Another one follows.\n\nA new paragraph starts. It ends now.';
+    const chunks = chunker.chunk(text, 45);
+
+    expect(chunks.map(c => c.text)).toEqual([
+      'One sentence here. Another one follows.',
+      'A new paragraph starts. It ends now.'
+    ]);
+    chunks.forEach(chunk => {
+      expect(chunk.text.length).toBeLessThanOrEqual(45);
+      expect(text.slice(chunk.start, chunk.end)).toBe(chunk.text);
+    });
+  });
+
+  it('should fall back to clauses, words and hard cuts for very long sentences', () => {
+    const text = 'this clause is long, and this one too, then words go on and on ' + 'x'.repeat(30);
+    const chunks = chunker.chunk(text, 20);
+
+    chunks.forEach(chunk => expect(chunk.text.length).toBeLessThanOrEqual(20));
+    expect(chunks[0].text).toBe('this clause is long,');
+    expect(chunks.map(c => c.text).join('').replace(/\s+/g, '')).toBe(text.replace(/\s+/g, ''));
+  });
+
+  it('should remap emphasis, pauses and emotion ranges onto chunks', () => {
+    const text = 'Calm start here. Then it gets exciting!';
+    const request: GenerationRequest = {
+      text,
+      modulation: {
+        emotion: { type: 'neutral', intensity: 0.5, variations: [] },
+        speed: 1,
+        pitch: 0,
+        volume: 1,
+        emphasis: [
+          { word: 'Calm', position: 0, strength: 0.5 },
+          { word: 'exciting', position: text.indexOf('exciting'), strength: 0.9 }
+        ],
+        pauses: [{ position: 16, duration: 300 }]
+      },
+      emotionMap: [
+        { start: 0, end: 15, emotion: 'calm', intensity: 0.6 },
+        { start: 17, end: -1, emotion: 'excited', intensity: 0.9 }
+      ],
+      outputFormat: 'wav'
+    };
+
+    const parts = chunker.splitRequest(request, 25);
+
+    expect(parts.map(p => p.request.text)).toEqual(['Calm start here.', 'Then it gets exciting!']);
+
+    const [first, second] = parts.map(p => p.request);
+    expect(first.modulation?.emphasis).toEqual([{ word: 'Calm', position: 0, strength: 0.5 }]);
+    expect(first.modulation?.pauses).toEqual([{ position: 16, duration: 300 }]);
+    expect(first.emotionMap).toEqual([{ start: 0, end: -1, emotion: 'calm', intensity: 0.6 }]);
+
+    expect(second.modulation?.emphasis[0].position).toBe(second.text.indexOf('exciting'));
+    expect(second.modulation?.pauses).toEqual([]);
+    expect(second.emotionMap).toEqual([{ start: 0, end: -1, emotion: 'excited', intensity: 0.9 }]);
+  });
+});
@@ -1,6 +1,23 @@
-import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
 import { VoiceEngine } from '../src/core/voice-engine.js';
-import { GenerationRequest } from '../src/interfaces/voice.interface.js';
+import { AudioProcessor } from '../src/utils/audio-processor.js';
+import { AudioMixer } from '../src/utils/audio-mixer.js';
+import { VoiceProvider } from '../src/core/provider.base.js';
+import { loadProviderConfigFile, providerConfigsFromEnv } from '../src/core/provider-registry.js';
+import { ProviderError } from '../src/core/provider-error.js';
+import { CircuitBreaker, backoffDelay, isProviderFailure, resolveFallbackPolicy } from '../src/core/provider-fallback.js';
+import { RateLimiter } from '../src/core/rate-limiter.js';
+import { deriveRequirements, describeCapabilities } from '../src/core/provider-capabilities.js';
+import { ProviderCapabilities } from '../src/interfaces/provider.interface.js';
+import { SyntheticProvider } from '../src/providers/synthetic/provider.js';
+import { SSMLGenerator } from '../src/utils/ssml-generator.js';
+import { parseWavHeader } from '../src/utils/audio-info.js';
+import { createPcmBuffer } from '../src/audio/pcm-buffer.js';
+import { encodeWav } from '../src/audio/wav-codec.js';
+import { GenerationRequest, VoiceProfile } from '../src/interfaces/voice.interface.js';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
 
 // Mock environment variables
 vi.mock('process', () => ({
@@ -132,4 +149,998 @@ describe('Audio Processing', () => {
     expect(options.normalize).toBe(true);
     expect(options.removeNoise).toBe(true);
   });
-});
\ No newline at end of file
+});
+
+describe('VoiceEngine with synthetic provider', () => {
+  const savedEnv = { ...process.env };
+
+  beforeEach(() => {
+    delete process.env.ELEVENLABS_API_KEY;
+    delete process.env.OPENAI_API_KEY;
+    delete process.env.LOCAL_TTS_COMMAND;
+    delete process.env.LOCAL_TTS_PRESET;
+    process.env.SYNTHETIC_TTS_ENABLED = 'true';
+    // ffmpeg is not available in CI; pass audio through untouched
+    vi.spyOn(AudioProcessor.prototype, 'process').mockImplementation(async (buffer: Buffer) => buffer);
+  });
+
+  afterEach(() => {
+    process.env = { ...savedEnv };
+    vi.restoreAllMocks();
+  });
+
+  it('should initialize with only the synthetic provider', async () => {
+    const engine = new VoiceEngine();
+    await engine.initialize();
+
+    expect(engine.getAvailableProviders()).toEqual(['synthetic']);
+  });
+
+  it('should generate deterministic audio through generateVoice', async () => {
+    const engine = new VoiceEngine();
+    const request: GenerationRequest = { text: 'End to end without the network.', outputFormat: 'wav' };
+
+    const first = await engine.generateVoice({ ...request });
+    const second = await engine.generateVoice({ ...request });
+
+    expect(first.toString('ascii', 0, 4)).toBe('RIFF');
+    expect(first.equals(second)).toBe(true);
+  });
+
+  it('should resolve voice prompts to synthetic voices', async () => {
+    const engine = new VoiceEngine();
+    const audio = await engine.generateVoice({
+      text: 'A deep voice',
+      voicePrompt: 'Deep male narrator',
+      outputFormat: 'wav'
+    });
+
+    expect(audio.length).toBeGreaterThan(44);
+  });
+
+  it('should feed generated audio into the conversation mixer', async () => {
+    const engine = new VoiceEngine();
+    const mixer = new AudioMixer();
+    const audio = await engine.generateVoice({ text: 'Mix me in.', outputFormat: 'wav' });
+
+    const mixed = await mixer.mixConversation(
+      [{
+        characterId: 'narrator',
+        characterName: 'Narrator',
+        audioBuffer: audio,
+        totalDuration: 1500,
+        segments: [{
+          lineId: 'line_0',
+          startTime: 0,
+          endTime: 1500,
+          text: 'Mix me in.',
+          emotion: { type: 'neutral', intensity: 0.5, variations: [] },
+          audioBuffer: audio
+        }]
+      }],
+      { totalDuration: 1500, events: [], characterUsage: { narrator: 1500 } },
+      {
+        enableAutomaticMixing: true,
+        preserveIndividualTracks: false,
+        normalizeAudio: true,
+        compressionLevel: 0,
+        spatialAudioEnabled: false
+      }
+    );
+
+    expect(mixed.length).toBeGreaterThan(0);
+  });
+});
+
+class FakeProvider extends VoiceProvider {
+  calls: GenerationRequest[] = [];
+  failures: unknown[] = []; // thrown in order by generateSpeech before succeeding
+  capabilities: Partial<ProviderCapabilities> = {};
+
+  constructor(public name: string, private emotions = false, private failInit = false) {
+    super();
+  }
+
+  async initialize(): Promise<void> {
+    if (this.failInit) throw new Error('bad credentials');
+  }
+
+  async generateSpeech(request: GenerationRequest): Promise<Buffer> {
+    this.calls.push(request);
+    const failure = this.failures.shift();
+    if (failure) throw failure;
+    return Buffer.from(this.name);
+  }
+
+  async listVoices(): Promise<VoiceProfile[]> {
+    return [];
+  }
+
+  async createVoiceProfile(): Promise<VoiceProfile> {
+    throw new Error('not supported');
+  }
+
+  getCapabilities(): ProviderCapabilities {
+    return { ...super.getCapabilities(), ...this.capabilities };
+  }
+
+  supportsEmotions(): boolean {
+    return this.emotions;
+  }
+
+  supportsVoiceCloning(): boolean {
+    return false;
+  }
+}
+
+// SSMLGenerator output, XML declaration included
+function generatedSSML(text: string): string {
+  return new SSMLGenerator().generateSSML(text, {
+    id: 'narrator',
+    name: 'Narrator',
+    voiceProfile: { provider: 'google', voiceId: 'narrator', gender: 'neutral', age: 'adult', language: 'en-US' },
+    personality: { traits: [], speakingStyle: 'formal', emotionalRange: { default: 'neutral', intensity: 0.5, variability: 0 } },
+    speechPatterns: { pace: 'medium', pauseFrequency: 0, emphasisStyle: 'subtle', fillerWords: [], catchphrases: [] }
+  } as any).rawSSML;
+}
+
+describe('VoiceEngine provider registry', () => {
+  beforeEach(() => {
+    vi.spyOn(AudioProcessor.prototype, 'process').mockImplementation(async (buffer: Buffer) => buffer);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should order injected providers by priority and skip disabled ones', async () => {
+    const engine = new VoiceEngine({
+      providers: [
+        { name: 'low', provider: new FakeProvider('low'), priority: 1 },
+        { name: 'high', provider: new FakeProvider('high'), priority: 10 },
+        { name: 'off', provider: new FakeProvider('off'), priority: 100, enabled: false }
+      ]
+    });
+
+    await engine.initialize();
+
+    expect(engine.getAvailableProviders()).toEqual(['high', 'low']);
+    expect((await engine.generateVoice({ text: 'hi', outputFormat: 'wav' })).toString()).toBe('high');
+  });
+
+  it('should not discover env providers when providers are given explicitly', async () => {
+    const savedEnv = { ...process.env };
+    process.env.SYNTHETIC_TTS_ENABLED = 'true';
+
+    try {
+      const engine = new VoiceEngine({ providers: [{ name: 'fake', provider: new FakeProvider('fake') }] });
+      await engine.initialize();
+      expect(engine.getAvailableProviders()).toEqual(['fake']);
+    } finally {
+      process.env = savedEnv;
+    }
+  });
+
+  it('should prefer emotion-capable providers for emotional requests', async () => {
+    const engine = new VoiceEngine({
+      providers: [
+        { name: 'plain', provider: new FakeProvider('plain'), priority: 10 },
+        { name: 'emotive', provider: new FakeProvider('emotive', true), priority: 5 }
+      ]
+    });
+
+    const audio = await engine.generateVoice({
+      text: 'So happy!',
+      modulation: {
+        emotion: { type: 'happy', intensity: 0.8, variations: [] },
+        speed: 1, pitch: 0, volume: 1, emphasis: [], pauses: []
+      },
+      outputFormat: 'wav'
+    });
+
+    expect(audio.toString()).toBe('emotive');
+  });
+
+  it('should build providers from factories and built-in types', async () => {
+    const factory = vi.fn(() => new FakeProvider('made'));
+    const engine = new VoiceEngine({
+      providers: [
+        { name: 'made', factory, credentials: { apiKey: 'k' } },
+        { name: 'synthetic', priority: 0 }
+      ]
+    });
+
+    await engine.initialize();
+
+    expect(factory).toHaveBeenCalledWith(expect.objectContaining({ credentials: { apiKey: 'k' } }));
+    expect(engine.getAvailableProviders()).toEqual(['made', 'synthetic']);
+  });
+
+  it('should keep going when a provider fails to initialize', async () => {
+    const engine = new VoiceEngine({
+      providers: [
+        { name: 'broken', provider: new FakeProvider('broken', false, true) },
+        { name: 'ok', provider: new FakeProvider('ok') }
+      ]
+    });
+
+    await engine.initialize();
+
+    expect(engine.getAvailableProviders()).toEqual(['ok']);
+    expect(engine.getProviderRegistry().getError('broken')).toBe('bad credentials');
+  });
+
+  it('should throw when no configured provider is available', async () => {
+    const engine = new VoiceEngine({ providers: [] });
+    await expect(engine.initialize()).rejects.toThrow('No voice providers are available');
+  });
+
+  it('should register third-party providers before and after initialization', async () => {
+    const engine = new VoiceEngine({ providers: [] });
+    await engine.registerProvider(new FakeProvider('first'));
+    await engine.initialize();
+
+    await engine.registerProvider({ name: 'second', provider: new FakeProvider('second'), priority: 99 });
+    expect(engine.getAvailableProviders()).toEqual(['second', 'first']);
+
+    await expect(engine.registerProvider(new FakeProvider('bad', false, true))).rejects.toThrow('bad credentials');
+  });
+
+  it('should load providers from a config file with env interpolation', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'voice-config-'));
+    const file = path.join(dir, 'providers.json');
+    await fs.writeFile(file, JSON.stringify({
+      providers: [
+        { name: 'synthetic', priority: 5 },
+        { name: 'elevenlabs', credentials: { apiKey: '${TEST_MISSING_KEY}' }, enabled: false }
+      ]
+    }));
+
+    try {
+      const configs = await loadProviderConfigFile(file, { TEST_MISSING_KEY: 'secret' });
+      expect(configs[1].credentials?.apiKey).toBe('secret');
+
+      const engine = new VoiceEngine({ configFile: file });
+      await engine.initialize();
+      expect(engine.getAvailableProviders()).toEqual(['synthetic']);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should map environment variables to provider configs', () => {
+    const configs = providerConfigsFromEnv({ OPENAI_API_KEY: 'sk-test', SYNTHETIC_TTS_ENABLED: 'true' });
+    expect(configs.map(c => c.name)).toEqual(['openai', 'synthetic']);
+    expect(configs[0].credentials?.apiKey).toBe('sk-test');
+  });
+});
+
+describe('VoiceEngine fallback chain', () => {
+  const noDelay = { initialDelayMs: 0, jitter: false };
+
+  beforeEach(() => {
+    vi.spyOn(AudioProcessor.prototype, 'process').mockImplementation(async (buffer: Buffer) => buffer);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should retry transient errors on the same provider', async () => {
+    const primary = new FakeProvider('primary');
+    primary.failures.push(new ProviderError('rate limited', { status: 429 }), new ProviderError('bad gateway', { status: 502 }));
+    const engine = new VoiceEngine({ providers: [{ name: 'primary', provider: primary }], fallback: noDelay });
+
+    const result = await engine.generateVoiceResult({ text: 'retry me', outputFormat: 'wav' });
+
+    expect(result.provider).toBe('primary');
+    expect(result.attempts.map(a => a.success)).toEqual([false, false, true]);
+    expect(result.attempts[0].status).toBe(429);
+  });
+
+  it('should fail over without retrying non-transient errors', async () => {
+    const primary = new FakeProvider('primary');
+    primary.failures.push(new ProviderError('invalid voice', { status: 400 }));
+    const backup = new FakeProvider('backup');
+    const engine = new VoiceEngine({
+      providers: [
+        { name: 'primary', provider: primary, priority: 10 },
+        { name: 'backup', provider: backup, priority: 1 }
+      ],
+      fallback: noDelay
+    });
+
+    const result = await engine.generateVoiceResult({ text: 'fail over', outputFormat: 'wav' });
+
+    expect(result.provider).toBe('backup');
+    expect(result.audio.toString()).toBe('backup');
+    expect(primary.calls).toHaveLength(1);
+  });
+
+  it('should drop provider-specific voice ids when failing over', async () => {
+    const primary = new FakeProvider('primary');
+    primary.failures.push(new Error('down'));
+    const backup = new FakeProvider('backup');
+    const engine = new VoiceEngine({
+      providers: [{ name: 'primary', provider: primary }, { name: 'backup', provider: backup }],
+      fallback: noDelay
+    });
+    const voiceProfile = { provider: 'primary', baseVoiceId: 'voice-123', characteristics: {} } as unknown as VoiceProfile;
+
+    await engine.generateVoiceResult({ text: 'pinned', voiceProfile, outputFormat: 'wav' });
+
+    expect(primary.calls[0].voiceProfile?.baseVoiceId).toBe('voice-123');
+    expect(backup.calls[0].voiceProfile?.baseVoiceId).toBe('');
+  });
+
+  it('should report every attempt when all providers fail', async () => {
+    const primary = new FakeProvider('primary');
+    primary.failures.push(new ProviderError('timeout', { code: 'ETIMEDOUT' }), new ProviderError('timeout', { code: 'ETIMEDOUT' }));
+    const engine = new VoiceEngine({
+      providers: [{ name: 'primary', provider: primary }],
+      fallback: { ...noDelay, maxRetries: 1 }
+    });
+
+    const error = await engine.generateVoiceResult({ text: 'doomed', outputFormat: 'wav' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error.message).toContain('All voice providers failed after 2 attempt(s)');
+    expect(error.attempts).toHaveLength(2);
+    expect(error.code).toBe('ETIMEDOUT');
+  });
+
+  it('should stop calling a provider once its circuit opens', async () => {
+    const flaky = new FakeProvider('flaky');
+    const backup = new FakeProvider('backup');
+    const engine = new VoiceEngine({
+      providers: [{ name: 'flaky', provider: flaky, priority: 10 }, { name: 'backup', provider: backup, priority: 1 }],
+      fallback: { ...noDelay, maxRetries: 0, circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 60000 } }
+    });
+
+    for (let i = 0; i < 3; i++) {
+      flaky.failures.push(new Error('broken'));
+      await engine.generateVoiceResult({ text: `line ${i}`, outputFormat: 'wav' });
+    }
+
+    expect(flaky.calls).toHaveLength(2);
+    expect(backup.calls).toHaveLength(3);
+    expect(engine.getCircuitState('flaky')).toBe('open');
+  });
+
+  it('should not count request errors against the circuit', async () => {
+    const primary = new FakeProvider('primary');
+    const engine = new VoiceEngine({
+      providers: [{ name: 'primary', provider: primary }],
+      fallback: { ...noDelay, circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 60000 } }
+    });
+
+    for (let i = 0; i < 3; i++) {
+      primary.failures.push(new ProviderError('voice not found', { status: 404 }));
+      await expect(engine.generateVoiceResult({ text: `line ${i}`, outputFormat: 'wav' })).rejects.toThrow('voice not found');
+    }
+
+    expect(engine.getCircuitState('primary')).toBe('closed');
+    await engine.generateVoiceResult({ text: 'fine', outputFormat: 'wav' });
+    expect(primary.calls).toHaveLength(4);
+  });
+});
+
+describe('Provider fallback primitives', () => {
+  it('should classify SDK and HTTP errors', () => {
+    expect(ProviderError.from('x', { response: { status: 503 }, message: 'axios' }, 'ctx').retryable).toBe(true);
+    expect(ProviderError.from('x', { status: 401, message: 'openai' }, 'ctx').retryable).toBe(false);
+    expect(ProviderError.from('x', { $metadata: { httpStatusCode: 429 } }, 'ctx').status).toBe(429);
+    expect(ProviderError.from('x', { code: 14, message: 'grpc unavailable' }, 'ctx').status).toBe(503);
+    expect(ProviderError.from('x', Object.assign(new Error('reset'), { code: 'ECONNRESET' }), 'ctx').retryable).toBe(true);
+    expect(ProviderError.from('x', new Error('plain'), 'ctx').message).toBe('ctx: plain');
+  });
+
+  it('should grow backoff exponentially up to the cap', () => {
+    const policy = resolveFallbackPolicy({ initialDelayMs: 100, maxDelayMs: 350, jitter: false });
+    expect([0, 1, 2, 3].map(retry => backoffDelay(policy, retry))).toEqual([100, 200, 350, 350]);
+  });
+
+  it('should half-open a circuit after the reset timeout', () => {
+    let now = 0;
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 1000 }, () => now);
+
+    breaker.recordFailure();
+    expect(breaker.canRequest()).toBe(false);
+
+    now = 1000;
+    expect(breaker.getState()).toBe('half-open');
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('open');
+
+    now = 2000;
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('should let a single trial request through while half-open', () => {
+    let now = 0;
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 1000 }, () => now);
+    breaker.recordFailure();
+
+    now = 1000;
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.canRequest()).toBe(false);
+    breaker.release();
+    expect(breaker.canRequest()).toBe(true);
+    breaker.recordSuccess();
+    expect([breaker.canRequest(), breaker.canRequest()]).toEqual([true, true]);
+  });
+
+  it('should only count provider-side failures', () => {
+    expect(isProviderFailure(new ProviderError('bad voice', { status: 400 }))).toBe(false);
+    expect(isProviderFailure(new ProviderError('slow down', { status: 429 }))).toBe(true);
+    expect(isProviderFailure(new ProviderError('down', { status: 503 }))).toBe(true);
+    expect(isProviderFailure(new Error('socket closed'))).toBe(true);
+    expect(isProviderFailure(new ProviderError('no AAC', { code: 'UNSUPPORTED_FORMAT' }))).toBe(false);
+  });
+});
+
+describe('Capability-based provider routing', () => {
+  const ssmlSupport = { supported: true, dialect: 'google' as const, emphasis: true, breaks: true, prosody: true };
+  let plain: FakeProvider;
+  let ssml: FakeProvider;
+  let unlimited: FakeProvider;
+  let engine: VoiceEngine;
+
+  beforeEach(() => {
+    vi.spyOn(AudioProcessor.prototype, 'process').mockImplementation(async (buffer: Buffer) => buffer);
+
+    plain = new FakeProvider('plain');
+    ssml = new FakeProvider('ssml');
+    ssml.capabilities = { ssml: ssmlSupport, maxCharacters: 5000, wordTimestamps: true };
+    unlimited = new FakeProvider('unlimited');
+    unlimited.capabilities = { maxCharacters: Infinity };
+
+    engine = new VoiceEngine({
+      providers: [
+        { name: 'plain', provider: plain, priority: 30 },
+        { name: 'ssml', provider: ssml, priority: 20 },
+        { name: 'unlimited', provider: unlimited, priority: 10 }
+      ]
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should use the highest priority provider for plain requests', async () => {
+    const result = await engine.generateVoiceResult({ text: 'Just text.', outputFormat: 'mp3' });
+    expect(result.provider).toBe('plain');
+  });
+
+  it('should route emphasis to an SSML-capable provider', async () => {
+    const result = await engine.generateVoiceResult({
+      text: 'This is important.',
+      modulation: {
+        emotion: { type: 'neutral', intensity: 0.5, variations: [] },
+        speed: 1, pitch: 0, volume: 1,
+        emphasis: [{ word: 'important', position: 8, strength: 0.9 }],
+        pauses: []
+      },
+      outputFormat: 'mp3'
+    });
+
+    expect(result.provider).toBe('ssml');
+  });
+
+  it('should route generated SSML to an SSML-capable provider', async () => {
+    const text = generatedSSML('Read the markup, not the tags.');
+    expect(text.startsWith('<?xml')).toBe(true);
+
+    const result = await engine.generateVoiceResult({ text, outputFormat: 'mp3' });
+
+    expect(deriveRequirements({ text, outputFormat: 'mp3' }).ssml).toBe(true);
+    expect(result.provider).toBe('ssml');
+  });
+
+  it('should route long chapters to a provider with a high character limit', async () => {
+    const result = await engine.generateVoiceResult({ text: 'word '.repeat(2400), outputFormat: 'mp3' });
+    expect(result.provider).toBe('unlimited');
+  });
+
+  it('should honour explicit requirements on the request', async () => {
+    const result = await engine.generateVoiceResult({
+      text: 'Timed words.',
+      requirements: { wordTimestamps: true },
+      outputFormat: 'mp3'
+    });
+
+    expect(result.provider).toBe('ssml');
+  });
+
+  it('should report typed capabilities per provider', async () => {
+    const capabilities = await engine.getProviderCapabilities();
+
+    expect(capabilities.ssml.ssml.dialect).toBe('google');
+    expect(capabilities.unlimited.maxCharacters).toBe(Infinity);
+    expect(capabilities.plain.outputFormats).toEqual(['mp3']);
+  });
+
+  it('should derive requirements from the request', () => {
+    expect(deriveRequirements({ text: '<speak>Hi</speak>', outputFormat: 'mp3' })).toMatchObject({ ssml: true, characters: 17 });
+    expect(deriveRequirements({
+      text: 'Hi',
+      emotionMap: [{ start: 0, end: -1, emotion: 'happy', intensity: 0.8 }],
+      outputFormat: 'mp3'
+    }).emotionControl).toBe(true);
+  });
+
+  it('should describe capabilities for display', () => {
+    const lines = describeCapabilities(new SyntheticProvider().getCapabilities());
+    expect(lines).toContain('📏 Max characters: unlimited');
+    expect(lines).toContain('📜 SSML: No');
+  });
+});
+
+describe('VoiceEngine long-text chunking', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should split text over the provider limit and stitch the chunks', async () => {
+    vi.spyOn(AudioProcessor.prototype, 'process').mockImplementation(async (buffer: Buffer) => buffer);
+    const concatenate = vi.spyOn(AudioProcessor.prototype, 'concatenate')
+      .mockImplementation(async (buffers: Buffer[]) => Buffer.concat(buffers));
+
+    const limited = new FakeProvider('limited');
+    limited.capabilities = { maxCharacters: 50 };
+    const engine = new VoiceEngine({ providers: [{ name: 'limited', provider: limited }] });
+    const text = 'The first sentence is here. The second sentence follows it. And a third one ends.';
+
+    const result = await engine.generateVoiceResult({ text, outputFormat: 'wav' });
+
+    expect(limited.calls.length).toBeGreaterThan(1);
+    limited.calls.forEach(call => expect(call.text.length).toBeLessThanOrEqual(45));
+    expect(limited.calls.map(call => call.text).join(' ')).toBe(text);
+    expect(concatenate).toHaveBeenCalledWith(expect.any(Array), expect.objectContaining({ format: 'wav' }));
+    expect(result.attempts).toHaveLength(limited.calls.length);
+  });
+
+  it('should not split SSML input', async () => {
+    vi.spyOn(AudioProcessor.prototype, 'process').mockImplementation(async (buffer: Buffer) => buffer);
+    const limited = new FakeProvider('limited');
+    limited.capabilities = { maxCharacters: 20 };
+    const engine = new VoiceEngine({ providers: [{ name: 'limited', provider: limited }] });
+
+    await engine.generateVoiceResult({ text: '<speak>This markup stays in one piece.</speak>', outputFormat: 'wav' });
+    await engine.generateVoiceResult({ text: generatedSSML('Generated markup stays in one piece too.'), outputFormat: 'wav' });
+
+    expect(limited.calls).toHaveLength(2);
+  });
+});
+
+describe('VoiceEngine render cache', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'engine-cache-'));
+    vi.spyOn(AudioProcessor.prototype, 'process').mockImplementation(async (buffer: Buffer) => buffer);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should serve repeated renders from the cache unless bypassed', async () => {
+    const provider = new FakeProvider('fake');
+    const engine = new VoiceEngine({
+      providers: [{ name: 'fake', provider }],
+      cache: { directory, enabled: true }
+    });
+
+    const first = await engine.generateVoiceResult({ text: 'Cache me.', outputFormat: 'wav' });
+    const second = await engine.generateVoiceResult({ text: 'Cache  me.', outputFormat: 'wav' });
+    const bypassed = await engine.generateVoiceResult({ text: 'Cache me.', outputFormat: 'wav', bypassCache: true });
+
+    expect(first.cacheHit).toBe(false);
+    expect(second.cacheHit).toBe(true);
+    expect(second.audio.equals(first.audio)).toBe(true);
+    expect(bypassed.cacheHit).toBe(false);
+    expect(provider.calls).toHaveLength(2);
+  });
+
+  it('should not cache renders served by a fallback provider', async () => {
+    const primary = new FakeProvider('primary');
+    primary.failures.push(new Error('down'));
+    const backup = new FakeProvider('backup');
+    const engine = new VoiceEngine({
+      providers: [{ name: 'primary', provider: primary, priority: 10 }, { name: 'backup', provider: backup, priority: 1 }],
+      fallback: { initialDelayMs: 0 },
+      cache: { directory, enabled: true }
+    });
+
+    await engine.generateVoiceResult({ text: 'Not cached.', outputFormat: 'wav' });
+    const retry = await engine.generateVoiceResult({ text: 'Not cached.', outputFormat: 'wav' });
+
+    expect(retry.cacheHit).toBe(false);
+    expect(retry.provider).toBe('primary');
+  });
+
+  it('should keep provider word timings in the cache', async () => {
+    const provider = new FakeProvider('timed');
+    provider.capabilities = { wordTimestamps: true };
+    const timed = vi.fn(async () => ({ audio: Buffer.from('timed'), words: [{ word: 'Hi', start: 0.1, end: 0.4, charStart: 0, charEnd: 2 }] }));
+    provider.generateSpeechWithTimestamps = timed;
+    const engine = new VoiceEngine({ providers: [{ name: 'timed', provider }], cache: { directory, enabled: true } });
+
+    await engine.generateVoiceResult({ text: 'Hi', outputFormat: 'mp3', requirements: { wordTimestamps: true } });
+    const cached = await engine.generateVoiceResult({ text: 'Hi', outputFormat: 'mp3', requirements: { wordTimestamps: true } });
+
+    expect(timed).toHaveBeenCalledTimes(1);
+    expect(cached.cacheHit).toBe(true);
+    expect(cached.timestampSource).toBe('provider');
+    expect(cached.words?.[0]).toMatchObject({ word: 'Hi', start: 0.1 });
+  });
+});
+
+describe('VoiceEngine streaming', () => {
+  const collect = async (stream: AsyncIterable<Buffer>) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) chunks.push(Buffer.from(chunk));
+    return chunks;
+  };
+
+  beforeEach(() => {
+    vi.spyOn(AudioProcessor.prototype, 'process').mockImplementation(async (buffer: Buffer) => buffer);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should pass through native provider streams', async () => {
+    const streaming = new FakeProvider('streaming');
+    streaming.capabilities = { streaming: true };
+    streaming.generateSpeechStream = async function* () {
+      yield Buffer.from('one');
+      yield Buffer.from('two');
+    };
+    const engine = new VoiceEngine({ providers: [{ name: 'streaming', provider: streaming }] });
+
+    const chunks = await collect(engine.generateVoiceStream({ text: 'Stream me.', outputFormat: 'mp3' }));
+
+    expect(Buffer.concat(chunks).toString()).toBe('onetwo');
+    expect(streaming.calls).toHaveLength(0);
+  });
+
+  it('should fall through to another provider when a stream fails to start', async () => {
+    const broken = new FakeProvider('broken');
+    broken.capabilities = { streaming: true };
+    broken.generateSpeechStream = async function* () {
+      throw new ProviderError('unavailable', { status: 503 });
+    };
+    const backup = new FakeProvider('backup');
+    backup.capabilities = { streaming: true };
+    backup.generateSpeechStream = async function* () {
+      yield Buffer.from('backup-stream');
+    };
+    const engine = new VoiceEngine({
+      providers: [{ name: 'broken', provider: broken, priority: 10 }, { name: 'backup', provider: backup, priority: 1 }]
+    });
+
+    const chunks = await collect(engine.generateVoiceStream({ text: 'Fallback.', outputFormat: 'mp3' }));
+
+    expect(Buffer.concat(chunks).toString()).toBe('backup-stream');
+  });
+
+  it('should stop the provider stream when the consumer destroys the output', async () => {
+    const streaming = new FakeProvider('streaming');
+    streaming.capabilities = { streaming: true };
+    let closed = false;
+    streaming.generateSpeechStream = async function* () {
+      try {
+        for (let i = 0; ; i++) yield Buffer.from(`chunk ${i}`);
+      } finally {
+        closed = true;
+      }
+    };
+    const engine = new VoiceEngine({ providers: [{ name: 'streaming', provider: streaming }] });
+
+    for await (const chunk of engine.generateVoiceStream({ text: 'Stream me.', outputFormat: 'mp3' })) {
+      expect(chunk.toString()).toBe('chunk 0');
+      break;
+    }
+
+    await vi.waitFor(() => expect(closed).toBe(true));
+  });
+
+  it('should stream MP3 chunk renders as bare frames', async () => {
+    // MPEG-1 Layer III, 128 kbps, 44.1 kHz, mono: 417 byte frames
+    const frame = Buffer.alloc(417);
+    frame.set([0xFF, 0xFB, 0x90, 0xC0]);
+    const info = Buffer.from(frame);
+    info.write('Info', 4 + 17);
+    const id3 = Buffer.alloc(20);
+    id3.write('ID3', 0);
+    id3[9] = 10;
+
+    const provider = new FakeProvider('mp3');
+    provider.generateSpeech = async () => Buffer.concat([id3, info, frame, frame]);
+    const engine = new VoiceEngine({ providers: [{ name: 'mp3', provider }], streamChunkCharacters: 30 });
+
+    const chunks = await collect(engine.generateVoiceStream({ text: 'First sentence of the stream. Second sentence follows.', outputFormat: 'mp3' }));
+    const audio = Buffer.concat(chunks);
+
+    expect(chunks).toHaveLength(2);
+    expect(audio.equals(Buffer.concat([frame, frame, frame, frame]))).toBe(true);
+  });
+
+  it('should not split SSML when streaming chunk renders', async () => {
+    const provider = new FakeProvider('ssml');
+    provider.capabilities = { ssml: { supported: true, emphasis: true, breaks: true, prosody: true } };
+    const engine = new VoiceEngine({ providers: [{ name: 'ssml', provider }], streamChunkCharacters: 30 });
+    const text = generatedSSML('First sentence of the stream. Second sentence follows.');
+
+    await collect(engine.generateVoiceStream({ text, outputFormat: 'mp3' }));
+
+    expect(provider.calls.map(call => call.text)).toEqual([text]);
+  });
+
+  it('should crossfade WAV chunk renders', async () => {
+    const provider = new FakeProvider('wav');
+    provider.generateSpeech = async () => encodeWav(createPcmBuffer(8000, 1, 1000));
+    const engine = new VoiceEngine({ providers: [{ name: 'wav', provider }], streamChunkCharacters: 30 });
+    const text = 'First sentence of the stream. Second sentence follows. Third one ends it.';
+
+    const audio = Buffer.concat(await collect(engine.generateVoiceStream({ text, outputFormat: 'wav' })));
+
+    // Three 1000-frame chunks with two 40 ms (320-frame) overlaps, 16-bit
+    expect(audio.length - 44).toBe((3000 - 640) * 2);
+  });
+
+  it('should stream WAV chunk renders as a single WAV file', async () => {
+    const engine = new VoiceEngine({
+      providers: [{ name: 'synthetic', provider: new SyntheticProvider() }],
+      streamChunkCharacters: 30
+    });
+    const text = 'First sentence of the stream. Second sentence follows. Third one ends it.';
+
+    const chunks = await collect(engine.generateVoiceStream({ text, outputFormat: 'wav' }));
+    const audio = Buffer.concat(chunks);
+    const wav = parseWavHeader(audio);
+
+    expect(chunks.length).toBeGreaterThan(2);
+    expect(audio.toString('ascii', 0, 4)).toBe('RIFF');
+    expect(audio.indexOf('RIFF', 4)).toBe(-1);
+    expect(wav?.sampleRate).toBe(22050);
+    expect(wav?.dataLength).toBe(audio.length - 44);
+  });
+});
+
+describe('VoiceEngine batch generation', () => {
+  beforeEach(() => {
+    vi.spyOn(AudioProcessor.prototype, 'process').mockImplementation(async (buffer: Buffer) => buffer);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('should report a result per item and keep going after failures', async () => {
+    const provider = new FakeProvider('fake');
+    provider.failures.push(new ProviderError('invalid voice', { status: 400 }));
+    const engine = new VoiceEngine({
+      providers: [{ name: 'fake', provider }],
+      fallback: { initialDelayMs: 0, jitter: false }
+    });
+    const completed: number[] = [];
+
+    const result = await engine.runBatch(
+      ['one', 'two', 'three'].map(text => ({ text, outputFormat: 'wav' as const })),
+      { concurrency: 1, onItemComplete: (_item, progress) => completed.push(progress.completed) }
+    );
+
+    expect(result.items.map(item => item.status)).toEqual(['failed', 'success', 'success']);
+    expect(result.items[0]).toMatchObject({ index: 0, provider: 'fake', errorCode: 'HTTP_400', cacheHit: false });
+    expect(result.items[0].errorMessage).toContain('invalid voice');
+    expect(result.items[1]).toMatchObject({ provider: 'fake', audio: Buffer.from('fake') });
+    expect(result).toMatchObject({ succeeded: 2, failed: 1 });
+    expect(completed).toEqual([1, 2, 3]);
+  });
+
+  it('should report the length of the rendered audio', async () => {
+    const provider = new FakeProvider('fake');
+    provider.generateSpeech = async () => encodeWav(createPcmBuffer(8000, 1, 4000));
+    const engine = new VoiceEngine({ providers: [{ name: 'fake', provider }] });
+
+    const result = await engine.runBatch([{ text: 'half a second', outputFormat: 'wav' }]);
+
+    expect(result.items[0].audioDuration).toBeCloseTo(0.5, 3);
+  });
+
+  it('should keep at most `concurrency` items in flight', async () => {
+    const provider = new FakeProvider('slow');
+    let inFlight = 0;
+    let peak = 0;
+    provider.generateSpeech = async () => {
+      peak = Math.max(peak, ++inFlight);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      inFlight--;
+      return Buffer.from('slow');
+    };
+    const engine = new VoiceEngine({ providers: [{ name: 'slow', provider }] });
+
+    const result = await engine.runBatch(
+      Array.from({ length: 6 }, (_, i) => ({ text: `item ${i}`, outputFormat: 'wav' as const })),
+      { concurrency: 3 }
+    );
+
+    expect(result.succeeded).toBe(6);
+    expect(peak).toBe(3);
+  });
+
+  it('should apply per-provider concurrency limits', async () => {
+    const provider = new FakeProvider('limited');
+    let inFlight = 0;
+    let peak = 0;
+    provider.generateSpeech = async () => {
+      peak = Math.max(peak, ++inFlight);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      inFlight--;
+      return Buffer.from('limited');
+    };
+    const engine = new VoiceEngine({ providers: [{ name: 'limited', provider, rateLimit: { maxConcurrent: 1 } }] });
+
+    await engine.runBatch(
+      Array.from({ length: 4 }, (_, i) => ({ text: `item ${i}`, outputFormat: 'wav' as const })),
+      { concurrency: 4 }
+    );
+
+    expect(peak).toBe(1);
+  });
+
+  it('should scope batch rate limits to the run', async () => {
+    const provider = new FakeProvider('shared');
+    let inFlight = 0;
+    let peak = 0;
+    provider.generateSpeech = async () => {
+      peak = Math.max(peak, ++inFlight);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      inFlight--;
+      return Buffer.from('shared');
+    };
+    const engine = new VoiceEngine({ providers: [{ name: 'shared', provider }] });
+    const items = Array.from({ length: 3 }, (_, i) => ({ text: `item ${i}`, outputFormat: 'wav' as const }));
+
+    // A direct call during the run is not held by the run's limit
+    await Promise.all([
+      engine.runBatch(items, { concurrency: 3, rateLimits: { shared: { maxConcurrent: 1 } } }),
+      engine.generateVoiceResult({ text: 'direct', outputFormat: 'wav' })
+    ]);
+    expect(peak).toBe(2);
+
+    peak = 0;
+    await engine.runBatch(items, { concurrency: 3 });
+    expect(peak).toBe(3);
+  });
+
+  it('should keep generateBatch returning empty buffers for failures', async () => {
+    const provider = new FakeProvider('fake');
+    provider.failures.push(new ProviderError('invalid voice', { status: 400 }));
+    const engine = new VoiceEngine({ providers: [{ name: 'fake', provider }] });
+
+    const buffers = await engine.generateBatch([
+      { text: 'bad', outputFormat: 'wav' },
+      { text: 'good', outputFormat: 'wav' }
+    ]);
+
+    expect(buffers.map(buffer => buffer.length)).toEqual([0, 4]);
+  });
+
+  it('should hold requests beyond the per-minute limit until the window moves', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter({ requestsPerMinute: 2 });
+
+    (await limiter.acquire())();
+    (await limiter.acquire())();
+
+    let started = false;
+    const third = limiter.acquire().then(release => {
+      started = true;
+      release();
+    });
+
+    await vi.advanceTimersByTimeAsync(59000);
+    expect(started).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await third;
+    expect(started).toBe(true);
+  });
+});
+
+describe('VoiceEngine result metadata', () => {
+  beforeEach(() => {
+    vi.spyOn(AudioProcessor.prototype, 'process').mockImplementation(async (buffer: Buffer) => buffer);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should measure the audio and estimate word timings', async () => {
+    const engine = new VoiceEngine({ providers: [{ name: 'synthetic', provider: new SyntheticProvider() }] });
+
+    const result = await engine.generateVoiceResult({ text: 'Hello there. How are you?', outputFormat: 'wav' });
+
+    expect(result.format).toBe('wav');
+    expect(result.sampleRate).toBe(22050);
+    expect(result.channels).toBe(1);
+    expect(result.duration).toBeGreaterThan(0);
+    expect(result.timestampSource).toBe('estimated');
+    expect(result.words?.map(w => w.word)).toEqual(['Hello', 'there', 'How', 'are', 'you']);
+    expect(result.words![result.words!.length - 1].end).toBeLessThanOrEqual(result.duration!);
+    expect(result.sentences?.map(s => s.text)).toEqual(['Hello there.', 'How are you?']);
+  });
+
+  it('should use provider timings whenever the provider measures them', async () => {
+    const provider = new FakeProvider('timed');
+    provider.capabilities = { wordTimestamps: true };
+    provider.generateSpeechWithTimestamps = async () => ({
+      audio: Buffer.from('timed'),
+      words: [{ word: 'Hi', start: 0.1, end: 0.4, charStart: 0, charEnd: 2 }]
+    });
+    const engine = new VoiceEngine({ providers: [{ name: 'timed', provider }] });
+
+    const timed = await engine.generateVoiceResult({ text: 'Hi', outputFormat: 'mp3' });
+
+    expect(provider.calls).toHaveLength(0);
+    expect(timed.timestampSource).toBe('provider');
+    expect(timed.words).toEqual([{ word: 'Hi', start: 0.1, end: 0.4, charStart: 0, charEnd: 2 }]);
+    expect(timed.sentences).toEqual([{ text: 'Hi', start: 0.1, end: 0.4, charStart: 0, charEnd: 2 }]);
+  });
+});
+
+describe('VoiceEngine emotion transition joins', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should render segments as WAV, crossfade transitions in PCM and encode once', async () => {
+    vi.spyOn(AudioProcessor.prototype, 'process').mockImplementation(async (buffer: Buffer) => buffer);
+    const decode = vi.spyOn(AudioProcessor.prototype, 'decode').mockImplementation(async (_buffer: Buffer, options: any) => {
+      const pcm = createPcmBuffer(options.sampleRate, options.channels, 1000);
+      pcm.channels[0].fill(0.5);
+      return pcm;
+    });
+    const encode = vi.spyOn(AudioProcessor.prototype, 'encode').mockImplementation(async () => Buffer.from('encoded'));
+    const provider = new FakeProvider('fake');
+    const engine = new VoiceEngine({
+      providers: [{ name: 'fake', provider }],
+      transitionCrossfadeMs: 10
+    });
+
+    const result = await engine.generateVoiceResult({
+      text: 'I was calm but then I got really excited about it',
+      outputFormat: 'mp3',
+      emotionTransitions: [{
+        fromEmotion: { type: 'calm', intensity: 0.6, variations: [] },
+        toEmotion: { type: 'excited', intensity: 0.9, variations: [] },
+        triggers: { time: 500 },
+        duration: 800,
+        curve: 'linear'
+      }]
+    });
+
+    expect(result.audio.toString()).toBe('encoded');
+    expect(provider.calls.every(call => call.outputFormat === 'wav')).toBe(true);
+    expect(decode).toHaveBeenCalledTimes(provider.calls.length);
+    expect(encode).toHaveBeenCalledTimes(1);
+
+    const [joined, format] = encode.mock.calls[0];
+    expect(format).toBe('mp3');
+    // Transition seams overlap by 10 ms at the decode rate; other seams are butt splices
+    const frames = joined.channels[0].length;
+    const overlap = provider.calls.length * 1000 - frames;
+    expect(overlap).toBeGreaterThan(0);
+    expect(overlap % Math.round(joined.sampleRate * 0.01)).toBe(0);
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest';
+import { decodeWav, encodeWav } from '../src/audio/wav-codec.js';
+import { createPcmBuffer, pcmFrameCount } from '../src/audio/pcm-buffer.js';
+import { parseWavHeader, createStreamingWavHeader } from '../src/utils/audio-info.js';
+import { AudioMixer } from '../src/utils/audio-mixer.js';
+import { AudioProcessor } from '../src/utils/audio-processor.js';
+import { LipSyncEngine } from '../src/video/lipsync-engine.js';
+import { constant, segment, track, timeline, MIX_OPTIONS } from './helpers/audio.js';
+
+const RAMP = [-1, -0.5, -0.25, 0, 0.25, 0.5, 0.999];
+
+function ramp(channelCount = 1, sampleRate = 8000) {
+  const pcm = createPcmBuffer(sampleRate, channelCount, RAMP.length);
+  pcm.channels.forEach((data, channel) => data.set(RAMP.map(value => value / (channel + 1))));
+  return pcm;
+}
+
+describe('WAV codec', () => {
+  it.each([
+    [8, 'int', 1 / 64],
+    [16, 'int', 1 / 16384],
+    [24, 'int', 1 / 4194304],
+    [32, 'int', 1e-7],
+    [32, 'float', 0]
+  ] as const)('should round-trip %i-bit %s samples', (bitDepth, sampleFormat, tolerance) => {
+    const wav = encodeWav(ramp(2), { bitDepth, sampleFormat });
+    const decoded = decodeWav(wav);
+
+    expect(decoded.bitDepth).toBe(bitDepth);
+    expect(decoded.sampleFormat).toBe(sampleFormat);
+    expect(decoded.pcm.sampleRate).toBe(8000);
+    expect(decoded.pcm.channels).toHaveLength(2);
+    decoded.pcm.channels.forEach((data, channel) => {
+      Array.from(data).forEach((value, index) => {
+        expect(Math.abs(value - Math.fround(RAMP[index] / (channel + 1)))).toBeLessThanOrEqual(tolerance);
+      });
+    });
+  });
+
+  it('should clip integer output and write a header other readers accept', () => {
+    const pcm = createPcmBuffer(16000, 1, 2);
+    pcm.channels[0].set([1.5, -2]);
+    const wav = encodeWav(pcm);
+
+    expect(wav.readInt16LE(44)).toBe(32767);
+    expect(wav.readInt16LE(46)).toBe(-32768);
+    expect(parseWavHeader(wav)).toMatchObject({ sampleRate: 16000, channels: 1, bitsPerSample: 16, dataOffset: 44, dataLength: 4 });
+  });
+
+  it('should use an extensible header for multichannel audio', () => {
+    const wav = encodeWav(ramp(6), { bitDepth: 24 });
+
+    expect(wav.readUInt16LE(20)).toBe(0xFFFE);
+    expect(wav.readUInt32LE(40)).toBe(0x3F);
+
+    const decoded = decodeWav(wav);
+    expect(decoded.pcm.channels).toHaveLength(6);
+    expect(decoded.pcm.channels[5][0]).toBeCloseTo(-1 / 6, 5);
+  });
+
+  it('should round-trip LIST/INFO and bext metadata', () => {
+    const wav = encodeWav(ramp(), {
+      info: { INAM: 'Scene 4', ISFT: 'voice-gen', ICMT: 'odd' },
+      bext: {
+        description: 'Narration take 2',
+        originator: 'voice-gen',
+        originatorReference: 'ref-42',
+        originationDate: '2026-10-19',
+        originationTime: '09:30:00',
+        timeReference: 2 ** 33 + 5,
+        loudness: { integrated: -23, range: 6.5, truePeak: -1.02, maxMomentary: -18.4, maxShortTerm: -20.1 },
+        codingHistory: 'A=PCM,F=8000,W=16,M=mono\r\n'
+      }
+    });
+
+    const decoded = decodeWav(wav);
+    expect(decoded.info).toEqual({ INAM: 'Scene 4', ISFT: 'voice-gen', ICMT: 'odd' });
+    expect(decoded.bext).toEqual({
+      description: 'Narration take 2',
+      originator: 'voice-gen',
+      originatorReference: 'ref-42',
+      originationDate: '2026-10-19',
+      originationTime: '09:30:00',
+      timeReference: 2 ** 33 + 5,
+      version: 2,
+      loudness: { integrated: -23, range: 6.5, truePeak: -1.02, maxMomentary: -18.4, maxShortTerm: -20.1 },
+      codingHistory: 'A=PCM,F=8000,W=16,M=mono'
+    });
+    expect(decoded.pcm.channels[0]).toHaveLength(RAMP.length);
+  });
+
+  it('should read streamed WAV with an unknown data size', () => {
+    const samples = Buffer.alloc(8);
+    samples.writeFloatLE(0.5, 0);
+    samples.writeFloatLE(-0.5, 4);
+    const decoded = decodeWav(Buffer.concat([createStreamingWavHeader(24000, 1, 32, 3), samples]));
+
+    expect(Array.from(decoded.pcm.channels[0])).toEqual([0.5, -0.5]);
+  });
+
+  it('should reject compressed and malformed files', () => {
+    const mulaw = encodeWav(ramp());
+    mulaw.writeUInt16LE(7, 20);
+
+    expect(() => decodeWav(mulaw)).toThrow('Unsupported WAV encoding');
+    expect(() => decodeWav(Buffer.from('not a wav file at all'))).toThrow('Not a RIFF/WAVE file');
+  });
+
+  it('should decode WAV without ffmpeg when no conversion is needed', async () => {
+    const processor = new AudioProcessor();
+    const pcm = await processor.decode(encodeWav(ramp(2)));
+
+    expect(pcm.channels).toHaveLength(2);
+    expect(pcm.channels[0][1]).toBeCloseTo(-0.5, 4);
+  });
+});
+
+describe('AudioMixer on PCM', () => {
+  it('should place decoded segments on the timeline and write a stereo WAV', async () => {
+    const first = encodeWav(constant(1000, 200, 0.25));
+    const second = encodeWav(constant(1000, 100, 0.5, 2));
+
+    const mixed = await new AudioMixer().mixConversation(
+      [track('a', 0, 200, first), track('b', 150, 100, second)],
+      timeline(300),
+      { ...MIX_OPTIONS, sampleRate: 1000, channels: 2 }
+    );
+
+    const { pcm } = decodeWav(mixed);
+    expect(pcm.sampleRate).toBe(1000);
+    expect(pcm.channels).toHaveLength(2);
+    expect(pcmFrameCount(pcm)).toBe(300);
+    expect(pcm.channels[0][100]).toBeCloseTo(0.25, 3);
+    expect(pcm.channels[1][100]).toBeCloseTo(0.25, 3); // mono copied to both sides
+    expect(pcm.channels[0][175]).toBeCloseTo(0.75, 3); // overlap sums
+    expect(pcm.channels[1][260]).toBe(0);
+  });
+
+  it('should name the line whose audio cannot be decoded', async () => {
+    const processor = new AudioProcessor();
+    processor.decode = async () => { throw new Error('bad data'); };
+    const broken = Buffer.from('garbage');
+
+    await expect(new AudioMixer(processor).mixConversation(
+      [{ ...track('a', 0, 100, broken), segments: [segment('l9', 0, 100, broken)] }],
+      timeline(100),
+      MIX_OPTIONS
+    )).rejects.toThrow('Failed to decode audio for line l9: bad data');
+  });
+});
+
+describe('LipSyncEngine audio analysis', () => {
+  it('should open the mouth with the speech envelope and close it in silence', () => {
+    const pcm = createPcmBuffer(2400, 1, 2400);
+    pcm.channels[0].fill(0.5, 0, 600);
+    pcm.channels[0].fill(0.25, 600, 1200);
+
+    const movements = new LipSyncEngine().analyzeAudioMovements(pcm, 10, 24);
+
+    expect(movements).toHaveLength(24);
+    expect(movements[0]).toMatchObject({ startTime: 10, endTime: 10 + 1 / 24, intensity: 1 });
+    expect(movements[8].intensity).toBeCloseTo(0.5, 5);
+    expect(movements[20].intensity).toBe(0);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import {
+  estimateWordTimestamps,
+  wordsFromCharacterAlignment,
+  wordsFromSpeechMarks,
+  sentenceTimestamps,
+  toSpeechMarks
+} from '../src/utils/word-timing.js';
+import { probeAudio, createStreamingWavHeader } from '../src/utils/audio-info.js';
+
+describe('word timing', () => {
+  it('should spread estimated words over the duration with pauses after punctuation', () => {
+    const text = 'Hello there, wonderful world. Bye!';
+    const words = estimateWordTimestamps(text, { duration: 3 });
+
+    expect(words.map(w => w.word)).toEqual(['Hello', 'there', 'wonderful', 'world', 'Bye']);
+    expect(words[0].start).toBe(0);
+    expect(words[words.length - 1].end).toBeLessThanOrEqual(3);
+    expect(text.slice(words[2].charStart, words[2].charEnd)).toBe('wonderful');
+    // "wonderful" has more syllables than "world"
+    expect(words[2].end - words[2].start).toBeGreaterThan(words[3].end - words[3].start);
+    // A sentence end leaves a gap before the next word
+    expect(words[4].start).toBeGreaterThan(words[3].end);
+  });
+
+  it('should reserve time for explicit pauses and SSML breaks', () => {
+    const plain = estimateWordTimestamps('one two', { duration: 2 });
+    const paused = estimateWordTimestamps('one two', { duration: 2, pauses: [{ position: 4, duration: 1000 }] });
+    const ssml = estimateWordTimestamps('<speak>one <break time="1s"/>two</speak>', { duration: 2 });
+
+    expect(paused[1].start - paused[0].end).toBeCloseTo(1, 2);
+    expect(paused[0].end).toBeLessThan(plain[0].end);
+    expect(ssml.map(w => w.word)).toEqual(['one', 'two']);
+    expect(ssml[1].start - ssml[0].end).toBeCloseTo(1, 2);
+  });
+
+  it('should group character alignment into words', () => {
+    const text = 'Hi, you.';
+    const words = wordsFromCharacterAlignment(text, {
+      characters: text.split(''),
+      startTimes: [0, 0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7],
+      endTimes: [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8]
+    });
+
+    expect(words).toEqual([
+      { word: 'Hi', start: 0, end: 0.2, charStart: 0, charEnd: 2 },
+      { word: 'you', start: 0.4, end: 0.7, charStart: 4, charEnd: 7 }
+    ]);
+  });
+
+  it('should end speech-mark words at the next word or the duration', () => {
+    const words = wordsFromSpeechMarks('Good morning all', [
+      { time: 0, type: 'word', value: 'Good' },
+      { time: 400, type: 'word', value: 'morning' },
+      { time: 900, type: 'word', value: 'all' },
+      { time: 0, type: 'sentence', value: 'Good morning all' }
+    ], 1.5);
+
+    expect(words.map(w => [w.word, w.start, w.end, w.charStart])).toEqual([
+      ['Good', 0, 0.4, 0],
+      ['morning', 0.4, 0.9, 5],
+      ['all', 0.9, 1.5, 13]
+    ]);
+  });
+
+  it('should derive sentences and speech marks from words', () => {
+    const text = 'First one. Second one!';
+    const words = estimateWordTimestamps(text, { duration: 2 });
+    const sentences = sentenceTimestamps(text, words);
+
+    expect(sentences.map(s => s.text)).toEqual(['First one.', 'Second one!']);
+    expect(sentences[1].start).toBe(words[2].start);
+    expect(sentences[1].end).toBe(words[3].end);
+
+    const marks = toSpeechMarks(words, sentences);
+    expect(marks.filter(m => m.type === 'sentence')).toHaveLength(2);
+    expect(marks[0]).toMatchObject({ type: 'sentence', time: 0, value: 'First one.' });
+  });
+});
+
+describe('probeAudio', () => {
+  it('should measure WAV duration from the data size', () => {
+    const header = createStreamingWavHeader(16000, 1, 16);
+    const info = probeAudio(Buffer.concat([header, Buffer.alloc(16000)]));
+
+    expect(info).toEqual({ format: 'wav', sampleRate: 16000, channels: 1, duration: 0.5 });
+  });
+
+  it('should count MP3 frames after an ID3 tag', () => {
+    // MPEG-1 Layer III, 128 kbps, 44.1 kHz, mono: 417 byte frames of 1152 samples
+    const frame = Buffer.alloc(417);
+    frame.set([0xFF, 0xFB, 0x90, 0xC0]);
+    const id3 = Buffer.alloc(20);
+    id3.write('ID3', 0);
+    id3[9] = 10;
+
+    const info = probeAudio(Buffer.concat([id3, ...Array.from({ length: 10 }, () => frame)]));
+
+    expect(info?.format).toBe('mp3');
+    expect(info?.sampleRate).toBe(44100);
+    expect(info?.channels).toBe(1);
+    expect(info?.duration).toBeCloseTo(11520 / 44100, 5);
+  });
+
+  it('should count ADTS AAC frames', () => {
+    // 24 kHz stereo, 1024 samples per 100 byte frame
+    const frame = Buffer.alloc(100);
+    frame.set([0xFF, 0xF1, 0x58, 0x80, (100 >> 3) & 0xFF, ((100 & 0x07) << 5) | 0x1F, 0xFC]);
+
+    const info = probeAudio(Buffer.concat(Array.from({ length: 24 }, () => frame)));
+
+    expect(info).toMatchObject({ format: 'aac', sampleRate: 24000, channels: 2 });
+    expect(info?.duration).toBeCloseTo(24 * 1024 / 24000, 5);
+  });
+
+  it('should return null for unknown data', () => {
+    expect(probeAudio(Buffer.from('not audio at all'))).toBeNull();
+  });
+});
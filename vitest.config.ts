@@ -4,6 +4,10 @@ export default defineConfig({
   test: {
     environment: 'node',
     globals: true,
+    // Keep test renders out of the on-disk render cache
+    env: {
+      CACHE_ENABLED: 'false'
+    },
     coverage: {
       reporter: ['text', 'json', 'html'],
       exclude: ['node_modules/', 'dist/', 'tests/']